@@ -0,0 +1,19 @@
+-- Migration 002: Server-side key custody
+
+-- Custodial wallet keys (envelope encryption)
+-- The private key is encrypted with a per-user data key, and the data key is
+-- encrypted with ENCRYPTION_MASTER_KEY. Both use AES-256-GCM with the wallet
+-- address as associated data.
+CREATE TABLE IF NOT EXISTS custodial_keys (
+    wallet_address VARCHAR(42) PRIMARY KEY REFERENCES users(wallet_address) ON DELETE CASCADE,
+    encrypted_private_key TEXT NOT NULL,
+    encrypted_data_key TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    last_used_at TIMESTAMP
+);
+
+-- Access tokens now reference a session instead of carrying key material.
+-- Sessions issued alongside key-bearing tokens are dropped so users sign in again.
+DELETE FROM sessions;
+
+COMMENT ON TABLE custodial_keys IS 'Encrypted wallet keys held by the key custody vault';
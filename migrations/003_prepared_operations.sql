@@ -0,0 +1,23 @@
+-- Migration 003: Client-side signing (prepare / submit)
+
+-- Operations prepared by the backend and awaiting a client signature
+CREATE TABLE IF NOT EXISTS prepared_operations (
+    operation_id VARCHAR(66) PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    operation_type VARCHAR(50) NOT NULL
+        CHECK (operation_type IN ('add_record', 'grant_permission', 'revoke_permission', 'rotate_key')),
+    signing_method VARCHAR(20) NOT NULL CHECK (signing_method IN ('transaction', 'eip712')),
+    payload JSONB NOT NULL,
+    status VARCHAR(20) NOT NULL DEFAULT 'prepared'
+        CHECK (status IN ('prepared', 'submitted', 'failed')),
+    transaction_hash VARCHAR(66),
+    error TEXT,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    submitted_at TIMESTAMP
+);
+
+CREATE INDEX idx_prepared_operations_wallet ON prepared_operations(wallet_address);
+CREATE INDEX idx_prepared_operations_expires ON prepared_operations(expires_at);
+
+COMMENT ON TABLE prepared_operations IS 'Unsigned transactions and EIP-712 payloads awaiting client signatures';
@@ -0,0 +1,13 @@
+-- Migration 004: Sign-In with Ethereum (EIP-4361)
+
+-- Single-use nonces handed out by GET /auth/nonce
+CREATE TABLE IF NOT EXISTS auth_nonces (
+    nonce VARCHAR(64) PRIMARY KEY,
+    expires_at TIMESTAMP NOT NULL,
+    consumed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_auth_nonces_expires ON auth_nonces(expires_at);
+
+COMMENT ON TABLE auth_nonces IS 'Single-use nonces for Sign-In with Ethereum';
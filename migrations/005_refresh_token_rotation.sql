@@ -0,0 +1,32 @@
+-- Migration 005: Rotating refresh tokens and device sessions
+-- Each session is a refresh token family; every refresh issues a new token and
+-- marks the old one rotated. Presenting a rotated token revokes the whole family.
+
+-- Device metadata and revocation state
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS user_agent TEXT;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS ip_address VARCHAR(45);
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP;
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS revoked_reason VARCHAR(50);
+
+-- Refresh tokens (SHA-256 hashes only) belonging to a session family
+CREATE TABLE IF NOT EXISTS refresh_tokens (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    token_hash CHAR(64) UNIQUE NOT NULL,
+    parent_id INTEGER REFERENCES refresh_tokens(id) ON DELETE SET NULL,
+    rotated_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_refresh_tokens_session ON refresh_tokens(session_id);
+
+-- Move existing plaintext tokens into the family table
+INSERT INTO refresh_tokens (session_id, token_hash)
+SELECT id, encode(sha256(convert_to(refresh_token, 'UTF8')), 'hex')
+FROM sessions
+WHERE refresh_token IS NOT NULL;
+
+ALTER TABLE sessions ALTER COLUMN refresh_token DROP NOT NULL;
+UPDATE sessions SET refresh_token = NULL;
+
+COMMENT ON TABLE refresh_tokens IS 'Rotating refresh tokens grouped into session families';
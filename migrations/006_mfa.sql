@@ -0,0 +1,52 @@
+-- Migration 006: Multi-factor authentication (TOTP, WebAuthn, recovery codes)
+
+-- Enrolled second factors
+CREATE TABLE IF NOT EXISTS mfa_factors (
+    id SERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    factor_type VARCHAR(20) NOT NULL CHECK (factor_type IN ('totp', 'webauthn')),
+    label VARCHAR(100),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'active')),
+    -- TOTP: secret encrypted under a master-key subkey, last accepted time step
+    encrypted_secret TEXT,
+    last_time_step BIGINT,
+    -- WebAuthn: credential ID and COSE public key (base64url), signature counter
+    credential_id TEXT UNIQUE,
+    public_key TEXT,
+    sign_count BIGINT DEFAULT 0,
+    transports JSONB,
+    created_at TIMESTAMP DEFAULT NOW(),
+    last_used_at TIMESTAMP
+);
+
+CREATE INDEX idx_mfa_factors_wallet ON mfa_factors(wallet_address);
+
+-- Single-use recovery codes (SHA-256 hashes only)
+CREATE TABLE IF NOT EXISTS mfa_recovery_codes (
+    id SERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    code_hash CHAR(64) NOT NULL,
+    used_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_mfa_recovery_codes_wallet ON mfa_recovery_codes(wallet_address);
+
+-- Outstanding WebAuthn challenges
+CREATE TABLE IF NOT EXISTS mfa_challenges (
+    id SERIAL PRIMARY KEY,
+    session_id INTEGER NOT NULL REFERENCES sessions(id) ON DELETE CASCADE,
+    purpose VARCHAR(20) NOT NULL CHECK (purpose IN ('registration', 'authentication')),
+    challenge TEXT NOT NULL,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_mfa_challenges_session ON mfa_challenges(session_id);
+
+-- Sessions remember when the second factor was last presented
+ALTER TABLE sessions ADD COLUMN IF NOT EXISTS mfa_verified_at TIMESTAMP;
+
+COMMENT ON TABLE mfa_factors IS 'TOTP and WebAuthn second factors';
+COMMENT ON TABLE mfa_recovery_codes IS 'Hashed single-use MFA recovery codes';
+COMMENT ON TABLE mfa_challenges IS 'Pending WebAuthn registration and authentication challenges';
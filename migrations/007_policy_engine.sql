@@ -0,0 +1,26 @@
+-- Migration 007: Policy engine roles and role assignments
+
+-- Expand the set of primary roles
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (
+    role IN ('patient', 'doctor', 'nurse', 'pharmacist', 'researcher', 'auditor', 'guardian', 'admin')
+);
+
+-- Additional roles granted by admins, optionally scoped by department / facility
+CREATE TABLE IF NOT EXISTS role_assignments (
+    id SERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    role VARCHAR(50) NOT NULL CHECK (
+        role IN ('patient', 'doctor', 'nurse', 'pharmacist', 'researcher', 'auditor', 'guardian', 'admin')
+    ),
+    department VARCHAR(100),
+    facility VARCHAR(100),
+    granted_by VARCHAR(42) NOT NULL REFERENCES users(wallet_address),
+    expires_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_role_assignments_wallet ON role_assignments(wallet_address);
+
+COMMENT ON TABLE role_assignments IS 'Admin-managed role grants with department/facility attributes';
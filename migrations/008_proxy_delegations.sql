@@ -0,0 +1,23 @@
+-- Migration 008: Proxy delegations (parents, legal guardians, power of attorney)
+
+CREATE TABLE IF NOT EXISTS proxy_delegations (
+    id SERIAL PRIMARY KEY,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    proxy_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    relationship VARCHAR(30) NOT NULL CHECK (
+        relationship IN ('parent', 'legal_guardian', 'power_of_attorney')
+    ),
+    scopes TEXT[] NOT NULL,
+    created_by VARCHAR(42) NOT NULL REFERENCES users(wallet_address),
+    proof_documents JSONB NOT NULL DEFAULT '[]',
+    expires_at TIMESTAMP,
+    revoked_at TIMESTAMP,
+    revoked_by VARCHAR(42) REFERENCES users(wallet_address),
+    created_at TIMESTAMP DEFAULT NOW(),
+    CHECK (patient_wallet <> proxy_wallet)
+);
+
+CREATE INDEX idx_proxy_delegations_proxy ON proxy_delegations(proxy_wallet);
+CREATE INDEX idx_proxy_delegations_patient ON proxy_delegations(patient_wallet);
+
+COMMENT ON TABLE proxy_delegations IS 'Proxies allowed to act on a patient''s behalf, with scopes and expiry';
@@ -0,0 +1,69 @@
+-- Migration 009: Social / threshold account recovery
+
+-- After a recovery the ECIES encryption key is rotated away from the wallet key.
+-- It is envelope-encrypted like the wallet key, under its own data key.
+ALTER TABLE custodial_keys ADD COLUMN IF NOT EXISTS encrypted_encryption_key TEXT;
+ALTER TABLE custodial_keys ADD COLUMN IF NOT EXISTS encrypted_encryption_data_key TEXT;
+
+-- A user's recovery setup: the wallet key split into Shamir shares
+CREATE TABLE IF NOT EXISTS recovery_configs (
+    id SERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    threshold SMALLINT NOT NULL CHECK (threshold >= 2),
+    share_count SMALLINT NOT NULL CHECK (share_count >= threshold),
+    status VARCHAR(20) NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'superseded', 'used')),
+    created_at TIMESTAMP DEFAULT NOW(),
+    retired_at TIMESTAMP
+);
+
+CREATE UNIQUE INDEX idx_recovery_configs_active ON recovery_configs(wallet_address) WHERE status = 'active';
+
+-- One share per guardian or recovery device, ECIES-encrypted to the holder's public key
+CREATE TABLE IF NOT EXISTS recovery_shares (
+    id SERIAL PRIMARY KEY,
+    config_id INTEGER NOT NULL REFERENCES recovery_configs(id) ON DELETE CASCADE,
+    share_index SMALLINT NOT NULL,
+    guardian_wallet VARCHAR(42) REFERENCES users(wallet_address) ON DELETE CASCADE,
+    device_label VARCHAR(100),
+    recipient_public_key VARCHAR(132) NOT NULL,
+    encrypted_share TEXT NOT NULL,
+    share_digest CHAR(64) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE(config_id, share_index),
+    CHECK ((guardian_wallet IS NULL) <> (device_label IS NULL))
+);
+
+CREATE INDEX idx_recovery_shares_guardian ON recovery_shares(guardian_wallet);
+
+-- Recovery ceremonies
+CREATE TABLE IF NOT EXISTS recovery_sessions (
+    id SERIAL PRIMARY KEY,
+    config_id INTEGER NOT NULL REFERENCES recovery_configs(id) ON DELETE CASCADE,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (
+        status IN ('pending', 'completed', 'cancelled', 'expired', 'failed')
+    ),
+    failure_reason TEXT,
+    rotation_tx_hash VARCHAR(66),
+    rewrapped_keys INTEGER,
+    expires_at TIMESTAMP NOT NULL,
+    completed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE UNIQUE INDEX idx_recovery_sessions_pending ON recovery_sessions(wallet_address) WHERE status = 'pending';
+
+-- Shares released for a ceremony, sealed under a master-key subkey until reconstruction
+CREATE TABLE IF NOT EXISTS recovery_approvals (
+    session_id INTEGER NOT NULL REFERENCES recovery_sessions(id) ON DELETE CASCADE,
+    share_id INTEGER NOT NULL REFERENCES recovery_shares(id) ON DELETE CASCADE,
+    submitted_by VARCHAR(42) NOT NULL REFERENCES users(wallet_address),
+    sealed_share TEXT,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (session_id, share_id)
+);
+
+COMMENT ON TABLE recovery_configs IS 'Shamir recovery setups (threshold of guardian/device shares)';
+COMMENT ON TABLE recovery_shares IS 'Recovery shares encrypted to guardians and recovery devices';
+COMMENT ON TABLE recovery_sessions IS 'Recovery ceremonies and their outcome';
+COMMENT ON TABLE recovery_approvals IS 'Shares released by holders during a ceremony';
@@ -0,0 +1,32 @@
+-- Migration 010: Background jobs and re-keying after key rotation
+
+-- Background jobs processed by the in-process job runner
+CREATE TABLE IF NOT EXISTS jobs (
+    id SERIAL PRIMARY KEY,
+    job_type VARCHAR(50) NOT NULL,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'queued' CHECK (
+        status IN ('queued', 'running', 'completed', 'failed')
+    ),
+    payload JSONB NOT NULL DEFAULT '{}',
+    progress JSONB NOT NULL DEFAULT '{}',
+    result JSONB,
+    error TEXT,
+    attempts INTEGER NOT NULL DEFAULT 0,
+    created_by VARCHAR(42) REFERENCES users(wallet_address),
+    created_at TIMESTAMP DEFAULT NOW(),
+    started_at TIMESTAMP,
+    finished_at TIMESTAMP
+);
+
+CREATE INDEX idx_jobs_queue ON jobs(status, created_at);
+CREATE INDEX idx_jobs_wallet ON jobs(wallet_address);
+
+-- Key version each wrapped key is addressed to (NULL: unknown, predates tracking)
+ALTER TABLE permissions ADD COLUMN IF NOT EXISTS key_version INTEGER;
+
+-- The patient's own copy of each record key, wrapped to their ECIES key
+ALTER TABLE records ADD COLUMN IF NOT EXISTS wrapped_key TEXT;
+ALTER TABLE records ADD COLUMN IF NOT EXISTS key_version INTEGER;
+
+COMMENT ON TABLE jobs IS 'Background jobs (re-keying, ...) with progress';
@@ -0,0 +1,27 @@
+-- Migration 011: Key revocation cascade and notifications
+
+-- Grants wrapped to a revoked key are suspended until the grantor re-grants
+ALTER TABLE permissions ADD COLUMN IF NOT EXISTS suspended BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE permissions ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP;
+ALTER TABLE permissions ADD COLUMN IF NOT EXISTS suspension_reason VARCHAR(50);
+
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS suspended BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP;
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS suspension_reason VARCHAR(50);
+
+CREATE INDEX idx_permissions_suspended ON permissions(grantee_wallet, suspended);
+
+-- In-app notifications
+CREATE TABLE IF NOT EXISTS notifications (
+    id SERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    type VARCHAR(50) NOT NULL,
+    message TEXT NOT NULL,
+    data JSONB NOT NULL DEFAULT '{}',
+    read_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_notifications_wallet ON notifications(wallet_address, created_at DESC);
+
+COMMENT ON TABLE notifications IS 'In-app notifications (suspended grants, ...)';
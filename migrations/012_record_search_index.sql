@@ -0,0 +1,16 @@
+-- Migration 012: Searchable encryption index for records
+-- Each token is HMAC-SHA256(per-patient key, "<kind>:<value>"), so the index reveals
+-- neither the values nor which records of different patients share them
+
+CREATE TABLE IF NOT EXISTS record_search_tokens (
+    id SERIAL PRIMARY KEY,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    record_id INTEGER NOT NULL,
+    token CHAR(64) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (patient_wallet, record_id, token)
+);
+
+CREATE INDEX idx_record_search_tokens_lookup ON record_search_tokens(patient_wallet, token);
+
+COMMENT ON TABLE record_search_tokens IS 'Keyed-hash search tokens per record (type, codes, dates, encounter, text)';
@@ -0,0 +1,27 @@
+-- Migration 013: Record version history
+-- Updates keep the record's AES key, so every version stays readable by existing grantees
+
+ALTER TABLE records ADD COLUMN IF NOT EXISTS version INTEGER NOT NULL DEFAULT 1;
+
+CREATE TABLE IF NOT EXISTS record_versions (
+    id SERIAL PRIMARY KEY,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    record_id INTEGER NOT NULL,
+    version INTEGER NOT NULL,
+    storage_pointer TEXT NOT NULL,
+    content_digest VARCHAR(66) NOT NULL,
+    transaction_hash VARCHAR(66),
+    created_by VARCHAR(42),
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (patient_wallet, record_id, version)
+);
+
+CREATE INDEX idx_record_versions_record ON record_versions(patient_wallet, record_id);
+
+-- Existing records become version 1 (their registration transaction was not cached)
+INSERT INTO record_versions (patient_wallet, record_id, version, storage_pointer, content_digest, created_by, created_at)
+SELECT patient_wallet, record_id, 1, storage_pointer, content_digest, patient_wallet, created_at
+FROM records
+ON CONFLICT DO NOTHING;
+
+COMMENT ON TABLE record_versions IS 'Every stored version of a record (pointer, digest, transaction)';
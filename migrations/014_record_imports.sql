@@ -0,0 +1,42 @@
+-- Migration 014: Bulk record import (FHIR Bundle / NDJSON)
+
+CREATE TABLE IF NOT EXISTS record_imports (
+    id SERIAL PRIMARY KEY,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    format VARCHAR(20) NOT NULL CHECK (format IN ('bundle', 'ndjson')),
+    entry_count INTEGER NOT NULL,
+    job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL,
+    created_by VARCHAR(42) REFERENCES users(wallet_address),
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_record_imports_patient ON record_imports(patient_wallet);
+
+-- One row per imported resource; the resource is kept encrypted under a master subkey
+-- until it is registered, so an interrupted import resumes from the last completed step
+CREATE TABLE IF NOT EXISTS record_import_entries (
+    id SERIAL PRIMARY KEY,
+    import_id INTEGER NOT NULL REFERENCES record_imports(id) ON DELETE CASCADE,
+    entry_index INTEGER NOT NULL,
+    resource_type VARCHAR(64),
+    encrypted_resource TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending' CHECK (
+        status IN ('pending', 'invalid', 'stored', 'submitted', 'registered', 'failed')
+    ),
+    issues JSONB,
+    error TEXT,
+    storage_pointer TEXT,
+    content_digest VARCHAR(66),
+    wrapped_key TEXT,
+    key_version INTEGER,
+    transaction_hash VARCHAR(66),
+    record_id INTEGER,
+    updated_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (import_id, entry_index)
+);
+
+CREATE TRIGGER update_record_import_entries_updated_at BEFORE UPDATE ON record_import_entries
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+COMMENT ON TABLE record_imports IS 'Bulk record imports (FHIR Bundle or NDJSON) processed as jobs';
+COMMENT ON TABLE record_import_entries IS 'Per-resource import status, storage and registration';
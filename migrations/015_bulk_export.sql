@@ -0,0 +1,22 @@
+-- Migration 015: FHIR Bulk Data export files
+-- Each NDJSON file is encrypted under its own AES key before it reaches storage; the key is
+-- kept encrypted under a master subkey and wiped when the file expires, which makes the
+-- stored blob unreadable
+
+CREATE TABLE IF NOT EXISTS export_files (
+    id SERIAL PRIMARY KEY,
+    job_id INTEGER NOT NULL REFERENCES jobs(id) ON DELETE CASCADE,
+    kind VARCHAR(10) NOT NULL CHECK (kind IN ('output', 'error')),
+    resource_type VARCHAR(64) NOT NULL,
+    resource_count INTEGER NOT NULL,
+    storage_pointer TEXT NOT NULL,
+    content_digest VARCHAR(66) NOT NULL,
+    encrypted_key TEXT,
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_export_files_job ON export_files(job_id);
+CREATE INDEX idx_export_files_expiry ON export_files(expires_at) WHERE encrypted_key IS NOT NULL;
+
+COMMENT ON TABLE export_files IS 'Encrypted NDJSON output of FHIR $export jobs';
@@ -0,0 +1,40 @@
+-- Migration 016: Chunked binary attachments
+-- An attachment is a record whose blob is a chunk manifest; the chunks are encrypted under
+-- the record key with per-chunk IVs and auth tags
+
+ALTER TABLE records ADD COLUMN IF NOT EXISTS kind VARCHAR(20) NOT NULL DEFAULT 'fhir'
+    CHECK (kind IN ('fhir', 'attachment'));
+
+-- Resumable uploads; the attachment key is kept under a master subkey until completion
+CREATE TABLE IF NOT EXISTS attachment_uploads (
+    id VARCHAR(36) PRIMARY KEY,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    created_by VARCHAR(42) NOT NULL REFERENCES users(wallet_address),
+    content_type VARCHAR(255) NOT NULL,
+    filename VARCHAR(255),
+    size BIGINT NOT NULL,
+    chunk_size INTEGER NOT NULL,
+    total_chunks INTEGER NOT NULL,
+    encrypted_key TEXT,
+    status VARCHAR(20) NOT NULL DEFAULT 'uploading' CHECK (status IN ('uploading', 'completed')),
+    record_id INTEGER,
+    transaction_hash VARCHAR(66),
+    expires_at TIMESTAMP NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    completed_at TIMESTAMP
+);
+
+CREATE INDEX idx_attachment_uploads_patient ON attachment_uploads(patient_wallet);
+
+CREATE TABLE IF NOT EXISTS attachment_chunks (
+    upload_id VARCHAR(36) NOT NULL REFERENCES attachment_uploads(id) ON DELETE CASCADE,
+    chunk_index INTEGER NOT NULL,
+    storage_pointer TEXT NOT NULL,
+    content_digest VARCHAR(66) NOT NULL,
+    size INTEGER NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (upload_id, chunk_index)
+);
+
+COMMENT ON TABLE attachment_uploads IS 'Resumable chunked uploads of binary attachments';
+COMMENT ON TABLE attachment_chunks IS 'Encrypted chunks received for an attachment upload';
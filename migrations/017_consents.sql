@@ -0,0 +1,30 @@
+-- Migration 017: Patient consents modelled as FHIR Consent
+-- An active consent is compiled into on-chain grants; each grant it creates is linked back
+-- to it so that withdrawing or changing the consent revokes exactly those grants
+
+CREATE TABLE IF NOT EXISTS consents (
+    id SERIAL PRIMARY KEY,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL CHECK (
+        status IN ('draft', 'proposed', 'active', 'rejected', 'inactive', 'entered-in-error')
+    ),
+    resource JSONB NOT NULL,
+    version INTEGER NOT NULL DEFAULT 1,
+    created_by VARCHAR(42) REFERENCES users(wallet_address),
+    updated_by VARCHAR(42) REFERENCES users(wallet_address),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    withdrawn_at TIMESTAMP
+);
+
+CREATE INDEX idx_consents_patient ON consents(patient_wallet);
+
+CREATE TRIGGER update_consents_updated_at BEFORE UPDATE ON consents
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE permissions ADD COLUMN IF NOT EXISTS consent_id INTEGER REFERENCES consents(id) ON DELETE SET NULL;
+ALTER TABLE permissions ADD COLUMN IF NOT EXISTS purpose_of_use TEXT[];
+
+CREATE INDEX idx_permissions_consent ON permissions(consent_id);
+
+COMMENT ON TABLE consents IS 'Patient consents (FHIR Consent) compiled into on-chain permissions';
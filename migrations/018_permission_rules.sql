@@ -0,0 +1,29 @@
+-- Migration 018: Rule-based permissions
+-- A rule grants a user access to a patient's records matching a resource type, category or
+-- tag; matching records are granted one on-chain permission each, including, when the rule
+-- covers future records, records added after the rule was created
+
+CREATE TABLE IF NOT EXISTS permission_rules (
+    id SERIAL PRIMARY KEY,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    grantee_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    resource_type VARCHAR(64),
+    category VARCHAR(255),
+    tag VARCHAR(255),
+    include_existing BOOLEAN NOT NULL DEFAULT TRUE,
+    include_future BOOLEAN NOT NULL DEFAULT TRUE,
+    expiration TIMESTAMP NOT NULL,
+    revoked BOOLEAN NOT NULL DEFAULT FALSE,
+    revoked_at TIMESTAMP,
+    created_by VARCHAR(42) REFERENCES users(wallet_address),
+    created_at TIMESTAMP DEFAULT NOW(),
+    CHECK (resource_type IS NOT NULL OR category IS NOT NULL OR tag IS NOT NULL)
+);
+
+CREATE INDEX idx_permission_rules_patient ON permission_rules(patient_wallet, revoked);
+
+ALTER TABLE permissions ADD COLUMN IF NOT EXISTS rule_id INTEGER REFERENCES permission_rules(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_permissions_rule ON permissions(rule_id);
+
+COMMENT ON TABLE permission_rules IS 'Rule-based grants by resource type, category or tag';
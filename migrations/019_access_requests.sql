@@ -0,0 +1,53 @@
+-- Migration 019: Provider-initiated access requests
+-- A provider asks a patient for access to named records or to records matching a resource
+-- type, category or tag; the patient approves, partly approves or denies. Every change of
+-- state is kept in access_request_events
+
+CREATE TABLE IF NOT EXISTS access_requests (
+    id SERIAL PRIMARY KEY,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    requester_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    record_ids INTEGER[],
+    resource_type VARCHAR(64),
+    category VARCHAR(255),
+    tag VARCHAR(255),
+    purpose VARCHAR(255) NOT NULL,
+    reason TEXT,
+    duration_seconds INTEGER NOT NULL CHECK (duration_seconds > 0),
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'approved', 'partially_approved', 'denied', 'cancelled')),
+    decision_note TEXT,
+    decided_by VARCHAR(42) REFERENCES users(wallet_address),
+    decided_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW(),
+    CHECK (
+        record_ids IS NOT NULL OR resource_type IS NOT NULL OR category IS NOT NULL
+        OR tag IS NOT NULL
+    )
+);
+
+CREATE INDEX idx_access_requests_patient ON access_requests(patient_wallet, status);
+CREATE INDEX idx_access_requests_requester ON access_requests(requester_wallet, status);
+
+CREATE TRIGGER update_access_requests_updated_at BEFORE UPDATE ON access_requests
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- State history of each request
+CREATE TABLE IF NOT EXISTS access_request_events (
+    id SERIAL PRIMARY KEY,
+    request_id INTEGER NOT NULL REFERENCES access_requests(id) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL,
+    actor_wallet VARCHAR(42) REFERENCES users(wallet_address),
+    details JSONB NOT NULL DEFAULT '{}',
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_access_request_events_request ON access_request_events(request_id);
+
+ALTER TABLE permissions ADD COLUMN IF NOT EXISTS access_request_id INTEGER REFERENCES access_requests(id) ON DELETE SET NULL;
+
+CREATE INDEX idx_permissions_access_request ON permissions(access_request_id);
+
+COMMENT ON TABLE access_requests IS 'Provider-initiated requests for access to patient records';
+COMMENT ON TABLE access_request_events IS 'State history of access requests';
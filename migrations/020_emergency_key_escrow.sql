@@ -0,0 +1,26 @@
+-- Migration 020: Emergency key escrow
+-- Each record key is split 2-of-3 (Shamir) when the record is added: one share for the HSM
+-- stand-in and one for each of the two physicians an emergency grant needs. The key is
+-- reconstructed and wrapped to both physicians once the second physician approves
+
+CREATE TABLE IF NOT EXISTS record_key_escrow (
+    patient_wallet VARCHAR(42) NOT NULL,
+    record_id INTEGER NOT NULL,
+    hsm_share TEXT NOT NULL,
+    approver1_share TEXT NOT NULL,
+    approver2_share TEXT NOT NULL,
+    key_digest VARCHAR(64) NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    PRIMARY KEY (patient_wallet, record_id),
+    FOREIGN KEY (patient_wallet, record_id)
+        REFERENCES records(patient_wallet, record_id) ON DELETE CASCADE
+);
+
+-- The second physician is only known once the request is approved
+ALTER TABLE emergency_grants ALTER COLUMN physician2_wallet DROP NOT NULL;
+
+-- wrapped_key holds the first physician's copy of the released record key
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS physician2_wrapped_key TEXT;
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS key_released_at TIMESTAMP;
+
+COMMENT ON TABLE record_key_escrow IS 'Sealed Shamir shares of record keys for emergency access';
@@ -0,0 +1,24 @@
+-- Migration 021: Emergency grant state machine
+-- requested → cosigned (the approving physician's on-chain requestEmergencyAccess) →
+-- confirmed (the requesting physician's on-chain confirmEmergencyAccess) → expired / revoked.
+-- emergency_id is the contract's ID, used to reconcile with EmergencyAccess* events
+
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS status VARCHAR(20) NOT NULL DEFAULT 'requested'
+    CHECK (status IN ('requested', 'cosigned', 'confirmed', 'expired', 'revoked'));
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS emergency_id VARCHAR(66);
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS cosigned_at TIMESTAMP;
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS cosign_transaction_hash VARCHAR(66);
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS confirm_transaction_hash VARCHAR(66);
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS revoked_at TIMESTAMP;
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS revoked_by VARCHAR(42) REFERENCES users(wallet_address);
+
+-- Grants approved before this migration were treated as confirmed
+UPDATE emergency_grants
+SET status = CASE
+    WHEN expiration <= NOW() THEN 'expired'
+    WHEN confirmed THEN 'confirmed'
+    ELSE 'requested'
+END;
+
+CREATE INDEX idx_emergency_status ON emergency_grants(status);
+CREATE UNIQUE INDEX idx_emergency_emergency_id ON emergency_grants(emergency_id);
@@ -0,0 +1,36 @@
+-- Migration 022: Post-hoc review of emergency access
+-- Every confirmed emergency grant opens a review for a privacy officer, who marks the access
+-- appropriate or inappropriate; the patient is notified of the outcome
+
+-- Privacy officers are assigned by admins like auditors
+ALTER TABLE users DROP CONSTRAINT IF EXISTS users_role_check;
+ALTER TABLE users ADD CONSTRAINT users_role_check CHECK (
+    role IN ('patient', 'doctor', 'nurse', 'pharmacist', 'researcher', 'auditor', 'guardian', 'admin', 'privacy_officer')
+);
+
+ALTER TABLE role_assignments DROP CONSTRAINT IF EXISTS role_assignments_role_check;
+ALTER TABLE role_assignments ADD CONSTRAINT role_assignments_role_check CHECK (
+    role IN ('patient', 'doctor', 'nurse', 'pharmacist', 'researcher', 'auditor', 'guardian', 'admin', 'privacy_officer')
+);
+
+CREATE TABLE IF NOT EXISTS emergency_reviews (
+    id SERIAL PRIMARY KEY,
+    grant_id VARCHAR(66) NOT NULL UNIQUE REFERENCES emergency_grants(grant_id) ON DELETE CASCADE,
+    patient_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address) ON DELETE CASCADE,
+    status VARCHAR(20) NOT NULL DEFAULT 'pending'
+        CHECK (status IN ('pending', 'appropriate', 'inappropriate')),
+    reviewer_wallet VARCHAR(42) REFERENCES users(wallet_address),
+    notes TEXT,
+    reviewed_at TIMESTAMP,
+    created_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE INDEX idx_emergency_reviews_status ON emergency_reviews(status, created_at);
+CREATE INDEX idx_emergency_reviews_patient ON emergency_reviews(patient_wallet);
+
+-- Grants confirmed before this migration are reviewed too
+INSERT INTO emergency_reviews (grant_id, patient_wallet)
+SELECT grant_id, patient_wallet FROM emergency_grants WHERE confirmed = TRUE
+ON CONFLICT (grant_id) DO NOTHING;
+
+COMMENT ON TABLE emergency_reviews IS 'Privacy officer reviews of confirmed emergency access';
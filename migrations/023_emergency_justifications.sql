@@ -0,0 +1,52 @@
+-- Migration 023: Admin-managed emergency justification catalogue
+-- Each code sets how many physicians must approve and in which roles, the longest access it
+-- allows, which records it can open and whether a written justification is needed. The
+-- contract only knows codes 1-3, so each catalogue code maps to one of them
+
+CREATE TABLE IF NOT EXISTS emergency_justification_codes (
+    code INTEGER PRIMARY KEY CHECK (code > 0),
+    label VARCHAR(100) NOT NULL,
+    description TEXT,
+    contract_code SMALLINT NOT NULL CHECK (contract_code BETWEEN 1 AND 3),
+    approvals_required SMALLINT NOT NULL DEFAULT 1 CHECK (approvals_required >= 1),
+    approver_roles TEXT[] NOT NULL DEFAULT '{doctor}',
+    max_duration_seconds INTEGER NOT NULL CHECK (max_duration_seconds > 0),
+    record_categories TEXT[],
+    notes_required BOOLEAN NOT NULL DEFAULT FALSE,
+    notes_min_length INTEGER NOT NULL DEFAULT 0 CHECK (notes_min_length >= 0),
+    active BOOLEAN NOT NULL DEFAULT TRUE,
+    created_by VARCHAR(42) REFERENCES users(wallet_address),
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TRIGGER update_emergency_justification_codes_updated_at BEFORE UPDATE ON emergency_justification_codes
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+-- The codes previously hard-coded, with their previous one-hour access
+INSERT INTO emergency_justification_codes (code, label, contract_code, max_duration_seconds)
+VALUES
+    (1, 'Trauma', 1, 3600),
+    (2, 'Unconscious', 2, 3600),
+    (3, 'Critical', 3, 3600)
+ON CONFLICT (code) DO NOTHING;
+
+ALTER TABLE emergency_grants DROP CONSTRAINT IF EXISTS emergency_grants_justification_code_check;
+ALTER TABLE emergency_grants ALTER COLUMN justification_code TYPE INTEGER;
+ALTER TABLE emergency_grants ADD CONSTRAINT emergency_grants_justification_code_fkey
+    FOREIGN KEY (justification_code) REFERENCES emergency_justification_codes(code);
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS justification_notes TEXT;
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS duration_seconds INTEGER NOT NULL DEFAULT 3600;
+ALTER TABLE emergency_grants ALTER COLUMN duration_seconds DROP DEFAULT;
+
+-- Approvals collected before a grant is co-signed
+CREATE TABLE IF NOT EXISTS emergency_grant_approvals (
+    id SERIAL PRIMARY KEY,
+    grant_id VARCHAR(66) NOT NULL REFERENCES emergency_grants(grant_id) ON DELETE CASCADE,
+    approver_wallet VARCHAR(42) NOT NULL REFERENCES users(wallet_address),
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (grant_id, approver_wallet)
+);
+
+COMMENT ON TABLE emergency_justification_codes IS 'Emergency justification codes and the rules each enforces';
+COMMENT ON TABLE emergency_grant_approvals IS 'Physician approvals of emergency access requests';
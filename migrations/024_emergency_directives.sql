@@ -0,0 +1,21 @@
+-- Migration 024: Patient emergency directives
+-- A patient declares in advance which records may be opened in an emergency (rules by FHIR
+-- resource type or code, deny winning over allow) and whom to contact. Requests and
+-- approvals check the directive, and each grant keeps the decision it was made under
+
+CREATE TABLE IF NOT EXISTS emergency_directives (
+    patient_wallet VARCHAR(42) PRIMARY KEY REFERENCES users(wallet_address) ON DELETE CASCADE,
+    rules JSONB NOT NULL DEFAULT '[]',
+    default_effect VARCHAR(10) NOT NULL DEFAULT 'allow' CHECK (default_effect IN ('allow', 'deny')),
+    emergency_contacts JSONB NOT NULL DEFAULT '[]',
+    version INTEGER NOT NULL DEFAULT 1,
+    created_at TIMESTAMP DEFAULT NOW(),
+    updated_at TIMESTAMP DEFAULT NOW()
+);
+
+CREATE TRIGGER update_emergency_directives_updated_at BEFORE UPDATE ON emergency_directives
+    FOR EACH ROW EXECUTE FUNCTION update_updated_at_column();
+
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS directive_applied JSONB;
+
+COMMENT ON TABLE emergency_directives IS 'Patient rules for which records emergency access may open';
@@ -0,0 +1,28 @@
+-- Migration 025: Versioned custodial encryption keys
+-- Each rotation adds the new ECIES encryption key under its KeyRegistry version instead of
+-- overwriting the previous one, so keys still wrapped to an older version stay readable
+-- until re-keying has moved them
+
+CREATE TABLE IF NOT EXISTS custodial_encryption_keys (
+    id SERIAL PRIMARY KEY,
+    wallet_address VARCHAR(42) NOT NULL REFERENCES custodial_keys(wallet_address) ON DELETE CASCADE,
+    key_version INTEGER,
+    encrypted_key TEXT NOT NULL,
+    encrypted_data_key TEXT NOT NULL,
+    created_at TIMESTAMP DEFAULT NOW(),
+    UNIQUE (wallet_address, key_version)
+);
+
+-- The single rotated key kept so far; its version was not recorded
+INSERT INTO custodial_encryption_keys (wallet_address, encrypted_key, encrypted_data_key)
+SELECT wallet_address, encrypted_encryption_key, encrypted_encryption_data_key
+FROM custodial_keys
+WHERE encrypted_encryption_key IS NOT NULL;
+
+ALTER TABLE custodial_keys DROP COLUMN IF EXISTS encrypted_encryption_key;
+ALTER TABLE custodial_keys DROP COLUMN IF EXISTS encrypted_encryption_data_key;
+
+-- Recovery hands re-wrapping to a rekey job
+ALTER TABLE recovery_sessions ADD COLUMN IF NOT EXISTS rekey_job_id INTEGER REFERENCES jobs(id) ON DELETE SET NULL;
+
+COMMENT ON TABLE custodial_encryption_keys IS 'Encrypted ECIES encryption keys held by the key vault, by key version';
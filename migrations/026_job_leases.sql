@@ -0,0 +1,13 @@
+-- Migration 026: Job leases and retry backoff
+-- A running job holds a lease the runner keeps extending; only jobs whose lease has lapsed
+-- (their process stopped) are taken over by another instance. A failed attempt is retried
+-- after a delay that doubles with each attempt
+
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS locked_until TIMESTAMP;
+ALTER TABLE jobs ADD COLUMN IF NOT EXISTS run_after TIMESTAMP NOT NULL DEFAULT NOW();
+
+-- Jobs left running before leases existed are taken over straight away
+UPDATE jobs SET locked_until = NOW() WHERE status = 'running';
+
+DROP INDEX IF EXISTS idx_jobs_queue;
+CREATE INDEX idx_jobs_queue ON jobs(status, run_after);
@@ -0,0 +1,8 @@
+-- Migration 027: Claim access requests while they are being approved
+-- An approval moves the request from pending to approving before granting on-chain, so a
+-- concurrent approval or denial cannot grant or decide it a second time
+
+ALTER TABLE access_requests DROP CONSTRAINT IF EXISTS access_requests_status_check;
+ALTER TABLE access_requests ADD CONSTRAINT access_requests_status_check CHECK (
+    status IN ('pending', 'approving', 'approved', 'partially_approved', 'denied', 'cancelled')
+);
@@ -0,0 +1,11 @@
+-- Migration 028: Suspend emergency grants per physician
+-- Each physician of a grant reads with a key wrapped to their own public key, so revoking one
+-- physician's key suspends only that physician's access
+
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS physician1_suspended BOOLEAN NOT NULL DEFAULT FALSE;
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS physician2_suspended BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Suspensions so far were always of the requesting physician's key
+UPDATE emergency_grants SET physician1_suspended = TRUE WHERE suspended = TRUE;
+
+ALTER TABLE emergency_grants DROP COLUMN IF EXISTS suspended;
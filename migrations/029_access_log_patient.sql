@@ -0,0 +1,15 @@
+-- Migration 029: Patient of each logged read
+-- Record IDs are only unique within a patient's contract, so reads are attributed to a record
+-- by patient and record ID
+
+ALTER TABLE access_logs ADD COLUMN IF NOT EXISTS patient_wallet VARCHAR(42);
+
+-- Earlier reads can only be attributed where a single patient has a record with that ID
+UPDATE access_logs al
+SET patient_wallet = r.patient_wallet
+FROM records r
+WHERE al.patient_wallet IS NULL
+  AND r.record_id = al.record_id
+  AND (SELECT COUNT(*) FROM records other WHERE other.record_id = al.record_id) = 1;
+
+CREATE INDEX IF NOT EXISTS idx_access_logs_patient_record ON access_logs(patient_wallet, record_id);
@@ -0,0 +1,12 @@
+-- Migration 030: Seal escrowed record keys under the master key
+-- The three Shamir shares were all sealed under subkeys of the same master key, so the split
+-- added no protection over sealing the key itself. New escrows hold one sealed key; rows
+-- escrowed as shares keep them and are reconstructed from them.
+
+ALTER TABLE record_key_escrow ADD COLUMN IF NOT EXISTS sealed_key TEXT;
+
+ALTER TABLE record_key_escrow ALTER COLUMN hsm_share DROP NOT NULL;
+ALTER TABLE record_key_escrow ALTER COLUMN approver1_share DROP NOT NULL;
+ALTER TABLE record_key_escrow ALTER COLUMN approver2_share DROP NOT NULL;
+
+COMMENT ON TABLE record_key_escrow IS 'Record keys sealed under the master key for emergency access';
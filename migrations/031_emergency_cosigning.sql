@@ -0,0 +1,11 @@
+-- Migration 031: Co-sign emergency grants in two steps
+-- The final approval stores the signed requestEmergencyAccess transaction and moves the grant
+-- to cosigning before anything is sent; the grant becomes cosigned once the transaction is
+-- mined. A send that is interrupted resumes with the stored transaction.
+
+ALTER TABLE emergency_grants DROP CONSTRAINT IF EXISTS emergency_grants_status_check;
+ALTER TABLE emergency_grants ADD CONSTRAINT emergency_grants_status_check CHECK (
+    status IN ('requested', 'cosigning', 'cosigned', 'confirmed', 'expired', 'revoked')
+);
+
+ALTER TABLE emergency_grants ADD COLUMN IF NOT EXISTS cosign_signed_transaction TEXT;
@@ -0,0 +1,10 @@
+-- Migration 032: Lapsing access request claims
+-- An approval holds its claim on a request for a limited time, renewed after each record it
+-- grants. A request left approving by a stopped process can be approved again once the claim
+-- lapses; claim_attempts tells the stopped approval, should it resume, that it lost the claim
+
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS claimed_until TIMESTAMP;
+ALTER TABLE access_requests ADD COLUMN IF NOT EXISTS claim_attempts INTEGER NOT NULL DEFAULT 0;
+
+-- Requests left approving before claims lapsed can be approved again straight away
+UPDATE access_requests SET claimed_until = NOW() WHERE status = 'approving';
@@ -3,7 +3,7 @@
  * @description Run database migrations
  */
 
-import { readFileSync } from 'fs';
+import { readFileSync, readdirSync } from 'fs';
 import { join } from 'path';
 import db from '../src/services/database';
 
@@ -11,22 +11,51 @@ async function runMigrations() {
   try {
     console.log('🔄 Running database migrations...\n');
 
-    // Read migration file
-    const migrationPath = join(__dirname, '001_create_tables.sql');
-    const migrationSQL = readFileSync(migrationPath, 'utf-8');
-
-    // Execute migration
-    await db.none(migrationSQL);
-
-    console.log('✅ Migration 001: Created tables successfully');
-    console.log('\n📊 Database schema initialized');
-    console.log('  ✓ users');
-    console.log('  ✓ records');
-    console.log('  ✓ permissions');
-    console.log('  ✓ access_logs');
-    console.log('  ✓ emergency_grants');
-    console.log('  ✓ sessions');
-    console.log('  ✓ audit_log');
+    // Track applied migrations so the runner can be re-run safely
+    await db.none(
+      `CREATE TABLE IF NOT EXISTS schema_migrations (
+         name VARCHAR(255) PRIMARY KEY,
+         applied_at TIMESTAMP DEFAULT NOW()
+       )`
+    );
+
+    const applied: string[] = await db.map(
+      'SELECT name FROM schema_migrations',
+      [],
+      (row) => row.name
+    );
+
+    // Databases created before migrations were tracked already have the initial schema
+    if (applied.length === 0) {
+      const { exists } = await db.one(`SELECT to_regclass('users') IS NOT NULL AS exists`);
+      if (exists) {
+        await db.none('INSERT INTO schema_migrations (name) VALUES ($1)', ['001_create_tables.sql']);
+        applied.push('001_create_tables.sql');
+      }
+    }
+
+    // Migration files are applied in lexical order (001_, 002_, ...)
+    const migrationFiles = readdirSync(__dirname)
+      .filter((file) => /^\d{3}_.*\.sql$/.test(file))
+      .sort();
+
+    for (const file of migrationFiles) {
+      if (applied.includes(file)) {
+        console.log(`  ↷ ${file} (already applied)`);
+        continue;
+      }
+
+      const migrationSQL = readFileSync(join(__dirname, file), 'utf-8');
+
+      await db.tx(async (t) => {
+        await t.none(migrationSQL);
+        await t.none('INSERT INTO schema_migrations (name) VALUES ($1)', [file]);
+      });
+
+      console.log(`  ✓ ${file}`);
+    }
+
+    console.log('\n✅ Database schema up to date');
 
     process.exit(0);
   } catch (error) {
@@ -24,6 +24,7 @@ const config: Config = {
     chainId: parseInt(process.env.CHAIN_ID || '1337', 10),
     keyRegistryAddress: process.env.KEY_REGISTRY_ADDRESS || '',
     factoryAddress: process.env.FACTORY_CONTRACT_ADDRESS || '',
+    relayerPrivateKey: process.env.RELAYER_PRIVATE_KEY || '',
   },
 
   // JWT Configuration
@@ -33,6 +34,60 @@ const config: Config = {
     refreshExpiry: process.env.JWT_REFRESH_EXPIRY || '7d',
   },
 
+  // Sign-In with Ethereum (EIP-4361)
+  siwe: {
+    domain: process.env.SIWE_DOMAIN || 'localhost:3001',
+    nonceTtl: parseInt(process.env.SIWE_NONCE_TTL || '300', 10),
+  },
+
+  // Multi-Factor Authentication
+  mfa: {
+    issuer: process.env.MFA_ISSUER || 'Blockchain EHR',
+    maxAge: parseInt(process.env.MFA_MAX_AGE || '28800', 10),
+    webauthn: {
+      rpId: process.env.WEBAUTHN_RP_ID || 'localhost',
+      rpName: process.env.WEBAUTHN_RP_NAME || 'Blockchain EHR',
+      origin: process.env.WEBAUTHN_ORIGIN || 'http://localhost:3001',
+    },
+  },
+
+  // Social / threshold account recovery
+  recovery: {
+    sessionTtl: parseInt(process.env.RECOVERY_SESSION_TTL || '259200', 10),
+    maxShares: parseInt(process.env.RECOVERY_MAX_SHARES || '10', 10),
+  },
+
+  // Provider access requests
+  accessRequests: {
+    claimTimeout: parseInt(process.env.ACCESS_REQUEST_CLAIM_TIMEOUT || '300000', 10),
+  },
+
+  // Background jobs
+  jobs: {
+    pollInterval: parseInt(process.env.JOB_POLL_INTERVAL || '5000', 10),
+    maxAttempts: parseInt(process.env.JOB_MAX_ATTEMPTS || '3', 10),
+    lockTimeout: parseInt(process.env.JOB_LOCK_TIMEOUT || '60000', 10),
+    retryDelay: parseInt(process.env.JOB_RETRY_DELAY || '30000', 10),
+  },
+
+  // Bulk record import
+  imports: {
+    maxEntries: parseInt(process.env.IMPORT_MAX_ENTRIES || '1000', 10),
+    batchSize: parseInt(process.env.IMPORT_BATCH_SIZE || '20', 10),
+  },
+
+  // FHIR Bulk Data export
+  exports: {
+    fileTtl: parseInt(process.env.EXPORT_FILE_TTL || '86400', 10),
+  },
+
+  // Binary attachments (imaging, scanned documents)
+  attachments: {
+    chunkSize: parseInt(process.env.ATTACHMENT_CHUNK_SIZE || '4194304', 10),
+    maxSize: parseInt(process.env.ATTACHMENT_MAX_SIZE || '2147483648', 10),
+    uploadTtl: parseInt(process.env.ATTACHMENT_UPLOAD_TTL || '86400', 10),
+  },
+
   // Encryption Configuration
   encryption: {
     masterKey: process.env.ENCRYPTION_MASTER_KEY || '',
@@ -77,6 +132,15 @@ const config: Config = {
   fhir: {
     version: process.env.FHIR_VERSION || 'R4',
     strictValidation: process.env.FHIR_STRICT_VALIDATION === 'true',
+    // Per resource type overrides of the default mode (comma-separated)
+    strictResourceTypes: (process.env.FHIR_STRICT_RESOURCE_TYPES || '')
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean),
+    lenientResourceTypes: (process.env.FHIR_LENIENT_RESOURCE_TYPES || '')
+      .split(',')
+      .map((type) => type.trim())
+      .filter(Boolean),
   },
 
   // Emergency Access Settings
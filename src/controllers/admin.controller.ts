@@ -0,0 +1,440 @@
+/**
+ * @file Admin Controller
+ * @description Role assignment management, authorization decision explanations and the
+ * emergency justification catalogue
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import db from '../services/database';
+import { AppError } from '../middleware/errorHandler';
+import { getPolicyEngine, ROLES } from '../services/policy';
+import { getEmergencyJustificationService } from '../services/emergency';
+import { EmergencyJustificationInput } from '../types';
+
+/**
+ * Justification code rules from a request body
+ */
+function justificationInput(body: any): EmergencyJustificationInput {
+  return {
+    label: body.label,
+    description: body.description || null,
+    contractCode: parseInt(body.contractCode),
+    approvalsRequired: body.approvalsRequired ? parseInt(body.approvalsRequired) : 1,
+    approverRoles: body.approverRoles || ['doctor'],
+    maxDurationSeconds: parseInt(body.maxDurationSeconds),
+    recordCategories: body.recordCategories?.length ? body.recordCategories : null,
+    notesRequired: body.notesRequired === true,
+    notesMinLength: body.notesMinLength ? parseInt(body.notesMinLength) : 0,
+  };
+}
+
+/**
+ * List roles and policies
+ */
+export async function listPolicies(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    res.json({
+      success: true,
+      data: {
+        roles: ROLES,
+        policies: getPolicyEngine().getPolicies(),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a user's roles
+ * Primary role plus all role assignments (active and past)
+ */
+export async function getUserRoles(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { address } = req.params;
+
+    const user = await db.oneOrNone(
+      'SELECT wallet_address, name, role FROM users WHERE LOWER(wallet_address) = LOWER($1)',
+      [address]
+    );
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const assignments = await db.manyOrNone(
+      `SELECT id, role, department, facility, granted_by, expires_at, revoked_at, created_at,
+              (revoked_at IS NULL AND (expires_at IS NULL OR expires_at > NOW())) AS active
+       FROM role_assignments
+       WHERE wallet_address = $1
+       ORDER BY created_at DESC`,
+      [user.wallet_address]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        walletAddress: user.wallet_address,
+        name: user.name,
+        primaryRole: user.role,
+        assignments,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Change a user's primary role
+ * Existing sessions are revoked so new tokens carry the new role
+ */
+export async function setPrimaryRole(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { address } = req.params;
+    const { role } = req.body;
+
+    const user = await db.oneOrNone(
+      'SELECT wallet_address, role FROM users WHERE LOWER(wallet_address) = LOWER($1)',
+      [address]
+    );
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    await db.tx(async (t) => {
+      await t.none('UPDATE users SET role = $2 WHERE wallet_address = $1', [
+        user.wallet_address,
+        role,
+      ]);
+      await t.none(
+        `UPDATE sessions SET revoked_at = NOW(), revoked_reason = 'role_changed'
+         WHERE wallet_address = $1 AND revoked_at IS NULL`,
+        [user.wallet_address]
+      );
+    });
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'primary_role_changed',
+        { user: user.wallet_address, oldRole: user.role, newRole: role },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Primary role updated',
+      data: {
+        walletAddress: user.wallet_address,
+        primaryRole: role,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Assign a role
+ * Grants an additional role, optionally scoped to a department / facility
+ */
+export async function assignRole(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { address } = req.params;
+    const { role, department, facility, expiresAt } = req.body;
+
+    const user = await db.oneOrNone(
+      'SELECT wallet_address FROM users WHERE LOWER(wallet_address) = LOWER($1)',
+      [address]
+    );
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const assignment = await db.one(
+      `INSERT INTO role_assignments (wallet_address, role, department, facility, granted_by, expires_at)
+       VALUES ($1, $2, $3, $4, $5, CASE WHEN $6::bigint IS NULL THEN NULL ELSE to_timestamp($6) END)
+       RETURNING id, role, department, facility, expires_at, created_at`,
+      [
+        user.wallet_address,
+        role,
+        department || null,
+        facility || null,
+        walletAddress,
+        expiresAt ? parseInt(expiresAt) : null,
+      ]
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'role_assigned',
+        { user: user.wallet_address, assignmentId: assignment.id, role, department, facility },
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Role assigned successfully',
+      data: {
+        walletAddress: user.wallet_address,
+        assignment,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Revoke a role assignment
+ */
+export async function revokeRoleAssignment(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const assignmentId = parseInt(req.params.assignmentId);
+
+    const assignment = await db.oneOrNone(
+      `UPDATE role_assignments SET revoked_at = NOW()
+       WHERE id = $1 AND revoked_at IS NULL
+       RETURNING id, wallet_address, role`,
+      [assignmentId]
+    );
+
+    if (!assignment) {
+      throw new AppError('Role assignment not found', 404, 'ASSIGNMENT_NOT_FOUND');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'role_revoked',
+        { user: assignment.wallet_address, assignmentId, role: assignment.role },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Role assignment revoked',
+      data: {
+        assignmentId,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Explain an authorization decision
+ * Evaluates an action for any user and returns every policy considered
+ */
+export async function explainDecision(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress, action, patientAddress } = req.body;
+
+    const user = await db.oneOrNone(
+      'SELECT wallet_address, role FROM users WHERE LOWER(wallet_address) = LOWER($1)',
+      [walletAddress]
+    );
+
+    if (!user) {
+      throw new AppError('User not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const policyEngine = getPolicyEngine();
+    const subject = await policyEngine.loadSubject(user.wallet_address, user.role);
+    const decision = policyEngine.evaluate(subject, action, { patientAddress });
+
+    res.json({
+      success: true,
+      data: {
+        subject,
+        resource: { patientAddress },
+        decision,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * List the emergency justification catalogue, including deactivated codes
+ */
+export async function listJustificationCodes(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const justifications = await getEmergencyJustificationService().listCodes(true);
+
+    res.json({
+      success: true,
+      data: {
+        justifications,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Add an emergency justification code
+ */
+export async function createJustificationCode(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const code = parseInt(req.body.code);
+
+    const justification = await getEmergencyJustificationService().createCode(
+      code,
+      justificationInput(req.body),
+      walletAddress
+    );
+
+    if (!justification) {
+      throw new AppError('Justification code already exists', 409, 'JUSTIFICATION_EXISTS');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'emergency_justification_created', { code, justification }]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Justification code created',
+      data: {
+        justification,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Replace an emergency justification code's rules
+ * Updating a deactivated code puts it back in use
+ */
+export async function updateJustificationCode(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const code = parseInt(req.params.code);
+
+    const justification = await getEmergencyJustificationService().updateCode(
+      code,
+      justificationInput(req.body)
+    );
+
+    if (!justification) {
+      throw new AppError('Justification code not found', 404, 'JUSTIFICATION_NOT_FOUND');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'emergency_justification_updated', { code, justification }]
+    );
+
+    res.json({
+      success: true,
+      message: 'Justification code updated',
+      data: {
+        justification,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Deactivate an emergency justification code
+ * Past and pending requests keep it; new requests cannot use it
+ */
+export async function deactivateJustificationCode(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const code = parseInt(req.params.code);
+
+    const justification = await getEmergencyJustificationService().deactivateCode(code);
+
+    if (!justification) {
+      throw new AppError('Justification code not found', 404, 'JUSTIFICATION_NOT_FOUND');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'emergency_justification_deactivated', { code }]
+    );
+
+    res.json({
+      success: true,
+      message: 'Justification code deactivated',
+      data: {
+        code,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
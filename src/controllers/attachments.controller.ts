@@ -0,0 +1,356 @@
+/**
+ * @file Attachments Controller
+ * @description Chunked binary attachment uploads and ranged downloads
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import db from '../services/database';
+import config from '../config';
+import { AppError } from '../middleware/errorHandler';
+import { actingForAuditDetails } from '../middleware/auth';
+import { getRecordService } from '../services/records';
+import { getAttachmentService } from '../services/attachments';
+import { AttachmentUpload } from '../types';
+
+/**
+ * Load an upload started by the caller
+ */
+async function getOwnUpload(uploadId: string, walletAddress: string): Promise<AttachmentUpload> {
+  const upload = await getAttachmentService().getUpload(uploadId);
+
+  if (!upload || upload.created_by.toLowerCase() !== walletAddress.toLowerCase()) {
+    throw new AppError('Upload not found', 404, 'UPLOAD_NOT_FOUND');
+  }
+
+  return upload;
+}
+
+/**
+ * Reject uploads that can no longer receive chunks
+ */
+function assertUploading(upload: AttachmentUpload): void {
+  if (upload.status === 'completed') {
+    throw new AppError('Upload already completed', 409, 'UPLOAD_COMPLETED');
+  }
+  if (new Date(upload.expires_at) <= new Date()) {
+    throw new AppError('Upload expired', 410, 'UPLOAD_EXPIRED');
+  }
+}
+
+/**
+ * Parse a single `bytes=` range against the attachment size
+ * Without a Range header the whole attachment is returned; throws 416 when unsatisfiable
+ */
+function parseRange(header: string | undefined, size: number): { start: number; end: number } {
+  if (!header) {
+    return { start: 0, end: size - 1 };
+  }
+
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header.trim());
+  let start = match && match[1] !== '' ? parseInt(match[1]) : NaN;
+  let end = match && match[2] !== '' ? parseInt(match[2]) : size - 1;
+
+  // Suffix range: the last N bytes
+  if (match && match[1] === '' && match[2] !== '') {
+    start = Math.max(0, size - parseInt(match[2]));
+    end = size - 1;
+  }
+
+  if (isNaN(start) || start > end || start >= size) {
+    throw new AppError('Range not satisfiable', 416, 'RANGE_NOT_SATISFIABLE');
+  }
+
+  return { start, end: Math.min(end, size - 1) };
+}
+
+/**
+ * Start a chunked attachment upload
+ * Returns the chunk size and count the client must send
+ */
+export async function createUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { contentType, size, filename } = req.body;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(patientWallet);
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    if (size > config.attachments.maxSize) {
+      throw new AppError('Attachment too large', 413, 'ATTACHMENT_TOO_LARGE');
+    }
+
+    const upload = await getAttachmentService().createUpload(patientWallet, walletAddress, {
+      contentType,
+      size,
+      filename,
+    });
+
+    res.status(201).json({
+      success: true,
+      message: 'Upload started',
+      data: {
+        uploadId: upload.id,
+        patientAddress: upload.patient_wallet,
+        chunkSize: upload.chunk_size,
+        totalChunks: upload.total_chunks,
+        expiresAt: upload.expires_at,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get an upload's progress, so an interrupted client can resume with the missing chunks
+ */
+export async function getUpload(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { uploadId } = req.params;
+
+    const attachmentService = getAttachmentService();
+    const upload = await attachmentService.getUpload(uploadId);
+
+    const caller = walletAddress.toLowerCase();
+    if (
+      !upload ||
+      (upload.patient_wallet.toLowerCase() !== caller && upload.created_by.toLowerCase() !== caller)
+    ) {
+      throw new AppError('Upload not found', 404, 'UPLOAD_NOT_FOUND');
+    }
+
+    const received = (await attachmentService.listChunks(upload.id)).map((chunk) => chunk.index);
+    const missing = [];
+    for (let index = 0; index < upload.total_chunks; index++) {
+      if (!received.includes(index)) {
+        missing.push(index);
+      }
+    }
+
+    res.json({
+      success: true,
+      data: {
+        uploadId: upload.id,
+        patientAddress: upload.patient_wallet,
+        contentType: upload.content_type,
+        filename: upload.filename,
+        size: Number(upload.size),
+        chunkSize: upload.chunk_size,
+        totalChunks: upload.total_chunks,
+        status: upload.status,
+        receivedChunks: received,
+        missingChunks: missing,
+        recordId: upload.record_id,
+        transactionHash: upload.transaction_hash,
+        expiresAt: upload.expires_at,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Encrypt and store one chunk of an upload (raw request body)
+ */
+export async function putChunk(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { uploadId } = req.params;
+    const index = parseInt(req.params.index);
+
+    const attachmentService = getAttachmentService();
+    const upload = await getOwnUpload(uploadId, walletAddress);
+    assertUploading(upload);
+
+    if (index >= upload.total_chunks) {
+      throw new AppError('Chunk index out of range', 400, 'INVALID_CHUNK_INDEX');
+    }
+
+    const data = Buffer.isBuffer(req.body) ? req.body : Buffer.alloc(0);
+    const expected = attachmentService.expectedChunkSize(upload, index);
+    if (data.length !== expected) {
+      throw new AppError(`Chunk ${index} must be ${expected} bytes`, 400, 'INVALID_CHUNK_SIZE');
+    }
+
+    const chunk = await attachmentService.putChunk(upload, index, data);
+
+    res.json({
+      success: true,
+      data: {
+        uploadId: upload.id,
+        index: chunk.index,
+        size: chunk.size,
+        contentDigest: chunk.contentDigest,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Complete an upload
+ * Stores the chunk manifest and registers it on-chain as a record; the returned FHIR
+ * Attachment can be used in DocumentReference.content.attachment (or an ImagingStudy's
+ * DocumentReference) to link the resource to the binary
+ */
+export async function completeUpload(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { uploadId } = req.params;
+
+    const attachmentService = getAttachmentService();
+    const upload = await getOwnUpload(uploadId, walletAddress);
+    assertUploading(upload);
+
+    const chunks = await attachmentService.listChunks(upload.id);
+    if (chunks.length !== upload.total_chunks) {
+      throw new AppError(
+        `${upload.total_chunks - chunks.length} chunk(s) missing`,
+        409,
+        'UPLOAD_INCOMPLETE'
+      );
+    }
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(
+      upload.patient_wallet
+    );
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const created = await attachmentService.completeUpload(upload, chunks, patientRecordsService);
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+       VALUES ($1, $2, $3, $4)`,
+      [
+        walletAddress,
+        'attachment_added',
+        created.transactionHash,
+        {
+          recordId: created.recordId,
+          patientAddress: upload.patient_wallet,
+          uploadId: upload.id,
+          contentType: upload.content_type,
+          size: Number(upload.size),
+          chunks: chunks.length,
+          ...actingForAuditDetails(req),
+        },
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Attachment added successfully',
+      data: {
+        recordId: created.recordId,
+        storagePointer: created.storagePointer,
+        contentDigest: created.contentDigest,
+        transactionHash: created.transactionHash,
+        attachment: {
+          contentType: upload.content_type,
+          url: `${req.baseUrl}/${upload.patient_wallet}/${created.recordId}`,
+          size: Number(upload.size),
+          title: upload.filename || undefined,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Download an attachment, or the byte range given in the Range header
+ * Only the chunks the range touches are retrieved and decrypted
+ */
+export async function downloadAttachment(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { patientAddress } = req.params;
+    const recordId = parseInt(req.params.recordId);
+
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(patientAddress);
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    // Check access on blockchain, then decrypt the manifest
+    const attachmentService = getAttachmentService();
+    const attachment = await attachmentService.openAttachment(
+      walletAddress,
+      patientAddress,
+      patientRecordsService,
+      recordId
+    );
+
+    if (!attachment) {
+      throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    const { manifest, aesKey } = attachment;
+
+    try {
+      let range;
+      try {
+        range = parseRange(req.get('range'), manifest.size);
+      } catch (error) {
+        res.set('Content-Range', `bytes */${manifest.size}`);
+        throw error;
+      }
+
+      // Log access (except patients reading their own records)
+      await recordService.logAccess(
+        recordId,
+        walletAddress,
+        patientAddress,
+        req.ip,
+        req.get('user-agent')
+      );
+
+      res.status(req.get('range') ? 206 : 200);
+      // The content type is the uploader's choice, so the browser must never render it inline
+      res.attachment(manifest.filename || undefined);
+      res.set({
+        'Content-Type': manifest.contentType,
+        'Content-Length': String(range.end - range.start + 1),
+        'Accept-Ranges': 'bytes',
+        'X-Content-Type-Options': 'nosniff',
+      });
+      if (req.get('range')) {
+        res.set('Content-Range', `bytes ${range.start}-${range.end}/${manifest.size}`);
+      }
+
+      for await (const data of attachmentService.readRange(attachment, range.start, range.end)) {
+        if (!res.write(data)) {
+          await new Promise((resolve) => res.once('drain', resolve));
+        }
+      }
+      res.end();
+    } finally {
+      aesKey.fill(0);
+    }
+  } catch (error) {
+    if (res.headersSent) {
+      res.destroy(error as Error);
+      return;
+    }
+    next(error);
+  }
+}
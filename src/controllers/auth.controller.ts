@@ -12,6 +12,76 @@ import { AppError } from '../middleware/errorHandler';
 import config from '../config';
 import { KeyRegistryService } from '../services/blockchain/KeyRegistryService';
 import { FactoryService } from '../services/blockchain/FactoryService';
+import { getKeyVault } from '../services/custody';
+import {
+  generateSiweNonce,
+  isSiweMessageTimely,
+  parseSiweMessage,
+  recoverSiweSigner,
+} from '../utils/siwe';
+import { sha256 } from '../utils/hash';
+import { SiweMessage } from '../types';
+
+/**
+ * Store a refresh token (hashed) as the current member of a session family
+ */
+async function issueRefreshToken(
+  sessionId: number,
+  walletAddress: string,
+  email: string,
+  role: string,
+  parentId: number | null = null
+): Promise<string> {
+  // No sessionId in the payload, so a refresh token is never accepted as an access token
+  const refreshToken = generateRefreshToken({ walletAddress, email, role });
+
+  await db.none(
+    `INSERT INTO refresh_tokens (session_id, token_hash, parent_id)
+     VALUES ($1, $2, $3)`,
+    [sessionId, sha256(refreshToken), parentId]
+  );
+
+  return refreshToken;
+}
+
+/**
+ * Revoke a session and with it every token in its family
+ */
+async function revokeSession(sessionId: number, reason: string): Promise<void> {
+  await db.none(
+    `UPDATE sessions SET revoked_at = NOW(), revoked_reason = $2
+     WHERE id = $1 AND revoked_at IS NULL`,
+    [sessionId, reason]
+  );
+}
+
+/**
+ * Create a session for the requesting device and issue tokens that reference it
+ */
+async function createSession(
+  req: Request,
+  walletAddress: string,
+  email: string,
+  role: string
+): Promise<{ accessToken: string; refreshToken: string }> {
+  const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
+  const session = await db.one(
+    `INSERT INTO sessions (wallet_address, expires_at, user_agent, ip_address)
+     VALUES ($1, $2, $3, $4)
+     RETURNING id`,
+    [walletAddress, expiresAt, req.get('user-agent') || null, req.ip || null]
+  );
+
+  const refreshToken = await issueRefreshToken(session.id, walletAddress, email, role);
+  const accessToken = generateToken({
+    walletAddress,
+    email,
+    role,
+    sessionId: session.id,
+  });
+
+  return { accessToken, refreshToken };
+}
 
 /**
  * User signup
@@ -74,6 +144,9 @@ export async function signup(req: Request, res: Response, next: NextFunction): P
       [walletAddress, name, email, passwordHash, role, patientContractAddress]
     );
 
+    // Hand the wallet key to the custody vault
+    await getKeyVault().storeKey(walletAddress, wallet.privateKey);
+
     // Log audit trail
     await db.none(
       `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
@@ -87,26 +160,7 @@ export async function signup(req: Request, res: Response, next: NextFunction): P
     );
 
     // Generate tokens
-    const accessToken = generateToken({
-      walletAddress,
-      email,
-      role,
-      privateKey: wallet.privateKey, // TODO: Encrypt this in production
-    });
-
-    const refreshToken = generateRefreshToken({
-      walletAddress,
-      email,
-      role,
-    });
-
-    // Store refresh token in sessions
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    await db.none(
-      `INSERT INTO sessions (wallet_address, refresh_token, expires_at)
-       VALUES ($1, $2, $3)`,
-      [walletAddress, refreshToken, expiresAt]
-    );
+    const { accessToken, refreshToken } = await createSession(req, walletAddress, email, role);
 
     res.status(201).json({
       success: true,
@@ -152,43 +206,155 @@ export async function signin(req: Request, res: Response, next: NextFunction): P
       throw new AppError('Invalid credentials', 401, 'INVALID_CREDENTIALS');
     }
 
-    // Verify privateKey if provided (optional but recommended)
-    if (privateKey) {
+    // Accounts created before key custody can hand their key to the vault once
+    const keyVault = getKeyVault();
+    if (privateKey && !(await keyVault.hasKey(user.wallet_address))) {
       const wallet = new Wallet(privateKey);
       if (wallet.address.toLowerCase() !== user.wallet_address.toLowerCase()) {
         throw new AppError('Invalid private key', 401, 'INVALID_PRIVATE_KEY');
       }
+
+      await keyVault.storeKey(user.wallet_address, wallet.privateKey);
     }
 
     // Generate tokens
-    const accessToken = generateToken({
-      walletAddress: user.wallet_address,
-      email: user.email,
-      role: user.role,
-      privateKey: privateKey || undefined, // Include if provided
+    const { accessToken, refreshToken } = await createSession(
+      req,
+      user.wallet_address,
+      user.email,
+      user.role
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [user.wallet_address, 'user_signin', { email }]
+    );
+
+    res.json({
+      success: true,
+      message: 'Signin successful',
+      data: {
+        walletAddress: user.wallet_address,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        patientContractAddress: user.patient_contract_address,
+        accessToken,
+        refreshToken,
+      },
     });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get SIWE nonce
+ * Issues a single-use nonce for a Sign-In with Ethereum message
+ */
+export async function getNonce(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const nonce = generateSiweNonce();
+    const expiresAt = new Date(Date.now() + config.siwe.nonceTtl * 1000);
 
-    const refreshToken = generateRefreshToken({
-      walletAddress: user.wallet_address,
-      email: user.email,
-      role: user.role,
+    await db.none('INSERT INTO auth_nonces (nonce, expires_at) VALUES ($1, $2)', [
+      nonce,
+      expiresAt,
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        nonce,
+        domain: config.siwe.domain,
+        chainId: config.blockchain.chainId,
+        expiresAt: expiresAt.toISOString(),
+      },
     });
+  } catch (error) {
+    next(error);
+  }
+}
 
-    // Store refresh token in sessions
-    const expiresAt = new Date(Date.now() + 7 * 24 * 60 * 60 * 1000); // 7 days
-    await db.none(
-      `INSERT INTO sessions (wallet_address, refresh_token, expires_at)
-       VALUES ($1, $2, $3)
-       ON CONFLICT (wallet_address)
-       DO UPDATE SET refresh_token = $2, expires_at = $3`,
-      [user.wallet_address, refreshToken, expiresAt]
+/**
+ * Sign in with Ethereum (EIP-4361)
+ * Authenticates a wallet-native user from a signed SIWE message
+ */
+export async function siweSignin(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { message, signature } = req.body;
+
+    let siweMessage: SiweMessage;
+    try {
+      siweMessage = parseSiweMessage(message);
+    } catch (error) {
+      throw new AppError((error as Error).message, 400, 'INVALID_SIWE_MESSAGE');
+    }
+
+    // Message must be addressed to this deployment
+    if (siweMessage.domain !== config.siwe.domain) {
+      throw new AppError('SIWE domain mismatch', 401, 'SIWE_DOMAIN_MISMATCH');
+    }
+
+    if (siweMessage.chainId !== config.blockchain.chainId) {
+      throw new AppError('SIWE chain ID mismatch', 401, 'SIWE_CHAIN_MISMATCH');
+    }
+
+    if (!isSiweMessageTimely(siweMessage)) {
+      throw new AppError('SIWE message expired or not yet valid', 401, 'SIWE_MESSAGE_EXPIRED');
+    }
+
+    // Verify signature
+    let signerAddress: string;
+    try {
+      signerAddress = recoverSiweSigner(message, signature);
+    } catch (error) {
+      throw new AppError('Invalid signature', 401, 'INVALID_SIGNATURE');
+    }
+
+    if (signerAddress.toLowerCase() !== siweMessage.address.toLowerCase()) {
+      throw new AppError('Invalid signature', 401, 'INVALID_SIGNATURE');
+    }
+
+    // Consume nonce (single use)
+    const nonce = await db.oneOrNone(
+      `UPDATE auth_nonces
+       SET consumed_at = NOW()
+       WHERE nonce = $1 AND consumed_at IS NULL AND expires_at > NOW()
+       RETURNING nonce`,
+      [siweMessage.nonce]
+    );
+
+    if (!nonce) {
+      throw new AppError('Invalid or expired nonce', 401, 'INVALID_NONCE');
+    }
+
+    // Get user from database
+    const user = await db.oneOrNone(
+      `SELECT wallet_address, name, email, role, patient_contract_address
+       FROM users WHERE LOWER(wallet_address) = LOWER($1)`,
+      [signerAddress]
+    );
+
+    if (!user) {
+      throw new AppError('No account is linked to this wallet', 401, 'WALLET_NOT_REGISTERED');
+    }
+
+    // Generate tokens
+    const { accessToken, refreshToken } = await createSession(
+      req,
+      user.wallet_address,
+      user.email,
+      user.role
     );
 
     // Log audit trail
     await db.none(
       `INSERT INTO audit_log (wallet_address, action, details)
        VALUES ($1, $2, $3)`,
-      [user.wallet_address, 'user_signin', { email }]
+      [user.wallet_address, 'user_signin', { method: 'siwe', domain: siweMessage.domain }]
     );
 
     res.json({
@@ -211,7 +377,7 @@ export async function signin(req: Request, res: Response, next: NextFunction): P
 
 /**
  * Refresh access token
- * Uses refresh token to get new access token
+ * Rotates the refresh token; presenting an already-rotated token revokes its session
  */
 export async function refreshAccessToken(
   req: Request,
@@ -225,42 +391,94 @@ export async function refreshAccessToken(
       throw new AppError('Refresh token required', 400, 'MISSING_REFRESH_TOKEN');
     }
 
-    // Verify refresh token exists in sessions
-    const session = await db.oneOrNone(
-      `SELECT s.wallet_address, s.expires_at, u.email, u.role, u.name
-       FROM sessions s
+    // Find the token and its session family
+    const token = await db.oneOrNone(
+      `SELECT rt.id, rt.rotated_at, s.id AS session_id, s.wallet_address, s.expires_at,
+              s.revoked_at, u.email, u.role, u.name
+       FROM refresh_tokens rt
+       JOIN sessions s ON rt.session_id = s.id
        JOIN users u ON s.wallet_address = u.wallet_address
-       WHERE s.refresh_token = $1`,
-      [refreshToken]
+       WHERE rt.token_hash = $1`,
+      [sha256(refreshToken)]
     );
 
-    if (!session) {
+    if (!token) {
       throw new AppError('Invalid refresh token', 401, 'INVALID_REFRESH_TOKEN');
     }
 
+    if (token.revoked_at) {
+      throw new AppError('Session has been revoked', 401, 'SESSION_REVOKED');
+    }
+
     // Check if refresh token expired
-    if (new Date(session.expires_at) < new Date()) {
+    if (new Date(token.expires_at) < new Date()) {
       // Delete expired session
-      await db.none('DELETE FROM sessions WHERE refresh_token = $1', [refreshToken]);
+      await db.none('DELETE FROM sessions WHERE id = $1', [token.session_id]);
       throw new AppError('Refresh token expired', 401, 'REFRESH_TOKEN_EXPIRED');
     }
 
-    // Generate new access token
+    // Mark the presented token rotated; losing this race also counts as reuse
+    const rotated = token.rotated_at
+      ? null
+      : await db.oneOrNone(
+          `UPDATE refresh_tokens SET rotated_at = NOW()
+           WHERE id = $1 AND rotated_at IS NULL
+           RETURNING id`,
+          [token.id]
+        );
+
+    if (!rotated) {
+      // A rotated token came back: assume it leaked and kill the whole family
+      await revokeSession(token.session_id, 'refresh_token_reuse');
+
+      await db.none(
+        `INSERT INTO audit_log (wallet_address, action, details)
+         VALUES ($1, $2, $3)`,
+        [
+          token.wallet_address,
+          'refresh_token_reuse',
+          { sessionId: token.session_id, userAgent: req.get('user-agent'), ipAddress: req.ip },
+        ]
+      );
+
+      throw new AppError(
+        'Refresh token reuse detected, session revoked',
+        401,
+        'REFRESH_TOKEN_REUSED'
+      );
+    }
+
+    // Issue the next token in the family and a new access token bound to the session
+    const newRefreshToken = await issueRefreshToken(
+      token.session_id,
+      token.wallet_address,
+      token.email,
+      token.role,
+      token.id
+    );
     const accessToken = generateToken({
-      walletAddress: session.wallet_address,
-      email: session.email,
-      role: session.role,
+      walletAddress: token.wallet_address,
+      email: token.email,
+      role: token.role,
+      sessionId: token.session_id,
     });
 
+    await db.none(
+      `UPDATE sessions SET last_used_at = NOW(), user_agent = $2, ip_address = $3
+       WHERE id = $1`,
+      [token.session_id, req.get('user-agent') || null, req.ip || null]
+    );
+
     res.json({
       success: true,
       message: 'Token refreshed successfully',
       data: {
-        walletAddress: session.wallet_address,
-        name: session.name,
-        email: session.email,
-        role: session.role,
+        walletAddress: token.wallet_address,
+        name: token.name,
+        email: token.email,
+        role: token.role,
         accessToken,
+        refreshToken: newRefreshToken,
       },
     });
   } catch (error) {
@@ -270,14 +488,14 @@ export async function refreshAccessToken(
 
 /**
  * Logout
- * Invalidates refresh token
+ * Revokes the current session and its refresh tokens
  */
 export async function logout(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const { walletAddress } = req.user!;
+    const { walletAddress, sessionId } = req.user!;
 
-    // Delete session
-    await db.none('DELETE FROM sessions WHERE wallet_address = $1', [walletAddress]);
+    // Revoke session (access tokens referencing it stop working immediately)
+    await revokeSession(sessionId!, 'logout');
 
     // Log audit trail
     await db.none(
@@ -295,6 +513,84 @@ export async function logout(req: Request, res: Response, next: NextFunction): P
   }
 }
 
+/**
+ * List sessions
+ * Shows the user's active sessions across devices
+ */
+export async function listSessions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress, sessionId } = req.user!;
+
+    const sessions = await db.manyOrNone(
+      `SELECT id, user_agent, ip_address, created_at, last_used_at AS last_seen_at, expires_at
+       FROM sessions
+       WHERE wallet_address = $1 AND revoked_at IS NULL AND expires_at > NOW()
+       ORDER BY last_used_at DESC`,
+      [walletAddress]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        sessions: sessions.map((session) => ({
+          ...session,
+          current: session.id === sessionId,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Revoke session
+ * Signs out one of the user's devices
+ */
+export async function deleteSession(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const sessionId = parseInt(req.params.sessionId);
+
+    const session = await db.oneOrNone(
+      `SELECT id FROM sessions
+       WHERE id = $1 AND wallet_address = $2 AND revoked_at IS NULL`,
+      [sessionId, walletAddress]
+    );
+
+    if (!session) {
+      throw new AppError('Session not found', 404, 'SESSION_NOT_FOUND');
+    }
+
+    await revokeSession(sessionId, 'user_revoked');
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'session_revoked', { sessionId }]
+    );
+
+    res.json({
+      success: true,
+      message: 'Session revoked successfully',
+      data: {
+        sessionId,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Get current user profile
  */
@@ -0,0 +1,260 @@
+/**
+ * @file Consents Controller
+ * @description Handles patient consents (FHIR Consent) and the permissions compiled from them
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import db from '../services/database';
+import { AppError } from '../middleware/errorHandler';
+import { actingForAuditDetails } from '../middleware/auth';
+import { getKeyVault } from '../services/custody';
+import { getRecordService } from '../services/records';
+import { getConsentService } from '../services/consents';
+import { ConsentStatus, ConsentSyncResult, FHIRResource, PatientConsent } from '../types';
+
+/**
+ * Load a consent of the patient the caller acts for
+ */
+async function getPatientConsent(req: Request): Promise<PatientConsent> {
+  const patientWallet = req.actingFor?.patientAddress || req.user!.walletAddress;
+  const consent = await getConsentService().getConsent(parseInt(req.params.consentId));
+
+  if (!consent || consent.patient_wallet.toLowerCase() !== patientWallet.toLowerCase()) {
+    throw new AppError('Consent not found', 404, 'CONSENT_NOT_FOUND');
+  }
+
+  return consent;
+}
+
+/**
+ * Check a submitted Consent and the patient's ability to enforce it
+ */
+async function prepareConsent(req: Request, patientWallet: string): Promise<FHIRResource> {
+  const consentService = getConsentService();
+
+  let resource: FHIRResource;
+  try {
+    resource = consentService.normalize(req.body.consent, patientWallet);
+  } catch (error) {
+    throw new AppError((error as Error).message, 400, 'INVALID_CONSENT');
+  }
+
+  const unknownActors = await consentService.findUnknownActors(resource);
+  if (unknownActors.length > 0) {
+    throw new AppError('Consent actors must be registered users', 400, 'UNKNOWN_CONSENT_ACTOR', {
+      actors: unknownActors,
+    });
+  }
+
+  return resource;
+}
+
+/**
+ * Patient records service for a consent's patient, whose key must be in custody
+ */
+async function getEnforcingService(patientWallet: string) {
+  const patientRecordsService = await getRecordService().getPatientRecordsService(patientWallet);
+  if (!patientRecordsService) {
+    throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+  }
+
+  if (!(await getKeyVault().hasKey(patientWallet))) {
+    throw new AppError(
+      'Consents can only be enforced for patients whose key is in custody',
+      409,
+      'CUSTODY_REQUIRED'
+    );
+  }
+
+  return patientRecordsService;
+}
+
+/**
+ * Log a consent change with the grants it caused
+ */
+async function auditConsent(
+  req: Request,
+  action: string,
+  consent: PatientConsent,
+  sync: ConsentSyncResult
+): Promise<void> {
+  await db.none(
+    `INSERT INTO audit_log (wallet_address, action, details)
+     VALUES ($1, $2, $3)`,
+    [
+      req.user!.walletAddress,
+      action,
+      {
+        consentId: consent.id,
+        version: consent.version,
+        status: consent.status,
+        patientAddress: consent.patient_wallet,
+        grantedPermissionIds: sync.granted.map((grant) => grant.permissionId),
+        revokedPermissionIds: sync.revoked.map((grant) => grant.permissionId),
+        ...actingForAuditDetails(req),
+      },
+    ]
+  );
+}
+
+/**
+ * Create a consent
+ * An active consent is compiled into on-chain grants straight away
+ */
+export async function createConsent(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+
+    const resource = await prepareConsent(req, patientWallet);
+    const patientRecordsService = await getEnforcingService(patientWallet);
+
+    const { consent, sync } = await getConsentService().createConsent(
+      patientWallet,
+      walletAddress,
+      resource,
+      patientRecordsService
+    );
+
+    await auditConsent(req, 'consent_created', consent, sync);
+
+    res.status(201).json({
+      success: true,
+      message: 'Consent created successfully',
+      data: {
+        consent: getConsentService().toResource(consent),
+        ...sync,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * List the patient's consents
+ */
+export async function listConsents(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+
+    const consentService = getConsentService();
+    const consents = await consentService.listConsents(
+      patientWallet,
+      req.query.status as ConsentStatus | undefined
+    );
+
+    res.json({
+      success: true,
+      data: {
+        consents: consents.map((consent) => consentService.toResource(consent)),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a consent with the permissions it created
+ */
+export async function getConsent(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const consent = await getPatientConsent(req);
+    const consentService = getConsentService();
+
+    res.json({
+      success: true,
+      data: {
+        consent: consentService.toResource(consent),
+        withdrawnAt: consent.withdrawn_at,
+        permissions: await consentService.listPermissions(consent.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Replace a consent
+ * Grants the new version permits are added and those it no longer permits are revoked
+ */
+export async function updateConsent(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const current = await getPatientConsent(req);
+
+    const resource = await prepareConsent(req, current.patient_wallet);
+    const patientRecordsService = await getEnforcingService(current.patient_wallet);
+
+    const { consent, sync } = await getConsentService().updateConsent(
+      current,
+      walletAddress,
+      resource,
+      patientRecordsService
+    );
+
+    await auditConsent(req, 'consent_updated', consent, sync);
+
+    res.json({
+      success: true,
+      message: 'Consent updated successfully',
+      data: {
+        consent: getConsentService().toResource(consent),
+        ...sync,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Withdraw a consent
+ * The consent is kept as inactive and every grant it created is revoked on-chain
+ */
+export async function withdrawConsent(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const current = await getPatientConsent(req);
+
+    if (current.status === 'inactive' && current.withdrawn_at) {
+      throw new AppError('Consent already withdrawn', 409, 'CONSENT_WITHDRAWN');
+    }
+
+    const patientRecordsService = await getEnforcingService(current.patient_wallet);
+
+    const { consent, sync } = await getConsentService().withdrawConsent(
+      current,
+      walletAddress,
+      patientRecordsService
+    );
+
+    await auditConsent(req, 'consent_withdrawn', consent, sync);
+
+    res.json({
+      success: true,
+      message: 'Consent withdrawn successfully',
+      data: {
+        consent: getConsentService().toResource(consent),
+        revoked: sync.revoked,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,219 @@
+/**
+ * @file Delegations Controller
+ * @description Proxy delegations letting parents, legal guardians and power-of-attorney
+ * holders manage a patient's records
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import db from '../services/database';
+import { AppError } from '../middleware/errorHandler';
+import { getPolicyEngine } from '../services/policy';
+import { ProxyDelegation } from '../types';
+
+/**
+ * Designate a proxy
+ * Patients designate their own proxies; admins may designate one for any patient
+ * but must attach proof documents (court order, birth certificate, POA deed)
+ */
+export async function createDelegation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { proxyAddress, relationship, scopes, expiresAt, proofDocuments = [] } = req.body;
+    const patientAddress: string = req.body.patientAddress || walletAddress;
+
+    const patient = await db.oneOrNone(
+      'SELECT wallet_address, role FROM users WHERE LOWER(wallet_address) = LOWER($1)',
+      [patientAddress]
+    );
+
+    if (!patient || patient.role !== 'patient') {
+      throw new AppError('Patient not found', 404, 'PATIENT_NOT_FOUND');
+    }
+
+    const proxy = await db.oneOrNone(
+      'SELECT wallet_address FROM users WHERE LOWER(wallet_address) = LOWER($1)',
+      [proxyAddress]
+    );
+
+    if (!proxy) {
+      throw new AppError('Proxy user not found', 404, 'USER_NOT_FOUND');
+    }
+
+    if (proxy.wallet_address === patient.wallet_address) {
+      throw new AppError('A patient cannot be their own proxy', 400, 'INVALID_PROXY');
+    }
+
+    const actingForSelf = patient.wallet_address.toLowerCase() === walletAddress.toLowerCase();
+    if (!actingForSelf && proofDocuments.length === 0) {
+      throw new AppError(
+        'Proof documents are required to designate a proxy for another user',
+        400,
+        'PROOF_REQUIRED'
+      );
+    }
+
+    const delegation: ProxyDelegation = await db.one(
+      `INSERT INTO proxy_delegations
+         (patient_wallet, proxy_wallet, relationship, scopes, created_by, proof_documents, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, CASE WHEN $7::bigint IS NULL THEN NULL ELSE to_timestamp($7) END)
+       RETURNING *`,
+      [
+        patient.wallet_address,
+        proxy.wallet_address,
+        relationship,
+        scopes,
+        walletAddress,
+        JSON.stringify(proofDocuments),
+        expiresAt ? parseInt(expiresAt) : null,
+      ]
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'delegation_created',
+        {
+          delegationId: delegation.id,
+          patient: delegation.patient_wallet,
+          proxy: delegation.proxy_wallet,
+          relationship,
+          scopes,
+          expiresAt: delegation.expires_at,
+          proofDocuments,
+        },
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Proxy designated successfully',
+      data: {
+        delegation,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * List delegations
+ * Returns proxies the caller has designated and patients the caller may act for
+ */
+export async function listDelegations(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+
+    const columns = `d.id, d.patient_wallet, d.proxy_wallet, d.relationship, d.scopes, d.created_by,
+              d.expires_at, d.revoked_at, d.created_at,
+              (d.revoked_at IS NULL AND (d.expires_at IS NULL OR d.expires_at > NOW())) AS active`;
+
+    const granted = await db.manyOrNone(
+      `SELECT ${columns}, u.name AS proxy_name
+       FROM proxy_delegations d
+       JOIN users u ON d.proxy_wallet = u.wallet_address
+       WHERE d.patient_wallet = $1
+       ORDER BY d.created_at DESC`,
+      [walletAddress]
+    );
+
+    const received = await db.manyOrNone(
+      `SELECT ${columns}, u.name AS patient_name
+       FROM proxy_delegations d
+       JOIN users u ON d.patient_wallet = u.wallet_address
+       WHERE d.proxy_wallet = $1
+       ORDER BY d.created_at DESC`,
+      [walletAddress]
+    );
+
+    res.json({
+      success: true,
+      data: {
+        granted,
+        received,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Revoke a delegation
+ * The patient, the proxy (stepping down) or anyone allowed to manage the
+ * patient's delegations may revoke it
+ */
+export async function revokeDelegation(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress, role } = req.user!;
+    const delegationId = parseInt(req.params.delegationId);
+
+    const delegation: ProxyDelegation | null = await db.oneOrNone(
+      'SELECT * FROM proxy_delegations WHERE id = $1 AND revoked_at IS NULL',
+      [delegationId]
+    );
+
+    if (!delegation) {
+      throw new AppError('Delegation not found', 404, 'DELEGATION_NOT_FOUND');
+    }
+
+    const isProxy = delegation.proxy_wallet.toLowerCase() === walletAddress.toLowerCase();
+    if (!isProxy) {
+      const decision = await getPolicyEngine().authorize(walletAddress, role, 'delegation:manage', {
+        patientAddress: delegation.patient_wallet,
+      });
+
+      if (!decision.allowed) {
+        throw new AppError('Not authorized to revoke this delegation', 403, 'AUTH_FORBIDDEN');
+      }
+    }
+
+    await db.none(
+      'UPDATE proxy_delegations SET revoked_at = NOW(), revoked_by = $2 WHERE id = $1',
+      [delegationId, walletAddress]
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'delegation_revoked',
+        {
+          delegationId,
+          patient: delegation.patient_wallet,
+          proxy: delegation.proxy_wallet,
+          relationship: delegation.relationship,
+          scopes: delegation.scopes,
+          expiresAt: delegation.expires_at,
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Delegation revoked',
+      data: {
+        delegationId,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,19 +1,276 @@
 /**
  * @file Emergency Controller
- * @description Handles emergency access requests (2-physician approval)
+ * @description Handles emergency access requests (multi-physician approval)
+ * A grant moves requested → cosigning (approval) → cosigned (on-chain) → confirmed (on-chain)
+ * and ends expired or revoked; see EmergencyGrantService.
  */
 
 import { Request, Response, NextFunction } from 'express';
 import crypto from 'crypto';
 import db from '../services/database';
+import config from '../config';
 import { AppError } from '../middleware/errorHandler';
 import { PatientRecordsService } from '../services/blockchain/PatientRecordsService';
 import * as ecies from '../utils/ecies';
 import { KeyRegistryService } from '../services/blockchain/KeyRegistryService';
+import { getKeyVault } from '../services/custody';
+import { getEmergencyEscrowService } from '../services/escrow';
+import {
+  getEmergencyDirectiveService,
+  getEmergencyGrantService,
+  getEmergencyJustificationService,
+  getEmergencyReviewService,
+} from '../services/emergency';
+import { getNotificationService } from '../services/notifications';
+import { getPolicyEngine } from '../services/policy';
+import { getRecordService } from '../services/records';
+import {
+  EmergencyContact,
+  EmergencyCosignature,
+  EmergencyDirectiveDecision,
+  EmergencyDirectiveRule,
+  EmergencyGrant,
+  EmergencyGrantStatus,
+  EmergencyJustification,
+  EmergencyReview,
+  EmergencyReviewStatus,
+} from '../types';
+
+/**
+ * Load an emergency grant, expired first when its time has passed
+ */
+async function getGrant(grantId: string): Promise<EmergencyGrant> {
+  const grant = await getEmergencyGrantService().getGrant(grantId);
+
+  if (!grant) {
+    throw new AppError('Emergency grant not found', 404, 'GRANT_NOT_FOUND');
+  }
+
+  return grant;
+}
+
+function assertGrantStatus(grant: EmergencyGrant, status: EmergencyGrantStatus): void {
+  if (grant.status === 'expired') {
+    throw new AppError('Grant request expired', 400, 'GRANT_EXPIRED');
+  }
+
+  if (grant.status !== status) {
+    throw new AppError(`Emergency grant is ${grant.status}`, 409, 'INVALID_GRANT_STATE', {
+      status: grant.status,
+      expected: status,
+    });
+  }
+}
+
+/**
+ * A transition returned nothing because another request moved the grant first
+ */
+function assertTransitioned(grant: EmergencyGrant | null): EmergencyGrant {
+  if (!grant) {
+    throw new AppError('Emergency grant changed concurrently', 409, 'INVALID_GRANT_STATE');
+  }
+  return grant;
+}
+
+/**
+ * Load a justification code of the catalogue
+ */
+async function getJustification(code: number): Promise<EmergencyJustification> {
+  const justification = await getEmergencyJustificationService().getCode(code);
+
+  if (!justification) {
+    throw new AppError('Unknown justification code', 400, 'INVALID_JUSTIFICATION');
+  }
+
+  return justification;
+}
+
+/**
+ * Apply the patient's emergency directive to a record
+ * A record the directive denies is refused, and the attempt audited, however many physicians
+ * agree. Returns the decision with the patient's preferred emergency contacts
+ */
+async function applyDirective(
+  req: Request,
+  grantId: string | null,
+  patientWallet: string,
+  recordId: number
+): Promise<{ decision: EmergencyDirectiveDecision; emergencyContacts: EmergencyContact[] }> {
+  const directiveService = getEmergencyDirectiveService();
+  const directive = await directiveService.getDirective(patientWallet);
+  const decision = await directiveService.filterRecordIds(directive, [recordId]);
+
+  if (decision.deniedRecordIds.length > 0) {
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        req.user!.walletAddress,
+        'emergency_access_denied_by_directive',
+        { grantId, patientAddress: patientWallet, recordId, directive: decision },
+      ]
+    );
+
+    throw new AppError(
+      "The patient's emergency directive does not allow opening this record",
+      403,
+      'DENIED_BY_DIRECTIVE',
+      { directiveVersion: decision.version }
+    );
+  }
+
+  return { decision, emergencyContacts: directive?.emergency_contacts || [] };
+}
+
+/**
+ * List the justification codes physicians can request emergency access under
+ */
+export async function listJustifications(
+  _req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const justifications = await getEmergencyJustificationService().listCodes();
+
+    res.json({
+      success: true,
+      data: {
+        justifications,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the caller's emergency directive
+ */
+export async function getEmergencyDirective(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+
+    const directive = await getEmergencyDirectiveService().getDirective(walletAddress);
+    if (!directive) {
+      throw new AppError('No emergency directive declared', 404, 'DIRECTIVE_NOT_FOUND');
+    }
+
+    res.json({
+      success: true,
+      data: {
+        directive,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Declare or replace the caller's emergency directive
+ * Grants already requested keep the directive decision they were made under
+ */
+export async function saveEmergencyDirective(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { defaultEffect } = req.body;
+
+    // Only the known fields are kept
+    const rules: EmergencyDirectiveRule[] = (req.body.rules || []).map((rule: any) => ({
+      effect: rule.effect,
+      ...(rule.resourceType && { resourceType: rule.resourceType }),
+      ...(rule.code && { code: rule.code }),
+    }));
+    const emergencyContacts: EmergencyContact[] = (req.body.emergencyContacts || []).map(
+      (contact: any) => ({
+        name: contact.name,
+        ...(contact.relationship && { relationship: contact.relationship }),
+        ...(contact.phone && { phone: contact.phone }),
+        ...(contact.email && { email: contact.email }),
+      })
+    );
+
+    const directive = await getEmergencyDirectiveService().saveDirective(
+      walletAddress,
+      rules,
+      defaultEffect || 'allow',
+      emergencyContacts
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'emergency_directive_saved',
+        {
+          version: directive.version,
+          rules: directive.rules,
+          defaultEffect: directive.default_effect,
+          emergencyContacts: directive.emergency_contacts.length,
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Emergency directive saved',
+      data: {
+        directive,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Withdraw the caller's emergency directive; every record is then open to emergency access
+ */
+export async function deleteEmergencyDirective(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+
+    const deleted = await getEmergencyDirectiveService().deleteDirective(walletAddress);
+    if (!deleted) {
+      throw new AppError('No emergency directive declared', 404, 'DIRECTIVE_NOT_FOUND');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'emergency_directive_deleted', {}]
+    );
+
+    res.json({
+      success: true,
+      message: 'Emergency directive withdrawn',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
 
 /**
  * Request emergency access
- * First physician initiates emergency access request
+ * First physician initiates emergency access request under a justification code, whose
+ * rules (notes, duration, eligible records) are checked here
  */
 export async function requestEmergencyAccess(
   req: Request,
@@ -21,17 +278,33 @@ export async function requestEmergencyAccess(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { patientAddress, recordId, justificationCode } = req.body;
+    const notes: string | null = req.body.notes || null;
+
+    const justificationService = getEmergencyJustificationService();
+    const justification = await getJustification(justificationCode);
+    if (!justification.active) {
+      throw new AppError('Justification code is no longer in use', 400, 'INVALID_JUSTIFICATION');
+    }
 
-    // Only doctors can request emergency access
-    if (role !== 'doctor') {
-      throw new AppError('Only doctors can request emergency access', 403, 'FORBIDDEN');
+    if (!justificationService.meetsNotesRequirement(justification, notes)) {
+      throw new AppError(
+        `Justification code ${justification.code} requires written justification`,
+        400,
+        'JUSTIFICATION_NOTES_REQUIRED',
+        { minLength: Math.max(justification.notes_min_length, 1) }
+      );
     }
 
-    // Validate justification code (1=Trauma, 2=Unconscious, 3=Critical)
-    if (![1, 2, 3].includes(justificationCode)) {
-      throw new AppError('Invalid justification code (1-3)', 400, 'INVALID_JUSTIFICATION');
+    // Access runs for the configured duration unless the request asks for less
+    const durationSeconds: number =
+      req.body.durationSeconds ||
+      Math.min(config.emergency.accessDuration, justification.max_duration_seconds);
+    if (durationSeconds > justification.max_duration_seconds) {
+      throw new AppError('Requested duration exceeds the code maximum', 400, 'DURATION_EXCEEDED', {
+        maxDurationSeconds: justification.max_duration_seconds,
+      });
     }
 
     // Get patient contract address
@@ -44,17 +317,52 @@ export async function requestEmergencyAccess(
       throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
     }
 
+    if (!(await justificationService.isRecordEligible(justification, patientAddress, recordId))) {
+      throw new AppError(
+        `Record is not in a category justification code ${justification.code} covers`,
+        403,
+        'RECORD_NOT_ELIGIBLE',
+        { recordCategories: justification.record_categories }
+      );
+    }
+
+    const { decision: directive, emergencyContacts } = await applyDirective(
+      req,
+      null,
+      patientAddress,
+      recordId
+    );
+
+    // Without an escrowed key an approval could not release anything to the physicians
+    if (!(await getEmergencyEscrowService().hasEscrow(patientAddress, recordId))) {
+      throw new AppError(
+        'Record key is not escrowed for emergency access',
+        409,
+        'KEY_NOT_ESCROWED'
+      );
+    }
+
     // Generate unique grant ID
     const grantId = '0x' + crypto.randomBytes(32).toString('hex');
 
-    // Calculate expiration (default: 1 hour from now)
-    const expirationTime = Math.floor(Date.now() / 1000) + 3600;
+    // Approvals must come in within the access duration; co-signing restarts it
+    const expirationTime = Math.floor(Date.now() / 1000) + durationSeconds;
 
-    // Store request in database (pending second physician approval)
+    // Store request in database (pending approval)
     await db.none(
-      `INSERT INTO emergency_grants (grant_id, patient_wallet, record_id, physician1_wallet, justification_code, expiration, confirmed)
-       VALUES ($1, $2, $3, $4, $5, to_timestamp($6), FALSE)`,
-      [grantId, patientAddress, recordId, walletAddress, justificationCode, expirationTime]
+      `INSERT INTO emergency_grants (grant_id, patient_wallet, record_id, physician1_wallet, justification_code, justification_notes, duration_seconds, directive_applied, expiration, confirmed)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, to_timestamp($9), FALSE)`,
+      [
+        grantId,
+        patientAddress,
+        recordId,
+        walletAddress,
+        justificationCode,
+        notes,
+        durationSeconds,
+        directive,
+        expirationTime,
+      ]
     );
 
     // Log audit trail
@@ -69,20 +377,26 @@ export async function requestEmergencyAccess(
           patientAddress,
           recordId,
           justificationCode,
+          durationSeconds,
+          directiveVersion: directive.version,
         },
       ]
     );
 
     res.status(201).json({
       success: true,
-      message: 'Emergency access requested (awaiting second physician approval)',
+      message: 'Emergency access requested (awaiting physician approval)',
       data: {
         grantId,
         patientAddress,
         recordId,
         requestedBy: walletAddress,
         justificationCode,
+        approvalsRequired: justification.approvals_required,
+        approverRoles: justification.approver_roles,
+        durationSeconds,
         expirationTime,
+        emergencyContacts,
         status: 'pending',
       },
     });
@@ -91,9 +405,112 @@ export async function requestEmergencyAccess(
   }
 }
 
+/**
+ * Co-sign a grant as its last approver
+ * The escrowed record key is opened and wrapped to both physicians, and the approver signs
+ * requestEmergencyAccess, which gives the grant its contract emergencyId once sent
+ */
+async function cosignEmergencyAccess(
+  grant: EmergencyGrant,
+  approverWallet: string,
+  justification: EmergencyJustification,
+  directive: EmergencyDirectiveDecision
+): Promise<EmergencyCosignature> {
+  // Get patient contract address
+  const patient = await db.one(
+    'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
+    [grant.patient_wallet]
+  );
+
+  if (!patient.patient_contract_address) {
+    throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+  }
+
+  const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
+  const keyRegistryService = new KeyRegistryService();
+
+  // Get public keys for both physicians
+  const physician1Key = await keyRegistryService.getPublicKey(grant.physician1_wallet);
+  const physician2Key = await keyRegistryService.getPublicKey(approverWallet);
+
+  // Both physicians have now acted, so the escrowed record key is opened and wrapped to
+  // each of them; the copies are only served once the grant is confirmed
+  const emergencyAesKey = await getEmergencyEscrowService().releaseRecordKey(
+    grant.patient_wallet,
+    grant.record_id
+  );
+  if (!emergencyAesKey) {
+    throw new AppError('Record key is not escrowed for emergency access', 409, 'KEY_NOT_ESCROWED');
+  }
+
+  let wrappedKeyPhysician1: string;
+  let wrappedKeyPhysician2: string;
+  try {
+    wrappedKeyPhysician1 = await ecies.wrapKey(
+      ecies.hexToPublicKey(physician1Key.publicKey),
+      emergencyAesKey
+    );
+    wrappedKeyPhysician2 = await ecies.wrapKey(
+      ecies.hexToPublicKey(physician2Key.publicKey),
+      emergencyAesKey
+    );
+  } finally {
+    emergencyAesKey.fill(0);
+  }
+
+  // Sign the co-signature; it is stored with the grant before it is sent
+  const signer = await getKeyVault().getSigner(approverWallet);
+  const signed = await patientRecordsService.signEmergencyAccessRequest(
+    signer,
+    grant.physician1_wallet,
+    approverWallet, // physician2
+    [grant.record_id], // recordIds as array
+    justification.contract_code,
+    wrappedKeyPhysician1 // The contract holds one key; each physician's copy is kept below
+  );
+
+  return {
+    signedTransaction: signed.signedTransaction,
+    transactionHash: signed.transactionHash,
+    wrappedKeyPhysician1,
+    wrappedKeyPhysician2,
+    directive,
+  };
+}
+
+/**
+ * Send a cosigning grant's co-signature and wait for it to be mined
+ * A co-signature that cannot be mined returns the grant to requested without its final
+ * approval, which the approver is asked to give again
+ */
+async function completeCosigning(grant: EmergencyGrant): Promise<EmergencyGrant> {
+  const patientRecordsService = await getRecordService().getPatientRecordsService(
+    grant.patient_wallet
+  );
+  if (!patientRecordsService) {
+    throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+  }
+
+  const cosigned = assertTransitioned(
+    await getEmergencyGrantService().completeCosigning(grant, patientRecordsService)
+  );
+  if (cosigned.status === 'requested') {
+    throw new AppError(
+      'Co-signature was not mined; approve the request again',
+      409,
+      'COSIGNATURE_NOT_MINED'
+    );
+  }
+  return cosigned;
+}
+
 /**
  * Approve emergency access
- * Second physician approves and triggers blockchain grant
+ * Approvals are collected until the justification code's count is reached; the last approver
+ * co-signs on the blockchain, and the record key is released from escrow wrapped to them and
+ * the requesting physician, usable once the requesting physician confirms. The co-signature
+ * is stored before it is sent, so when sending fails the last approver approves again to
+ * resume it.
  */
 export async function approveEmergencyAccess(
   req: Request,
@@ -101,87 +518,192 @@ export async function approveEmergencyAccess(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { grantId } = req.params;
 
-    // Only doctors can approve emergency access
-    if (role !== 'doctor') {
-      throw new AppError('Only doctors can approve emergency access', 403, 'FORBIDDEN');
-    }
-
-    // Get grant request
-    const grant = await db.oneOrNone(
-      `SELECT grant_id, patient_wallet, record_id, physician1_wallet, physician2_wallet,
-              justification_code, wrapped_key, expiration, confirmed
-       FROM emergency_grants
-       WHERE grant_id = $1`,
-      [grantId]
-    );
+    const grant = await getGrant(grantId);
 
-    if (!grant) {
-      throw new AppError('Emergency grant not found', 404, 'GRANT_NOT_FOUND');
+    // Resume a co-signature that was stored but not seen mined
+    if (grant.status === 'cosigning') {
+      if (grant.physician2_wallet?.toLowerCase() !== walletAddress.toLowerCase()) {
+        throw new AppError('Already approved by another physician', 409, 'INVALID_GRANT_STATE');
+      }
+      const cosigned = await completeCosigning(grant);
+      await logApproval(walletAddress, cosigned);
+      res.json(approvalResponse(cosigned));
+      return;
     }
 
-    if (grant.confirmed) {
-      throw new AppError('Grant already confirmed', 400, 'ALREADY_CONFIRMED');
-    }
+    assertGrantStatus(grant, 'requested');
 
     // Cannot approve own request
     if (grant.physician1_wallet.toLowerCase() === walletAddress.toLowerCase()) {
       throw new AppError('Cannot approve your own request', 403, 'SELF_APPROVAL');
     }
 
-    // Check if grant expired
-    if (new Date(grant.expiration) < new Date()) {
-      throw new AppError('Grant request expired', 400, 'GRANT_EXPIRED');
+    const justification = await getJustification(grant.justification_code);
+    const subject = await getPolicyEngine().loadSubject(walletAddress, req.user!.role);
+    const approverRoles = justification.approver_roles;
+    if (!subject.grants.some((roleGrant) => approverRoles.includes(roleGrant.role))) {
+      throw new AppError('Approver role not allowed for this code', 403, 'APPROVER_ROLE_REQUIRED', {
+        approverRoles,
+      });
     }
 
-    // Get patient contract address
-    const patient = await db.one(
-      'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
-      [grant.patient_wallet]
+    // The directive may have changed since the request; a deny holds whatever the approvals
+    const { decision: directive } = await applyDirective(
+      req,
+      grantId,
+      grant.patient_wallet,
+      grant.record_id
     );
 
-    if (!patient.patient_contract_address) {
+    // The grant stays locked until the approval is counted and, for the last approver, the
+    // co-signature signed and stored; a failed signature drops the approval so it can be
+    // retried
+    const { grant: approved, approvals } = await getEmergencyGrantService().approve(
+      grant,
+      walletAddress,
+      justification.approvals_required,
+      () => cosignEmergencyAccess(grant, walletAddress, justification, directive)
+    );
+    const recorded = assertTransitioned(approved);
+    if (approvals === null) {
+      throw new AppError('Already approved this request', 409, 'ALREADY_APPROVED');
+    }
+
+    if (recorded.status === 'requested') {
+      // Log audit trail
+      await db.none(
+        `INSERT INTO audit_log (wallet_address, action, details)
+         VALUES ($1, $2, $3)`,
+        [
+          walletAddress,
+          'emergency_access_approval_recorded',
+          {
+            grantId,
+            recordId: grant.record_id,
+            approvals,
+            approvalsRequired: justification.approvals_required,
+          },
+        ]
+      );
+
+      res.status(202).json({
+        success: true,
+        message: 'Approval recorded (awaiting further approvals)',
+        data: {
+          grantId,
+          approvals,
+          approvalsRequired: justification.approvals_required,
+          status: recorded.status,
+        },
+      });
+      return;
+    }
+
+    // Sent outside the grant's lock
+    const cosigned = await completeCosigning(recorded);
+    await logApproval(walletAddress, cosigned);
+    res.json(approvalResponse(cosigned));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Log the co-signature of a grant
+ */
+async function logApproval(walletAddress: string, cosigned: EmergencyGrant): Promise<void> {
+  // Log audit trail
+  await db.none(
+    `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+       VALUES ($1, $2, $3, $4)`,
+    [
+      walletAddress,
+      'emergency_access_approved',
+      cosigned.cosign_transaction_hash,
+      {
+        grantId: cosigned.grant_id,
+        emergencyId: cosigned.emergency_id,
+        physician1: cosigned.physician1_wallet,
+        physician2: cosigned.physician2_wallet,
+        recordId: cosigned.record_id,
+        justificationCode: cosigned.justification_code,
+        directiveVersion: cosigned.directive_applied?.version ?? null,
+      },
+    ]
+  );
+}
+
+/**
+ * Response to the co-signature of a grant
+ */
+function approvalResponse(cosigned: EmergencyGrant) {
+  return {
+    success: true,
+    message: 'Emergency access co-signed (awaiting confirmation by the requesting physician)',
+    data: {
+      grantId: cosigned.grant_id,
+      patientAddress: cosigned.patient_wallet,
+      recordId: cosigned.record_id,
+      physician1: cosigned.physician1_wallet,
+      physician2: cosigned.physician2_wallet,
+      justificationCode: cosigned.justification_code,
+      expirationTime: Math.floor(new Date(cosigned.expiration).getTime() / 1000),
+      emergencyId: cosigned.emergency_id,
+      transactionHash: cosigned.cosign_transaction_hash,
+      wrappedKeys: {
+        physician1: cosigned.wrapped_key,
+        physician2: cosigned.physician2_wrapped_key,
+      },
+      status: cosigned.status,
+    },
+  };
+}
+
+/**
+ * Confirm emergency access
+ * The requesting physician confirms the co-signed grant on the blockchain, after which both
+ * physicians can read the record with their wrapped keys
+ */
+export async function confirmEmergencyAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { grantId } = req.params;
+
+    const grant = await getGrant(grantId);
+    assertGrantStatus(grant, 'cosigned');
+
+    // The approving physician co-signed, so the other physician confirms
+    if (grant.physician1_wallet.toLowerCase() !== walletAddress.toLowerCase()) {
+      throw new AppError(
+        'Only the requesting physician can confirm',
+        403,
+        'NOT_REQUESTING_PHYSICIAN'
+      );
+    }
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(
+      grant.patient_wallet
+    );
+    if (!patientRecordsService) {
       throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
     }
 
-    const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
-    const keyRegistryService = new KeyRegistryService();
-
-    // Get public keys for both physicians
-    const physician1Key = await keyRegistryService.getPublicKey(grant.physician1_wallet);
-    const physician2Key = await keyRegistryService.getPublicKey(walletAddress);
-
-    // For emergency access, we need to get the AES key somehow
-    // In a real system, this would involve:
-    // 1. Patient having pre-authorized emergency key escrow
-    // 2. Or using threshold encryption
-    // For this implementation, we'll use a placeholder
-    const emergencyAesKey = Buffer.from('a'.repeat(64), 'hex'); // Placeholder
-
-    // Wrap key for both physicians
-    const physician1PublicKey = Buffer.from(physician1Key.publicKey.replace('0x', ''), 'hex');
-    const physician2PublicKey = Buffer.from(physician2Key.publicKey.replace('0x', ''), 'hex');
-    const wrappedKeyPhysician1 = await ecies.wrapKey(physician1PublicKey, emergencyAesKey);
-    const wrappedKeyPhysician2 = await ecies.wrapKey(physician2PublicKey, emergencyAesKey);
-
-    // Request emergency access on blockchain
-    const result = await patientRecordsService.requestEmergencyAccess(
-      req.wallet!,
-      grant.physician1_wallet,
-      walletAddress, // physician2
-      [grant.record_id], // recordIds as array
-      grant.justification_code,
-      wrappedKeyPhysician1 // Using physician1's wrapped key for now
+    // Confirm on blockchain
+    const signer = await getKeyVault().getSigner(walletAddress);
+    const transactionHash = await patientRecordsService.confirmEmergencyAccess(
+      signer,
+      grant.emergency_id!
     );
 
-    // Update grant in database
-    await db.none(
-      `UPDATE emergency_grants
-       SET physician2_wallet = $1, wrapped_key = $2, confirmed = TRUE
-       WHERE grant_id = $3`,
-      [walletAddress, wrappedKeyPhysician1, grantId]
+    const confirmed = assertTransitioned(
+      await getEmergencyGrantService().markConfirmed(grant, transactionHash)
     );
 
     // Log audit trail
@@ -190,32 +712,29 @@ export async function approveEmergencyAccess(
        VALUES ($1, $2, $3, $4)`,
       [
         walletAddress,
-        'emergency_access_approved',
-        result.transactionHash,
+        'emergency_access_confirmed',
+        transactionHash,
         {
           grantId,
+          emergencyId: grant.emergency_id,
           physician1: grant.physician1_wallet,
-          physician2: walletAddress,
+          physician2: grant.physician2_wallet,
           recordId: grant.record_id,
-          justificationCode: grant.justification_code,
         },
       ]
     );
 
     res.json({
       success: true,
-      message: 'Emergency access granted successfully',
+      message: 'Emergency access confirmed',
       data: {
         grantId,
-        patientAddress: grant.patient_wallet,
-        recordId: grant.record_id,
-        physician1: grant.physician1_wallet,
-        physician2: walletAddress,
-        justificationCode: grant.justification_code,
-        expirationTime: Math.floor(new Date(grant.expiration).getTime() / 1000),
-        emergencyId: result.emergencyId,
-        transactionHash: result.transactionHash,
-        status: 'confirmed',
+        emergencyId: confirmed.emergency_id,
+        patientAddress: confirmed.patient_wallet,
+        recordId: confirmed.record_id,
+        expirationTime: Math.floor(new Date(confirmed.expiration).getTime() / 1000),
+        transactionHash,
+        status: confirmed.status,
       },
     });
   } catch (error) {
@@ -233,28 +752,12 @@ export async function rejectEmergencyAccess(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { grantId } = req.params;
     const { reason } = req.body;
 
-    // Only doctors can reject emergency access
-    if (role !== 'doctor') {
-      throw new AppError('Only doctors can reject emergency access', 403, 'FORBIDDEN');
-    }
-
-    // Get grant request
-    const grant = await db.oneOrNone(
-      'SELECT grant_id, physician1_wallet, confirmed FROM emergency_grants WHERE grant_id = $1',
-      [grantId]
-    );
-
-    if (!grant) {
-      throw new AppError('Emergency grant not found', 404, 'GRANT_NOT_FOUND');
-    }
-
-    if (grant.confirmed) {
-      throw new AppError('Grant already confirmed', 400, 'ALREADY_CONFIRMED');
-    }
+    const grant = await getGrant(grantId);
+    assertGrantStatus(grant, 'requested');
 
     // Cannot reject own request
     if (grant.physician1_wallet.toLowerCase() === walletAddress.toLowerCase()) {
@@ -292,6 +795,108 @@ export async function rejectEmergencyAccess(
   }
 }
 
+/**
+ * Revoke an emergency grant
+ * Patients end emergency access to their records; the contract has no revocation for it, so
+ * the physicians' wrapped keys are withheld off-chain
+ */
+export async function revokeEmergencyAccess(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { grantId } = req.params;
+
+    const grant = await getGrant(grantId);
+    if (grant.patient_wallet.toLowerCase() !== walletAddress.toLowerCase()) {
+      throw new AppError('Emergency grant not found', 404, 'GRANT_NOT_FOUND');
+    }
+
+    const emergencyGrantService = getEmergencyGrantService();
+    if (!emergencyGrantService.canTransition(grant.status, 'revoked')) {
+      throw new AppError(`Emergency grant is ${grant.status}`, 409, 'INVALID_GRANT_STATE', {
+        status: grant.status,
+      });
+    }
+
+    const revoked = assertTransitioned(await emergencyGrantService.revoke(grant, walletAddress));
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'emergency_access_revoked',
+        {
+          grantId,
+          previousStatus: grant.status,
+          physician1: grant.physician1_wallet,
+          physician2: grant.physician2_wallet,
+          recordId: grant.record_id,
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Emergency access revoked',
+      data: {
+        grantId,
+        status: revoked.status,
+        revokedAt: revoked.revoked_at,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get an emergency grant's state, reconciled with the chain
+ */
+export async function getEmergencyStatus(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const current = await getGrant(req.params.grantId);
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(
+      current.patient_wallet
+    );
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const { grant, chain } = await getEmergencyGrantService().reconcile(
+      current,
+      patientRecordsService
+    );
+
+    res.json({
+      success: true,
+      data: {
+        grantId: grant.grant_id,
+        emergencyId: grant.emergency_id,
+        status: grant.status,
+        expirationTime: Math.floor(new Date(grant.expiration).getTime() / 1000),
+        cosignedAt: grant.cosigned_at,
+        confirmedAt: grant.confirmed_at,
+        revokedAt: grant.revoked_at,
+        physician1Suspended: grant.physician1_suspended,
+        physician2Suspended: grant.physician2_suspended,
+        chain,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * List pending emergency access requests
  * Shows all pending requests awaiting approval
@@ -302,22 +907,22 @@ export async function listPendingRequests(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { role } = req.user!;
-
-    // Only doctors can view pending requests
-    if (role !== 'doctor') {
-      throw new AppError('Only doctors can view pending requests', 403, 'FORBIDDEN');
-    }
+    await getEmergencyGrantService().expireDue();
 
     // Get pending requests
     const requests = await db.manyOrNone(
       `SELECT eg.grant_id, eg.patient_wallet, eg.record_id, eg.physician1_wallet,
-              eg.justification_code, eg.expiration, eg.created_at,
+              eg.justification_code, eg.justification_notes, eg.duration_seconds,
+              eg.expiration, eg.created_at, jc.label AS justification_label,
+              jc.approvals_required, jc.approver_roles,
+              (SELECT COUNT(*)::int FROM emergency_grant_approvals a
+               WHERE a.grant_id = eg.grant_id) AS approvals,
               u1.name AS physician1_name, u2.name AS patient_name
        FROM emergency_grants eg
+       JOIN emergency_justification_codes jc ON eg.justification_code = jc.code
        JOIN users u1 ON eg.physician1_wallet = u1.wallet_address
        JOIN users u2 ON eg.patient_wallet = u2.wallet_address
-       WHERE eg.confirmed = FALSE AND eg.expiration > NOW()
+       WHERE eg.status = 'requested'
        ORDER BY eg.created_at DESC`
     );
 
@@ -342,29 +947,29 @@ export async function listEmergencyHistory(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { patientAddress } = req.query;
 
-    // Patients can only view their own history
-    if (role === 'patient' && (!patientAddress || patientAddress !== walletAddress)) {
-      throw new AppError('Patients can only view their own history', 403, 'FORBIDDEN');
-    }
-
-    // Admins can view any patient's history
-    if (role === 'admin' && !patientAddress) {
-      throw new AppError('Patient address required for admin', 400, 'MISSING_PATIENT_ADDRESS');
-    }
-
+    // Access to another patient's history is decided by policy (emergency:history)
     const targetPatient = (patientAddress as string) || walletAddress;
 
+    await getEmergencyGrantService().expireDue();
+
     // Get emergency access history
     const history = await db.manyOrNone(
       `SELECT eg.grant_id, eg.record_id, eg.physician1_wallet, eg.physician2_wallet,
-              eg.justification_code, eg.expiration, eg.confirmed, eg.created_at,
+              eg.justification_code, eg.justification_notes, eg.duration_seconds,
+              eg.directive_applied, eg.expiration, eg.confirmed, eg.created_at, eg.status,
+              eg.emergency_id,
+              eg.cosigned_at, eg.confirmed_at, eg.revoked_at,
+              eg.key_released_at, eg.physician1_suspended, eg.physician2_suspended,
+              eg.suspension_reason,
+              er.status AS review_status, er.reviewed_at,
               u1.name AS physician1_name, u2.name AS physician2_name
        FROM emergency_grants eg
        LEFT JOIN users u1 ON eg.physician1_wallet = u1.wallet_address
        LEFT JOIN users u2 ON eg.physician2_wallet = u2.wallet_address
+       LEFT JOIN emergency_reviews er ON eg.grant_id = er.grant_id
        WHERE eg.patient_wallet = $1
        ORDER BY eg.created_at DESC
        LIMIT 100`,
@@ -394,10 +999,17 @@ export async function getEmergencyGrant(
   try {
     const { grantId } = req.params;
 
+    await getEmergencyGrantService().expireDue();
+
     // Get grant details
     const grant = await db.oneOrNone(
       `SELECT eg.grant_id, eg.patient_wallet, eg.record_id, eg.physician1_wallet, eg.physician2_wallet,
-              eg.justification_code, eg.expiration, eg.confirmed, eg.created_at,
+              eg.justification_code, eg.justification_notes, eg.duration_seconds,
+              eg.directive_applied, eg.expiration, eg.confirmed, eg.created_at, eg.status,
+              eg.emergency_id,
+              eg.cosigned_at, eg.confirmed_at, eg.revoked_at,
+              eg.key_released_at, eg.physician1_suspended, eg.physician2_suspended,
+              eg.suspension_reason,
               u1.name AS physician1_name, u2.name AS physician2_name, u3.name AS patient_name
        FROM emergency_grants eg
        LEFT JOIN users u1 ON eg.physician1_wallet = u1.wallet_address
@@ -419,3 +1031,166 @@ export async function getEmergencyGrant(
     next(error);
   }
 }
+
+/**
+ * Load an emergency review
+ */
+async function getReview(reviewId: string): Promise<EmergencyReview> {
+  const review = await getEmergencyReviewService().getReview(parseInt(reviewId));
+
+  if (!review) {
+    throw new AppError('Emergency review not found', 404, 'REVIEW_NOT_FOUND');
+  }
+
+  return review;
+}
+
+/**
+ * List emergency access reviews
+ * Privacy officers work the queue of confirmed grants, oldest first
+ */
+export async function listEmergencyReviews(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const reviews = await getEmergencyReviewService().listReviews(
+      req.query.status as EmergencyReviewStatus | undefined
+    );
+
+    res.json({
+      success: true,
+      data: {
+        reviews,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get an emergency access review
+ * Includes the grant's justification, the reads made under it and its timeline
+ */
+export async function getEmergencyReview(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const review = await getReview(req.params.reviewId);
+    const grant = await getGrant(review.grant_id);
+
+    const emergencyReviewService = getEmergencyReviewService();
+    const accesses = await emergencyReviewService.listAccesses(grant);
+    const timeline = await emergencyReviewService.getTimeline(grant, accesses);
+
+    res.json({
+      success: true,
+      data: {
+        review,
+        grant: {
+          grantId: grant.grant_id,
+          emergencyId: grant.emergency_id,
+          status: grant.status,
+          patientAddress: grant.patient_wallet,
+          recordId: grant.record_id,
+          physician1: grant.physician1_wallet,
+          physician2: grant.physician2_wallet,
+          justificationCode: grant.justification_code,
+          justificationNotes: grant.justification_notes,
+          directiveApplied: grant.directive_applied,
+          approvals: await getEmergencyGrantService().listApprovals(grant.grant_id),
+          requestedAt: grant.created_at,
+          confirmedAt: grant.confirmed_at,
+          expiration: grant.expiration,
+          revokedAt: grant.revoked_at,
+        },
+        accesses,
+        timeline,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Decide an emergency access review
+ * The patient is notified of the outcome, which is also written to the audit log
+ */
+export async function decideEmergencyReview(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { outcome, notes } = req.body;
+
+    const review = await getReview(req.params.reviewId);
+    if (review.status !== 'pending') {
+      throw new AppError('Emergency review already decided', 409, 'REVIEW_CLOSED', {
+        status: review.status,
+      });
+    }
+
+    // Physicians cannot review access they took part in
+    const grant = await getGrant(review.grant_id);
+    const participants = [grant.physician1_wallet, grant.physician2_wallet]
+      .filter((wallet): wallet is string => !!wallet)
+      .map((wallet) => wallet.toLowerCase());
+    if (participants.includes(walletAddress.toLowerCase())) {
+      throw new AppError('Cannot review your own emergency access', 403, 'REVIEWER_CONFLICT');
+    }
+
+    const decided = await getEmergencyReviewService().decide(
+      review,
+      walletAddress,
+      outcome,
+      notes || null
+    );
+    if (!decided) {
+      throw new AppError('Emergency review already decided', 409, 'REVIEW_CLOSED');
+    }
+
+    await getNotificationService().notify(
+      grant.patient_wallet,
+      'emergency_access_reviewed',
+      `Emergency access to record ${grant.record_id} was reviewed and found ${outcome}.`,
+      { reviewId: decided.id, grantId: grant.grant_id, recordId: grant.record_id, outcome }
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'emergency_access_reviewed',
+        {
+          reviewId: decided.id,
+          grantId: grant.grant_id,
+          patientAddress: grant.patient_wallet,
+          physician1: grant.physician1_wallet,
+          physician2: grant.physician2_wallet,
+          recordId: grant.record_id,
+          outcome,
+          notes: decided.notes,
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Emergency review recorded',
+      data: {
+        review: decided,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
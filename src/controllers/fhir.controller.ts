@@ -0,0 +1,630 @@
+/**
+ * @file FHIR Controller
+ * @description FHIR R4 REST facade over encrypted records (read, search, create, metadata,
+ * Bulk Data $export)
+ * Resources are the decrypted records; on-chain access checks apply exactly as for /records.
+ * Record resources have the logical id `<patientAddress>-<recordId>`; a patient's wallet
+ * address is the id of their Patient resource.
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import db from '../services/database';
+import { AppError } from '../middleware/errorHandler';
+import { actingForAuditDetails } from '../middleware/auth';
+import { getRecordService, DecryptedRecord } from '../services/records';
+import { getFhirValidator, toPatientResource, toRecordResource } from '../services/fhir';
+import { getPolicyEngine } from '../services/policy';
+import { getBulkExportService } from '../services/export';
+import { getJobRunner } from '../services/jobs';
+import { getPermissionRuleService } from '../services/permissions';
+import { FHIRBundle, FHIRResource, OperationOutcome } from '../types';
+
+const FHIR_CONTENT_TYPE = 'application/fhir+json';
+const NDJSON_CONTENT_TYPE = 'application/fhir+ndjson';
+const EXPORT_RETRY_AFTER = 10; // seconds
+const RECORD_ID_PATTERN = /^(0x[a-fA-F0-9]{40})-(\d+)$/;
+const WALLET_PATTERN = /^0x[a-fA-F0-9]{40}$/;
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Base URL of the facade (e.g. https://host/api/fhir)
+ */
+function baseUrl(req: Request): string {
+  return `${req.protocol}://${req.get('host')}${req.baseUrl}`;
+}
+
+/**
+ * Patient reference or address from a search parameter (0x..., Patient/0x...)
+ */
+function parsePatientParam(value: unknown): string | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const address = value.replace(/^Patient\//, '');
+  return WALLET_PATTERN.test(address) ? address : null;
+}
+
+/**
+ * Render an error as an OperationOutcome (FHIR clients do not read our error envelope)
+ */
+export function handleFhirError(
+  err: Error | AppError,
+  _req: Request,
+  res: Response,
+  _next: NextFunction
+): void {
+  const statusCode = err instanceof AppError ? err.statusCode : 500;
+
+  // FHIR validation failures already carry an OperationOutcome
+  if (err instanceof AppError && err.details?.resourceType === 'OperationOutcome') {
+    res.status(statusCode).type(FHIR_CONTENT_TYPE).json(err.details);
+    return;
+  }
+
+  if (statusCode === 500) {
+    console.error('❌ Error:', err);
+  }
+
+  const codes: { [status: number]: string } = {
+    400: 'invalid',
+    401: 'login',
+    403: 'forbidden',
+    404: 'not-found',
+    409: 'conflict',
+    410: 'expired',
+  };
+
+  const outcome: OperationOutcome = {
+    resourceType: 'OperationOutcome',
+    issue: [
+      {
+        severity: 'error',
+        code: codes[statusCode] || 'exception',
+        diagnostics: statusCode === 500 ? 'An unexpected error occurred' : err.message,
+      },
+    ],
+  };
+
+  // express-validator failures
+  if (err instanceof AppError && Array.isArray(err.details)) {
+    for (const detail of err.details) {
+      outcome.issue.push({
+        severity: 'error',
+        code: 'invalid',
+        diagnostics: detail.msg,
+        ...(detail.path && { expression: [detail.path] }),
+      });
+    }
+  }
+
+  res.status(statusCode).type(FHIR_CONTENT_TYPE).json(outcome);
+}
+
+/**
+ * CapabilityStatement describing the facade
+ */
+export async function getCapabilityStatement(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const resourceTypes = getFhirValidator().getResourceTypes();
+
+    res.type(FHIR_CONTENT_TYPE).json({
+      resourceType: 'CapabilityStatement',
+      status: 'active',
+      date: new Date().toISOString(),
+      kind: 'instance',
+      software: { name: 'Patient Health Records API' },
+      implementation: {
+        description: 'FHIR facade over blockchain-controlled encrypted health records',
+        url: baseUrl(req),
+      },
+      fhirVersion: '4.0.1',
+      format: ['json'],
+      rest: [
+        {
+          mode: 'server',
+          security: {
+            cors: true,
+            description: 'Bearer JWT from /auth; reads require a verified second factor',
+          },
+          resource: resourceTypes.map((type) => ({
+            type,
+            interaction: [{ code: 'read' }, { code: 'search-type' }, { code: 'create' }],
+            searchParam: [
+              { name: 'patient', type: 'reference' },
+              { name: '_count', type: 'number' },
+            ],
+          })),
+          operation: [
+            {
+              name: 'export',
+              definition: 'http://hl7.org/fhir/uv/bulkdata/OperationDefinition/export',
+            },
+          ],
+        },
+      ],
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Read a resource by logical id
+ */
+export async function readResource(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { resourceType, id } = req.params;
+
+    // A patient's wallet address identifies their Patient resource
+    if (resourceType === 'Patient' && WALLET_PATTERN.test(id)) {
+      res.type(FHIR_CONTENT_TYPE).json(await readPatient(walletAddress, req.user!.role, id));
+      return;
+    }
+
+    const match = id.match(RECORD_ID_PATTERN);
+    if (!match) {
+      throw new AppError(`${resourceType}/${id} not found`, 404, 'RESOURCE_NOT_FOUND');
+    }
+
+    const patientAddress = match[1];
+    const recordId = parseInt(match[2]);
+
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(patientAddress);
+    if (!patientRecordsService) {
+      throw new AppError(`${resourceType}/${id} not found`, 404, 'RESOURCE_NOT_FOUND');
+    }
+
+    const record = await recordService.readRecord(
+      walletAddress,
+      patientAddress,
+      patientRecordsService,
+      recordId
+    );
+
+    if (!record) {
+      throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    // The id names a record of another type
+    if (record.fhirData.resourceType !== resourceType) {
+      throw new AppError(`${resourceType}/${id} not found`, 404, 'RESOURCE_NOT_FOUND');
+    }
+
+    await recordService.logAccess(
+      recordId,
+      walletAddress,
+      patientAddress,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.type(FHIR_CONTENT_TYPE).json(toRecordResource(patientAddress, record));
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Patient resource built from the account
+ * Visible to the patient, their proxies and anyone the patient shared records with
+ */
+async function readPatient(
+  walletAddress: string,
+  role: string,
+  patientAddress: string
+): Promise<FHIRResource> {
+  const user = await db.oneOrNone(
+    `SELECT wallet_address, name, email FROM users
+     WHERE LOWER(wallet_address) = LOWER($1) AND role = 'patient'`,
+    [patientAddress]
+  );
+
+  if (!user) {
+    throw new AppError(`Patient/${patientAddress} not found`, 404, 'RESOURCE_NOT_FOUND');
+  }
+
+  let visible = user.wallet_address.toLowerCase() === walletAddress.toLowerCase();
+
+  if (!visible) {
+    const subject = await getPolicyEngine().loadSubject(walletAddress, role);
+    visible = subject.delegations.some(
+      (delegation) => delegation.patientAddress.toLowerCase() === user.wallet_address.toLowerCase()
+    );
+  }
+
+  if (!visible) {
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(user.wallet_address);
+    visible =
+      !!patientRecordsService &&
+      (
+        await recordService.listReadableRecordIds(
+          walletAddress,
+          user.wallet_address,
+          patientRecordsService
+        )
+      ).length > 0;
+  }
+
+  if (!visible) {
+    throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+  }
+
+  return toPatientResource(user);
+}
+
+/**
+ * Search a resource type in one patient's records
+ * Records are decrypted to match the type, so paging walks the record list: `_offset`
+ * is a position in that list and the next link continues where the page stopped.
+ */
+export async function searchResources(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { resourceType } = req.params;
+
+    const patientAddress = req.query.patient ? parsePatientParam(req.query.patient) : walletAddress;
+    if (!patientAddress) {
+      throw new AppError('patient must be a patient address or reference', 400, 'INVALID_PARAM');
+    }
+
+    const count = Math.min(
+      parseInt((req.query._count as string) || `${DEFAULT_PAGE_SIZE}`),
+      MAX_PAGE_SIZE
+    );
+    const offset = parseInt((req.query._offset as string) || '0');
+
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(patientAddress);
+
+    const recordIds = patientRecordsService
+      ? await recordService.listReadableRecordIds(
+          walletAddress,
+          patientAddress,
+          patientRecordsService
+        )
+      : [];
+
+    const entry: FHIRBundle['entry'] = [];
+    let position = offset;
+
+    for (; position < recordIds.length && entry.length < count; position++) {
+      let record: DecryptedRecord | null;
+      try {
+        record = await recordService.readRecord(
+          walletAddress,
+          patientAddress,
+          patientRecordsService!,
+          recordIds[position]
+        );
+      } catch (error) {
+        entry.push({
+          resource: {
+            resourceType: 'OperationOutcome',
+            issue: [
+              {
+                severity: 'warning',
+                code: 'processing',
+                diagnostics: `Record ${recordIds[position]} could not be decrypted`,
+              },
+            ],
+          },
+          search: { mode: 'outcome' },
+        });
+        continue;
+      }
+
+      if (!record || record.fhirData.resourceType !== resourceType) {
+        continue;
+      }
+
+      await recordService.logAccess(
+        record.recordId,
+        walletAddress,
+        patientAddress,
+        req.ip,
+        req.get('user-agent')
+      );
+
+      const resource = toRecordResource(patientAddress, record);
+      entry.push({
+        fullUrl: `${baseUrl(req)}/${resourceType}/${resource.id}`,
+        resource,
+        search: { mode: 'match' },
+      });
+    }
+
+    const searchUrl = (pageOffset: number) =>
+      `${baseUrl(req)}/${resourceType}?patient=${patientAddress}` +
+      `&_count=${count}&_offset=${pageOffset}`;
+
+    const bundle: FHIRBundle = {
+      resourceType: 'Bundle',
+      type: 'searchset',
+      link: [{ relation: 'self', url: searchUrl(offset) }],
+      entry,
+    };
+
+    if (position < recordIds.length) {
+      bundle.link!.push({ relation: 'next', url: searchUrl(position) });
+    } else if (offset === 0) {
+      // The whole list was scanned, so the total is known
+      bundle.total = entry.filter((e) => e.search?.mode === 'match').length;
+    }
+
+    res.type(FHIR_CONTENT_TYPE).json(bundle);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Create a resource as a new encrypted record
+ * Proxies pass ?onBehalfOf=0x... to create in a patient's record
+ */
+export async function createResource(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { resourceType } = req.params;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+    const fhirData = { ...req.body };
+
+    if (fhirData.resourceType !== resourceType) {
+      throw new AppError(
+        `Resource type ${fhirData.resourceType} does not match the ${resourceType} endpoint`,
+        400,
+        'RESOURCE_TYPE_MISMATCH'
+      );
+    }
+
+    // The server assigns the logical id
+    delete fhirData.id;
+
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(patientWallet);
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const created = await recordService.createRecord(
+      patientWallet,
+      patientRecordsService,
+      fhirData
+    );
+
+    // Share with grantees whose rules cover the new record
+    await getPermissionRuleService().applyToNewRecord(
+      patientWallet,
+      patientRecordsService,
+      created.recordId,
+      fhirData
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+       VALUES ($1, $2, $3, $4)`,
+      [
+        walletAddress,
+        'record_added',
+        created.transactionHash,
+        {
+          recordId: created.recordId,
+          storagePointer: created.storagePointer,
+          contentDigest: created.contentDigest,
+          resourceType,
+          via: 'fhir',
+          ...actingForAuditDetails(req),
+        },
+      ]
+    );
+
+    const resource = toRecordResource(patientWallet, {
+      recordId: created.recordId,
+      version: 1,
+      fhirData,
+      metadata: {
+        storagePointer: created.storagePointer,
+        contentDigest: created.contentDigest,
+        timestamp: Math.floor(Date.now() / 1000),
+        lastUpdated: Math.floor(Date.now() / 1000),
+      },
+    });
+
+    res
+      .status(201)
+      .location(`${baseUrl(req)}/${resourceType}/${resource.id}/_history/1`)
+      .type(FHIR_CONTENT_TYPE)
+      .json(resource);
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Bulk Data kick-off ($export)
+ * Exports every record the caller can read (optionally limited with _type, _since and
+ * patient) as NDJSON files; the client polls the Content-Location for the manifest
+ */
+export async function kickOffExport(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+
+    if (!/respond-async/.test(req.get('prefer') || '')) {
+      throw new AppError('$export requires the Prefer: respond-async header', 400, 'INVALID_PARAM');
+    }
+
+    const split = (value: unknown) =>
+      typeof value === 'string'
+        ? value
+            .split(',')
+            .map((item) => item.trim())
+            .filter(Boolean)
+        : null;
+
+    const patients = split(req.query.patient);
+    const job = await getBulkExportService().enqueue(walletAddress, {
+      requestUrl: `${req.protocol}://${req.get('host')}${req.originalUrl}`,
+      types: split(req.query._type),
+      since: (req.query._since as string) || null,
+      patients: patients && patients.map((patient) => parsePatientParam(patient)!),
+    });
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'fhir_export_requested', { jobId: job.id, ...job.payload }]
+    );
+
+    res
+      .status(202)
+      .set('Content-Location', `${baseUrl(req)}/$export-status/${job.id}`)
+      .type(FHIR_CONTENT_TYPE)
+      .json({
+        resourceType: 'OperationOutcome',
+        issue: [{ severity: 'information', code: 'informational', diagnostics: 'Export queued' }],
+      });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Bulk Data status: 202 with X-Progress while running, then the manifest
+ */
+export async function getExportStatus(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const exportService = getBulkExportService();
+    const job = await exportService.getExport(parseInt(req.params.jobId), walletAddress);
+
+    if (!job) {
+      throw new AppError('Export not found', 404, 'EXPORT_NOT_FOUND');
+    }
+
+    if (job.status === 'queued' || job.status === 'running') {
+      const { patientsProcessed = 0, patients = 0 } = job.progress;
+      res
+        .status(202)
+        .set('X-Progress', `${job.status}: ${patientsProcessed}/${patients} patients`)
+        .set('Retry-After', `${EXPORT_RETRY_AFTER}`)
+        .end();
+      return;
+    }
+
+    if (job.status === 'failed') {
+      throw new AppError(`Export failed: ${job.error}`, 500, 'EXPORT_FAILED');
+    }
+
+    const files = await exportService.listFiles(job.id);
+    if (new Date(job.result!.expiresAt) <= new Date()) {
+      throw new AppError('Export files have expired', 410, 'EXPORT_EXPIRED');
+    }
+
+    const toEntry = (file: { id: number; resource_type: string; resource_count: number }) => ({
+      type: file.resource_type,
+      url: `${baseUrl(req)}/$export-file/${job.id}/${file.id}`,
+      count: file.resource_count,
+    });
+
+    res.set('Expires', new Date(job.result!.expiresAt).toUTCString()).json({
+      transactionTime: job.result!.transactionTime,
+      request: job.payload.requestUrl,
+      requiresAccessToken: true,
+      output: files.filter((file) => file.kind === 'output').map(toEntry),
+      error: files.filter((file) => file.kind === 'error').map(toEntry),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Bulk Data delete: cancel the export and expire its files
+ */
+export async function cancelExport(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const exportService = getBulkExportService();
+    const job = await exportService.getExport(parseInt(req.params.jobId), walletAddress);
+
+    if (!job) {
+      throw new AppError('Export not found', 404, 'EXPORT_NOT_FOUND');
+    }
+
+    await getJobRunner().cancel(job.id);
+    await exportService.expireFiles(job.id);
+
+    res.status(202).end();
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Download one NDJSON file of an export (until it expires)
+ */
+export async function downloadExportFile(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const exportService = getBulkExportService();
+    const job = await exportService.getExport(parseInt(req.params.jobId), walletAddress);
+    const file = job
+      ? (await exportService.listFiles(job.id)).find(
+          (candidate) => candidate.id === parseInt(req.params.fileId)
+        )
+      : undefined;
+
+    if (!file) {
+      throw new AppError('Export file not found', 404, 'EXPORT_FILE_NOT_FOUND');
+    }
+
+    const ndjson = await exportService.readFile(file);
+    if (!ndjson) {
+      throw new AppError('Export file has expired', 410, 'EXPORT_EXPIRED');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'fhir_export_downloaded',
+        { jobId: file.job_id, fileId: file.id, resourceType: file.resource_type },
+      ]
+    );
+
+    res.type(NDJSON_CONTENT_TYPE).send(ndjson);
+  } catch (error) {
+    next(error);
+  }
+}
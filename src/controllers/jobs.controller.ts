@@ -0,0 +1,66 @@
+/**
+ * @file Jobs Controller
+ * @description Progress of background jobs (re-keying, ...)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { getJobRunner } from '../services/jobs';
+import { JobType } from '../types';
+
+/**
+ * List the caller's jobs
+ */
+export async function listJobs(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { type } = req.query;
+
+    const jobs = await getJobRunner().listJobs(walletAddress, type as JobType | undefined);
+
+    res.json({
+      success: true,
+      data: {
+        jobs,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a job with its progress
+ * Visible to the user it runs for and the user who started it
+ */
+export async function getJob(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const jobId = parseInt(req.params.jobId);
+
+    const job = await getJobRunner().getJob(jobId);
+
+    const caller = walletAddress.toLowerCase();
+    if (
+      !job ||
+      (job.wallet_address.toLowerCase() !== caller && job.created_by?.toLowerCase() !== caller)
+    ) {
+      throw new AppError('Job not found', 404, 'JOB_NOT_FOUND');
+    }
+
+    res.json({
+      success: true,
+      data: job,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -7,6 +7,10 @@ import { Request, Response, NextFunction } from 'express';
 import db from '../services/database';
 import { AppError } from '../middleware/errorHandler';
 import { KeyRegistryService } from '../services/blockchain/KeyRegistryService';
+import { getKeyVault } from '../services/custody';
+import { getClientSigningService } from '../services/signing';
+import { getRekeyService } from '../services/rekey';
+import { getKeyRevocationService } from '../services/revocation';
 
 /**
  * Register public key
@@ -33,7 +37,8 @@ export async function registerKey(
     const keyRegistryService = new KeyRegistryService();
 
     // Register key on blockchain
-    const transactionHash = await keyRegistryService.registerKey(req.wallet!, publicKey);
+    const signer = await getKeyVault().getSigner(walletAddress);
+    const transactionHash = await keyRegistryService.registerKey(signer, publicKey);
 
     // Log audit trail
     await db.none(
@@ -58,7 +63,8 @@ export async function registerKey(
 
 /**
  * Rotate public key
- * User rotates to a new public key (key version increments)
+ * The vault generates and keeps the new encryption key (key version increments), so the
+ * re-keying job can re-wrap record keys to a key it can still unwrap
  */
 export async function rotateKey(
   req: Request,
@@ -67,6 +73,63 @@ export async function rotateKey(
 ): Promise<void> {
   try {
     const { walletAddress } = req.user!;
+
+    if (!(await getKeyVault().hasKey(walletAddress))) {
+      throw new AppError(
+        'Key rotation needs a key in custody; use client-side signing',
+        409,
+        'KEY_NOT_IN_CUSTODY'
+      );
+    }
+
+    // Store the new key, rotate on blockchain and re-wrap existing keys in the background
+    const rotation = await getRekeyService().rotateCustodialKey(walletAddress, walletAddress);
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+       VALUES ($1, $2, $3, $4)`,
+      [
+        walletAddress,
+        'key_rotated',
+        rotation.transactionHash,
+        {
+          oldPublicKey: rotation.oldPublicKey,
+          newPublicKey: rotation.newPublicKey,
+          oldVersion: rotation.fromVersion,
+          newVersion: rotation.toVersion,
+          rekeyJobId: rotation.job.id,
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Public key rotated successfully',
+      data: {
+        walletAddress,
+        newPublicKey: rotation.newPublicKey,
+        newVersion: rotation.toVersion,
+        transactionHash: rotation.transactionHash,
+        rekeyJobId: rotation.job.id,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Prepare key rotation for client-side signing
+ * Returns an unsigned rotateKey transaction for the user's wallet to sign
+ */
+export async function prepareRotateKey(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
     const { newPublicKey } = req.body;
 
     // Validate public key format
@@ -78,13 +141,81 @@ export async function rotateKey(
       );
     }
 
+    const keyRegistryService = new KeyRegistryService();
+    const populated = await keyRegistryService.populateRotateKey(newPublicKey);
+
+    const signingService = getClientSigningService();
+    const transaction = await signingService.buildUnsignedTransaction(walletAddress, populated);
+    const { operationId, expiresAt } = await signingService.createOperation(
+      walletAddress,
+      'rotate_key',
+      'transaction',
+      { transaction, newPublicKey }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Key rotation prepared for client signing',
+      data: {
+        operationId,
+        signingMethod: 'transaction',
+        transaction,
+        expiresAt,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Submit client-signed key rotation
+ */
+export async function submitRotateKey(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { operationId, signedTransaction } = req.body;
+
+    const signingService = getClientSigningService();
+    const operation = await signingService.getPendingOperation(
+      operationId,
+      walletAddress,
+      'rotate_key'
+    );
+
+    if (!operation) {
+      throw new AppError('Prepared operation not found or expired', 404, 'OPERATION_NOT_FOUND');
+    }
+
+    if (!signingService.matchesSignedTransaction(operation, signedTransaction)) {
+      throw new AppError(
+        'Signed transaction does not match the prepared operation',
+        400,
+        'TRANSACTION_MISMATCH'
+      );
+    }
+
     const keyRegistryService = new KeyRegistryService();
 
     // Get current key info
     const currentKeyInfo = await keyRegistryService.getPublicKey(walletAddress);
-
-    // Rotate key on blockchain
-    const transactionHash = await keyRegistryService.rotateKey(req.wallet!, newPublicKey);
+    const { newPublicKey } = operation.payload;
+
+    // Relay rotation to blockchain
+    const receipt = await signingService.relaySignedTransaction(operation, signedTransaction);
+    await signingService.markSubmitted(operationId, receipt.transactionHash);
+
+    // Re-wrap existing keys to the new version in the background
+    const rekeyJob = await getRekeyService().enqueueRotation(
+      walletAddress,
+      currentKeyInfo.version,
+      newPublicKey,
+      walletAddress
+    );
 
     // Log audit trail
     await db.none(
@@ -93,12 +224,14 @@ export async function rotateKey(
       [
         walletAddress,
         'key_rotated',
-        transactionHash,
+        receipt.transactionHash,
         {
           oldPublicKey: currentKeyInfo.publicKey,
           newPublicKey,
           oldVersion: currentKeyInfo.version,
           newVersion: currentKeyInfo.version + 1,
+          signingMode: 'client',
+          rekeyJobId: rekeyJob.id,
         },
       ]
     );
@@ -110,7 +243,8 @@ export async function rotateKey(
         walletAddress,
         newPublicKey,
         newVersion: currentKeyInfo.version + 1,
-        transactionHash,
+        transactionHash: receipt.transactionHash,
+        rekeyJobId: rekeyJob.id,
       },
     });
   } catch (error) {
@@ -136,7 +270,11 @@ export async function revokeKey(
     const currentKeyInfo = await keyRegistryService.getPublicKey(walletAddress);
 
     // Revoke key on blockchain
-    const transactionHash = await keyRegistryService.revokeKey(req.wallet!);
+    const signer = await getKeyVault().getSigner(walletAddress);
+    const transactionHash = await keyRegistryService.revokeKey(signer);
+
+    // Suspend grants wrapped for the revoked key and notify their grantors
+    const cascade = await getKeyRevocationService().cascade(walletAddress, currentKeyInfo.version);
 
     // Log audit trail
     await db.none(
@@ -149,6 +287,7 @@ export async function revokeKey(
         {
           publicKey: currentKeyInfo.publicKey,
           version: currentKeyInfo.version,
+          ...cascade,
         },
       ]
     );
@@ -159,6 +298,8 @@ export async function revokeKey(
       data: {
         walletAddress,
         transactionHash,
+        suspendedPermissions: cascade.suspendedPermissions,
+        suspendedEmergencyGrants: cascade.suspendedEmergencyGrants,
       },
     });
   } catch (error) {
@@ -0,0 +1,369 @@
+/**
+ * @file MFA Controller
+ * @description Handles second-factor enrolment, verification and recovery codes
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import db from '../services/database';
+import { AppError } from '../middleware/errorHandler';
+import { getMfaService } from '../services/mfa';
+
+/**
+ * Adding or changing factors needs a verified session once a factor exists,
+ * so a stolen password alone cannot enrol an attacker's authenticator
+ */
+async function assertCanManageFactors(walletAddress: string, sessionId: number): Promise<void> {
+  const mfaService = getMfaService();
+
+  if (
+    (await mfaService.hasActiveFactor(walletAddress)) &&
+    !(await mfaService.isSessionVerified(sessionId))
+  ) {
+    throw new AppError('Multi-factor verification required', 403, 'MFA_REQUIRED');
+  }
+}
+
+/**
+ * Finish an enrolment: verify the session and issue recovery codes if the user has none
+ */
+async function completeEnrollment(
+  walletAddress: string,
+  sessionId: number
+): Promise<string[] | undefined> {
+  const mfaService = getMfaService();
+
+  await mfaService.markSessionVerified(sessionId);
+
+  if ((await mfaService.countRecoveryCodes(walletAddress)) === 0) {
+    return mfaService.generateRecoveryCodes(walletAddress);
+  }
+
+  return undefined;
+}
+
+/**
+ * Log an MFA event to the audit trail
+ */
+async function logMfaEvent(
+  walletAddress: string,
+  action: string,
+  details: { [key: string]: any }
+): Promise<void> {
+  await db.none(
+    `INSERT INTO audit_log (wallet_address, action, details)
+     VALUES ($1, $2, $3)`,
+    [walletAddress, action, details]
+  );
+}
+
+/**
+ * Get MFA status
+ * Lists enrolled factors and whether the current session is verified
+ */
+export async function getMfaStatus(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress, sessionId } = req.user!;
+    const mfaService = getMfaService();
+
+    const [factors, recoveryCodesRemaining, sessionVerified] = await Promise.all([
+      mfaService.listFactors(walletAddress),
+      mfaService.countRecoveryCodes(walletAddress),
+      mfaService.isSessionVerified(sessionId!),
+    ]);
+
+    res.json({
+      success: true,
+      data: {
+        enrolled: factors.some((factor) => factor.status === 'active'),
+        sessionVerified,
+        factors,
+        recoveryCodesRemaining,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Enrol TOTP
+ * Returns the secret and otpauth URI for an authenticator app
+ */
+export async function enrollTotp(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress, sessionId } = req.user!;
+    const { label } = req.body;
+
+    await assertCanManageFactors(walletAddress, sessionId!);
+
+    const enrollment = await getMfaService().enrollTotp(walletAddress, label || null);
+
+    res.status(201).json({
+      success: true,
+      message: 'Scan the secret with an authenticator app, then confirm with a code',
+      data: enrollment,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Activate TOTP
+ * Confirms a pending TOTP factor with its first code
+ */
+export async function activateTotp(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress, sessionId } = req.user!;
+    const factorId = parseInt(req.params.factorId);
+    const { code } = req.body;
+
+    await assertCanManageFactors(walletAddress, sessionId!);
+
+    let activated: boolean;
+    try {
+      activated = await getMfaService().activateTotp(walletAddress, factorId, code);
+    } catch (error) {
+      throw new AppError((error as Error).message, 404, 'FACTOR_NOT_FOUND');
+    }
+
+    if (!activated) {
+      throw new AppError('Invalid verification code', 401, 'MFA_INVALID_CODE');
+    }
+
+    const recoveryCodes = await completeEnrollment(walletAddress, sessionId!);
+    await logMfaEvent(walletAddress, 'mfa_enrolled', { factorId, factorType: 'totp' });
+
+    res.json({
+      success: true,
+      message: 'TOTP factor activated',
+      data: {
+        factorId,
+        recoveryCodes, // Shown only once
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get WebAuthn registration options
+ */
+export async function getWebAuthnRegistrationOptions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress, email, sessionId } = req.user!;
+
+    await assertCanManageFactors(walletAddress, sessionId!);
+
+    const options = await getMfaService().getWebAuthnRegistrationOptions(
+      walletAddress,
+      email,
+      sessionId!
+    );
+
+    res.json({
+      success: true,
+      data: options,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Register WebAuthn credential
+ * Verifies the authenticator's attestation and stores the passkey
+ */
+export async function registerWebAuthn(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress, sessionId } = req.user!;
+    const { response, label } = req.body;
+
+    await assertCanManageFactors(walletAddress, sessionId!);
+
+    let factorId: number | null;
+    try {
+      factorId = await getMfaService().verifyWebAuthnRegistration(
+        walletAddress,
+        sessionId!,
+        response,
+        label || null
+      );
+    } catch (error) {
+      throw new AppError((error as Error).message, 400, 'MFA_CHALLENGE_MISSING');
+    }
+
+    if (!factorId) {
+      throw new AppError('WebAuthn registration could not be verified', 401, 'MFA_INVALID_CREDENTIAL');
+    }
+
+    const recoveryCodes = await completeEnrollment(walletAddress, sessionId!);
+    await logMfaEvent(walletAddress, 'mfa_enrolled', { factorId, factorType: 'webauthn' });
+
+    res.status(201).json({
+      success: true,
+      message: 'WebAuthn credential registered',
+      data: {
+        factorId,
+        recoveryCodes, // Shown only once
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get WebAuthn authentication options
+ */
+export async function getWebAuthnAuthenticationOptions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress, sessionId } = req.user!;
+
+    let options;
+    try {
+      options = await getMfaService().getWebAuthnAuthenticationOptions(walletAddress, sessionId!);
+    } catch (error) {
+      throw new AppError((error as Error).message, 404, 'FACTOR_NOT_FOUND');
+    }
+
+    res.json({
+      success: true,
+      data: options,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Verify MFA
+ * Presents a TOTP code, WebAuthn assertion or recovery code for the current session
+ */
+export async function verifyMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress, sessionId } = req.user!;
+    const { method, code, response } = req.body;
+    const mfaService = getMfaService();
+
+    let verified = false;
+
+    if (method === 'totp') {
+      verified = await mfaService.verifyTotp(walletAddress, code);
+    } else if (method === 'webauthn') {
+      try {
+        verified = await mfaService.verifyWebAuthnAuthentication(walletAddress, sessionId!, response);
+      } catch (error) {
+        throw new AppError((error as Error).message, 400, 'MFA_CHALLENGE_MISSING');
+      }
+    } else if (method === 'recovery_code') {
+      verified = await mfaService.consumeRecoveryCode(walletAddress, code);
+    }
+
+    if (!verified) {
+      await logMfaEvent(walletAddress, 'mfa_failed', { method, sessionId });
+      throw new AppError('Multi-factor verification failed', 401, 'MFA_INVALID_CODE');
+    }
+
+    await mfaService.markSessionVerified(sessionId!);
+    await logMfaEvent(walletAddress, 'mfa_verified', { method, sessionId });
+
+    const data: { [key: string]: any } = { method };
+    if (method === 'recovery_code') {
+      data.recoveryCodesRemaining = await mfaService.countRecoveryCodes(walletAddress);
+    }
+
+    res.json({
+      success: true,
+      message: 'Multi-factor verification successful',
+      data,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Regenerate recovery codes
+ * Invalidates all previous codes
+ */
+export async function regenerateRecoveryCodes(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const mfaService = getMfaService();
+
+    if (!(await mfaService.hasActiveFactor(walletAddress))) {
+      throw new AppError('No active MFA factor enrolled', 400, 'MFA_NOT_ENROLLED');
+    }
+
+    const recoveryCodes = await mfaService.generateRecoveryCodes(walletAddress);
+    await logMfaEvent(walletAddress, 'mfa_recovery_codes_generated', {
+      count: recoveryCodes.length,
+    });
+
+    res.json({
+      success: true,
+      message: 'Recovery codes regenerated',
+      data: {
+        recoveryCodes, // Shown only once
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Remove MFA factor
+ */
+export async function deleteFactor(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const factorId = parseInt(req.params.factorId);
+
+    if (!(await getMfaService().deleteFactor(walletAddress, factorId))) {
+      throw new AppError('MFA factor not found', 404, 'FACTOR_NOT_FOUND');
+    }
+
+    await logMfaEvent(walletAddress, 'mfa_factor_removed', { factorId });
+
+    res.json({
+      success: true,
+      message: 'MFA factor removed',
+      data: {
+        factorId,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,59 @@
+/**
+ * @file Notifications Controller
+ * @description In-app notifications for the current user
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import { AppError } from '../middleware/errorHandler';
+import { getNotificationService } from '../services/notifications';
+
+/**
+ * List the caller's notifications
+ */
+export async function listNotifications(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const unreadOnly = req.query.unread === 'true';
+
+    const notifications = await getNotificationService().list(walletAddress, unreadOnly);
+
+    res.json({
+      success: true,
+      data: {
+        notifications,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Mark a notification as read
+ */
+export async function markNotificationRead(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const notificationId = parseInt(req.params.notificationId);
+
+    const updated = await getNotificationService().markRead(notificationId, walletAddress);
+    if (!updated) {
+      throw new AppError('Notification not found', 404, 'NOTIFICATION_NOT_FOUND');
+    }
+
+    res.json({
+      success: true,
+      message: 'Notification marked as read',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -1,14 +1,35 @@
 /**
  * @file Permissions Controller
- * @description Handles access permission operations (grant, revoke, check)
+ * @description Handles access permission operations (grant, revoke, check, rules, requests)
  */
 
 import { Request, Response, NextFunction } from 'express';
 import db from '../services/database';
 import { AppError } from '../middleware/errorHandler';
+import { actingForAuditDetails } from '../middleware/auth';
 import { PatientRecordsService } from '../services/blockchain/PatientRecordsService';
 import * as ecies from '../utils/ecies';
 import { KeyRegistryService } from '../services/blockchain/KeyRegistryService';
+import { getRelayer } from '../services/blockchain/provider';
+import { getKeyVault } from '../services/custody';
+import { getClientSigningService } from '../services/signing';
+import { getKeyRevocationService } from '../services/revocation';
+import { getRecordService } from '../services/records';
+import { getAccessRequestService, getPermissionRuleService } from '../services/permissions';
+import { getNotificationService } from '../services/notifications';
+import {
+  createDomain,
+  createGrantPermissionMessage,
+  GRANT_PERMISSION_TYPES,
+} from '../utils/eip712';
+import config from '../config';
+import {
+  AccessRequest,
+  AccessRequestGrant,
+  AccessRequestStatus,
+  PermissionRule,
+  TypedDataPayload,
+} from '../types';
 
 /**
  * Grant permission to access records
@@ -20,18 +41,14 @@ export async function grantPermission(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { grantedTo, recordIds, expirationTime, wrappedKey } = req.body;
-
-    // Only patients can grant permissions
-    if (role !== 'patient') {
-      throw new AppError('Only patients can grant permissions', 403, 'FORBIDDEN');
-    }
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
 
     // Get patient contract address
     const patient = await db.one(
       'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
-      [walletAddress]
+      [patientWallet]
     );
 
     if (!patient.patient_contract_address) {
@@ -51,8 +68,9 @@ export async function grantPermission(
     const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
 
     // Grant permission on blockchain
+    const signer = await getKeyVault().getSigner(patientWallet);
     const result = await patientRecordsService.grantPermission(
-      req.wallet!,
+      signer,
       grantedTo,
       recordIds,
       wrappedKey,
@@ -64,7 +82,7 @@ export async function grantPermission(
       `INSERT INTO permissions (patient_wallet, grantee_wallet, record_id, permission_id, wrapped_key, expiration, transaction_hash)
        VALUES ($1, $2, $3, $4, $5, to_timestamp($6), $7)`,
       [
-        walletAddress,
+        patientWallet,
         grantedTo,
         recordIds[0], // For simplicity, storing first record ID
         result.permissionId,
@@ -87,6 +105,7 @@ export async function grantPermission(
           recordIds,
           permissionId: result.permissionId,
           expirationTime,
+          ...actingForAuditDetails(req),
         },
       ]
     );
@@ -132,8 +151,9 @@ export async function grantPermissionWithSignature(
 
     const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
 
-    // Grant permission using signature
+    // Grant permission using signature (relayer pays gas)
     const result = await patientRecordsService.grantPermissionBySig(
+      getRelayer(),
       grantedTo,
       recordIds,
       wrappedKey,
@@ -174,6 +194,177 @@ export async function grantPermissionWithSignature(
   }
 }
 
+/**
+ * Prepare a permission grant for client-side signing
+ * Returns the EIP-712 GrantPermission payload for the patient's wallet to sign
+ */
+export async function prepareGrantPermission(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { grantedTo, recordIds, expirationTime, wrappedKey } = req.body;
+
+    // Get patient contract address
+    const patient = await db.one(
+      'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
+      [walletAddress]
+    );
+
+    if (!patient.patient_contract_address) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    // Verify grantee exists
+    const grantee = await db.oneOrNone(
+      'SELECT wallet_address FROM users WHERE wallet_address = $1',
+      [grantedTo]
+    );
+
+    if (!grantee) {
+      throw new AppError('Grantee user not found', 404, 'USER_NOT_FOUND');
+    }
+
+    // Build EIP-712 payload (wrappedKey is encoded as bytes)
+    const message = createGrantPermissionMessage(
+      grantedTo,
+      recordIds.map((id: any) => parseInt(id)),
+      wrappedKey.startsWith('0x') ? wrappedKey : '0x' + wrappedKey,
+      parseInt(expirationTime)
+    );
+
+    const typedData: TypedDataPayload = {
+      domain: createDomain(patient.patient_contract_address, config.blockchain.chainId),
+      types: GRANT_PERMISSION_TYPES,
+      primaryType: 'GrantPermission',
+      message,
+    };
+
+    const { operationId, expiresAt } = await getClientSigningService().createOperation(
+      walletAddress,
+      'grant_permission',
+      'eip712',
+      { typedData }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Permission grant prepared for client signing',
+      data: {
+        operationId,
+        signingMethod: 'eip712',
+        typedData,
+        expiresAt,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Submit a client-signed permission grant
+ * Verifies the EIP-712 signature and relays it through grantPermissionBySig
+ */
+export async function submitGrantPermission(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { operationId, signature } = req.body;
+
+    const signingService = getClientSigningService();
+    const operation = await signingService.getPendingOperation(
+      operationId,
+      walletAddress,
+      'grant_permission'
+    );
+
+    if (!operation) {
+      throw new AppError('Prepared operation not found or expired', 404, 'OPERATION_NOT_FOUND');
+    }
+
+    // Check the signature before the relayer spends gas on it
+    if (!signingService.matchesTypedDataSignature(operation, signature)) {
+      throw new AppError('Invalid signature for prepared operation', 400, 'INVALID_SIGNATURE');
+    }
+
+    const { message, domain } = operation.payload.typedData as TypedDataPayload;
+    const patientRecordsService = new PatientRecordsService(domain.verifyingContract);
+
+    // Relay grant to blockchain
+    let result;
+    try {
+      result = await patientRecordsService.grantPermissionBySig(
+        getRelayer(),
+        message.grantedTo,
+        message.recordIds,
+        message.wrappedKey,
+        message.expirationTime,
+        message.nonce,
+        signature
+      );
+    } catch (error) {
+      await signingService.markFailed(operationId, (error as Error).message);
+      throw error;
+    }
+
+    await signingService.markSubmitted(operationId, result.transactionHash);
+
+    // Cache permission in database
+    await db.none(
+      `INSERT INTO permissions (patient_wallet, grantee_wallet, record_id, permission_id, wrapped_key, expiration, nonce, transaction_hash)
+       VALUES ($1, $2, $3, $4, $5, to_timestamp($6), $7, $8)`,
+      [
+        walletAddress,
+        message.grantedTo,
+        message.recordIds[0],
+        result.permissionId,
+        message.wrappedKey,
+        message.expirationTime,
+        message.nonce.toString(),
+        result.transactionHash,
+      ]
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+       VALUES ($1, $2, $3, $4)`,
+      [
+        walletAddress,
+        'permission_granted',
+        result.transactionHash,
+        {
+          grantedTo: message.grantedTo,
+          recordIds: message.recordIds,
+          permissionId: result.permissionId,
+          expirationTime: message.expirationTime,
+          signingMode: 'client',
+        },
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Permission granted successfully via signature',
+      data: {
+        permissionId: result.permissionId,
+        grantedTo: message.grantedTo,
+        recordIds: message.recordIds,
+        expirationTime: message.expirationTime,
+        transactionHash: result.transactionHash,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Revoke permission
  * Patient revokes previously granted access
@@ -184,18 +375,14 @@ export async function revokePermission(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { permissionId } = req.params;
-
-    // Only patients can revoke permissions
-    if (role !== 'patient') {
-      throw new AppError('Only patients can revoke permissions', 403, 'FORBIDDEN');
-    }
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
 
     // Get patient contract address
     const patient = await db.one(
       'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
-      [walletAddress]
+      [patientWallet]
     );
 
     if (!patient.patient_contract_address) {
@@ -205,8 +392,9 @@ export async function revokePermission(
     const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
 
     // Revoke permission on blockchain
+    const signer = await getKeyVault().getSigner(patientWallet);
     const transactionHash = await patientRecordsService.revokePermission(
-      req.wallet!,
+      signer,
       parseInt(permissionId)
     );
 
@@ -215,7 +403,7 @@ export async function revokePermission(
       `UPDATE permissions
        SET revoked = TRUE
        WHERE permission_id = $1 AND patient_wallet = $2`,
-      [permissionId, walletAddress]
+      [permissionId, patientWallet]
     );
 
     // Log audit trail
@@ -226,7 +414,7 @@ export async function revokePermission(
         walletAddress,
         'permission_revoked',
         transactionHash,
-        { permissionId: parseInt(permissionId) },
+        { permissionId: parseInt(permissionId), ...actingForAuditDetails(req) },
       ]
     );
 
@@ -243,6 +431,126 @@ export async function revokePermission(
   }
 }
 
+/**
+ * Prepare a permission revocation for client-side signing
+ * The contract only accepts revocations sent by the patient, so this returns an
+ * unsigned revokePermission transaction rather than an EIP-712 payload
+ */
+export async function prepareRevokePermission(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { permissionId } = req.params;
+
+    // Get patient contract address
+    const patient = await db.one(
+      'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
+      [walletAddress]
+    );
+
+    if (!patient.patient_contract_address) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
+    const populated = await patientRecordsService.populateRevokePermission(parseInt(permissionId));
+
+    const signingService = getClientSigningService();
+    const transaction = await signingService.buildUnsignedTransaction(walletAddress, populated);
+    const { operationId, expiresAt } = await signingService.createOperation(
+      walletAddress,
+      'revoke_permission',
+      'transaction',
+      { transaction, permissionId: parseInt(permissionId) }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Permission revocation prepared for client signing',
+      data: {
+        operationId,
+        signingMethod: 'transaction',
+        transaction,
+        expiresAt,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Submit a client-signed permission revocation
+ */
+export async function submitRevokePermission(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { permissionId } = req.params;
+    const { operationId, signedTransaction } = req.body;
+
+    const signingService = getClientSigningService();
+    const operation = await signingService.getPendingOperation(
+      operationId,
+      walletAddress,
+      'revoke_permission'
+    );
+
+    if (!operation || operation.payload.permissionId !== parseInt(permissionId)) {
+      throw new AppError('Prepared operation not found or expired', 404, 'OPERATION_NOT_FOUND');
+    }
+
+    if (!signingService.matchesSignedTransaction(operation, signedTransaction)) {
+      throw new AppError(
+        'Signed transaction does not match the prepared operation',
+        400,
+        'TRANSACTION_MISMATCH'
+      );
+    }
+
+    // Relay revocation to blockchain
+    const receipt = await signingService.relaySignedTransaction(operation, signedTransaction);
+    await signingService.markSubmitted(operationId, receipt.transactionHash);
+
+    // Update database cache
+    await db.none(
+      `UPDATE permissions
+       SET revoked = TRUE
+       WHERE permission_id = $1 AND patient_wallet = $2`,
+      [permissionId, walletAddress]
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+       VALUES ($1, $2, $3, $4)`,
+      [
+        walletAddress,
+        'permission_revoked',
+        receipt.transactionHash,
+        { permissionId: parseInt(permissionId), signingMode: 'client' },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Permission revoked successfully',
+      data: {
+        permissionId: parseInt(permissionId),
+        transactionHash: receipt.transactionHash,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * Check if user has access to record
  */
@@ -273,13 +581,34 @@ export async function checkAccess(
     const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
 
     // Check access on blockchain
-    const hasAccess = await patientRecordsService.checkAccess(walletAddress, parseInt(recordId));
+    const onChainAccess = await patientRecordsService.checkAccess(
+      walletAddress,
+      parseInt(recordId)
+    );
+
+    // A revoked key cannot unwrap anything until a new one is registered
+    const keyUsability = await getKeyRevocationService().getKeyUsability(walletAddress);
+
+    // Grants wrapped for a revoked key stay suspended until the patient re-grants
+    const cached = await db.one(
+      `SELECT COUNT(*) FILTER (WHERE suspended = FALSE)::int AS active,
+              COUNT(*) FILTER (WHERE suspended = TRUE)::int AS suspended
+       FROM permissions
+       WHERE grantee_wallet = $1 AND patient_wallet = $2 AND record_id = $3
+         AND revoked = FALSE AND expiration > NOW()`,
+      [walletAddress, patientAddress, parseInt(recordId)]
+    );
+    const suspended = cached.suspended > 0 && cached.active === 0;
 
     res.json({
       success: true,
       data: {
         recordId: parseInt(recordId),
-        hasAccess,
+        hasAccess: onChainAccess && keyUsability.usableKey && !suspended,
+        usableKey: keyUsability.usableKey,
+        keyVersion: keyUsability.version,
+        suspended,
+        reason: keyUsability.reason || (suspended ? 'PERMISSION_SUSPENDED' : null),
       },
     });
   } catch (error) {
@@ -296,22 +625,19 @@ export async function listGrantedPermissions(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
-
-    // Only patients can view their granted permissions
-    if (role !== 'patient') {
-      throw new AppError('Only patients can view granted permissions', 403, 'FORBIDDEN');
-    }
+    const { walletAddress } = req.user!;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
 
     // Get permissions from database cache
     const permissions = await db.manyOrNone(
       `SELECT p.permission_id, p.grantee_wallet, p.record_id, p.expiration, p.revoked, p.granted_at,
+              p.suspended, p.suspension_reason, p.consent_id, p.purpose_of_use,
               u.name AS grantee_name, u.role AS grantee_role
        FROM permissions p
        JOIN users u ON p.grantee_wallet = u.wallet_address
        WHERE p.patient_wallet = $1
        ORDER BY p.granted_at DESC`,
-      [walletAddress]
+      [patientWallet]
     );
 
     res.json({
@@ -339,6 +665,7 @@ export async function listReceivedPermissions(
     // Get permissions from database cache
     const permissions = await db.manyOrNone(
       `SELECT p.permission_id, p.patient_wallet, p.record_id, p.expiration, p.revoked, p.granted_at,
+              p.suspended, p.suspension_reason, p.consent_id, p.purpose_of_use,
               u.name AS patient_name
        FROM permissions p
        JOIN users u ON p.patient_wallet = u.wallet_address
@@ -413,18 +740,14 @@ export async function batchGrantPermissions(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { grants } = req.body; // Array of { grantedTo, recordIds, expirationTime }
-
-    // Only patients can grant permissions
-    if (role !== 'patient') {
-      throw new AppError('Only patients can grant permissions', 403, 'FORBIDDEN');
-    }
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
 
     // Get patient contract address
     const patient = await db.one(
       'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
-      [walletAddress]
+      [patientWallet]
     );
 
     if (!patient.patient_contract_address) {
@@ -433,6 +756,7 @@ export async function batchGrantPermissions(
 
     const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
     const keyRegistryService = new KeyRegistryService();
+    const signer = await getKeyVault().getSigner(patientWallet);
 
     const results = [];
 
@@ -447,7 +771,7 @@ export async function batchGrantPermissions(
       const wrappedKey = await ecies.wrapKey(granteePublicKey, dummyKey);
 
       const result = await patientRecordsService.grantPermission(
-        req.wallet!,
+        signer,
         grant.grantedTo,
         grant.recordIds,
         wrappedKey,
@@ -465,7 +789,7 @@ export async function batchGrantPermissions(
         `INSERT INTO permissions (patient_wallet, grantee_wallet, record_id, permission_id, wrapped_key, expiration, transaction_hash)
          VALUES ($1, $2, $3, $4, $5, to_timestamp($6), $7)`,
         [
-          walletAddress,
+          patientWallet,
           grant.grantedTo,
           grant.recordIds[0],
           result.permissionId,
@@ -476,6 +800,17 @@ export async function batchGrantPermissions(
       );
     }
 
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'permissions_batch_granted',
+        { grants: results, ...actingForAuditDetails(req) },
+      ]
+    );
+
     res.status(201).json({
       success: true,
       message: `Granted ${results.length} permissions successfully`,
@@ -487,3 +822,727 @@ export async function batchGrantPermissions(
     next(error);
   }
 }
+
+/**
+ * Load a permission rule of the patient the caller acts for
+ */
+async function getPatientRule(req: Request): Promise<PermissionRule> {
+  const patientWallet = req.actingFor?.patientAddress || req.user!.walletAddress;
+  const rule = await getPermissionRuleService().getRule(parseInt(req.params.ruleId));
+
+  if (!rule || rule.patient_wallet.toLowerCase() !== patientWallet.toLowerCase()) {
+    throw new AppError('Permission rule not found', 404, 'RULE_NOT_FOUND');
+  }
+
+  return rule;
+}
+
+/**
+ * Create a rule-based grant
+ * Grants every matching record (unless includeExisting is false) and, while the rule covers
+ * future records, every matching record added later
+ */
+export async function createPermissionRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { grantedTo, resourceType, category, tag, expirationTime } = req.body;
+    const includeExisting = req.body.includeExisting !== false;
+    const includeFuture = req.body.includeFuture !== false;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+
+    if (!resourceType && !category && !tag) {
+      throw new AppError(
+        'A rule needs a resourceType, category or tag',
+        400,
+        'RULE_CRITERIA_REQUIRED'
+      );
+    }
+
+    if (!includeExisting && !includeFuture) {
+      throw new AppError('A rule must cover existing or future records', 400, 'RULE_EMPTY');
+    }
+
+    // Verify grantee exists
+    const grantee = await db.oneOrNone(
+      'SELECT wallet_address FROM users WHERE wallet_address = $1',
+      [grantedTo]
+    );
+
+    if (!grantee || grantee.wallet_address.toLowerCase() === patientWallet.toLowerCase()) {
+      throw new AppError('Grantee user not found', 404, 'USER_NOT_FOUND');
+    }
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(patientWallet);
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    // Grants for future records are signed for the patient without them
+    if (!(await getKeyVault().hasKey(patientWallet))) {
+      throw new AppError(
+        'Permission rules require the patient key to be in custody',
+        409,
+        'CUSTODY_REQUIRED'
+      );
+    }
+
+    const { rule, granted, skippedRecordIds } = await getPermissionRuleService().createRule(
+      patientWallet,
+      walletAddress,
+      grantee.wallet_address,
+      { resourceType, category, tag },
+      { includeExisting, includeFuture, expiration: parseInt(expirationTime) },
+      patientRecordsService
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'permission_rule_created',
+        {
+          ruleId: rule.id,
+          grantedTo: rule.grantee_wallet,
+          resourceType: rule.resource_type,
+          category: rule.category,
+          tag: rule.tag,
+          includeExisting,
+          includeFuture,
+          expirationTime,
+          permissionIds: granted.map((grant) => grant.permissionId),
+          ...actingForAuditDetails(req),
+        },
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Permission rule created successfully',
+      data: {
+        rule,
+        granted,
+        skippedRecordIds,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * List the patient's permission rules
+ */
+export async function listPermissionRules(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+
+    const rules = await getPermissionRuleService().listRules(patientWallet);
+
+    res.json({
+      success: true,
+      data: {
+        rules,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a permission rule and the permissions granted under it
+ */
+export async function getPermissionRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const rule = await getPatientRule(req);
+
+    res.json({
+      success: true,
+      data: {
+        rule,
+        permissions: await getPermissionRuleService().listPermissions(rule.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Revoke a permission rule and every permission granted under it
+ * A rule whose revocation stopped midway can be revoked again to finish it
+ */
+export async function revokePermissionRule(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const current = await getPatientRule(req);
+
+    const permissionRuleService = getPermissionRuleService();
+    if (current.revoked && !(await permissionRuleService.hasLivePermissions(current.id))) {
+      throw new AppError('Permission rule already revoked', 409, 'RULE_REVOKED');
+    }
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(
+      current.patient_wallet
+    );
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const { rule, revoked } = await permissionRuleService.revokeRule(
+      current,
+      patientRecordsService
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'permission_rule_revoked',
+        {
+          ruleId: rule.id,
+          permissionIds: revoked.map((permission) => permission.permissionId),
+          ...actingForAuditDetails(req),
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Permission rule revoked successfully',
+      data: {
+        rule,
+        revoked,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Grants ending within this many seconds of the requested duration count as the full duration
+ * Covers the time between the patient signing a grant and it being submitted
+ */
+const DURATION_TOLERANCE_SECONDS = 300;
+
+/**
+ * Load an access request made to the patient the caller acts for
+ */
+async function getPatientAccessRequest(req: Request): Promise<AccessRequest> {
+  const patientWallet = req.actingFor?.patientAddress || req.user!.walletAddress;
+  const request = await getAccessRequestService().getRequest(parseInt(req.params.requestId));
+
+  if (!request || request.patient_wallet.toLowerCase() !== patientWallet.toLowerCase()) {
+    throw new AppError('Access request not found', 404, 'ACCESS_REQUEST_NOT_FOUND');
+  }
+
+  return request;
+}
+
+/**
+ * Load an access request the caller made
+ */
+async function getOwnAccessRequest(req: Request): Promise<AccessRequest> {
+  const request = await getAccessRequestService().getRequest(parseInt(req.params.requestId));
+
+  if (
+    !request ||
+    request.requester_wallet.toLowerCase() !== req.user!.walletAddress.toLowerCase()
+  ) {
+    throw new AppError('Access request not found', 404, 'ACCESS_REQUEST_NOT_FOUND');
+  }
+
+  return request;
+}
+
+function assertPending(request: AccessRequest): void {
+  if (request.status !== 'pending') {
+    throw new AppError(`Access request already ${request.status}`, 409, 'ACCESS_REQUEST_CLOSED');
+  }
+}
+
+/**
+ * Tell the requester how their request was decided
+ */
+async function notifyDecision(request: AccessRequest): Promise<void> {
+  await getNotificationService().notify(
+    request.requester_wallet,
+    'access_request_decided',
+    `${request.patient_wallet} ${request.status.replace('_', ' ')} your access request.`,
+    { requestId: request.id, patientAddress: request.patient_wallet, status: request.status }
+  );
+}
+
+/**
+ * Request access to a patient's records
+ * Names either records or a resource type, category or tag the patient's records are matched by
+ */
+export async function createAccessRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { patientAddress, resourceType, category, tag, purpose, reason, durationSeconds } =
+      req.body;
+    const recordIds: number[] | undefined = req.body.recordIds
+      ? Array.from(new Set<number>(req.body.recordIds.map((id: any) => parseInt(id))))
+      : undefined;
+    const hasCriteria = Boolean(resourceType || category || tag);
+
+    if (Boolean(recordIds) === hasCriteria) {
+      throw new AppError(
+        'Name either recordIds or a resourceType, category or tag',
+        400,
+        'INVALID_REQUEST_SCOPE'
+      );
+    }
+
+    const patient = await db.oneOrNone(
+      'SELECT wallet_address, role FROM users WHERE LOWER(wallet_address) = LOWER($1)',
+      [patientAddress]
+    );
+
+    if (
+      !patient ||
+      patient.role !== 'patient' ||
+      patient.wallet_address.toLowerCase() === walletAddress.toLowerCase()
+    ) {
+      throw new AppError('Patient not found', 404, 'PATIENT_NOT_FOUND');
+    }
+
+    if (recordIds) {
+      const found = await db.manyOrNone(
+        'SELECT record_id FROM records WHERE patient_wallet = $1 AND record_id = ANY($2)',
+        [patient.wallet_address, recordIds]
+      );
+      const foundIds = new Set(found.map((record) => record.record_id));
+      const missing = recordIds.filter((id) => !foundIds.has(id));
+
+      if (missing.length > 0) {
+        throw new AppError('Record not found', 404, 'RECORD_NOT_FOUND', { recordIds: missing });
+      }
+    }
+
+    const request = await getAccessRequestService().createRequest(
+      patient.wallet_address,
+      walletAddress,
+      { recordIds, resourceType, category, tag },
+      purpose,
+      reason || null,
+      parseInt(durationSeconds)
+    );
+
+    await getNotificationService().notify(
+      request.patient_wallet,
+      'access_requested',
+      `${walletAddress} requested access to your records for: ${purpose}`,
+      { requestId: request.id, requester: walletAddress }
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'access_requested',
+        {
+          requestId: request.id,
+          patientAddress: request.patient_wallet,
+          recordIds: request.record_ids,
+          resourceType: request.resource_type,
+          category: request.category,
+          tag: request.tag,
+          purpose,
+          durationSeconds: request.duration_seconds,
+        },
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Access request sent to the patient',
+      data: {
+        request,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * The patient's access request inbox
+ */
+export async function listAccessRequests(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+
+    const requests = await getAccessRequestService().listForPatient(
+      patientWallet,
+      req.query.status as AccessRequestStatus | undefined
+    );
+
+    res.json({
+      success: true,
+      data: {
+        requests,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Access requests the caller made
+ */
+export async function listSentAccessRequests(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const requests = await getAccessRequestService().listForRequester(
+      req.user!.walletAddress,
+      req.query.status as AccessRequestStatus | undefined
+    );
+
+    res.json({
+      success: true,
+      data: {
+        requests,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get an access request made to the patient, with its state history and permissions
+ */
+export async function getAccessRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const request = await getPatientAccessRequest(req);
+    const accessRequestService = getAccessRequestService();
+
+    res.json({
+      success: true,
+      data: {
+        request,
+        history: await accessRequestService.listEvents(request.id),
+        permissions: await accessRequestService.listPermissions(request.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get an access request the caller made, with its state history and permissions
+ */
+export async function getSentAccessRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const request = await getOwnAccessRequest(req);
+    const accessRequestService = getAccessRequestService();
+
+    res.json({
+      success: true,
+      data: {
+        request,
+        history: await accessRequestService.listEvents(request.id),
+        permissions: await accessRequestService.listPermissions(request.id),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Approve an access request, in full or in part
+ * Fewer records or a shorter expiration than requested make a partial approval, as do
+ * records that could not be granted. With a signature the patient's signed grant is relayed;
+ * otherwise each record is granted from custody.
+ */
+export async function approveAccessRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { wrappedKey, nonce, signature, note } = req.body;
+    const current = await getPatientAccessRequest(req);
+    // An approval that stopped midway leaves the request approving until its claim lapses
+    if (!getAccessRequestService().claimLapsed(current)) {
+      assertPending(current);
+    }
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(
+      current.patient_wallet
+    );
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const maxExpiration = Math.floor(Date.now() / 1000) + current.duration_seconds;
+    const expirationTime = req.body.expirationTime
+      ? parseInt(req.body.expirationTime)
+      : maxExpiration;
+
+    if (expirationTime > maxExpiration + DURATION_TOLERANCE_SECONDS) {
+      throw new AppError('Expiration exceeds the requested duration', 400, 'DURATION_EXCEEDED', {
+        maxExpiration,
+      });
+    }
+
+    const approvedIds: number[] | undefined = req.body.recordIds
+      ? Array.from(new Set<number>(req.body.recordIds.map((id: any) => parseInt(id))))
+      : undefined;
+
+    // Criteria requests resolve to records only from custody; a signed grant names its own
+    let requestedIds: number[] | null = current.record_ids;
+    if (!signature) {
+      if (!(await getKeyVault().hasKey(current.patient_wallet))) {
+        throw new AppError(
+          'Approve with a signed grant when the patient key is not in custody',
+          409,
+          'CUSTODY_REQUIRED'
+        );
+      }
+      requestedIds = await getAccessRequestService().resolveRecordIds(
+        current,
+        patientRecordsService
+      );
+    } else if (!approvedIds || !wrappedKey || nonce === undefined || !req.body.expirationTime) {
+      throw new AppError(
+        'A signed grant needs recordIds, wrappedKey, expirationTime and nonce',
+        400,
+        'SIGNED_GRANT_INCOMPLETE'
+      );
+    }
+
+    const recordIds = approvedIds || requestedIds || [];
+    if (requestedIds) {
+      const notRequested = recordIds.filter((id) => !requestedIds!.includes(id));
+      if (notRequested.length > 0) {
+        throw new AppError('Records were not requested', 400, 'RECORDS_NOT_REQUESTED', {
+          recordIds: notRequested,
+        });
+      }
+    }
+
+    if (recordIds.length === 0) {
+      throw new AppError('No records match the request', 409, 'NO_MATCHING_RECORDS');
+    }
+
+    const partial =
+      (requestedIds !== null && recordIds.length < requestedIds.length) ||
+      expirationTime < maxExpiration - DURATION_TOLERANCE_SECONDS;
+    const status = partial ? 'partially_approved' : 'approved';
+
+    const accessRequestService = getAccessRequestService();
+    let request: AccessRequest | null;
+    let granted: AccessRequestGrant[];
+    let skippedRecordIds: number[] = [];
+
+    if (signature) {
+      ({ request, granted } = await accessRequestService.approveWithSignature(
+        current,
+        walletAddress,
+        status,
+        { recordIds, wrappedKey, expirationTime, nonce: parseInt(nonce), signature },
+        note || null,
+        patientRecordsService
+      ));
+    } else {
+      ({ request, granted, skippedRecordIds } = await accessRequestService.approveWithCustody(
+        current,
+        walletAddress,
+        status,
+        recordIds,
+        expirationTime,
+        note || null,
+        patientRecordsService
+      ));
+    }
+
+    if (!request) {
+      throw new AppError('Access request was decided concurrently', 409, 'ACCESS_REQUEST_CLOSED');
+    }
+
+    if (granted.length === 0) {
+      throw new AppError(
+        'None of the records could be granted from custody',
+        409,
+        'RECORD_KEYS_UNAVAILABLE',
+        { recordIds: skippedRecordIds }
+      );
+    }
+
+    await notifyDecision(request);
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'access_request_approved',
+        {
+          requestId: request.id,
+          status: request.status,
+          grantedTo: request.requester_wallet,
+          recordIds,
+          expirationTime,
+          permissionIds: granted.map((grant) => grant.permissionId),
+          transactionHashes: granted.map((grant) => grant.transactionHash),
+          ...actingForAuditDetails(req),
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message:
+        request.status === 'partially_approved'
+          ? 'Access request partially approved'
+          : 'Access request approved',
+      data: {
+        request,
+        granted,
+        skippedRecordIds,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Deny an access request
+ */
+export async function denyAccessRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const current = await getPatientAccessRequest(req);
+    assertPending(current);
+
+    const request = await getAccessRequestService().denyRequest(
+      current,
+      walletAddress,
+      req.body.note || null
+    );
+    if (!request) {
+      throw new AppError('Access request was decided concurrently', 409, 'ACCESS_REQUEST_CLOSED');
+    }
+
+    await notifyDecision(request);
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'access_request_denied',
+        {
+          requestId: request.id,
+          requester: request.requester_wallet,
+          ...actingForAuditDetails(req),
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Access request denied',
+      data: {
+        request,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Cancel a pending access request the caller made
+ */
+export async function cancelAccessRequest(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const current = await getOwnAccessRequest(req);
+    assertPending(current);
+
+    const request = await getAccessRequestService().cancelRequest(current, walletAddress);
+    if (!request) {
+      throw new AppError('Access request was decided concurrently', 409, 'ACCESS_REQUEST_CLOSED');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'access_request_cancelled', { requestId: request.id }]
+    );
+
+    res.json({
+      success: true,
+      message: 'Access request cancelled',
+      data: {
+        request,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
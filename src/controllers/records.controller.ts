@@ -1,17 +1,24 @@
 /**
  * @file Records Controller
- * @description Handles health record operations (add, get, list, update)
+ * @description Handles health record operations (add, get, list, update, versions, import)
  */
 
 import { Request, Response, NextFunction } from 'express';
 import db from '../services/database';
 import { AppError } from '../middleware/errorHandler';
+import { actingForAuditDetails } from '../middleware/auth';
 import { PatientRecordsService } from '../services/blockchain/PatientRecordsService';
-import { createStorageService } from '../services/storage';
-import * as aesGcm from '../utils/aes-gcm';
 import * as ecies from '../utils/ecies';
-import { sha256 } from '../utils/hash';
-import crypto from 'crypto';
+import { getKeyVault } from '../services/custody';
+import { KeyRegistryService } from '../services/blockchain/KeyRegistryService';
+import { getClientSigningService } from '../services/signing';
+import { getPolicyEngine } from '../services/policy';
+import { getRecordService } from '../services/records';
+import { getSearchIndexService } from '../services/search';
+import { getRecordImportService } from '../services/imports';
+import { getJobRunner } from '../services/jobs';
+import { getPermissionRuleService } from '../services/permissions';
+import { getEmergencyEscrowService } from '../services/escrow';
 
 /**
  * Add new health record
@@ -19,81 +26,62 @@ import crypto from 'crypto';
  */
 export async function addRecord(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { fhirData, recipientPublicKeys } = req.body;
-
-    // Only patients can add their own records
-    if (role !== 'patient') {
-      throw new AppError('Only patients can add records', 403, 'FORBIDDEN');
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+    const delegation = req.actingFor?.delegation;
+
+    // Sharing on creation is a grant, so a proxy also needs the permission:grant scope
+    if (
+      delegation &&
+      recipientPublicKeys &&
+      recipientPublicKeys.length > 0 &&
+      !delegation.scopes.includes('permission:grant')
+    ) {
+      throw new AppError(
+        'Delegation does not allow granting access to records',
+        403,
+        'DELEGATION_SCOPE_REQUIRED'
+      );
     }
 
     // Get patient contract address
     const user = await db.one(
       'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
-      [walletAddress]
+      [patientWallet]
     );
 
     if (!user.patient_contract_address) {
       throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
     }
 
-    // Generate AES key for record encryption
-    const aesKey = crypto.randomBytes(32);
-
-    // Encrypt FHIR data with AES-GCM
-    const fhirDataStr = JSON.stringify(fhirData);
-    const encrypted = aesGcm.encrypt(fhirDataStr, aesKey);
-
-    // Calculate content digest
-    const encryptedBlob = Buffer.concat([
-      encrypted.iv,
-      encrypted.ciphertext,
-      encrypted.authTag,
-    ]);
-    const contentDigest = '0x' + sha256(encryptedBlob);
-
-    // Store encrypted blob
-    const storageService = createStorageService();
-    const storageResult = await storageService.store(encryptedBlob, {
-      contentDigest: contentDigest.slice(2), // Remove 0x prefix
-    });
-
-    // Wrap AES key for patient (self-access)
-    const patientUser = await db.one(
-      'SELECT wallet_address FROM users WHERE wallet_address = $1',
-      [walletAddress]
-    );
-
-    // Get patient's public key from blockchain
-    const keyRegistryService = require('../services/blockchain/KeyRegistryService').KeyRegistryService;
-    const keyRegistry = new keyRegistryService();
-    const patientKeyInfo = await keyRegistry.getPublicKey(walletAddress);
-    const wrappedKeyForPatient = await ecies.wrapKey(aesKey, patientKeyInfo.publicKey);
-
-    // Add record to blockchain
+    // Encrypt, store off-chain and register on blockchain
     const patientRecordsService = new PatientRecordsService(user.patient_contract_address);
-    const addRecordResult = await patientRecordsService.addRecord(
-      req.wallet!,
-      storageResult.pointer,
-      contentDigest
+    const addRecordResult = await getRecordService().createRecord(
+      patientWallet,
+      patientRecordsService,
+      fhirData
     );
-
-    // Store record metadata in database
-    await db.none(
-      `INSERT INTO records (patient_wallet, record_id, storage_pointer, content_digest)
-       VALUES ($1, $2, $3, $4)`,
-      [walletAddress, addRecordResult.recordId, storageResult.pointer, contentDigest]
+    const { aesKey, storagePointer, contentDigest } = addRecordResult;
+
+    // Share with grantees whose rules cover the new record
+    const ruleGrants = await getPermissionRuleService().applyToNewRecord(
+      patientWallet,
+      patientRecordsService,
+      addRecordResult.recordId,
+      fhirData
     );
 
     // Grant access to specified recipients if provided
     if (recipientPublicKeys && recipientPublicKeys.length > 0) {
+      const signer = await getKeyVault().getSigner(patientWallet);
       for (const recipient of recipientPublicKeys) {
-        const wrappedKey = await ecies.wrapKey(aesKey, recipient.publicKey);
+        const wrappedKey = await ecies.wrapKey(ecies.hexToPublicKey(recipient.publicKey), aesKey);
 
         const expiration = Math.floor(Date.now() / 1000) + 365 * 24 * 60 * 60; // 1 year
 
         await patientRecordsService.grantPermission(
-          req.wallet!,
+          signer,
           recipient.address,
           [addRecordResult.recordId],
           wrappedKey,
@@ -112,8 +100,9 @@ export async function addRecord(req: Request, res: Response, next: NextFunction)
         addRecordResult.transactionHash,
         {
           recordId: addRecordResult.recordId,
-          storagePointer: storageResult.pointer,
+          storagePointer,
           contentDigest,
+          ...actingForAuditDetails(req),
         },
       ]
     );
@@ -123,9 +112,188 @@ export async function addRecord(req: Request, res: Response, next: NextFunction)
       message: 'Record added successfully',
       data: {
         recordId: addRecordResult.recordId,
-        storagePointer: storageResult.pointer,
+        storagePointer,
         contentDigest,
         transactionHash: addRecordResult.transactionHash,
+        ruleGrants,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Prepare a new health record for client-side signing
+ * Encrypts and stores the data, then returns the unsigned addRecord transaction
+ */
+export async function prepareAddRecord(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { fhirData } = req.body;
+
+    // Get patient contract address
+    const user = await db.one(
+      'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
+      [walletAddress]
+    );
+
+    if (!user.patient_contract_address) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    // Encrypt and store off-chain
+    const { aesKey, storagePointer, contentDigest } = await getRecordService().encryptAndStore(
+      fhirData
+    );
+
+    // Wrap AES key for the patient so their wallet can unwrap it locally
+    const keyRegistryService = new KeyRegistryService();
+    const patientKeyInfo = await keyRegistryService.getPublicKey(walletAddress);
+    const wrappedKey = await ecies.wrapKey(ecies.hexToPublicKey(patientKeyInfo.publicKey), aesKey);
+
+    // Build unsigned transaction
+    const patientRecordsService = new PatientRecordsService(user.patient_contract_address);
+    const populated = await patientRecordsService.populateAddRecord(storagePointer, contentDigest);
+
+    const signingService = getClientSigningService();
+    const transaction = await signingService.buildUnsignedTransaction(walletAddress, populated);
+    const { operationId, expiresAt } = await signingService.createOperation(
+      walletAddress,
+      'add_record',
+      'transaction',
+      {
+        transaction,
+        storagePointer,
+        contentDigest,
+        wrappedKey,
+        keyVersion: patientKeyInfo.version,
+        // The server never sees the plaintext again, so the search tokens are computed now
+        searchTokens: getSearchIndexService().tokenize(walletAddress, fhirData),
+        // Likewise the record key: it is sealed for escrow now and stored on submit
+        escrowedKey: getEmergencyEscrowService().sealKey(walletAddress, aesKey),
+      }
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Record prepared for client signing',
+      data: {
+        operationId,
+        signingMethod: 'transaction',
+        transaction,
+        storagePointer,
+        contentDigest,
+        wrappedKey,
+        expiresAt,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Submit a client-signed addRecord transaction
+ * Relays the signed transaction and caches the new record
+ */
+export async function submitAddRecord(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { operationId, signedTransaction } = req.body;
+
+    const signingService = getClientSigningService();
+    const operation = await signingService.getPendingOperation(
+      operationId,
+      walletAddress,
+      'add_record'
+    );
+
+    if (!operation) {
+      throw new AppError('Prepared operation not found or expired', 404, 'OPERATION_NOT_FOUND');
+    }
+
+    if (!signingService.matchesSignedTransaction(operation, signedTransaction)) {
+      throw new AppError(
+        'Signed transaction does not match the prepared operation',
+        400,
+        'TRANSACTION_MISMATCH'
+      );
+    }
+
+    // Get patient contract address
+    const user = await db.one(
+      'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
+      [walletAddress]
+    );
+
+    const patientRecordsService = new PatientRecordsService(user.patient_contract_address);
+
+    // Relay to blockchain
+    const receipt = await signingService.relaySignedTransaction(operation, signedTransaction);
+    await signingService.markSubmitted(operationId, receipt.transactionHash);
+
+    const event = patientRecordsService.parseEvent(receipt, 'RecordAdded');
+    const recordId = event?.args?.recordId?.toNumber();
+    const { storagePointer, contentDigest, wrappedKey, keyVersion, searchTokens, escrowedKey } =
+      operation.payload;
+
+    // Store record metadata in database
+    await getRecordService().cacheRecord(
+      walletAddress,
+      recordId,
+      { storagePointer, contentDigest },
+      wrappedKey,
+      keyVersion,
+      receipt.transactionHash,
+      walletAddress
+    );
+    await getSearchIndexService().indexRecord(walletAddress, recordId, searchTokens || []);
+    if (escrowedKey) {
+      await getEmergencyEscrowService().storeSealedKey(walletAddress, recordId, escrowedKey);
+    }
+
+    // Rules only apply when the patient's key is also in custody
+    const ruleGrants = await getPermissionRuleService().applyToNewRecord(
+      walletAddress,
+      patientRecordsService,
+      recordId
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+       VALUES ($1, $2, $3, $4)`,
+      [
+        walletAddress,
+        'record_added',
+        receipt.transactionHash,
+        {
+          recordId,
+          storagePointer,
+          contentDigest,
+          signingMode: 'client',
+        },
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Record added successfully',
+      data: {
+        recordId,
+        storagePointer,
+        contentDigest,
+        transactionHash: receipt.transactionHash,
+        ruleGrants,
       },
     });
   } catch (error) {
@@ -147,77 +315,172 @@ export async function getRecord(req: Request, res: Response, next: NextFunction)
       throw new AppError('Patient address required', 400, 'MISSING_PATIENT_ADDRESS');
     }
 
-    // Get patient contract address
-    const patient = await db.oneOrNone(
-      'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
-      [patientAddress]
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(
+      patientAddress as string
     );
 
-    if (!patient?.patient_contract_address) {
+    if (!patientRecordsService) {
       throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
     }
 
-    const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
+    // Check access on blockchain, then retrieve and decrypt
+    const record = await recordService.readRecord(
+      walletAddress,
+      patientAddress as string,
+      patientRecordsService,
+      parseInt(recordId)
+    );
 
-    // Check access
-    const hasAccess = await patientRecordsService.checkAccess(walletAddress, parseInt(recordId));
-    if (!hasAccess) {
+    if (!record) {
       throw new AppError('Access denied', 403, 'ACCESS_DENIED');
     }
 
-    // Get record metadata from blockchain
-    const recordMetadata = await patientRecordsService.getRecordMetadata(parseInt(recordId));
+    const { fhirData, metadata: recordMetadata } = record;
 
-    // Get wrapped key for user
-    const accessInfo = await patientRecordsService.checkAccess(
+    // Log access (except patients reading their own records)
+    await recordService.logAccess(
+      parseInt(recordId),
       walletAddress,
-      parseInt(recordId)
+      patientAddress as string,
+      req.ip,
+      req.get('user-agent')
     );
-    const wrappedKey = accessInfo.wrappedKey;
 
-    // Retrieve encrypted data from storage
-    const storageService = createStorageService();
-    const encryptedBlob = await storageService.retrieve(
-      recordMetadata.storagePointer,
-      recordMetadata.contentDigest.slice(2) // Remove 0x prefix
+    res.json({
+      success: true,
+      data: {
+        recordId: parseInt(recordId),
+        fhirData,
+        metadata: {
+          storagePointer: recordMetadata.storagePointer,
+          contentDigest: recordMetadata.contentDigest,
+          timestamp: recordMetadata.timestamp,
+        },
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Update a health record
+ * Re-encrypts the new content under the record's key, stores it and points the contract at it;
+ * the previous version keeps its pointer, digest and transaction hash
+ */
+export async function updateRecord(req: Request, res: Response, next: NextFunction): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { recordId } = req.params;
+    const { fhirData } = req.body;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(patientWallet);
+
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const versions = await recordService.listVersions(patientWallet, parseInt(recordId));
+    if (versions.length === 0) {
+      throw new AppError('Record not found', 404, 'RECORD_NOT_FOUND');
+    }
+
+    const updated = await recordService.updateRecord(
+      patientWallet,
+      patientRecordsService,
+      parseInt(recordId),
+      fhirData,
+      walletAddress
     );
 
-    // Unwrap AES key
-    const aesKey = await ecies.unwrapKey(wrappedKey, req.wallet!.privateKey);
+    if (!updated) {
+      throw new AppError(
+        'Only FHIR records whose key the patient holds in custody can be updated',
+        409,
+        'RECORD_NOT_UPDATABLE'
+      );
+    }
 
-    // Decrypt record
-    const iv = encryptedBlob.slice(0, 12);
-    const authTag = encryptedBlob.slice(-16);
-    const ciphertext = encryptedBlob.slice(12, -16);
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+       VALUES ($1, $2, $3, $4)`,
+      [
+        walletAddress,
+        'record_updated',
+        updated.transactionHash,
+        {
+          recordId: updated.recordId,
+          version: updated.version,
+          storagePointer: updated.storagePointer,
+          contentDigest: updated.contentDigest,
+          ...actingForAuditDetails(req),
+        },
+      ]
+    );
+
+    res.json({
+      success: true,
+      message: 'Record updated successfully',
+      data: {
+        recordId: updated.recordId,
+        version: updated.version,
+        storagePointer: updated.storagePointer,
+        contentDigest: updated.contentDigest,
+        transactionHash: updated.transactionHash,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * List the stored versions of a record
+ * Anyone the contract grants access to the record can see how it changed
+ */
+export async function listRecordVersions(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { recordId } = req.params;
+    const { patientAddress } = req.query;
 
-    const decrypted = aesGcm.decrypt(
-      ciphertext,
-      aesKey,
-      iv,
-      authTag
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(
+      patientAddress as string
     );
 
-    const fhirData = JSON.parse(decrypted.toString('utf-8'));
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
 
-    // Log access
-    if (req.user!.role !== 'patient' || walletAddress !== patientAddress) {
-      await db.none(
-        `INSERT INTO access_logs (record_id, accessor_wallet, ip_address, user_agent)
-         VALUES ($1, $2, $3, $4)`,
-        [recordId, walletAddress, req.ip, req.get('user-agent')]
-      );
+    const access = await patientRecordsService.checkAccess(walletAddress, parseInt(recordId));
+    if (!access.hasAccess) {
+      throw new AppError('Access denied', 403, 'ACCESS_DENIED');
     }
 
+    const versions = await recordService.listVersions(patientAddress as string, parseInt(recordId));
+
     res.json({
       success: true,
       data: {
         recordId: parseInt(recordId),
-        fhirData,
-        metadata: {
-          storagePointer: recordMetadata.storagePointer,
-          contentDigest: recordMetadata.contentDigest,
-          timestamp: recordMetadata.timestamp,
-        },
+        currentVersion: versions.length ? versions[versions.length - 1].version : null,
+        versions: versions.map((version) => ({
+          version: version.version,
+          storagePointer: version.storage_pointer,
+          contentDigest: version.content_digest,
+          transactionHash: version.transaction_hash,
+          createdBy: version.created_by,
+          createdAt: version.created_at,
+        })),
       },
     });
   } catch (error) {
@@ -225,15 +488,100 @@ export async function getRecord(req: Request, res: Response, next: NextFunction)
   }
 }
 
+/**
+ * Get one version of a record, decrypted
+ */
+export async function getRecordVersion(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { recordId, version } = req.params;
+    const { patientAddress } = req.query;
+
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(
+      patientAddress as string
+    );
+
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const recordVersion = await recordService.getVersion(
+      patientAddress as string,
+      parseInt(recordId),
+      parseInt(version)
+    );
+
+    if (!recordVersion) {
+      throw new AppError('Record version not found', 404, 'VERSION_NOT_FOUND');
+    }
+
+    const record = await recordService.readRecordVersion(
+      walletAddress,
+      patientAddress as string,
+      patientRecordsService,
+      recordVersion
+    );
+
+    if (!record) {
+      throw new AppError('Access denied', 403, 'ACCESS_DENIED');
+    }
+
+    await recordService.logAccess(
+      parseInt(recordId),
+      walletAddress,
+      patientAddress as string,
+      req.ip,
+      req.get('user-agent')
+    );
+
+    res.json({
+      success: true,
+      data: record,
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
 /**
  * List all accessible records for a patient
+ * Proxies pick the patient they act for with onBehalfOf; the response lists every
+ * patient the caller may act for
  */
 export async function listRecords(req: Request, res: Response, next: NextFunction): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
-    const { patientAddress, offset = 0, limit = 50 } = req.query;
+    const { walletAddress } = req.user!;
+    const { patientAddress, onBehalfOf, offset = 0, limit = 50 } = req.query;
+
+    const subject = await getPolicyEngine().loadSubject(walletAddress, req.user!.role);
+    const delegatedPatients = subject.delegations.map((delegation) => ({
+      patientAddress: delegation.patientAddress,
+      delegationId: delegation.id,
+      relationship: delegation.relationship,
+      scopes: delegation.scopes,
+      expiresAt: delegation.expiresAt,
+    }));
+
+    let actingFor: string | undefined;
+    if (onBehalfOf && (onBehalfOf as string).toLowerCase() !== walletAddress.toLowerCase()) {
+      const delegation = subject.delegations.find(
+        (candidate) =>
+          candidate.patientAddress.toLowerCase() === (onBehalfOf as string).toLowerCase()
+      );
 
-    const targetPatient = (patientAddress as string) || walletAddress;
+      if (!delegation) {
+        throw new AppError('No active delegation from this patient', 403, 'DELEGATION_NOT_FOUND');
+      }
+
+      actingFor = delegation.patientAddress;
+    }
+
+    const targetPatient = actingFor || (patientAddress as string) || walletAddress;
 
     // Get patient contract address
     const patient = await db.oneOrNone(
@@ -247,8 +595,8 @@ export async function listRecords(req: Request, res: Response, next: NextFunctio
 
     const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
 
-    // If requesting own records (patient)
-    if (walletAddress.toLowerCase() === targetPatient.toLowerCase()) {
+    // If requesting own records (patient) or acting for the patient as their proxy
+    if (actingFor || walletAddress.toLowerCase() === targetPatient.toLowerCase()) {
       const recordCount = await patientRecordsService.getRecordCount();
       const allRecordIds = await patientRecordsService.getAllRecordIds();
       const records = allRecordIds.slice(
@@ -263,6 +611,8 @@ export async function listRecords(req: Request, res: Response, next: NextFunctio
           total: recordCount,
           offset: parseInt(offset as string),
           limit: parseInt(limit as string),
+          actingFor,
+          delegatedPatients,
         },
       });
       return;
@@ -281,6 +631,7 @@ export async function listRecords(req: Request, res: Response, next: NextFunctio
         records: accessibleRecords,
         offset: parseInt(offset as string),
         limit: parseInt(limit as string),
+        delegatedPatients,
       },
     });
   } catch (error) {
@@ -298,7 +649,7 @@ export async function getRecordAccessHistory(
   next: NextFunction
 ): Promise<void> {
   try {
-    const { walletAddress, role } = req.user!;
+    const { walletAddress } = req.user!;
     const { recordId } = req.params;
     const { patientAddress } = req.query;
 
@@ -306,15 +657,6 @@ export async function getRecordAccessHistory(
       throw new AppError('Patient address required', 400, 'MISSING_PATIENT_ADDRESS');
     }
 
-    // Only patient can view their own access history
-    if (role !== 'patient' && role !== 'admin') {
-      throw new AppError('Only patients and admins can view access history', 403, 'FORBIDDEN');
-    }
-
-    if (role === 'patient' && walletAddress.toLowerCase() !== (patientAddress as string).toLowerCase()) {
-      throw new AppError('Cannot view other patients access history', 403, 'FORBIDDEN');
-    }
-
     // Get access logs from database
     const accessLogs = await db.manyOrNone(
       `SELECT al.accessor_wallet, al.accessed_at, al.ip_address, al.user_agent, u.name, u.role
@@ -339,8 +681,9 @@ export async function getRecordAccessHistory(
 }
 
 /**
- * Search records by FHIR resource type
- * Note: This is a simplified version - full FHIR search would be more complex
+ * Search records through the encrypted search index
+ * Filters by resource type, code, date range, encounter and text without decrypting blobs;
+ * results are limited to records the caller can access
  */
 export async function searchRecords(
   req: Request,
@@ -349,50 +692,54 @@ export async function searchRecords(
 ): Promise<void> {
   try {
     const { walletAddress } = req.user!;
-    const { patientAddress, resourceType, offset = 0, limit = 50 } = req.query;
+    const {
+      patientAddress,
+      resourceType,
+      code,
+      dateFrom,
+      dateTo,
+      encounter,
+      text,
+      offset = 0,
+      limit = 50,
+    } = req.query;
 
     const targetPatient = (patientAddress as string) || walletAddress;
 
-    // Get patient contract address
-    const patient = await db.oneOrNone(
-      'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
-      [targetPatient]
-    );
+    const recordService = getRecordService();
+    const patientRecordsService = await recordService.getPatientRecordsService(targetPatient);
 
-    if (!patient?.patient_contract_address) {
+    if (!patientRecordsService) {
       throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
     }
 
-    const patientRecordsService = new PatientRecordsService(patient.patient_contract_address);
-
-    // Get accessible records
-    let recordIds: number[];
+    // Patients see all their records; anyone else only what getAccessibleRecords returns
+    const accessible = await recordService.listReadableRecordIds(
+      walletAddress,
+      targetPatient,
+      patientRecordsService
+    );
 
-    if (walletAddress.toLowerCase() === targetPatient.toLowerCase()) {
-      const recordCount = await patientRecordsService.getRecordCount();
-      recordIds = Array.from({ length: recordCount }, (_, i) => i);
-    } else {
-      const accessible = await patientRecordsService.getAccessibleRecords(walletAddress);
-      recordIds = accessible; // getAccessibleRecords returns number[] directly
-    }
+    const matching = await getSearchIndexService().search(targetPatient, {
+      resourceType: resourceType as string | undefined,
+      code: code as string | undefined,
+      dateFrom: dateFrom as string | undefined,
+      dateTo: dateTo as string | undefined,
+      encounter: encounter as string | undefined,
+      text: text as string | undefined,
+    });
 
-    // Note: This is a simplified implementation
-    // In production, you'd want to index FHIR resources for efficient searching
-    const matchingRecords = [];
+    const matchingIds = matching ? new Set(matching) : null;
+    const recordIds = matchingIds ? accessible.filter((id) => matchingIds.has(id)) : accessible;
 
-    for (const recordId of recordIds.slice(
-      parseInt(offset as string),
-      parseInt(offset as string) + parseInt(limit as string)
-    )) {
-      // For demo purposes, just return record IDs
-      // In production, you'd decrypt and filter by resourceType
-      matchingRecords.push({ recordId });
-    }
+    const records = recordIds
+      .slice(parseInt(offset as string), parseInt(offset as string) + parseInt(limit as string))
+      .map((recordId) => ({ recordId }));
 
     res.json({
       success: true,
       data: {
-        records: matchingRecords,
+        records,
         total: recordIds.length,
         offset: parseInt(offset as string),
         limit: parseInt(limit as string),
@@ -402,3 +749,129 @@ export async function searchRecords(
     next(error);
   }
 }
+
+/**
+ * Import a FHIR transaction/collection Bundle or NDJSON
+ * Entries are validated, stored and registered by a background job; follow it with
+ * GET /records/import/:importId
+ */
+export async function importRecords(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const patientWallet = req.actingFor?.patientAddress || walletAddress;
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(patientWallet);
+    if (!patientRecordsService) {
+      throw new AppError('Patient contract not found', 404, 'CONTRACT_NOT_FOUND');
+    }
+
+    const importService = getRecordImportService();
+
+    let parsed;
+    try {
+      parsed = importService.parse(req.body);
+    } catch (error) {
+      throw new AppError((error as Error).message, 400, 'INVALID_IMPORT');
+    }
+
+    const { recordImport, job } = await importService.createImport(
+      patientWallet,
+      parsed,
+      walletAddress
+    );
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'records_import_started',
+        {
+          importId: recordImport.id,
+          jobId: job.id,
+          format: recordImport.format,
+          entryCount: recordImport.entry_count,
+          ...actingForAuditDetails(req),
+        },
+      ]
+    );
+
+    res.status(202).json({
+      success: true,
+      message: 'Import queued',
+      data: {
+        importId: recordImport.id,
+        jobId: job.id,
+        format: recordImport.format,
+        entryCount: recordImport.entry_count,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get an import's job status and per-entry status
+ * Visible to the patient and to whoever started the import
+ */
+export async function getRecordImport(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { importId } = req.params;
+
+    const importService = getRecordImportService();
+    const recordImport = await importService.getImport(parseInt(importId));
+
+    const caller = walletAddress.toLowerCase();
+    if (
+      !recordImport ||
+      (recordImport.patient_wallet.toLowerCase() !== caller &&
+        recordImport.created_by?.toLowerCase() !== caller)
+    ) {
+      throw new AppError('Import not found', 404, 'IMPORT_NOT_FOUND');
+    }
+
+    const job = recordImport.job_id ? await getJobRunner().getJob(recordImport.job_id) : null;
+    const entries = await importService.listEntries(recordImport.id);
+
+    res.json({
+      success: true,
+      data: {
+        importId: recordImport.id,
+        patientAddress: recordImport.patient_wallet,
+        format: recordImport.format,
+        entryCount: recordImport.entry_count,
+        createdAt: recordImport.created_at,
+        job: job && {
+          id: job.id,
+          status: job.status,
+          progress: job.progress,
+          error: job.error,
+          finishedAt: job.finished_at,
+        },
+        report: job?.result || null,
+        entries: entries.map((entry) => ({
+          index: entry.entry_index,
+          resourceType: entry.resource_type,
+          status: entry.status,
+          recordId: entry.record_id,
+          transactionHash: entry.transaction_hash,
+          issues: entry.issues,
+          error: entry.error,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -0,0 +1,372 @@
+/**
+ * @file Recovery Controller
+ * @description Social / threshold account recovery (setup, ceremony, guardian approvals)
+ */
+
+import { Request, Response, NextFunction } from 'express';
+import db from '../services/database';
+import { AppError } from '../middleware/errorHandler';
+import { getKeyVault } from '../services/custody';
+import { getKeyRegistryService } from '../services/blockchain/KeyRegistryService';
+import { getRecoveryService, RecoveryProgress } from '../services/recovery';
+import { RecoveryRecipient } from '../types';
+
+/**
+ * Shape a ceremony for API responses
+ */
+function describeProgress(progress: RecoveryProgress): { [key: string]: any } {
+  const { session, threshold, approvals } = progress;
+  return {
+    sessionId: session.id,
+    walletAddress: session.wallet_address,
+    status: session.status,
+    threshold,
+    approvals,
+    expiresAt: session.expires_at,
+    completedAt: session.completed_at,
+    failureReason: session.failure_reason,
+    rotationTransactionHash: session.rotation_tx_hash,
+    rewrappedKeys: session.rewrapped_keys,
+    rekeyJobId: session.rekey_job_id,
+  };
+}
+
+/**
+ * Set up recovery
+ * Splits the wallet key into Shamir shares for guardians and recovery devices
+ */
+export async function setupRecovery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const { threshold, guardians = [], devices = [] } = req.body;
+
+    const recipients: RecoveryRecipient[] = [];
+
+    for (const guardianAddress of guardians as string[]) {
+      const guardian = await db.oneOrNone(
+        'SELECT wallet_address FROM users WHERE LOWER(wallet_address) = LOWER($1)',
+        [guardianAddress]
+      );
+
+      if (!guardian) {
+        throw new AppError(`Guardian ${guardianAddress} not found`, 404, 'USER_NOT_FOUND');
+      }
+
+      if (guardian.wallet_address.toLowerCase() === walletAddress.toLowerCase()) {
+        throw new AppError('You cannot be your own guardian', 400, 'INVALID_GUARDIAN');
+      }
+
+      let publicKey: string;
+      try {
+        publicKey = (await getKeyRegistryService().getPublicKey(guardian.wallet_address)).publicKey;
+      } catch (error) {
+        throw new AppError(
+          `Guardian ${guardian.wallet_address} has no registered public key`,
+          400,
+          'GUARDIAN_KEY_NOT_FOUND'
+        );
+      }
+
+      recipients.push({ guardianAddress: guardian.wallet_address, publicKey });
+    }
+
+    for (const device of devices as Array<{ label: string; publicKey: string }>) {
+      recipients.push({ deviceLabel: device.label, publicKey: device.publicKey });
+    }
+
+    const holders = new Set(recipients.map((recipient) => recipient.publicKey.toLowerCase()));
+    if (holders.size !== recipients.length) {
+      throw new AppError(
+        'Each share must go to a different key holder',
+        400,
+        'DUPLICATE_RECIPIENT'
+      );
+    }
+
+    if (recipients.length < threshold) {
+      throw new AppError(
+        'Threshold cannot exceed the number of guardians and devices',
+        400,
+        'INVALID_THRESHOLD'
+      );
+    }
+
+    // Users holding their own wallet supply the key; otherwise it comes from custody
+    const privateKey: string =
+      req.body.privateKey || (await getKeyVault().getSigner(walletAddress)).privateKey;
+
+    let result;
+    try {
+      result = await getRecoveryService().configure(
+        walletAddress,
+        privateKey,
+        parseInt(threshold),
+        recipients
+      );
+    } catch (error) {
+      throw new AppError((error as Error).message, 400, 'RECOVERY_SETUP_FAILED');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'recovery_configured',
+        {
+          configId: result.configId,
+          threshold: parseInt(threshold),
+          guardians: recipients.filter((r) => r.guardianAddress).map((r) => r.guardianAddress),
+          devices: recipients.filter((r) => r.deviceLabel).map((r) => r.deviceLabel),
+        },
+      ]
+    );
+
+    res.status(201).json({
+      success: true,
+      message: 'Recovery configured. Deliver each device share to its device.',
+      data: {
+        configId: result.configId,
+        threshold: parseInt(threshold),
+        shares: result.shares.map((share) => ({
+          shareId: share.id,
+          shareIndex: share.share_index,
+          guardian: share.guardian_wallet,
+          device: share.device_label,
+          // Guardians fetch their share when a recovery starts; devices receive it now
+          encryptedShare: share.device_label ? share.encrypted_share : undefined,
+        })),
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get the caller's recovery setup
+ */
+export async function getRecoverySetup(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+
+    const setup = await getRecoveryService().getConfig(walletAddress);
+
+    res.json({
+      success: true,
+      data: {
+        configured: !!setup,
+        setup,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Start a recovery ceremony
+ */
+export async function startRecovery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+
+    let session;
+    try {
+      session = await getRecoveryService().startSession(walletAddress);
+    } catch (error) {
+      throw new AppError((error as Error).message, 409, 'RECOVERY_UNAVAILABLE');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'recovery_started', { sessionId: session.id, configId: session.config_id }]
+    );
+
+    const progress = (await getRecoveryService().getProgress(session.id))!;
+
+    res.status(201).json({
+      success: true,
+      message: 'Recovery started. Guardians and devices can now release their shares.',
+      data: describeProgress(progress),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Get a recovery ceremony's status (owner or one of its guardians)
+ */
+export async function getRecoveryStatus(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const sessionId = parseInt(req.params.sessionId);
+
+    const progress = await getRecoveryService().getProgress(sessionId);
+    if (!progress) {
+      throw new AppError('Recovery not found', 404, 'RECOVERY_NOT_FOUND');
+    }
+
+    const isOwner = progress.session.wallet_address.toLowerCase() === walletAddress.toLowerCase();
+    const isGuardian = await db.oneOrNone(
+      'SELECT 1 FROM recovery_shares WHERE config_id = $1 AND guardian_wallet = $2',
+      [progress.session.config_id, walletAddress]
+    );
+
+    if (!isOwner && !isGuardian) {
+      throw new AppError('Recovery not found', 404, 'RECOVERY_NOT_FOUND');
+    }
+
+    res.json({
+      success: true,
+      data: describeProgress(progress),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * List pending recoveries in which the caller is a guardian
+ */
+export async function listGuardianRequests(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+
+    const requests = await getRecoveryService().listGuardianRequests(walletAddress);
+
+    res.json({
+      success: true,
+      data: {
+        requests,
+      },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Release a share for a recovery ceremony
+ * Completes the recovery once the threshold is reached
+ */
+export async function submitShare(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const sessionId = parseInt(req.params.sessionId);
+    const { shareId, share } = req.body;
+
+    let progress: RecoveryProgress;
+    try {
+      progress = await getRecoveryService().submitShare(
+        sessionId,
+        parseInt(shareId),
+        walletAddress,
+        share
+      );
+    } catch (error) {
+      throw new AppError((error as Error).message, 400, 'RECOVERY_SHARE_REJECTED');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'recovery_share_released',
+        { sessionId, shareId: parseInt(shareId), owner: progress.session.wallet_address },
+      ]
+    );
+
+    if (progress.session.status === 'completed' || progress.session.status === 'failed') {
+      await db.none(
+        `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+         VALUES ($1, $2, $3, $4)`,
+        [
+          progress.session.wallet_address,
+          progress.session.status === 'completed' ? 'recovery_completed' : 'recovery_failed',
+          progress.session.rotation_tx_hash,
+          {
+            sessionId,
+            approvals: progress.approvals,
+            rekeyJobId: progress.session.rekey_job_id,
+            reason: progress.session.failure_reason,
+          },
+        ]
+      );
+    }
+
+    res.json({
+      success: true,
+      message:
+        progress.session.status === 'completed'
+          ? 'Recovery completed and encryption key rotated'
+          : 'Share accepted',
+      data: describeProgress(progress),
+    });
+  } catch (error) {
+    next(error);
+  }
+}
+
+/**
+ * Cancel a pending recovery ceremony
+ */
+export async function cancelRecovery(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
+  try {
+    const { walletAddress } = req.user!;
+    const sessionId = parseInt(req.params.sessionId);
+
+    const cancelled = await getRecoveryService().cancelSession(sessionId, walletAddress);
+    if (!cancelled) {
+      throw new AppError('Pending recovery not found', 404, 'RECOVERY_NOT_FOUND');
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [walletAddress, 'recovery_cancelled', { sessionId }]
+    );
+
+    res.json({
+      success: true,
+      message: 'Recovery cancelled',
+    });
+  } catch (error) {
+    next(error);
+  }
+}
@@ -5,20 +5,57 @@
 
 import { Request, Response, NextFunction } from 'express';
 import jwt from 'jsonwebtoken';
-import { Wallet } from 'ethers';
+import { randomBytes } from 'crypto';
 import config from '../config';
+import db from '../services/database';
+import { getMfaService } from '../services/mfa';
+import { getPolicyEngine } from '../services/policy';
+import { PolicyAction, PolicyResource } from '../types';
 
 interface JWTPayload {
   walletAddress: string;
   email: string;
   role: string;
-  privateKey?: string;
+  sessionId?: number;
+}
+
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000; // 1 minute
+
+/**
+ * Check that the session referenced by a token is still live
+ * Also bumps the session's last-seen time (at most once a minute)
+ */
+async function isSessionActive(payload: JWTPayload): Promise<boolean> {
+  if (!payload.sessionId) {
+    return false;
+  }
+
+  const session = await db.oneOrNone(
+    `SELECT id, last_used_at FROM sessions
+     WHERE id = $1 AND wallet_address = $2 AND expires_at > NOW() AND revoked_at IS NULL`,
+    [payload.sessionId, payload.walletAddress]
+  );
+
+  if (!session) {
+    return false;
+  }
+
+  if (Date.now() - new Date(session.last_used_at).getTime() > LAST_SEEN_RESOLUTION_MS) {
+    await db.none('UPDATE sessions SET last_used_at = NOW() WHERE id = $1', [session.id]);
+  }
+
+  return true;
 }
 
 /**
  * Verify JWT token and attach user to request
+ * Tokens only carry a session reference; signing keys stay in the key vault
  */
-export function authenticateToken(req: Request, res: Response, next: NextFunction): void {
+export async function authenticateToken(
+  req: Request,
+  res: Response,
+  next: NextFunction
+): Promise<void> {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1]; // Bearer TOKEN
 
@@ -33,22 +70,10 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
     return;
   }
 
-  try {
-    const payload = jwt.verify(token, config.jwt.secret) as JWTPayload;
-
-    // Attach user info to request
-    req.user = {
-      walletAddress: payload.walletAddress,
-      email: payload.email,
-      role: payload.role,
-    };
-
-    // If private key is in payload, create wallet instance
-    if (payload.privateKey) {
-      req.wallet = new Wallet(payload.privateKey);
-    }
+  let payload: JWTPayload;
 
-    next();
+  try {
+    payload = jwt.verify(token, config.jwt.secret) as JWTPayload;
   } catch (error) {
     if (error instanceof jwt.TokenExpiredError) {
       res.status(401).json({
@@ -68,14 +93,67 @@ export function authenticateToken(req: Request, res: Response, next: NextFunctio
         code: 'AUTH_TOKEN_INVALID',
       },
     });
+    return;
   }
+
+  try {
+    // Tokens without a session reference predate key custody and are no longer accepted
+    if (!(await isSessionActive(payload))) {
+      res.status(401).json({
+        success: false,
+        error: {
+          message: 'Session expired or revoked, please sign in again',
+          code: 'AUTH_SESSION_INVALID',
+        },
+      });
+      return;
+    }
+  } catch (error) {
+    next(error);
+    return;
+  }
+
+  // Attach user info to request
+  req.user = {
+    walletAddress: payload.walletAddress,
+    email: payload.email,
+    role: payload.role,
+    sessionId: payload.sessionId,
+  };
+
+  next();
+}
+
+/**
+ * Resource resolver: the patient named in onBehalfOf (body or query), else the caller
+ */
+export function onBehalfOfPatient(req: Request): PolicyResource {
+  return {
+    patientAddress:
+      (req.body && req.body.onBehalfOf) ||
+      (req.query.onBehalfOf as string) ||
+      req.user!.walletAddress,
+  };
 }
 
 /**
- * Require specific role(s)
+ * Resource resolver: the caller is the patient
+ * Used for client-signed operations, which only the patient's own wallet can sign
  */
-export function requireRole(...allowedRoles: string[]) {
-  return (req: Request, res: Response, next: NextFunction): void => {
+export function callerAsPatient(req: Request): PolicyResource {
+  return { patientAddress: req.user!.walletAddress };
+}
+
+/**
+ * Authorize an action through the policy engine
+ * Replaces fixed role checks; resolveResource supplies attributes such as the patient.
+ * When a proxy delegation allowed the action, req.actingFor names the patient.
+ */
+export function authorize(
+  action: PolicyAction,
+  resolveResource?: (req: Request) => PolicyResource | Promise<PolicyResource>
+) {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
     if (!req.user) {
       res.status(401).json({
         success: false,
@@ -87,54 +165,124 @@ export function requireRole(...allowedRoles: string[]) {
       return;
     }
 
-    if (!allowedRoles.includes(req.user.role)) {
-      res.status(403).json({
-        success: false,
-        error: {
-          message: 'Insufficient permissions',
-          code: 'AUTH_FORBIDDEN',
-          details: {
-            required: allowedRoles,
-            current: req.user.role,
+    try {
+      const resource = resolveResource ? await resolveResource(req) : {};
+      const decision = await getPolicyEngine().authorize(
+        req.user.walletAddress,
+        req.user.role,
+        action,
+        resource
+      );
+
+      if (!decision.allowed) {
+        await db.none(
+          `INSERT INTO audit_log (wallet_address, action, details)
+           VALUES ($1, $2, $3)`,
+          [
+            req.user.walletAddress,
+            'authorization_denied',
+            { action, resource, reason: decision.reason, path: req.originalUrl },
+          ]
+        );
+
+        res.status(403).json({
+          success: false,
+          error: {
+            message: 'Insufficient permissions',
+            code: 'AUTH_FORBIDDEN',
+            details: {
+              action,
+              reason: decision.reason,
+            },
           },
-        },
-      });
-      return;
-    }
+        });
+        return;
+      }
 
-    next();
+      if (decision.delegation) {
+        req.actingFor = {
+          patientAddress: decision.delegation.patientAddress,
+          delegation: decision.delegation,
+        };
+      }
+
+      next();
+    } catch (error) {
+      next(error);
+    }
   };
 }
 
 /**
- * Require patient role
+ * Audit details recording the delegation a proxy acted under
+ * Empty when the caller acted for themselves
  */
-export const requirePatient = requireRole('patient');
+export function actingForAuditDetails(req: Request): { [key: string]: any } {
+  const delegation = req.actingFor?.delegation;
+  if (!delegation) {
+    return {};
+  }
 
-/**
- * Require doctor role
- */
-export const requireDoctor = requireRole('doctor');
+  return {
+    onBehalfOf: delegation.patientAddress,
+    delegationId: delegation.id,
+    relationship: delegation.relationship,
+    scopes: delegation.scopes,
+    expiresAt: delegation.expiresAt,
+  };
+}
 
 /**
- * Require admin role
+ * Require a second factor presented on this session within MFA_MAX_AGE
+ * Must run after authenticateToken
  */
-export const requireAdmin = requireRole('admin');
+export async function requireMfa(req: Request, res: Response, next: NextFunction): Promise<void> {
+  if (!req.user || !req.user.sessionId) {
+    res.status(401).json({
+      success: false,
+      error: {
+        message: 'Authentication required',
+        code: 'AUTH_REQUIRED',
+      },
+    });
+    return;
+  }
 
-/**
- * Require patient or doctor role
- */
-export const requirePatientOrDoctor = requireRole('patient', 'doctor');
+  try {
+    const mfaService = getMfaService();
 
-/**
- * Require patient or admin role
- */
-export const requirePatientOrAdmin = requireRole('patient', 'admin');
+    if (await mfaService.isSessionVerified(req.user.sessionId)) {
+      next();
+      return;
+    }
+
+    const enrolled = await mfaService.hasActiveFactor(req.user.walletAddress);
+
+    res.status(403).json({
+      success: false,
+      error: enrolled
+        ? {
+            message: 'Multi-factor verification required',
+            code: 'MFA_REQUIRED',
+          }
+        : {
+            message: 'Multi-factor authentication must be enrolled for this action',
+            code: 'MFA_ENROLLMENT_REQUIRED',
+          },
+    });
+  } catch (error) {
+    next(error);
+  }
+}
 
 /**
  * Optional authentication (attach user if token present, but don't fail if missing)
  */
-export function optionalAuth(req: Request, _res: Response, next: NextFunction): void {
+export async function optionalAuth(
+  req: Request,
+  _res: Response,
+  next: NextFunction
+): Promise<void> {
   const authHeader = req.headers['authorization'];
   const token = authHeader && authHeader.split(' ')[1];
 
@@ -146,14 +294,13 @@ export function optionalAuth(req: Request, _res: Response, next: NextFunction):
   try {
     const payload = jwt.verify(token, config.jwt.secret) as JWTPayload;
 
-    req.user = {
-      walletAddress: payload.walletAddress,
-      email: payload.email,
-      role: payload.role,
-    };
-
-    if (payload.privateKey) {
-      req.wallet = new Wallet(payload.privateKey);
+    if (await isSessionActive(payload)) {
+      req.user = {
+        walletAddress: payload.walletAddress,
+        email: payload.email,
+        role: payload.role,
+        sessionId: payload.sessionId,
+      };
     }
   } catch (error) {
     // Silently fail for optional auth
@@ -173,10 +320,12 @@ export function generateToken(payload: JWTPayload, expiresIn?: string): string {
 
 /**
  * Generate refresh token
+ * Each token gets a unique ID so rotated tokens never collide
  */
 export function generateRefreshToken(payload: JWTPayload): string {
   return jwt.sign(payload, config.jwt.secret, {
     expiresIn: config.jwt.refreshExpiry as any,
+    jwtid: randomBytes(16).toString('hex'),
   });
 }
 
@@ -6,6 +6,8 @@
 import { body, param, query, validationResult } from 'express-validator';
 import { Request, Response, NextFunction } from 'express';
 import { AppError } from './errorHandler';
+import config from '../config';
+import { getFhirValidator } from '../services/fhir';
 
 /**
  * Check validation results
@@ -20,6 +22,32 @@ export function validate(req: Request, _res: Response, next: NextFunction): void
   next();
 }
 
+/**
+ * Validate a FHIR resource in the request body against the R4 StructureDefinitions
+ * (a body field, or the whole body when no field is given)
+ * Invalid resources are rejected with an OperationOutcome in the error details
+ */
+export function validateFhirResource(field?: string) {
+  return (req: Request, _res: Response, next: NextFunction): void => {
+    if (!config.features.fhirValidation) {
+      return next();
+    }
+
+    const result = getFhirValidator().validate(field ? req.body[field] : req.body);
+
+    if (!result.valid) {
+      throw new AppError(
+        `FHIR resource failed ${result.mode} validation`,
+        400,
+        'FHIR_VALIDATION_FAILED',
+        result.outcome
+      );
+    }
+
+    next();
+  };
+}
+
 /**
  * Validation rules for user signup
  */
@@ -31,7 +59,9 @@ export const signupValidation = [
     .withMessage('Password must be at least 8 characters')
     .matches(/^(?=.*[a-z])(?=.*[A-Z])(?=.*\d)/)
     .withMessage('Password must contain uppercase, lowercase, and number'),
-  body('role').isIn(['patient', 'doctor']).withMessage('Role must be patient or doctor'),
+  body('role')
+    .isIn(['patient', 'doctor', 'nurse', 'pharmacist', 'researcher', 'guardian'])
+    .withMessage('Role must be patient, doctor, nurse, pharmacist, researcher or guardian'),
   body('publicKey')
     .matches(/^0x04[a-fA-F0-9]{128}$/)
     .withMessage('Invalid public key format (must be 65-byte uncompressed secp256k1)'),
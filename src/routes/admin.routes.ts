@@ -0,0 +1,211 @@
+/**
+ * @file Admin Routes
+ * @description Role assignment, policy explanation and emergency justification endpoints
+ */
+
+import { Router } from 'express';
+import * as adminController from '../controllers/admin.controller';
+import { authenticateToken, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { body, param } from 'express-validator';
+import { ROLES } from '../services/policy';
+
+const router = Router();
+
+const justificationCodeParam = param('code')
+  .isInt({ min: 1 })
+  .withMessage('Justification code must be a positive integer');
+
+// Rules of a justification code (create and replace)
+const justificationRules = [
+  body('label').trim().isLength({ min: 1, max: 100 }).withMessage('Label required'),
+  body('description').optional().trim(),
+  body('contractCode')
+    .isInt({ min: 1, max: 3 })
+    .withMessage('Contract code must be 1 (Trauma), 2 (Unconscious), or 3 (Critical)'),
+  body('approvalsRequired')
+    .optional()
+    .isInt({ min: 1, max: 5 })
+    .withMessage('Approvals required must be between 1 and 5'),
+  body('approverRoles')
+    .optional()
+    .isArray({ min: 1 })
+    .withMessage('Approver roles must be a non-empty array'),
+  body('approverRoles.*').isIn(ROLES).withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+  body('maxDurationSeconds')
+    .isInt({ min: 60 })
+    .withMessage('Maximum duration must be at least 60 seconds'),
+  body('recordCategories').optional().isArray().withMessage('Record categories must be an array'),
+  body('recordCategories.*')
+    .isString()
+    .trim()
+    .notEmpty()
+    .withMessage('Record categories must be `code` or `system|code`'),
+  body('notesRequired').optional().isBoolean().withMessage('notesRequired must be a boolean'),
+  body('notesMinLength')
+    .optional()
+    .isInt({ min: 0, max: 2000 })
+    .withMessage('Minimum notes length must be between 0 and 2000'),
+];
+
+/**
+ * @route   GET /api/admin/policies
+ * @desc    List roles and declarative policies
+ * @access  Private (role:manage)
+ */
+router.get('/policies', authenticateToken, authorize('role:manage'), adminController.listPolicies);
+
+/**
+ * @route   GET /api/admin/users/:address/roles
+ * @desc    Get a user's primary role and role assignments
+ * @access  Private (role:manage)
+ */
+router.get(
+  '/users/:address/roles',
+  authenticateToken,
+  authorize('role:manage'),
+  [
+    param('address')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid Ethereum address required'),
+    validate,
+  ],
+  adminController.getUserRoles
+);
+
+/**
+ * @route   PUT /api/admin/users/:address/role
+ * @desc    Change a user's primary role (revokes their sessions)
+ * @access  Private (role:manage)
+ */
+router.put(
+  '/users/:address/role',
+  authenticateToken,
+  authorize('role:manage'),
+  [
+    param('address')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid Ethereum address required'),
+    body('role').isIn(ROLES).withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+    validate,
+  ],
+  adminController.setPrimaryRole
+);
+
+/**
+ * @route   POST /api/admin/users/:address/roles
+ * @desc    Assign an additional role (optionally scoped to department / facility)
+ * @access  Private (role:manage)
+ */
+router.post(
+  '/users/:address/roles',
+  authenticateToken,
+  authorize('role:manage'),
+  [
+    param('address')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid Ethereum address required'),
+    body('role').isIn(ROLES).withMessage(`Role must be one of: ${ROLES.join(', ')}`),
+    body('department').optional().trim().isLength({ min: 1, max: 100 }),
+    body('facility').optional().trim().isLength({ min: 1, max: 100 }),
+    body('expiresAt')
+      .optional()
+      .isInt({ min: Math.floor(Date.now() / 1000) })
+      .withMessage('Expiration must be future timestamp'),
+    validate,
+  ],
+  adminController.assignRole
+);
+
+/**
+ * @route   DELETE /api/admin/role-assignments/:assignmentId
+ * @desc    Revoke a role assignment
+ * @access  Private (role:manage)
+ */
+router.delete(
+  '/role-assignments/:assignmentId',
+  authenticateToken,
+  authorize('role:manage'),
+  [param('assignmentId').isInt({ min: 1 }).withMessage('Valid assignment ID required'), validate],
+  adminController.revokeRoleAssignment
+);
+
+/**
+ * @route   POST /api/admin/policies/explain
+ * @desc    Explain why an action would be allowed or denied for a user
+ * @access  Private (policy:explain)
+ */
+router.post(
+  '/policies/explain',
+  authenticateToken,
+  authorize('policy:explain'),
+  [
+    body('walletAddress')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid Ethereum address required'),
+    body('action').trim().notEmpty().withMessage('Action required'),
+    body('patientAddress')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    validate,
+  ],
+  adminController.explainDecision
+);
+
+/**
+ * @route   GET /api/admin/emergency-justifications
+ * @desc    List the emergency justification catalogue (including deactivated codes)
+ * @access  Private (emergency:configure)
+ */
+router.get(
+  '/emergency-justifications',
+  authenticateToken,
+  authorize('emergency:configure'),
+  adminController.listJustificationCodes
+);
+
+/**
+ * @route   POST /api/admin/emergency-justifications
+ * @desc    Add an emergency justification code
+ * @access  Private (emergency:configure)
+ */
+router.post(
+  '/emergency-justifications',
+  authenticateToken,
+  authorize('emergency:configure'),
+  [
+    body('code').isInt({ min: 1 }).withMessage('Justification code must be a positive integer'),
+    ...justificationRules,
+    validate,
+  ],
+  adminController.createJustificationCode
+);
+
+/**
+ * @route   PUT /api/admin/emergency-justifications/:code
+ * @desc    Replace an emergency justification code's rules
+ * @access  Private (emergency:configure)
+ */
+router.put(
+  '/emergency-justifications/:code',
+  authenticateToken,
+  authorize('emergency:configure'),
+  [justificationCodeParam, ...justificationRules, validate],
+  adminController.updateJustificationCode
+);
+
+/**
+ * @route   DELETE /api/admin/emergency-justifications/:code
+ * @desc    Deactivate an emergency justification code
+ * @access  Private (emergency:configure)
+ */
+router.delete(
+  '/emergency-justifications/:code',
+  authenticateToken,
+  authorize('emergency:configure'),
+  [justificationCodeParam, validate],
+  adminController.deactivateJustificationCode
+);
+
+export default router;
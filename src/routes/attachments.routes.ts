@@ -0,0 +1,103 @@
+/**
+ * @file Attachments Routes
+ * @description Chunked binary attachment endpoints (imaging, scanned documents)
+ */
+
+import express, { Router } from 'express';
+import * as attachmentsController from '../controllers/attachments.controller';
+import { authenticateToken, authorize, onBehalfOfPatient, requireMfa } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { body, param } from 'express-validator';
+import config from '../config';
+
+const router = Router();
+
+/**
+ * @route   POST /api/attachments/uploads
+ * @desc    Start a chunked upload (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.post(
+  '/uploads',
+  authenticateToken,
+  authorize('record:create', onBehalfOfPatient),
+  [
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    body('contentType')
+      .matches(/^[\w.+-]+\/[\w.+-]+$/)
+      .withMessage('Valid content type required'),
+    body('size').isInt({ min: 1 }).withMessage('Size must be a positive integer').toInt(),
+    body('filename')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Filename must be 1-255 characters'),
+    validate,
+  ],
+  attachmentsController.createUpload
+);
+
+/**
+ * @route   GET /api/attachments/uploads/:uploadId
+ * @desc    Upload progress with received and missing chunks
+ * @access  Private (Patient or the user who started the upload)
+ */
+router.get(
+  '/uploads/:uploadId',
+  authenticateToken,
+  [param('uploadId').isUUID().withMessage('Valid upload ID required'), validate],
+  attachmentsController.getUpload
+);
+
+/**
+ * @route   PUT /api/attachments/uploads/:uploadId/chunks/:index
+ * @desc    Send one chunk as the raw request body (re-sending replaces it)
+ * @access  Private (User who started the upload)
+ */
+router.put(
+  '/uploads/:uploadId/chunks/:index',
+  express.raw({ type: () => true, limit: config.attachments.chunkSize }),
+  authenticateToken,
+  [
+    param('uploadId').isUUID().withMessage('Valid upload ID required'),
+    param('index').isInt({ min: 0 }).withMessage('Chunk index must be non-negative integer'),
+    validate,
+  ],
+  attachmentsController.putChunk
+);
+
+/**
+ * @route   POST /api/attachments/uploads/:uploadId/complete
+ * @desc    Register the uploaded attachment as a record once every chunk is received
+ * @access  Private (User who started the upload)
+ */
+router.post(
+  '/uploads/:uploadId/complete',
+  authenticateToken,
+  [param('uploadId').isUUID().withMessage('Valid upload ID required'), validate],
+  attachmentsController.completeUpload
+);
+
+/**
+ * @route   GET /api/attachments/:patientAddress/:recordId
+ * @desc    Download an attachment; supports a single `Range: bytes=` range
+ * @access  Private (Patient or authorized user, MFA-verified)
+ */
+router.get(
+  '/:patientAddress/:recordId',
+  authenticateToken,
+  requireMfa,
+  [
+    param('patientAddress')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid patient address required'),
+    param('recordId').isInt({ min: 0 }).withMessage('Record ID must be non-negative integer'),
+    validate,
+  ],
+  attachmentsController.downloadAttachment
+);
+
+export default router;
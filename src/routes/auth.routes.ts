@@ -7,7 +7,7 @@ import { Router } from 'express';
 import * as authController from '../controllers/auth.controller';
 import { authenticateToken } from '../middleware/auth';
 import { signupValidation, signinValidation, validate } from '../middleware/validation';
-import { body } from 'express-validator';
+import { body, param } from 'express-validator';
 
 const router = Router();
 
@@ -25,9 +25,33 @@ router.post('/signup', signupValidation, authController.signup);
  */
 router.post('/signin', signinValidation, authController.signin);
 
+/**
+ * @route   GET /api/auth/nonce
+ * @desc    Get single-use nonce for Sign-In with Ethereum
+ * @access  Public
+ */
+router.get('/nonce', authController.getNonce);
+
+/**
+ * @route   POST /api/auth/siwe
+ * @desc    Sign in with a signed EIP-4361 message
+ * @access  Public
+ */
+router.post(
+  '/siwe',
+  [
+    body('message').isString().notEmpty().withMessage('SIWE message required'),
+    body('signature')
+      .matches(/^0x[a-fA-F0-9]{130}$/)
+      .withMessage('Valid signature required'),
+    validate,
+  ],
+  authController.siweSignin
+);
+
 /**
  * @route   POST /api/auth/refresh
- * @desc    Refresh access token using refresh token
+ * @desc    Rotate refresh token and get new access token
  * @access  Public
  */
 router.post(
@@ -38,11 +62,30 @@ router.post(
 
 /**
  * @route   POST /api/auth/logout
- * @desc    Logout and invalidate refresh token
+ * @desc    Logout and revoke current session
  * @access  Private
  */
 router.post('/logout', authenticateToken, authController.logout);
 
+/**
+ * @route   GET /api/auth/sessions
+ * @desc    List active sessions across devices
+ * @access  Private
+ */
+router.get('/sessions', authenticateToken, authController.listSessions);
+
+/**
+ * @route   DELETE /api/auth/sessions/:sessionId
+ * @desc    Revoke a session (sign out a device)
+ * @access  Private
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticateToken,
+  [param('sessionId').isInt({ min: 1 }).withMessage('Valid session ID required'), validate],
+  authController.deleteSession
+);
+
 /**
  * @route   GET /api/auth/profile
  * @desc    Get current user profile
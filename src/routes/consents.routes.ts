@@ -0,0 +1,128 @@
+/**
+ * @file Consents Routes
+ * @description Patient consent (FHIR Consent) endpoints
+ */
+
+import { Router } from 'express';
+import * as consentsController from '../controllers/consents.controller';
+import { authenticateToken, authorize, onBehalfOfPatient, requireMfa } from '../middleware/auth';
+import { validate, validateFhirResource } from '../middleware/validation';
+import { body, param, query } from 'express-validator';
+
+const router = Router();
+
+const consentIdParam = param('consentId')
+  .isInt({ min: 1 })
+  .withMessage('Consent ID must be a positive integer');
+
+/**
+ * @route   POST /api/consents
+ * @desc    Create a consent; an active one is compiled into grants (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy, MFA-verified)
+ */
+router.post(
+  '/',
+  authenticateToken,
+  authorize('permission:grant', onBehalfOfPatient),
+  requireMfa,
+  [
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    body('consent').isObject().withMessage('Consent must be an object'),
+    body('consent.resourceType').equals('Consent').withMessage('resourceType must be Consent'),
+    validate,
+    validateFhirResource('consent'),
+  ],
+  consentsController.createConsent
+);
+
+/**
+ * @route   GET /api/consents
+ * @desc    List the patient's consents (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.get(
+  '/',
+  authenticateToken,
+  authorize('permission:list_granted', onBehalfOfPatient),
+  [
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    query('status')
+      .optional()
+      .isIn(['draft', 'proposed', 'active', 'rejected', 'inactive', 'entered-in-error'])
+      .withMessage('Invalid consent status'),
+    validate,
+  ],
+  consentsController.listConsents
+);
+
+/**
+ * @route   GET /api/consents/:consentId
+ * @desc    Get a consent and the permissions it created
+ * @access  Private (Patient or delegated proxy)
+ */
+router.get(
+  '/:consentId',
+  authenticateToken,
+  authorize('permission:list_granted', onBehalfOfPatient),
+  [
+    consentIdParam,
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    validate,
+  ],
+  consentsController.getConsent
+);
+
+/**
+ * @route   PUT /api/consents/:consentId
+ * @desc    Replace a consent and re-sync its grants (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy, MFA-verified)
+ */
+router.put(
+  '/:consentId',
+  authenticateToken,
+  authorize('permission:grant', onBehalfOfPatient),
+  requireMfa,
+  [
+    consentIdParam,
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    body('consent').isObject().withMessage('Consent must be an object'),
+    body('consent.resourceType').equals('Consent').withMessage('resourceType must be Consent'),
+    validate,
+    validateFhirResource('consent'),
+  ],
+  consentsController.updateConsent
+);
+
+/**
+ * @route   DELETE /api/consents/:consentId
+ * @desc    Withdraw a consent and revoke its grants (proxies pass ?onBehalfOf=)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.delete(
+  '/:consentId',
+  authenticateToken,
+  authorize('permission:revoke', onBehalfOfPatient),
+  [
+    consentIdParam,
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    validate,
+  ],
+  consentsController.withdrawConsent
+);
+
+export default router;
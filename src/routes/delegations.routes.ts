@@ -0,0 +1,81 @@
+/**
+ * @file Delegations Routes
+ * @description Proxy delegation endpoints (parents, legal guardians, power of attorney)
+ */
+
+import { Router } from 'express';
+import * as delegationsController from '../controllers/delegations.controller';
+import { authenticateToken, authorize } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { body, param } from 'express-validator';
+import { DELEGABLE_ACTIONS } from '../services/policy';
+
+const router = Router();
+
+const RELATIONSHIPS = ['parent', 'legal_guardian', 'power_of_attorney'];
+
+/**
+ * @route   POST /api/delegations
+ * @desc    Designate a proxy (admins pass patientAddress and proofDocuments)
+ * @access  Private (delegation:manage)
+ */
+router.post(
+  '/',
+  authenticateToken,
+  authorize('delegation:manage', (req) => ({
+    patientAddress: req.body.patientAddress || req.user!.walletAddress,
+  })),
+  [
+    body('patientAddress')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    body('proxyAddress')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid proxy address required'),
+    body('relationship')
+      .isIn(RELATIONSHIPS)
+      .withMessage(`Relationship must be one of: ${RELATIONSHIPS.join(', ')}`),
+    body('scopes').isArray({ min: 1 }).withMessage('Scopes array required'),
+    body('scopes.*')
+      .isIn(DELEGABLE_ACTIONS)
+      .withMessage(`Scopes must be one of: ${DELEGABLE_ACTIONS.join(', ')}`),
+    body('expiresAt')
+      .optional()
+      .isInt({ min: Math.floor(Date.now() / 1000) })
+      .withMessage('Expiration must be future timestamp'),
+    body('proofDocuments').optional().isArray().withMessage('Proof documents must be an array'),
+    body('proofDocuments.*.type').trim().notEmpty().withMessage('Proof document type required'),
+    body('proofDocuments.*.reference')
+      .trim()
+      .notEmpty()
+      .withMessage('Proof document reference required'),
+    body('proofDocuments.*.sha256')
+      .optional()
+      .matches(/^[a-fA-F0-9]{64}$/)
+      .withMessage('Proof document sha256 must be 64 hex characters'),
+    validate,
+  ],
+  delegationsController.createDelegation
+);
+
+/**
+ * @route   GET /api/delegations
+ * @desc    List proxies designated by the caller and patients the caller may act for
+ * @access  Private
+ */
+router.get('/', authenticateToken, delegationsController.listDelegations);
+
+/**
+ * @route   DELETE /api/delegations/:delegationId
+ * @desc    Revoke a delegation (patient, proxy or delegation manager)
+ * @access  Private
+ */
+router.delete(
+  '/:delegationId',
+  authenticateToken,
+  [param('delegationId').isInt({ min: 1 }).withMessage('Valid delegation ID required'), validate],
+  delegationsController.revokeDelegation
+);
+
+export default router;
@@ -1,33 +1,139 @@
 /**
  * @file Emergency Routes
- * @description Emergency access management endpoints (2-physician approval)
+ * @description Emergency access management endpoints (multi-physician approval)
  */
 
-import { Router } from 'express';
+import { Request, Router } from 'express';
 import * as emergencyController from '../controllers/emergency.controller';
-import { authenticateToken, requireDoctor, requirePatientOrAdmin } from '../middleware/auth';
+import { authenticateToken, authorize, callerAsPatient, requireMfa } from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { body, param, query } from 'express-validator';
+import { getEmergencyGrantService } from '../services/emergency';
+import { PolicyResource } from '../types';
 
 const router = Router();
 
+const reviewIdParam = param('reviewId')
+  .isInt({ min: 1 })
+  .withMessage('Review ID must be a positive integer');
+
+/**
+ * Resource resolver: the patient and physicians of the grant in the path
+ * An unknown grant resolves to no resource, which only oversight roles are allowed
+ */
+async function grantParties(req: Request): Promise<PolicyResource> {
+  const grant = await getEmergencyGrantService().getGrant(req.params.grantId);
+  if (!grant) {
+    return {};
+  }
+
+  return {
+    patientAddress: grant.patient_wallet,
+    participants: [grant.physician1_wallet, grant.physician2_wallet].filter(Boolean) as string[],
+  };
+}
+
+/**
+ * @route   GET /api/emergency/directive
+ * @desc    Get the caller's emergency directive
+ * @access  Private (Patient only)
+ */
+router.get(
+  '/directive',
+  authenticateToken,
+  authorize('emergency:directive', callerAsPatient),
+  emergencyController.getEmergencyDirective
+);
+
+/**
+ * @route   PUT /api/emergency/directive
+ * @desc    Declare which records emergency access may open, and emergency contacts
+ * @access  Private (Patient only, MFA-verified)
+ */
+router.put(
+  '/directive',
+  authenticateToken,
+  authorize('emergency:directive', callerAsPatient),
+  requireMfa,
+  [
+    body('rules').optional().isArray({ max: 50 }).withMessage('Rules must be an array'),
+    body('rules.*.effect').isIn(['allow', 'deny']).withMessage('Rule effect must be allow or deny'),
+    body('rules.*')
+      .custom((rule) => Boolean(rule?.resourceType || rule?.code))
+      .withMessage('Each rule needs a resourceType or code'),
+    body('rules.*.resourceType')
+      .optional()
+      .matches(/^[A-Z][A-Za-z]+$/)
+      .withMessage('Invalid FHIR resource type'),
+    body('rules.*.code').optional().isString().trim().notEmpty(),
+    body('defaultEffect')
+      .optional()
+      .isIn(['allow', 'deny'])
+      .withMessage('Default effect must be allow or deny'),
+    body('emergencyContacts')
+      .optional()
+      .isArray({ max: 10 })
+      .withMessage('Emergency contacts must be an array'),
+    body('emergencyContacts.*.name').trim().notEmpty().withMessage('Contact name required'),
+    body('emergencyContacts.*.relationship').optional().trim().isLength({ max: 100 }),
+    body('emergencyContacts.*.phone').optional().trim().isLength({ min: 3, max: 32 }),
+    body('emergencyContacts.*.email').optional().isEmail().withMessage('Invalid contact email'),
+    validate,
+  ],
+  emergencyController.saveEmergencyDirective
+);
+
+/**
+ * @route   DELETE /api/emergency/directive
+ * @desc    Withdraw the caller's emergency directive
+ * @access  Private (Patient only, MFA-verified)
+ */
+router.delete(
+  '/directive',
+  authenticateToken,
+  authorize('emergency:directive', callerAsPatient),
+  requireMfa,
+  emergencyController.deleteEmergencyDirective
+);
+
+/**
+ * @route   GET /api/emergency/justifications
+ * @desc    List the justification codes in use and the rules each enforces
+ * @access  Private (Doctor only)
+ */
+router.get(
+  '/justifications',
+  authenticateToken,
+  authorize('emergency:request'),
+  emergencyController.listJustifications
+);
+
 /**
  * @route   POST /api/emergency/request
- * @desc    Request emergency access to patient record
+ * @desc    Request emergency access to patient record under a justification code
  * @access  Private (Doctor only)
  */
 router.post(
   '/request',
   authenticateToken,
-  requireDoctor,
+  authorize('emergency:request'),
   [
     body('patientAddress')
       .matches(/^0x[a-fA-F0-9]{40}$/)
       .withMessage('Valid patient address required'),
     body('recordId').isInt({ min: 0 }).withMessage('Record ID must be non-negative integer'),
     body('justificationCode')
-      .isInt({ min: 1, max: 3 })
-      .withMessage('Justification code must be 1 (Trauma), 2 (Unconscious), or 3 (Critical)'),
+      .isInt({ min: 1 })
+      .withMessage('Justification code must be a positive integer'),
+    body('durationSeconds')
+      .optional()
+      .isInt({ min: 60 })
+      .withMessage('Duration must be at least 60 seconds'),
+    body('notes')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Notes must be at most 2000 characters'),
     validate,
   ],
   emergencyController.requestEmergencyAccess
@@ -35,13 +141,14 @@ router.post(
 
 /**
  * @route   POST /api/emergency/:grantId/approve
- * @desc    Approve emergency access request (second physician)
- * @access  Private (Doctor only)
+ * @desc    Approve emergency access request; the last required approval co-signs it
+ * @access  Private (Doctor only, MFA-verified)
  */
 router.post(
   '/:grantId/approve',
   authenticateToken,
-  requireDoctor,
+  authorize('emergency:approve'),
+  requireMfa,
   [
     param('grantId')
       .matches(/^0x[a-fA-F0-9]{64}$/)
@@ -51,6 +158,25 @@ router.post(
   emergencyController.approveEmergencyAccess
 );
 
+/**
+ * @route   POST /api/emergency/:grantId/confirm
+ * @desc    Confirm a co-signed emergency grant on-chain (requesting physician)
+ * @access  Private (Doctor only, MFA-verified)
+ */
+router.post(
+  '/:grantId/confirm',
+  authenticateToken,
+  authorize('emergency:approve'),
+  requireMfa,
+  [
+    param('grantId')
+      .matches(/^0x[a-fA-F0-9]{64}$/)
+      .withMessage('Valid grant ID required'),
+    validate,
+  ],
+  emergencyController.confirmEmergencyAccess
+);
+
 /**
  * @route   POST /api/emergency/:grantId/reject
  * @desc    Reject emergency access request
@@ -59,7 +185,7 @@ router.post(
 router.post(
   '/:grantId/reject',
   authenticateToken,
-  requireDoctor,
+  authorize('emergency:reject'),
   [
     param('grantId')
       .matches(/^0x[a-fA-F0-9]{64}$/)
@@ -70,12 +196,35 @@ router.post(
   emergencyController.rejectEmergencyAccess
 );
 
+/**
+ * @route   POST /api/emergency/:grantId/revoke
+ * @desc    Revoke emergency access to the caller's record
+ * @access  Private (Patient only)
+ */
+router.post(
+  '/:grantId/revoke',
+  authenticateToken,
+  authorize('emergency:revoke', callerAsPatient),
+  [
+    param('grantId')
+      .matches(/^0x[a-fA-F0-9]{64}$/)
+      .withMessage('Valid grant ID required'),
+    validate,
+  ],
+  emergencyController.revokeEmergencyAccess
+);
+
 /**
  * @route   GET /api/emergency/pending
  * @desc    List all pending emergency access requests
  * @access  Private (Doctor only)
  */
-router.get('/pending', authenticateToken, requireDoctor, emergencyController.listPendingRequests);
+router.get(
+  '/pending',
+  authenticateToken,
+  authorize('emergency:list_pending'),
+  emergencyController.listPendingRequests
+);
 
 /**
  * @route   GET /api/emergency/history
@@ -85,7 +234,9 @@ router.get('/pending', authenticateToken, requireDoctor, emergencyController.lis
 router.get(
   '/history',
   authenticateToken,
-  requirePatientOrAdmin,
+  authorize('emergency:history', (req) => ({
+    patientAddress: (req.query.patientAddress as string) || req.user!.walletAddress,
+  })),
   [
     query('patientAddress')
       .optional()
@@ -96,14 +247,86 @@ router.get(
   emergencyController.listEmergencyHistory
 );
 
+/**
+ * @route   GET /api/emergency/reviews
+ * @desc    List post-hoc reviews of emergency access
+ * @access  Private (Privacy officer)
+ */
+router.get(
+  '/reviews',
+  authenticateToken,
+  authorize('emergency:review'),
+  [
+    query('status')
+      .optional()
+      .isIn(['pending', 'appropriate', 'inappropriate'])
+      .withMessage('Invalid review status'),
+    validate,
+  ],
+  emergencyController.listEmergencyReviews
+);
+
+/**
+ * @route   GET /api/emergency/reviews/:reviewId
+ * @desc    Get a review with the grant's accesses and timeline
+ * @access  Private (Privacy officer)
+ */
+router.get(
+  '/reviews/:reviewId',
+  authenticateToken,
+  authorize('emergency:review'),
+  [reviewIdParam, validate],
+  emergencyController.getEmergencyReview
+);
+
+/**
+ * @route   POST /api/emergency/reviews/:reviewId/decision
+ * @desc    Mark emergency access appropriate or inappropriate; the patient is notified
+ * @access  Private (Privacy officer, MFA-verified)
+ */
+router.post(
+  '/reviews/:reviewId/decision',
+  authenticateToken,
+  authorize('emergency:review'),
+  requireMfa,
+  [
+    reviewIdParam,
+    body('outcome')
+      .isIn(['appropriate', 'inappropriate'])
+      .withMessage('Outcome must be appropriate or inappropriate'),
+    body('notes').optional().trim().notEmpty().withMessage('Notes must be non-empty'),
+    validate,
+  ],
+  emergencyController.decideEmergencyReview
+);
+
+/**
+ * @route   GET /api/emergency/:grantId/status
+ * @desc    Get emergency grant state, reconciled with the contract
+ * @access  Private (Patient, the grant's physicians, oversight)
+ */
+router.get(
+  '/:grantId/status',
+  authenticateToken,
+  authorize('emergency:history', grantParties),
+  [
+    param('grantId')
+      .matches(/^0x[a-fA-F0-9]{64}$/)
+      .withMessage('Valid grant ID required'),
+    validate,
+  ],
+  emergencyController.getEmergencyStatus
+);
+
 /**
  * @route   GET /api/emergency/:grantId
  * @desc    Get emergency grant details
- * @access  Private
+ * @access  Private (Patient, the grant's physicians, oversight)
  */
 router.get(
   '/:grantId',
   authenticateToken,
+  authorize('emergency:history', grantParties),
   [
     param('grantId')
       .matches(/^0x[a-fA-F0-9]{64}$/)
@@ -0,0 +1,172 @@
+/**
+ * @file FHIR Routes
+ * @description FHIR R4 REST facade endpoints (errors are returned as OperationOutcome)
+ * Bulk Data paths contain a literal `$`, which is escaped for Express
+ */
+
+import express, { Router } from 'express';
+import * as fhirController from '../controllers/fhir.controller';
+import { authenticateToken, authorize, onBehalfOfPatient, requireMfa } from '../middleware/auth';
+import { validate, validateFhirResource } from '../middleware/validation';
+import { getFhirValidator } from '../services/fhir';
+import { param, query } from 'express-validator';
+
+const router = Router();
+
+// FHIR clients send application/fhir+json
+router.use(express.json({ type: 'application/fhir+json', limit: '10mb' }));
+
+const resourceTypeValidation = param('resourceType')
+  .custom((type) => getFhirValidator().getResourceTypes().includes(type))
+  .withMessage('Unknown FHIR resource type');
+
+/**
+ * @route   GET /api/fhir/metadata
+ * @desc    CapabilityStatement
+ * @access  Public
+ */
+router.get('/metadata', fhirController.getCapabilityStatement);
+
+const NDJSON_FORMATS = ['application/fhir+ndjson', 'application/ndjson', 'ndjson'];
+
+const exportValidation = [
+  query('_outputFormat')
+    .optional()
+    .isIn(NDJSON_FORMATS)
+    .withMessage('Only NDJSON output is supported'),
+  query('_type')
+    .optional()
+    .custom((types: string) =>
+      types.split(',').every((type) => getFhirValidator().getResourceTypes().includes(type.trim()))
+    )
+    .withMessage('_type must list known resource types'),
+  query('_since').optional().isISO8601().withMessage('_since must be an instant'),
+  query('patient')
+    .optional()
+    .matches(/^(Patient\/)?0x[a-fA-F0-9]{40}(,(Patient\/)?0x[a-fA-F0-9]{40})*$/)
+    .withMessage('patient must list patient addresses or references'),
+  validate,
+];
+
+/**
+ * @route   GET /api/fhir/$export, GET /api/fhir/Patient/$export
+ * @desc    Bulk Data kick-off: export every record the caller can read (Prefer: respond-async)
+ * @access  Private (MFA-verified)
+ */
+router.get(
+  ['/\\$export', '/Patient/\\$export'],
+  authenticateToken,
+  requireMfa,
+  exportValidation,
+  fhirController.kickOffExport
+);
+
+/**
+ * @route   GET /api/fhir/$export-status/:jobId
+ * @desc    Bulk Data status (202 while running, then the file manifest)
+ * @access  Private (the requester)
+ */
+router.get(
+  '/\\$export-status/:jobId',
+  authenticateToken,
+  [param('jobId').isInt({ min: 1 }).withMessage('Invalid export'), validate],
+  fhirController.getExportStatus
+);
+
+/**
+ * @route   DELETE /api/fhir/$export-status/:jobId
+ * @desc    Cancel an export and expire its files
+ * @access  Private (the requester)
+ */
+router.delete(
+  '/\\$export-status/:jobId',
+  authenticateToken,
+  [param('jobId').isInt({ min: 1 }).withMessage('Invalid export'), validate],
+  fhirController.cancelExport
+);
+
+/**
+ * @route   GET /api/fhir/$export-file/:jobId/:fileId
+ * @desc    Download an NDJSON output file until it expires
+ * @access  Private (the requester, MFA-verified)
+ */
+router.get(
+  '/\\$export-file/:jobId/:fileId',
+  authenticateToken,
+  requireMfa,
+  [
+    param('jobId').isInt({ min: 1 }).withMessage('Invalid export'),
+    param('fileId').isInt({ min: 1 }).withMessage('Invalid export file'),
+    validate,
+  ],
+  fhirController.downloadExportFile
+);
+
+/**
+ * @route   GET /api/fhir/:resourceType/:id
+ * @desc    Read a decrypted resource (Patient/0x... for a patient's demographics)
+ * @access  Private (Patient or authorized user, MFA-verified)
+ */
+router.get(
+  '/:resourceType/:id',
+  authenticateToken,
+  requireMfa,
+  [
+    resourceTypeValidation,
+    param('id')
+      .matches(/^[A-Za-z0-9\-.]{1,64}$/)
+      .withMessage('Invalid resource id'),
+    validate,
+  ],
+  fhirController.readResource
+);
+
+/**
+ * @route   GET /api/fhir/:resourceType?patient=0x...
+ * @desc    Search a patient's records by resource type (Bundle searchset)
+ * @access  Private (Patient or authorized user, MFA-verified)
+ */
+router.get(
+  '/:resourceType',
+  authenticateToken,
+  requireMfa,
+  [
+    resourceTypeValidation,
+    query('patient')
+      .optional()
+      .matches(/^(Patient\/)?0x[a-fA-F0-9]{40}$/)
+      .withMessage('patient must be a patient address or reference'),
+    query('_count')
+      .optional()
+      .isInt({ min: 1, max: 100 })
+      .withMessage('_count must be between 1 and 100'),
+    query('_offset').optional().isInt({ min: 0 }).withMessage('_offset must be non-negative'),
+    validate,
+  ],
+  fhirController.searchResources
+);
+
+/**
+ * @route   POST /api/fhir/:resourceType
+ * @desc    Create a resource as a new encrypted record (proxies pass ?onBehalfOf=0x...)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.post(
+  '/:resourceType',
+  authenticateToken,
+  authorize('record:create', onBehalfOfPatient),
+  [
+    resourceTypeValidation,
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    validate,
+    validateFhirResource(),
+  ],
+  fhirController.createResource
+);
+
+router.use(fhirController.handleFhirError);
+
+export default router;
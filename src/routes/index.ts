@@ -9,6 +9,15 @@ import recordsRoutes from './records.routes';
 import permissionsRoutes from './permissions.routes';
 import keysRoutes from './keys.routes';
 import emergencyRoutes from './emergency.routes';
+import mfaRoutes from './mfa.routes';
+import adminRoutes from './admin.routes';
+import delegationsRoutes from './delegations.routes';
+import recoveryRoutes from './recovery.routes';
+import jobsRoutes from './jobs.routes';
+import notificationsRoutes from './notifications.routes';
+import fhirRoutes from './fhir.routes';
+import attachmentsRoutes from './attachments.routes';
+import consentsRoutes from './consents.routes';
 
 const router = Router();
 
@@ -27,5 +36,14 @@ router.use('/records', recordsRoutes);
 router.use('/permissions', permissionsRoutes);
 router.use('/keys', keysRoutes);
 router.use('/emergency', emergencyRoutes);
+router.use('/mfa', mfaRoutes);
+router.use('/admin', adminRoutes);
+router.use('/delegations', delegationsRoutes);
+router.use('/recovery', recoveryRoutes);
+router.use('/jobs', jobsRoutes);
+router.use('/notifications', notificationsRoutes);
+router.use('/fhir', fhirRoutes);
+router.use('/attachments', attachmentsRoutes);
+router.use('/consents', consentsRoutes);
 
 export default router;
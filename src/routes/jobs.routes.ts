@@ -0,0 +1,44 @@
+/**
+ * @file Jobs Routes
+ * @description Background job progress endpoints
+ */
+
+import { Router } from 'express';
+import * as jobsController from '../controllers/jobs.controller';
+import { authenticateToken } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { param, query } from 'express-validator';
+
+const router = Router();
+
+/**
+ * @route   GET /api/jobs
+ * @desc    List the caller's background jobs
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticateToken,
+  [
+    query('type')
+      .optional()
+      .isIn(['rekey', 'record_import', 'fhir_export'])
+      .withMessage('Unknown job type'),
+    validate,
+  ],
+  jobsController.listJobs
+);
+
+/**
+ * @route   GET /api/jobs/:jobId
+ * @desc    Get a job and its progress
+ * @access  Private (job owner)
+ */
+router.get(
+  '/:jobId',
+  authenticateToken,
+  [param('jobId').isInt({ min: 1 }).withMessage('Valid job ID required'), validate],
+  jobsController.getJob
+);
+
+export default router;
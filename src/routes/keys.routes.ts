@@ -30,11 +30,18 @@ router.post(
 
 /**
  * @route   PUT /api/keys
- * @desc    Rotate public key to new key
+ * @desc    Rotate to a new encryption key generated and held by the key vault
  * @access  Private
  */
-router.put(
-  '/',
+router.put('/', authenticateToken, keysController.rotateKey);
+
+/**
+ * @route   POST /api/keys/rotate/prepare
+ * @desc    Prepare unsigned key rotation transaction for client signing
+ * @access  Private
+ */
+router.post(
+  '/rotate/prepare',
   authenticateToken,
   [
     body('newPublicKey')
@@ -42,7 +49,27 @@ router.put(
       .withMessage('Valid secp256k1 public key required (65 bytes, uncompressed)'),
     validate,
   ],
-  keysController.rotateKey
+  keysController.prepareRotateKey
+);
+
+/**
+ * @route   POST /api/keys/rotate/submit
+ * @desc    Submit client-signed key rotation transaction
+ * @access  Private
+ */
+router.post(
+  '/rotate/submit',
+  authenticateToken,
+  [
+    body('operationId')
+      .matches(/^0x[a-fA-F0-9]{64}$/)
+      .withMessage('Valid operation ID required'),
+    body('signedTransaction')
+      .matches(/^0x[a-fA-F0-9]+$/)
+      .withMessage('Signed transaction (hex) required'),
+    validate,
+  ],
+  keysController.submitRotateKey
 );
 
 /**
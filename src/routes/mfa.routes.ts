@@ -0,0 +1,141 @@
+/**
+ * @file MFA Routes
+ * @description Multi-factor authentication endpoints (TOTP, WebAuthn, recovery codes)
+ */
+
+import { Router } from 'express';
+import * as mfaController from '../controllers/mfa.controller';
+import { authenticateToken, requireMfa } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { body, param } from 'express-validator';
+
+const router = Router();
+
+/**
+ * @route   GET /api/mfa
+ * @desc    Get enrolled factors and current session MFA status
+ * @access  Private
+ */
+router.get('/', authenticateToken, mfaController.getMfaStatus);
+
+/**
+ * @route   POST /api/mfa/totp
+ * @desc    Start TOTP enrolment (returns secret and otpauth URI)
+ * @access  Private (MFA-verified if a factor already exists)
+ */
+router.post(
+  '/totp',
+  authenticateToken,
+  [
+    body('label').optional().trim().isLength({ max: 100 }).withMessage('Label too long'),
+    validate,
+  ],
+  mfaController.enrollTotp
+);
+
+/**
+ * @route   POST /api/mfa/totp/:factorId/activate
+ * @desc    Confirm TOTP enrolment with a code
+ * @access  Private (MFA-verified if a factor already exists)
+ */
+router.post(
+  '/totp/:factorId/activate',
+  authenticateToken,
+  [
+    param('factorId').isInt({ min: 1 }).withMessage('Valid factor ID required'),
+    body('code').matches(/^\d{6}$/).withMessage('6-digit code required'),
+    validate,
+  ],
+  mfaController.activateTotp
+);
+
+/**
+ * @route   POST /api/mfa/webauthn/register/options
+ * @desc    Get WebAuthn registration options (passkey enrolment)
+ * @access  Private (MFA-verified if a factor already exists)
+ */
+router.post(
+  '/webauthn/register/options',
+  authenticateToken,
+  mfaController.getWebAuthnRegistrationOptions
+);
+
+/**
+ * @route   POST /api/mfa/webauthn/register
+ * @desc    Verify WebAuthn registration and store the credential
+ * @access  Private (MFA-verified if a factor already exists)
+ */
+router.post(
+  '/webauthn/register',
+  authenticateToken,
+  [
+    body('response').isObject().withMessage('WebAuthn registration response required'),
+    body('label').optional().trim().isLength({ max: 100 }).withMessage('Label too long'),
+    validate,
+  ],
+  mfaController.registerWebAuthn
+);
+
+/**
+ * @route   POST /api/mfa/webauthn/authenticate/options
+ * @desc    Get WebAuthn authentication options
+ * @access  Private
+ */
+router.post(
+  '/webauthn/authenticate/options',
+  authenticateToken,
+  mfaController.getWebAuthnAuthenticationOptions
+);
+
+/**
+ * @route   POST /api/mfa/verify
+ * @desc    Verify second factor for the current session
+ * @access  Private
+ */
+router.post(
+  '/verify',
+  authenticateToken,
+  [
+    body('method')
+      .isIn(['totp', 'webauthn', 'recovery_code'])
+      .withMessage('Method must be totp, webauthn or recovery_code'),
+    body('code')
+      .if(body('method').isIn(['totp', 'recovery_code']))
+      .trim()
+      .notEmpty()
+      .withMessage('Code required'),
+    body('response')
+      .if(body('method').equals('webauthn'))
+      .isObject()
+      .withMessage('WebAuthn authentication response required'),
+    validate,
+  ],
+  mfaController.verifyMfa
+);
+
+/**
+ * @route   POST /api/mfa/recovery-codes
+ * @desc    Regenerate recovery codes
+ * @access  Private (MFA-verified)
+ */
+router.post(
+  '/recovery-codes',
+  authenticateToken,
+  requireMfa,
+  mfaController.regenerateRecoveryCodes
+);
+
+/**
+ * @route   DELETE /api/mfa/factors/:factorId
+ * @desc    Remove an MFA factor
+ * @access  Private (MFA-verified)
+ */
+router.delete(
+  '/factors/:factorId',
+  authenticateToken,
+  requireMfa,
+  [param('factorId').isInt({ min: 1 }).withMessage('Valid factor ID required'), validate],
+  mfaController.deleteFactor
+);
+
+export default router;
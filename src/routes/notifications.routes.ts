@@ -0,0 +1,41 @@
+/**
+ * @file Notifications Routes
+ * @description In-app notification endpoints
+ */
+
+import { Router } from 'express';
+import * as notificationsController from '../controllers/notifications.controller';
+import { authenticateToken } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { param, query } from 'express-validator';
+
+const router = Router();
+
+/**
+ * @route   GET /api/notifications
+ * @desc    List the caller's notifications (unread=true for unread only)
+ * @access  Private
+ */
+router.get(
+  '/',
+  authenticateToken,
+  [query('unread').optional().isBoolean().withMessage('unread must be a boolean'), validate],
+  notificationsController.listNotifications
+);
+
+/**
+ * @route   POST /api/notifications/:notificationId/read
+ * @desc    Mark a notification as read
+ * @access  Private
+ */
+router.post(
+  '/:notificationId/read',
+  authenticateToken,
+  [
+    param('notificationId').isInt({ min: 1 }).withMessage('Valid notification ID required'),
+    validate,
+  ],
+  notificationsController.markNotificationRead
+);
+
+export default router;
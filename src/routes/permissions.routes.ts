@@ -5,7 +5,13 @@
 
 import { Router } from 'express';
 import * as permissionsController from '../controllers/permissions.controller';
-import { authenticateToken, requirePatient } from '../middleware/auth';
+import {
+  authenticateToken,
+  authorize,
+  callerAsPatient,
+  onBehalfOfPatient,
+  requireMfa,
+} from '../middleware/auth';
 import { validate } from '../middleware/validation';
 import { body, param, query } from 'express-validator';
 
@@ -13,14 +19,19 @@ const router = Router();
 
 /**
  * @route   POST /api/permissions
- * @desc    Grant permission to access records
- * @access  Private (Patient only)
+ * @desc    Grant permission to access records (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy, MFA-verified)
  */
 router.post(
   '/',
   authenticateToken,
-  requirePatient,
+  authorize('permission:grant', onBehalfOfPatient),
+  requireMfa,
   [
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
     body('grantedTo')
       .matches(/^0x[a-fA-F0-9]{40}$/)
       .withMessage('Valid grantee address required'),
@@ -63,15 +74,408 @@ router.post(
 );
 
 /**
- * @route   DELETE /api/permissions/:permissionId
- * @desc    Revoke permission
+ * @route   POST /api/permissions/prepare
+ * @desc    Prepare EIP-712 permission grant for client signing
+ * @access  Private (Patient only, MFA-verified)
+ */
+router.post(
+  '/prepare',
+  authenticateToken,
+  authorize('permission:grant', callerAsPatient),
+  requireMfa,
+  [
+    body('grantedTo')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid grantee address required'),
+    body('recordIds').isArray({ min: 1 }).withMessage('Record IDs array required'),
+    body('recordIds.*').isInt({ min: 0 }).withMessage('Record IDs must be non-negative integers'),
+    body('expirationTime')
+      .isInt({ min: Math.floor(Date.now() / 1000) })
+      .withMessage('Expiration time must be future timestamp'),
+    body('wrappedKey').trim().notEmpty().withMessage('Wrapped key required'),
+    validate,
+  ],
+  permissionsController.prepareGrantPermission
+);
+
+/**
+ * @route   POST /api/permissions/submit
+ * @desc    Submit client-signed EIP-712 permission grant (relayed)
+ * @access  Private (Patient only, MFA-verified)
+ */
+router.post(
+  '/submit',
+  authenticateToken,
+  authorize('permission:grant', callerAsPatient),
+  requireMfa,
+  [
+    body('operationId')
+      .matches(/^0x[a-fA-F0-9]{64}$/)
+      .withMessage('Valid operation ID required'),
+    body('signature').trim().notEmpty().withMessage('Signature required'),
+    validate,
+  ],
+  permissionsController.submitGrantPermission
+);
+
+/**
+ * @route   POST /api/permissions/:permissionId/revoke/prepare
+ * @desc    Prepare unsigned revokePermission transaction for client signing
  * @access  Private (Patient only)
  */
+router.post(
+  '/:permissionId/revoke/prepare',
+  authenticateToken,
+  authorize('permission:revoke', callerAsPatient),
+  [
+    param('permissionId').isInt({ min: 0 }).withMessage('Permission ID must be non-negative integer'),
+    validate,
+  ],
+  permissionsController.prepareRevokePermission
+);
+
+/**
+ * @route   POST /api/permissions/:permissionId/revoke/submit
+ * @desc    Submit client-signed revokePermission transaction
+ * @access  Private (Patient only)
+ */
+router.post(
+  '/:permissionId/revoke/submit',
+  authenticateToken,
+  authorize('permission:revoke', callerAsPatient),
+  [
+    param('permissionId').isInt({ min: 0 }).withMessage('Permission ID must be non-negative integer'),
+    body('operationId')
+      .matches(/^0x[a-fA-F0-9]{64}$/)
+      .withMessage('Valid operation ID required'),
+    body('signedTransaction')
+      .matches(/^0x[a-fA-F0-9]+$/)
+      .withMessage('Signed transaction (hex) required'),
+    validate,
+  ],
+  permissionsController.submitRevokePermission
+);
+
+/**
+ * @route   POST /api/permissions/rules
+ * @desc    Grant access by resource type, category or tag, optionally to future records
+ *          (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy, MFA-verified)
+ */
+router.post(
+  '/rules',
+  authenticateToken,
+  authorize('permission:grant', onBehalfOfPatient),
+  requireMfa,
+  [
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    body('grantedTo')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid grantee address required'),
+    body('resourceType')
+      .optional()
+      .matches(/^[A-Z][A-Za-z]+$/)
+      .withMessage('Invalid resource type'),
+    body('category')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Category must be code or system|code'),
+    body('tag')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Tag must be code or system|code'),
+    body('includeExisting')
+      .optional()
+      .isBoolean()
+      .withMessage('includeExisting must be boolean')
+      .toBoolean(),
+    body('includeFuture')
+      .optional()
+      .isBoolean()
+      .withMessage('includeFuture must be boolean')
+      .toBoolean(),
+    body('expirationTime')
+      .isInt({ min: Math.floor(Date.now() / 1000) })
+      .withMessage('Expiration time must be future timestamp'),
+    validate,
+  ],
+  permissionsController.createPermissionRule
+);
+
+/**
+ * @route   GET /api/permissions/rules
+ * @desc    List the patient's permission rules (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.get(
+  '/rules',
+  authenticateToken,
+  authorize('permission:list_granted', onBehalfOfPatient),
+  [
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    validate,
+  ],
+  permissionsController.listPermissionRules
+);
+
+/**
+ * @route   GET /api/permissions/rules/:ruleId
+ * @desc    Get a permission rule and the permissions granted under it
+ * @access  Private (Patient or delegated proxy)
+ */
+router.get(
+  '/rules/:ruleId',
+  authenticateToken,
+  authorize('permission:list_granted', onBehalfOfPatient),
+  [
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    param('ruleId').isInt({ min: 1 }).withMessage('Rule ID must be a positive integer'),
+    validate,
+  ],
+  permissionsController.getPermissionRule
+);
+
+/**
+ * @route   DELETE /api/permissions/rules/:ruleId
+ * @desc    Revoke a permission rule and its permissions (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.delete(
+  '/rules/:ruleId',
+  authenticateToken,
+  authorize('permission:revoke', onBehalfOfPatient),
+  [
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    param('ruleId').isInt({ min: 1 }).withMessage('Rule ID must be a positive integer'),
+    validate,
+  ],
+  permissionsController.revokePermissionRule
+);
+
+const requestIdParam = param('requestId')
+  .isInt({ min: 1 })
+  .withMessage('Request ID must be a positive integer');
+
+const requestStatusQuery = query('status')
+  .optional()
+  .isIn(['pending', 'approving', 'approved', 'partially_approved', 'denied', 'cancelled'])
+  .withMessage('Invalid access request status');
+
+/**
+ * @route   POST /api/permissions/requests
+ * @desc    Ask a patient for access to records, or to records matching a resource type,
+ *          category or tag
+ * @access  Private (Doctor, Nurse, Pharmacist, Researcher)
+ */
+router.post(
+  '/requests',
+  authenticateToken,
+  authorize('permission:request'),
+  [
+    body('patientAddress')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid patient address required'),
+    body('recordIds').optional().isArray({ min: 1 }).withMessage('Record IDs array required'),
+    body('recordIds.*').isInt({ min: 0 }).withMessage('Record IDs must be non-negative integers'),
+    body('resourceType')
+      .optional()
+      .matches(/^[A-Z][A-Za-z]+$/)
+      .withMessage('Invalid resource type'),
+    body('category')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Category must be code or system|code'),
+    body('tag')
+      .optional()
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Tag must be code or system|code'),
+    body('purpose')
+      .trim()
+      .isLength({ min: 1, max: 255 })
+      .withMessage('Purpose required (max 255 characters)'),
+    body('reason')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Reason must be at most 2000 characters'),
+    body('durationSeconds')
+      .isInt({ min: 60, max: 365 * 24 * 60 * 60 })
+      .withMessage('Duration must be between one minute and one year (seconds)'),
+    validate,
+  ],
+  permissionsController.createAccessRequest
+);
+
+/**
+ * @route   GET /api/permissions/requests
+ * @desc    The patient's access request inbox (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.get(
+  '/requests',
+  authenticateToken,
+  authorize('permission:list_granted', onBehalfOfPatient),
+  [
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    requestStatusQuery,
+    validate,
+  ],
+  permissionsController.listAccessRequests
+);
+
+/**
+ * @route   GET /api/permissions/requests/sent
+ * @desc    Access requests the caller made
+ * @access  Private (Doctor, Nurse, Pharmacist, Researcher)
+ */
+router.get(
+  '/requests/sent',
+  authenticateToken,
+  authorize('permission:request'),
+  [requestStatusQuery, validate],
+  permissionsController.listSentAccessRequests
+);
+
+/**
+ * @route   GET /api/permissions/requests/sent/:requestId
+ * @desc    Get an access request the caller made, with its state history
+ * @access  Private (Requester)
+ */
+router.get(
+  '/requests/sent/:requestId',
+  authenticateToken,
+  authorize('permission:request'),
+  [requestIdParam, validate],
+  permissionsController.getSentAccessRequest
+);
+
+/**
+ * @route   GET /api/permissions/requests/:requestId
+ * @desc    Get an access request with its state history (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.get(
+  '/requests/:requestId',
+  authenticateToken,
+  authorize('permission:list_granted', onBehalfOfPatient),
+  [
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    requestIdParam,
+    validate,
+  ],
+  permissionsController.getAccessRequest
+);
+
+/**
+ * @route   POST /api/permissions/requests/:requestId/approve
+ * @desc    Approve an access request in full or in part; without a signature the records are
+ *          granted from custody (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy, MFA-verified)
+ */
+router.post(
+  '/requests/:requestId/approve',
+  authenticateToken,
+  authorize('permission:grant', onBehalfOfPatient),
+  requireMfa,
+  [
+    requestIdParam,
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    body('recordIds').optional().isArray({ min: 1 }).withMessage('Record IDs array required'),
+    body('recordIds.*').isInt({ min: 0 }).withMessage('Record IDs must be non-negative integers'),
+    body('expirationTime')
+      .optional()
+      .isInt({ min: Math.floor(Date.now() / 1000) })
+      .withMessage('Expiration time must be future timestamp'),
+    body('wrappedKey').optional().trim().notEmpty().withMessage('Wrapped key required'),
+    body('nonce').optional().isInt({ min: 0 }).withMessage('Nonce must be non-negative integer'),
+    body('signature').optional().trim().notEmpty().withMessage('Signature required'),
+    body('note')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Note must be at most 2000 characters'),
+    validate,
+  ],
+  permissionsController.approveAccessRequest
+);
+
+/**
+ * @route   POST /api/permissions/requests/:requestId/deny
+ * @desc    Deny an access request (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.post(
+  '/requests/:requestId/deny',
+  authenticateToken,
+  authorize('permission:grant', onBehalfOfPatient),
+  [
+    requestIdParam,
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    body('note')
+      .optional()
+      .trim()
+      .isLength({ max: 2000 })
+      .withMessage('Note must be at most 2000 characters'),
+    validate,
+  ],
+  permissionsController.denyAccessRequest
+);
+
+/**
+ * @route   POST /api/permissions/requests/:requestId/cancel
+ * @desc    Cancel a pending access request the caller made
+ * @access  Private (Requester)
+ */
+router.post(
+  '/requests/:requestId/cancel',
+  authenticateToken,
+  authorize('permission:request'),
+  [requestIdParam, validate],
+  permissionsController.cancelAccessRequest
+);
+
+/**
+ * @route   DELETE /api/permissions/:permissionId
+ * @desc    Revoke permission (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
 router.delete(
   '/:permissionId',
   authenticateToken,
-  requirePatient,
+  authorize('permission:revoke', onBehalfOfPatient),
   [
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
     param('permissionId').isInt({ min: 0 }).withMessage('Permission ID must be non-negative integer'),
     validate,
   ],
@@ -98,13 +502,20 @@ router.get(
 
 /**
  * @route   GET /api/permissions/granted
- * @desc    List all permissions granted by patient
- * @access  Private (Patient only)
+ * @desc    List all permissions granted by patient (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
  */
 router.get(
   '/granted',
   authenticateToken,
-  requirePatient,
+  authorize('permission:list_granted', onBehalfOfPatient),
+  [
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    validate,
+  ],
   permissionsController.listGrantedPermissions
 );
 
@@ -135,14 +546,19 @@ router.get(
 
 /**
  * @route   POST /api/permissions/batch
- * @desc    Batch grant permissions to multiple users
- * @access  Private (Patient only)
+ * @desc    Batch grant permissions to multiple users (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy, MFA-verified)
  */
 router.post(
   '/batch',
   authenticateToken,
-  requirePatient,
+  authorize('permission:grant', onBehalfOfPatient),
+  requireMfa,
   [
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
     body('grants').isArray({ min: 1 }).withMessage('Grants array required'),
     body('grants.*.grantedTo')
       .matches(/^0x[a-fA-F0-9]{40}$/)
@@ -3,24 +3,34 @@
  * @description Health record management endpoints
  */
 
-import { Router } from 'express';
+import express, { Router } from 'express';
 import * as recordsController from '../controllers/records.controller';
-import { authenticateToken, requirePatient } from '../middleware/auth';
-import { validate } from '../middleware/validation';
+import {
+  authenticateToken,
+  authorize,
+  callerAsPatient,
+  onBehalfOfPatient,
+  requireMfa,
+} from '../middleware/auth';
+import { validate, validateFhirResource } from '../middleware/validation';
 import { body, param, query } from 'express-validator';
 
 const router = Router();
 
 /**
  * @route   POST /api/records
- * @desc    Add new health record
- * @access  Private (Patient only)
+ * @desc    Add new health record (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
  */
 router.post(
   '/',
   authenticateToken,
-  requirePatient,
+  authorize('record:create', onBehalfOfPatient),
   [
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
     body('fhirData').isObject().withMessage('FHIR data must be an object'),
     body('fhirData.resourceType').trim().notEmpty().withMessage('FHIR resourceType required'),
     body('recipientPublicKeys')
@@ -28,41 +38,112 @@ router.post(
       .isArray()
       .withMessage('Recipient public keys must be an array'),
     validate,
+    validateFhirResource('fhirData'),
   ],
   recordsController.addRecord
 );
 
 /**
- * @route   GET /api/records/:recordId
- * @desc    Get single record with decryption
- * @access  Private (Patient or authorized user)
+ * @route   POST /api/records/prepare
+ * @desc    Encrypt record and prepare unsigned addRecord transaction for client signing
+ * @access  Private (Patient only)
  */
-router.get(
-  '/:recordId',
+router.post(
+  '/prepare',
   authenticateToken,
+  authorize('record:create', callerAsPatient),
   [
-    param('recordId').isInt({ min: 0 }).withMessage('Record ID must be non-negative integer'),
-    query('patientAddress')
+    body('fhirData').isObject().withMessage('FHIR data must be an object'),
+    body('fhirData.resourceType').trim().notEmpty().withMessage('FHIR resourceType required'),
+    validate,
+    validateFhirResource('fhirData'),
+  ],
+  recordsController.prepareAddRecord
+);
+
+/**
+ * @route   POST /api/records/submit
+ * @desc    Submit client-signed addRecord transaction
+ * @access  Private (Patient only)
+ */
+router.post(
+  '/submit',
+  authenticateToken,
+  authorize('record:create', callerAsPatient),
+  [
+    body('operationId')
+      .matches(/^0x[a-fA-F0-9]{64}$/)
+      .withMessage('Valid operation ID required'),
+    body('signedTransaction')
+      .matches(/^0x[a-fA-F0-9]+$/)
+      .withMessage('Signed transaction (hex) required'),
+    validate,
+  ],
+  recordsController.submitAddRecord
+);
+
+/**
+ * @route   POST /api/records/import
+ * @desc    Bulk import a FHIR transaction/collection Bundle or NDJSON as a background job
+ *          (proxies pass ?onBehalfOf=)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.post(
+  '/import',
+  express.json({ type: 'application/fhir+json', limit: '50mb' }),
+  express.text({
+    type: ['application/x-ndjson', 'application/ndjson', 'application/fhir+ndjson'],
+    limit: '50mb',
+  }),
+  authenticateToken,
+  authorize('record:create', onBehalfOfPatient),
+  [
+    query('onBehalfOf')
+      .optional()
       .matches(/^0x[a-fA-F0-9]{40}$/)
-      .withMessage('Valid patient address required'),
+      .withMessage('Invalid patient address'),
     validate,
   ],
-  recordsController.getRecord
+  recordsController.importRecords
 );
 
 /**
- * @route   GET /api/records
- * @desc    List all accessible records
+ * @route   GET /api/records/import/:importId
+ * @desc    Import status with per-entry results and the final report
+ * @access  Private (Patient or the user who started the import)
+ */
+router.get(
+  '/import/:importId',
+  authenticateToken,
+  [
+    param('importId').isInt({ min: 1 }).withMessage('Import ID must be a positive integer'),
+    validate,
+  ],
+  recordsController.getRecordImport
+);
+
+/**
+ * @route   GET /api/records/search
+ * @desc    Search records via the encrypted index (type, code, date range, encounter, text)
  * @access  Private
  */
 router.get(
-  '/',
+  '/search',
   authenticateToken,
   [
     query('patientAddress')
       .optional()
       .matches(/^0x[a-fA-F0-9]{40}$/)
       .withMessage('Invalid patient address'),
+    query('resourceType').optional().trim().notEmpty().withMessage('Resource type required'),
+    query('code').optional().trim().notEmpty().withMessage('Code must be code or system|code'),
+    query('dateFrom').optional().isISO8601().withMessage('dateFrom must be a date'),
+    query('dateTo').optional().isISO8601().withMessage('dateTo must be a date'),
+    query('encounter')
+      .optional()
+      .matches(/^Encounter\/[A-Za-z0-9\-.]{1,64}$/)
+      .withMessage('encounter must be an Encounter reference'),
+    query('text').optional().trim().isLength({ min: 3, max: 200 }).withMessage('Text too short'),
     query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be non-negative'),
     query('limit')
       .optional()
@@ -70,17 +151,18 @@ router.get(
       .withMessage('Limit must be between 1 and 100'),
     validate,
   ],
-  recordsController.listRecords
+  recordsController.searchRecords
 );
 
 /**
- * @route   GET /api/records/:recordId/access-history
- * @desc    Get record access history
- * @access  Private (Patient or Admin)
+ * @route   GET /api/records/:recordId
+ * @desc    Get single record with decryption
+ * @access  Private (Patient or authorized user, MFA-verified)
  */
 router.get(
-  '/:recordId/access-history',
+  '/:recordId',
   authenticateToken,
+  requireMfa,
   [
     param('recordId').isInt({ min: 0 }).withMessage('Record ID must be non-negative integer'),
     query('patientAddress')
@@ -88,23 +170,87 @@ router.get(
       .withMessage('Valid patient address required'),
     validate,
   ],
-  recordsController.getRecordAccessHistory
+  recordsController.getRecord
 );
 
 /**
- * @route   GET /api/records/search
- * @desc    Search records by FHIR resource type
+ * @route   PUT /api/records/:recordId
+ * @desc    Store a new version of a record (proxies pass onBehalfOf)
+ * @access  Private (Patient or delegated proxy)
+ */
+router.put(
+  '/:recordId',
+  authenticateToken,
+  authorize('record:update', onBehalfOfPatient),
+  [
+    param('recordId').isInt({ min: 0 }).withMessage('Record ID must be non-negative integer'),
+    body('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
+    body('fhirData').isObject().withMessage('FHIR data must be an object'),
+    body('fhirData.resourceType').trim().notEmpty().withMessage('FHIR resourceType required'),
+    validate,
+    validateFhirResource('fhirData'),
+  ],
+  recordsController.updateRecord
+);
+
+/**
+ * @route   GET /api/records/:recordId/versions
+ * @desc    List the stored versions of a record (pointer, digest, transaction)
+ * @access  Private (Patient or authorized user)
+ */
+router.get(
+  '/:recordId/versions',
+  authenticateToken,
+  [
+    param('recordId').isInt({ min: 0 }).withMessage('Record ID must be non-negative integer'),
+    query('patientAddress')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid patient address required'),
+    validate,
+  ],
+  recordsController.listRecordVersions
+);
+
+/**
+ * @route   GET /api/records/:recordId/versions/:version
+ * @desc    Get one version of a record with decryption
+ * @access  Private (Patient or authorized user, MFA-verified)
+ */
+router.get(
+  '/:recordId/versions/:version',
+  authenticateToken,
+  requireMfa,
+  [
+    param('recordId').isInt({ min: 0 }).withMessage('Record ID must be non-negative integer'),
+    param('version').isInt({ min: 1 }).withMessage('Version must be a positive integer'),
+    query('patientAddress')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid patient address required'),
+    validate,
+  ],
+  recordsController.getRecordVersion
+);
+
+/**
+ * @route   GET /api/records
+ * @desc    List all accessible records (proxies pass onBehalfOf)
  * @access  Private
  */
 router.get(
-  '/search',
+  '/',
   authenticateToken,
   [
     query('patientAddress')
       .optional()
       .matches(/^0x[a-fA-F0-9]{40}$/)
       .withMessage('Invalid patient address'),
-    query('resourceType').optional().trim().notEmpty().withMessage('Resource type required'),
+    query('onBehalfOf')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Invalid patient address'),
     query('offset').optional().isInt({ min: 0 }).withMessage('Offset must be non-negative'),
     query('limit')
       .optional()
@@ -112,7 +258,28 @@ router.get(
       .withMessage('Limit must be between 1 and 100'),
     validate,
   ],
-  recordsController.searchRecords
+  recordsController.listRecords
+);
+
+/**
+ * @route   GET /api/records/:recordId/access-history
+ * @desc    Get record access history
+ * @access  Private (Patient or Admin)
+ */
+router.get(
+  '/:recordId/access-history',
+  authenticateToken,
+  authorize('record:access_history', (req) => ({
+    patientAddress: req.query.patientAddress as string,
+  })),
+  [
+    param('recordId').isInt({ min: 0 }).withMessage('Record ID must be non-negative integer'),
+    query('patientAddress')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Valid patient address required'),
+    validate,
+  ],
+  recordsController.getRecordAccessHistory
 );
 
 export default router;
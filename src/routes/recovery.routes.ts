@@ -0,0 +1,111 @@
+/**
+ * @file Recovery Routes
+ * @description Social / threshold account recovery endpoints
+ */
+
+import { Router } from 'express';
+import * as recoveryController from '../controllers/recovery.controller';
+import { authenticateToken, requireMfa } from '../middleware/auth';
+import { validate } from '../middleware/validation';
+import { body, param } from 'express-validator';
+
+const router = Router();
+
+/**
+ * @route   GET /api/recovery
+ * @desc    Get the caller's recovery setup
+ * @access  Private
+ */
+router.get('/', authenticateToken, recoveryController.getRecoverySetup);
+
+/**
+ * @route   POST /api/recovery
+ * @desc    Split the wallet key into Shamir shares for guardians and recovery devices
+ * @access  Private (MFA-verified)
+ */
+router.post(
+  '/',
+  authenticateToken,
+  requireMfa,
+  [
+    body('threshold').isInt({ min: 2 }).withMessage('Threshold must be at least 2'),
+    body('guardians').optional().isArray().withMessage('Guardians must be an array'),
+    body('guardians.*')
+      .matches(/^0x[a-fA-F0-9]{40}$/)
+      .withMessage('Guardians must be valid addresses'),
+    body('devices').optional().isArray().withMessage('Devices must be an array'),
+    body('devices.*.label')
+      .trim()
+      .isLength({ min: 1, max: 100 })
+      .withMessage('Device label required'),
+    body('devices.*.publicKey')
+      .matches(/^0x04[a-fA-F0-9]{128}$/)
+      .withMessage('Device public key must be 65 bytes, uncompressed'),
+    body('privateKey')
+      .optional()
+      .matches(/^0x[a-fA-F0-9]{64}$/)
+      .withMessage('Invalid private key'),
+    validate,
+  ],
+  recoveryController.setupRecovery
+);
+
+/**
+ * @route   GET /api/recovery/requests
+ * @desc    List pending recoveries in which the caller is a guardian
+ * @access  Private
+ */
+router.get('/requests', authenticateToken, recoveryController.listGuardianRequests);
+
+/**
+ * @route   POST /api/recovery/sessions
+ * @desc    Start a recovery ceremony
+ * @access  Private
+ */
+router.post('/sessions', authenticateToken, recoveryController.startRecovery);
+
+/**
+ * @route   GET /api/recovery/sessions/:sessionId
+ * @desc    Get a recovery ceremony's status
+ * @access  Private (owner or guardian)
+ */
+router.get(
+  '/sessions/:sessionId',
+  authenticateToken,
+  [param('sessionId').isInt({ min: 1 }).withMessage('Valid recovery ID required'), validate],
+  recoveryController.getRecoveryStatus
+);
+
+/**
+ * @route   POST /api/recovery/sessions/:sessionId/shares
+ * @desc    Release a share (guardians: their share; owner: device shares)
+ * @access  Private (share holder)
+ */
+router.post(
+  '/sessions/:sessionId/shares',
+  authenticateToken,
+  [
+    param('sessionId').isInt({ min: 1 }).withMessage('Valid recovery ID required'),
+    body('shareId').isInt({ min: 1 }).withMessage('Valid share ID required'),
+    body('share')
+      .optional()
+      .matches(/^(0x)?[a-fA-F0-9]+$/)
+      .withMessage('Share must be hex'),
+    validate,
+  ],
+  recoveryController.submitShare
+);
+
+/**
+ * @route   DELETE /api/recovery/sessions/:sessionId
+ * @desc    Cancel a pending recovery ceremony
+ * @access  Private (owner)
+ */
+router.delete(
+  '/sessions/:sessionId',
+  authenticateToken,
+  [param('sessionId').isInt({ min: 1 }).withMessage('Valid recovery ID required'), validate],
+  recoveryController.cancelRecovery
+);
+
+export default router;
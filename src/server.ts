@@ -6,6 +6,10 @@
 import app from './app';
 import config from './config';
 import { testConnection } from './services/database';
+import { getJobRunner } from './services/jobs';
+import { getRekeyService } from './services/rekey';
+import { getRecordImportService } from './services/imports';
+import { getBulkExportService } from './services/export';
 
 const PORT = config.port;
 
@@ -20,6 +24,15 @@ async function startServer() {
       process.exit(1);
     }
 
+    // Start background jobs
+    const jobRunner = getJobRunner();
+    jobRunner.register('rekey', (job, context) => getRekeyService().run(job, context));
+    jobRunner.register('record_import', (job, context) =>
+      getRecordImportService().run(job, context)
+    );
+    jobRunner.register('fhir_export', (job, context) => getBulkExportService().run(job, context));
+    await jobRunner.start();
+
     // Start server
     app.listen(PORT, () => {
       console.log('\n━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━━');
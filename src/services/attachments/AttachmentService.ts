@@ -0,0 +1,293 @@
+/**
+ * @file Attachment Service
+ * @description Chunked encryption for large binary attachments (imaging, scanned documents)
+ * An upload is split into fixed-size chunks; each chunk is encrypted with AES-256-GCM under
+ * the attachment key with its own IV and auth tag, bound to its position through the AAD,
+ * and stored separately. Completing the upload stores a chunk manifest encrypted under the
+ * same key and registers it as a record, so its digest is anchored on-chain and the record's
+ * grants control who can download. Downloads decrypt only the chunks a byte range touches.
+ */
+
+import crypto from 'crypto';
+import db from '../database';
+import config from '../../config';
+import { deriveMasterSubkey } from '../custody/master-key';
+import { createStorageService } from '../storage';
+import { PatientRecordsService } from '../blockchain/PatientRecordsService';
+import { CreatedRecord, getRecordService } from '../records';
+import * as aesGcm from '../../utils/aes-gcm';
+import { sha256 } from '../../utils/hash';
+import { AttachmentChunk, AttachmentManifest, AttachmentUpload } from '../../types';
+
+const IV_LENGTH = 12;
+const AUTH_TAG_LENGTH = 16;
+
+export interface OpenAttachment {
+  manifest: AttachmentManifest;
+  aesKey: Buffer;
+}
+
+/**
+ * Additional data binding a chunk to its upload and position
+ */
+function chunkAad(uploadId: string, index: number): string {
+  return `${uploadId}:${index}`;
+}
+
+/**
+ * Split an iv | ciphertext | authTag blob and decrypt it
+ */
+function openBlob(blob: Buffer, aesKey: Buffer, aad: string | null = null): Buffer {
+  return aesGcm.decrypt(
+    blob.slice(IV_LENGTH, -AUTH_TAG_LENGTH),
+    aesKey,
+    blob.slice(0, IV_LENGTH),
+    blob.slice(-AUTH_TAG_LENGTH),
+    aad
+  );
+}
+
+export class AttachmentService {
+  /**
+   * Start a resumable upload for a patient
+   */
+  async createUpload(
+    patientWallet: string,
+    createdBy: string,
+    details: { contentType: string; size: number; filename?: string | null }
+  ): Promise<AttachmentUpload> {
+    const id = crypto.randomUUID();
+    const chunkSize = config.attachments.chunkSize;
+    const aesKey = crypto.randomBytes(32);
+
+    try {
+      return await db.one(
+        `INSERT INTO attachment_uploads
+           (id, patient_wallet, created_by, content_type, filename, size, chunk_size, total_chunks,
+            encrypted_key, expires_at)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, NOW() + $10 * INTERVAL '1 second')
+         RETURNING *`,
+        [
+          id,
+          patientWallet,
+          createdBy,
+          details.contentType,
+          details.filename || null,
+          details.size,
+          chunkSize,
+          Math.max(1, Math.ceil(details.size / chunkSize)),
+          aesGcm.encryptToBase64(aesKey, this.uploadKey(id)),
+          config.attachments.uploadTtl,
+        ]
+      );
+    } finally {
+      aesKey.fill(0);
+    }
+  }
+
+  /**
+   * Get an upload
+   */
+  async getUpload(uploadId: string): Promise<AttachmentUpload | null> {
+    return db.oneOrNone('SELECT * FROM attachment_uploads WHERE id = $1', [uploadId]);
+  }
+
+  /**
+   * Chunks received so far
+   */
+  async listChunks(uploadId: string): Promise<AttachmentChunk[]> {
+    const rows = await db.manyOrNone(
+      `SELECT chunk_index, storage_pointer, content_digest, size FROM attachment_chunks
+       WHERE upload_id = $1
+       ORDER BY chunk_index`,
+      [uploadId]
+    );
+    return rows.map((row) => ({
+      index: row.chunk_index,
+      storagePointer: row.storage_pointer,
+      contentDigest: row.content_digest,
+      size: row.size,
+    }));
+  }
+
+  /**
+   * Expected plaintext size of a chunk (the last one holds the remainder)
+   */
+  expectedChunkSize(upload: AttachmentUpload, index: number): number {
+    const size = Number(upload.size);
+    if (index < upload.total_chunks - 1) {
+      return upload.chunk_size;
+    }
+    return size - upload.chunk_size * (upload.total_chunks - 1);
+  }
+
+  /**
+   * Encrypt and store one chunk (re-sending a chunk replaces it)
+   */
+  async putChunk(upload: AttachmentUpload, index: number, data: Buffer): Promise<AttachmentChunk> {
+    const aesKey = this.openUploadKey(upload);
+
+    try {
+      const encrypted = aesGcm.encrypt(data, aesKey, null, chunkAad(upload.id, index));
+      const blob = Buffer.concat([encrypted.iv, encrypted.ciphertext, encrypted.authTag]);
+      const contentDigest = '0x' + sha256(blob);
+
+      const storageResult = await createStorageService().store(blob, {
+        contentDigest: contentDigest.slice(2), // Remove 0x prefix
+      });
+
+      await db.none(
+        `INSERT INTO attachment_chunks (upload_id, chunk_index, storage_pointer, content_digest, size)
+         VALUES ($1, $2, $3, $4, $5)
+         ON CONFLICT (upload_id, chunk_index) DO UPDATE
+         SET storage_pointer = EXCLUDED.storage_pointer,
+             content_digest = EXCLUDED.content_digest,
+             size = EXCLUDED.size,
+             created_at = NOW()`,
+        [upload.id, index, storageResult.pointer, contentDigest, data.length]
+      );
+
+      return { index, storagePointer: storageResult.pointer, contentDigest, size: data.length };
+    } finally {
+      aesKey.fill(0);
+    }
+  }
+
+  /**
+   * Store the chunk manifest and register it on-chain as the attachment's record
+   * Every chunk must have been received
+   */
+  async completeUpload(
+    upload: AttachmentUpload,
+    chunks: AttachmentChunk[],
+    patientRecordsService: PatientRecordsService
+  ): Promise<CreatedRecord> {
+    const manifest: AttachmentManifest = {
+      type: 'attachment-manifest',
+      version: 1,
+      algorithm: 'AES-256-GCM',
+      uploadId: upload.id,
+      contentType: upload.content_type,
+      filename: upload.filename,
+      size: Number(upload.size),
+      chunkSize: upload.chunk_size,
+      chunks,
+    };
+
+    const recordService = getRecordService();
+    const aesKey = this.openUploadKey(upload);
+    let created: CreatedRecord;
+    try {
+      const blob = await recordService.encryptAndStore(manifest, aesKey);
+      created = await recordService.registerRecord(
+        upload.patient_wallet,
+        patientRecordsService,
+        blob,
+        'attachment'
+      );
+    } finally {
+      aesKey.fill(0);
+    }
+
+    // The record key is now wrapped for the patient; drop the upload's copy
+    await db.none(
+      `UPDATE attachment_uploads
+       SET status = 'completed', record_id = $2, transaction_hash = $3, encrypted_key = NULL,
+           completed_at = NOW()
+       WHERE id = $1`,
+      [upload.id, created.recordId, created.transactionHash]
+    );
+
+    return created;
+  }
+
+  /**
+   * Unwrap the attachment key for a reader and decrypt the manifest
+   * Returns null when the contract denies access or the record is not an attachment
+   */
+  async openAttachment(
+    readerAddress: string,
+    patientAddress: string,
+    patientRecordsService: PatientRecordsService,
+    recordId: number
+  ): Promise<OpenAttachment | null> {
+    const attachment = await db.oneOrNone(
+      `SELECT 1 FROM records WHERE patient_wallet = $1 AND record_id = $2 AND kind = 'attachment'`,
+      [patientAddress, recordId]
+    );
+    if (!attachment) {
+      return null;
+    }
+
+    const aesKey = await getRecordService().getRecordKey(
+      readerAddress,
+      patientAddress,
+      patientRecordsService,
+      recordId
+    );
+    if (!aesKey) {
+      return null;
+    }
+
+    // The on-chain pointer and digest identify the manifest
+    const metadata = await patientRecordsService.getRecordMetadata(recordId);
+    const manifestBlob = await createStorageService().retrieve(
+      metadata.storagePointer,
+      metadata.contentDigest.slice(2) // Remove 0x prefix
+    );
+    const manifest: AttachmentManifest = JSON.parse(
+      openBlob(manifestBlob, aesKey).toString('utf-8')
+    );
+
+    return { manifest, aesKey };
+  }
+
+  /**
+   * Decrypt the bytes start..end (inclusive), one chunk at a time
+   */
+  async *readRange(attachment: OpenAttachment, start: number, end: number): AsyncGenerator<Buffer> {
+    const { manifest, aesKey } = attachment;
+    const storage = createStorageService();
+    const first = Math.floor(start / manifest.chunkSize);
+    const last = Math.floor(end / manifest.chunkSize);
+
+    for (let index = first; index <= last; index++) {
+      const chunk = manifest.chunks[index];
+      const blob = await storage.retrieve(chunk.storagePointer, chunk.contentDigest.slice(2));
+      const plaintext = openBlob(blob, aesKey, chunkAad(manifest.uploadId, index));
+
+      const chunkStart = index * manifest.chunkSize;
+      yield plaintext.slice(
+        Math.max(0, start - chunkStart),
+        Math.min(plaintext.length, end - chunkStart + 1)
+      );
+    }
+  }
+
+  /**
+   * Decrypt an upload's attachment key
+   */
+  private openUploadKey(upload: AttachmentUpload): Buffer {
+    if (!upload.encrypted_key) {
+      throw new Error('Upload key is no longer available');
+    }
+    return aesGcm.decryptFromBase64(upload.encrypted_key, this.uploadKey(upload.id));
+  }
+
+  /**
+   * Subkey protecting an upload's attachment key until it is registered
+   */
+  private uploadKey(uploadId: string): Buffer {
+    return deriveMasterSubkey('attachment-upload', uploadId);
+  }
+}
+
+// Export singleton instance
+let attachmentServiceInstance: AttachmentService | null = null;
+
+export function getAttachmentService(): AttachmentService {
+  if (!attachmentServiceInstance) {
+    attachmentServiceInstance = new AttachmentService();
+  }
+  return attachmentServiceInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file Attachment Services
+ * @description Export binary attachment modules
+ */
+
+export * from './AttachmentService';
@@ -3,7 +3,7 @@
  * @description Service for interacting with KeyRegistry smart contract
  */
 
-import { Contract, Wallet } from 'ethers';
+import { Contract, PopulatedTransaction, Wallet } from 'ethers';
 import { getProvider } from './provider';
 import config from '../../config';
 import KeyRegistryArtifact from '../../../artifacts/contracts/KeyRegistry.sol/KeyRegistry.json';
@@ -61,6 +61,21 @@ export class KeyRegistryService {
     }
   }
 
+  /**
+   * Build an unsigned rotateKey call (client-side signing)
+   */
+  async populateRotateKey(newPublicKey: Buffer | string): Promise<PopulatedTransaction> {
+    try {
+      const publicKeyHex = Buffer.isBuffer(newPublicKey)
+        ? '0x' + newPublicKey.toString('hex')
+        : newPublicKey;
+
+      return await this.contract.populateTransaction.rotateKey(publicKeyHex);
+    } catch (error) {
+      throw new Error(`Failed to build rotateKey transaction: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Revoke current active key
    */
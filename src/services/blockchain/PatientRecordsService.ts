@@ -3,10 +3,13 @@
  * @description Service for interacting with PatientHealthRecords smart contract
  */
 
-import { Contract, Wallet } from 'ethers';
+import { Contract, PopulatedTransaction, Wallet, providers, utils } from 'ethers';
 import { getProvider } from './provider';
 import PatientRecordsArtifact from '../../../artifacts/contracts/PatientHealthRecords.sol/PatientHealthRecords.json';
-import { HealthRecordMetadata, Permission } from '../../types';
+import { EmergencyAccessChainState, HealthRecordMetadata, Permission } from '../../types';
+
+// Fixed by the contract: emergency access expires one hour after it is requested on-chain
+const EMERGENCY_ACCESS_WINDOW = 3600;
 
 export class PatientRecordsService {
   private contract: Contract;
@@ -50,6 +53,43 @@ export class PatientRecordsService {
     }
   }
 
+  /**
+   * Send an addRecord transaction without waiting for it to be mined
+   * Bulk imports pass consecutive nonces to send a batch before waiting for receipts
+   */
+  async sendAddRecord(
+    wallet: Wallet,
+    storagePointer: string,
+    contentDigest: string,
+    nonce: number
+  ): Promise<string> {
+    try {
+      const contractWithSigner = this.contract.connect(wallet);
+      const tx = await contractWithSigner.addRecord(storagePointer, contentDigest, { nonce });
+      return tx.hash;
+    } catch (error) {
+      throw new Error(`Failed to add record: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Wait for a sent addRecord transaction and read the new record ID from its event
+   */
+  async waitForRecordAdded(transactionHash: string): Promise<number> {
+    const receipt = await this.contract.provider.waitForTransaction(transactionHash);
+
+    if (!receipt || receipt.status !== 1) {
+      throw new Error(`addRecord transaction ${transactionHash} failed`);
+    }
+
+    const event = this.parseEvent(receipt, 'RecordAdded');
+    if (!event) {
+      throw new Error(`No RecordAdded event in transaction ${transactionHash}`);
+    }
+
+    return event.args.recordId.toNumber();
+  }
+
   /**
    * Update an existing record
    */
@@ -108,8 +148,10 @@ export class PatientRecordsService {
 
   /**
    * Grant permission via signature (EIP-712)
+   * The relayer pays gas; the patient's signature authorizes the grant
    */
   async grantPermissionBySig(
+    relayer: Wallet,
     grantedTo: string,
     recordIds: number[],
     wrappedKey: string,
@@ -121,7 +163,8 @@ export class PatientRecordsService {
     transactionHash: string;
   }> {
     try {
-      const tx = await this.contract.grantPermissionBySig(
+      const contractWithSigner = this.contract.connect(relayer);
+      const tx = await contractWithSigner.grantPermissionBySig(
         grantedTo,
         recordIds,
         wrappedKey,
@@ -159,37 +202,91 @@ export class PatientRecordsService {
   }
 
   /**
-   * Request emergency access
+   * Get the record IDs a permission covers (from its PermissionGranted event)
+   * Permissions are private in the contract, so the event log is the only source
    */
-  async requestEmergencyAccess(
+  async getPermissionRecordIds(permissionId: number): Promise<number[]> {
+    try {
+      const events = await this.contract.queryFilter(
+        this.contract.filters.PermissionGranted(permissionId)
+      );
+
+      if (events.length === 0) {
+        throw new Error(`No PermissionGranted event for permission ${permissionId}`);
+      }
+
+      return events[0].args!.recordIds.map((id: any) => id.toNumber());
+    } catch (error) {
+      throw new Error(`Failed to get permission records: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Sign a requestEmergencyAccess transaction without sending it
+   * The signed transaction and its hash can be stored before sending, so a send that is
+   * interrupted is resumed with the same transaction instead of a second request
+   */
+  async signEmergencyAccessRequest(
     wallet: Wallet,
     physician1: string,
     physician2: string,
     recordIds: number[],
     justificationCode: number,
     wrappedKey: string
-  ): Promise<{
-    emergencyId: string;
-    transactionHash: string;
-  }> {
+  ): Promise<{ signedTransaction: string; transactionHash: string }> {
     try {
-      const contractWithSigner = this.contract.connect(wallet);
-      const tx = await contractWithSigner.requestEmergencyAccess(
+      const populated = await this.contract.populateTransaction.requestEmergencyAccess(
         physician1,
         physician2,
         recordIds,
         justificationCode,
         wrappedKey
       );
-      const receipt = await tx.wait();
+      const signer = wallet.connect(this.contract.provider);
+      const signedTransaction = await signer.signTransaction(
+        await signer.populateTransaction(populated)
+      );
 
-      const event = receipt.events?.find((e: any) => e.event === 'EmergencyAccessRequested');
-      const emergencyId = event?.args?.emergencyId;
+      return { signedTransaction, transactionHash: utils.keccak256(signedTransaction) };
+    } catch (error) {
+      throw new Error(`Failed to sign emergency access request: ${(error as Error).message}`);
+    }
+  }
 
-      return {
-        emergencyId,
-        transactionHash: receipt.transactionHash,
-      };
+  /**
+   * Send a signed requestEmergencyAccess transaction, or wait for it when already sent, and
+   * read the emergencyId from its event
+   * Returns null when the transaction reverted or can no longer be mined (its nonce was used
+   * by another transaction)
+   */
+  async sendEmergencyAccessRequest(
+    signedTransaction: string
+  ): Promise<{ emergencyId: string; transactionHash: string } | null> {
+    const provider = this.contract.provider;
+    const tx = utils.parseTransaction(signedTransaction);
+    const transactionHash = tx.hash!;
+
+    try {
+      if (!(await provider.getTransaction(transactionHash))) {
+        if ((await provider.getTransactionCount(tx.from!)) <= tx.nonce) {
+          await provider.sendTransaction(signedTransaction);
+        } else if (!(await provider.getTransactionReceipt(transactionHash))) {
+          // The nonce was used by another transaction
+          return null;
+        }
+      }
+
+      const receipt = await provider.waitForTransaction(transactionHash);
+      if (!receipt || receipt.status !== 1) {
+        return null;
+      }
+
+      const event = this.parseEvent(receipt, 'EmergencyAccessRequested');
+      if (!event) {
+        throw new Error(`No EmergencyAccessRequested event in transaction ${transactionHash}`);
+      }
+
+      return { emergencyId: event.args.emergencyId, transactionHash };
     } catch (error) {
       throw new Error(`Failed to request emergency access: ${(error as Error).message}`);
     }
@@ -210,6 +307,39 @@ export class PatientRecordsService {
     }
   }
 
+  /**
+   * Get an emergency access from its EmergencyAccessRequested / Confirmed events
+   * Emergency access is private in the contract, so the event log is the only source;
+   * returns null when the emergency ID was never requested on this contract
+   */
+  async getEmergencyAccessState(emergencyId: string): Promise<EmergencyAccessChainState | null> {
+    try {
+      const [requested] = await this.contract.queryFilter(
+        this.contract.filters.EmergencyAccessRequested(emergencyId)
+      );
+      if (!requested) {
+        return null;
+      }
+
+      const [confirmed] = await this.contract.queryFilter(
+        this.contract.filters.EmergencyAccessConfirmed(emergencyId)
+      );
+      const requestedAt = (await requested.getBlock()).timestamp;
+
+      return {
+        emergencyId,
+        requestedAt,
+        expirationTime: requestedAt + EMERGENCY_ACCESS_WINDOW,
+        requestTransactionHash: requested.transactionHash,
+        confirmed: Boolean(confirmed),
+        confirmedAt: confirmed ? confirmed.args!.confirmedAt.toNumber() : null,
+        confirmTransactionHash: confirmed ? confirmed.transactionHash : null,
+      };
+    } catch (error) {
+      throw new Error(`Failed to get emergency access: ${(error as Error).message}`);
+    }
+  }
+
   /**
    * Check if user has access to a record
    */
@@ -345,6 +475,56 @@ export class PatientRecordsService {
     }
   }
 
+  /**
+   * Build an unsigned addRecord call (client-side signing)
+   */
+  async populateAddRecord(
+    storagePointer: string,
+    contentDigest: string
+  ): Promise<PopulatedTransaction> {
+    try {
+      return await this.contract.populateTransaction.addRecord(storagePointer, contentDigest);
+    } catch (error) {
+      throw new Error(`Failed to build addRecord transaction: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Build an unsigned revokePermission call (client-side signing)
+   */
+  async populateRevokePermission(permissionId: number): Promise<PopulatedTransaction> {
+    try {
+      return await this.contract.populateTransaction.revokePermission(permissionId);
+    } catch (error) {
+      throw new Error(`Failed to build revokePermission transaction: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Find and decode a contract event in a transaction receipt
+   */
+  parseEvent(
+    receipt: providers.TransactionReceipt,
+    eventName: string
+  ): utils.LogDescription | undefined {
+    for (const log of receipt.logs) {
+      if (log.address.toLowerCase() !== this.contract.address.toLowerCase()) {
+        continue;
+      }
+
+      try {
+        const parsed = this.contract.interface.parseLog(log);
+        if (parsed.name === eventName) {
+          return parsed;
+        }
+      } catch (error) {
+        // Log from an unknown event signature
+      }
+    }
+
+    return undefined;
+  }
+
   /**
    * Get contract address
    */
@@ -26,6 +26,16 @@ export function createWallet(privateKey: string): Wallet {
   return new Wallet(privateKey, provider);
 }
 
+/**
+ * Get the relayer wallet used to submit client-signed operations
+ */
+export function getRelayer(): Wallet {
+  if (!config.blockchain.relayerPrivateKey) {
+    throw new Error('Relayer private key not configured');
+  }
+  return createWallet(config.blockchain.relayerPrivateKey);
+}
+
 /**
  * Get network information
  */
@@ -0,0 +1,571 @@
+/**
+ * @file Consent Service
+ * @description Patient consents expressed as FHIR Consent and compiled into on-chain grants
+ * A consent's provision tree is evaluated for every actor it names against every record of
+ * the patient (resource type or attachment content type, codes, data references and data
+ * period). Each permitted (actor, record) pair becomes one grantPermission carrying the
+ * record key wrapped for the actor; nested provisions are exceptions to their parent.
+ * Grants are linked to the consent, so changing or withdrawing it revokes exactly those.
+ */
+
+import db from '../database';
+import { getKeyVault } from '../custody';
+import { PatientRecordsService } from '../blockchain/PatientRecordsService';
+import { getRecordService } from '../records';
+import { getSearchIndexService } from '../search';
+import {
+  ConsentGrant,
+  ConsentStatus,
+  ConsentSyncResult,
+  FHIRResource,
+  PatientConsent,
+} from '../../types';
+
+// Grants of consents without a provision period end
+const DEFAULT_GRANT_DURATION = 365 * 24 * 60 * 60; // 1 year
+
+const CONSENT_STATUSES: ConsentStatus[] = [
+  'draft',
+  'proposed',
+  'active',
+  'rejected',
+  'inactive',
+  'entered-in-error',
+];
+
+// Reference to a user by wallet address, e.g. Practitioner/0x...
+const WALLET_REFERENCE = /^[A-Z][A-Za-z]+\/(0x[a-fA-F0-9]{40})$/;
+
+interface Decision {
+  type: 'permit' | 'deny';
+  end: number | null;
+  purposeOfUse: string[];
+}
+
+/**
+ * What provisions can match about a record
+ */
+interface RecordFacts {
+  recordId: number;
+  classes: string[];
+  references: string[];
+  terms: Set<string>;
+}
+
+/**
+ * Seconds since the epoch of a FHIR dateTime, or null
+ */
+function toEpoch(value: string | undefined): number | null {
+  if (!value) {
+    return null;
+  }
+  const time = new Date(value).getTime();
+  return isNaN(time) ? null : Math.floor(time / 1000);
+}
+
+function earliest(a: number | null, b: number | null): number | null {
+  if (a === null) {
+    return b;
+  }
+  return b === null ? a : Math.min(a, b);
+}
+
+export class ConsentService {
+  /**
+   * Check a Consent for the patient and fill in its patient reference
+   * Throws with a message suitable for the client when it cannot be compiled
+   */
+  normalize(resource: any, patientWallet: string): FHIRResource {
+    if (!resource || resource.resourceType !== 'Consent') {
+      throw new Error('Body must be a FHIR Consent resource');
+    }
+    if (!CONSENT_STATUSES.includes(resource.status)) {
+      throw new Error(`Consent status must be one of ${CONSENT_STATUSES.join(', ')}`);
+    }
+
+    const patientReference = `Patient/${patientWallet.toLowerCase()}`;
+    if (resource.patient?.reference) {
+      if (resource.patient.reference.toLowerCase() !== patientReference) {
+        throw new Error(`Consent.patient must reference ${patientReference}`);
+      }
+    }
+
+    if (resource.status === 'active') {
+      if (!resource.provision?.type) {
+        throw new Error('An active Consent needs a provision with a type (permit or deny)');
+      }
+
+      const check = (provision: any, path: string) => {
+        const start = toEpoch(provision.period?.start);
+        if (start !== null && start > Date.now() / 1000) {
+          throw new Error(`${path}.period.start in the future is not supported`);
+        }
+        (provision.actor || []).forEach((actor: any, index: number) => {
+          if (!WALLET_REFERENCE.test(actor.reference?.reference || '')) {
+            throw new Error(
+              `${path}.actor[${index}].reference must reference a user by wallet address`
+            );
+          }
+        });
+        (provision.provision || []).forEach((nested: any, index: number) =>
+          check(nested, `${path}.provision[${index}]`)
+        );
+      };
+      check(resource.provision, 'Consent.provision');
+    }
+
+    // The server assigns the logical id and version
+    const normalized = { ...resource, patient: { reference: patientReference } };
+    delete normalized.id;
+    delete normalized.meta;
+    return normalized;
+  }
+
+  /**
+   * Actor references of a Consent that do not name a registered user
+   */
+  async findUnknownActors(resource: FHIRResource): Promise<string[]> {
+    const references = new Set<string>();
+    const collect = (provision: any) => {
+      for (const actor of provision?.actor || []) {
+        references.add(actor.reference?.reference);
+      }
+      (provision?.provision || []).forEach(collect);
+    };
+    collect(resource.provision);
+
+    const unknown = [];
+    for (const reference of references) {
+      const wallet = WALLET_REFERENCE.exec(reference || '')?.[1];
+      const user =
+        wallet &&
+        (await db.oneOrNone('SELECT 1 FROM users WHERE LOWER(wallet_address) = LOWER($1)', [
+          wallet,
+        ]));
+      if (!user) {
+        unknown.push(reference);
+      }
+    }
+    return unknown;
+  }
+
+  /**
+   * Store a consent and, when it is active, grant what it permits
+   */
+  async createConsent(
+    patientWallet: string,
+    createdBy: string,
+    resource: FHIRResource,
+    patientRecordsService: PatientRecordsService
+  ): Promise<{ consent: PatientConsent; sync: ConsentSyncResult }> {
+    const consent: PatientConsent = await db.one(
+      `INSERT INTO consents (patient_wallet, status, resource, created_by, updated_by)
+       VALUES ($1, $2, $3, $4, $4)
+       RETURNING *`,
+      [patientWallet, resource.status, resource, createdBy]
+    );
+
+    const sync = await this.sync(consent, patientRecordsService);
+    return { consent, sync };
+  }
+
+  /**
+   * Replace a consent and bring its grants in line with the new version
+   * Grants are synced before the new version is stored, so a sync that fails partway leaves
+   * the previous version in place and repeating the update finishes it
+   */
+  async updateConsent(
+    consent: PatientConsent,
+    updatedBy: string,
+    resource: FHIRResource,
+    patientRecordsService: PatientRecordsService
+  ): Promise<{ consent: PatientConsent; sync: ConsentSyncResult }> {
+    const sync = await this.sync(
+      { ...consent, status: resource.status, resource },
+      patientRecordsService
+    );
+
+    const updated: PatientConsent = await db.one(
+      `UPDATE consents
+       SET status = $2, resource = $3, version = version + 1, updated_by = $4,
+           withdrawn_at = CASE WHEN $2 = 'active' THEN NULL ELSE withdrawn_at END
+       WHERE id = $1
+       RETURNING *`,
+      [consent.id, resource.status, resource, updatedBy]
+    );
+
+    return { consent: updated, sync };
+  }
+
+  /**
+   * Withdraw a consent: revoke every grant it created, then mark it inactive
+   * A revocation that fails leaves the consent active, so withdrawing again revokes the rest
+   */
+  async withdrawConsent(
+    consent: PatientConsent,
+    withdrawnBy: string,
+    patientRecordsService: PatientRecordsService
+  ): Promise<{ consent: PatientConsent; sync: ConsentSyncResult }> {
+    const sync = await this.sync({ ...consent, status: 'inactive' }, patientRecordsService);
+
+    const withdrawn: PatientConsent = await db.one(
+      `UPDATE consents
+       SET status = 'inactive', resource = jsonb_set(resource, '{status}', '"inactive"'),
+           version = version + 1, updated_by = $2, withdrawn_at = NOW()
+       WHERE id = $1
+       RETURNING *`,
+      [consent.id, withdrawnBy]
+    );
+
+    return { consent: withdrawn, sync };
+  }
+
+  /**
+   * Get a consent
+   */
+  async getConsent(consentId: number): Promise<PatientConsent | null> {
+    return db.oneOrNone('SELECT * FROM consents WHERE id = $1', [consentId]);
+  }
+
+  /**
+   * A patient's consents, newest first
+   */
+  async listConsents(patientWallet: string, status?: ConsentStatus): Promise<PatientConsent[]> {
+    return db.manyOrNone(
+      `SELECT * FROM consents
+       WHERE patient_wallet = $1 AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC`,
+      [patientWallet, status || null]
+    );
+  }
+
+  /**
+   * Permissions created by a consent, including revoked ones
+   */
+  async listPermissions(consentId: number): Promise<{ [key: string]: any }[]> {
+    return db.manyOrNone(
+      `SELECT permission_id, grantee_wallet, record_id, expiration, revoked, suspended,
+              purpose_of_use, granted_at, transaction_hash
+       FROM permissions
+       WHERE consent_id = $1
+       ORDER BY granted_at, record_id`,
+      [consentId]
+    );
+  }
+
+  /**
+   * The stored Consent with its logical id and version
+   */
+  toResource(consent: PatientConsent): FHIRResource {
+    return {
+      ...consent.resource,
+      resourceType: 'Consent',
+      id: String(consent.id),
+      meta: {
+        versionId: String(consent.version),
+        lastUpdated: new Date(consent.updated_at).toISOString(),
+      },
+    };
+  }
+
+  /**
+   * Evaluate an active consent against every record of the patient
+   */
+  async compile(
+    consent: PatientConsent,
+    patientRecordsService: PatientRecordsService
+  ): Promise<ConsentGrant[]> {
+    const provision = (consent.resource as any).provision;
+    if (consent.status !== 'active' || !provision) {
+      return [];
+    }
+
+    const patientWallet = consent.patient_wallet;
+    const grantees = new Set<string>();
+    const collectActors = (node: any) => {
+      for (const actor of node.actor || []) {
+        const match = WALLET_REFERENCE.exec(actor.reference?.reference || '');
+        if (match && match[1].toLowerCase() !== patientWallet.toLowerCase()) {
+          grantees.add(match[1].toLowerCase());
+        }
+      }
+      (node.provision || []).forEach(collectActors);
+    };
+    collectActors(provision);
+
+    // Grants name the grantee as registered
+    const users = await db.manyOrNone(
+      'SELECT wallet_address FROM users WHERE LOWER(wallet_address) = ANY($1)',
+      [Array.from(grantees)]
+    );
+    if (users.length === 0) {
+      return [];
+    }
+
+    const recordService = getRecordService();
+    const searchIndex = getSearchIndexService();
+    const records = await db.manyOrNone(
+      'SELECT record_id FROM records WHERE patient_wallet = $1 ORDER BY record_id',
+      [patientWallet]
+    );
+
+    const grants: ConsentGrant[] = [];
+    for (const { record_id: recordId } of records) {
+      const record = await recordService.readRecord(
+        patientWallet,
+        patientWallet,
+        patientRecordsService,
+        recordId
+      );
+      if (!record) {
+        continue;
+      }
+
+      // Attachments are matched by content type, FHIR records by resource type
+      const data = record.fhirData;
+      const classes =
+        data?.type === 'attachment-manifest' ? [data.contentType] : [data?.resourceType];
+      const facts: RecordFacts = {
+        recordId,
+        classes: classes.filter(Boolean),
+        references: data?.resourceType
+          ? [`${data.resourceType}/${patientWallet.toLowerCase()}-${recordId}`]
+          : [],
+        terms: new Set(data?.resourceType ? searchIndex.extractTerms(data) : []),
+      };
+
+      for (const { wallet_address: grantee } of users) {
+        const decision = this.decide(provision, grantee.toLowerCase(), facts, {
+          type: 'deny',
+          end: null,
+          purposeOfUse: [],
+        });
+        if (decision.type === 'permit') {
+          grants.push({
+            grantee,
+            recordId,
+            expiration: decision.end,
+            purposeOfUse: decision.purposeOfUse,
+          });
+        }
+      }
+    }
+
+    return grants;
+  }
+
+  /**
+   * Grant what the consent permits and revoke the consent's grants it no longer permits
+   * Requires the patient's key to be in custody, since grants are signed for the patient
+   */
+  async sync(
+    consent: PatientConsent,
+    patientRecordsService: PatientRecordsService
+  ): Promise<ConsentSyncResult> {
+    const patientWallet = consent.patient_wallet;
+    const desired = await this.compile(consent, patientRecordsService);
+    const now = Math.floor(Date.now() / 1000);
+
+    const existing = await db.manyOrNone(
+      `SELECT id, permission_id, grantee_wallet, record_id, expiration FROM permissions
+       WHERE consent_id = $1 AND revoked = FALSE AND expiration > NOW()`,
+      [consent.id]
+    );
+
+    const key = (grantee: string, recordId: number) => `${grantee.toLowerCase()}:${recordId}`;
+    const wanted = new Map(desired.map((grant) => [key(grant.grantee, grant.recordId), grant]));
+    const kept = new Set<string>();
+    const stale = [];
+
+    for (const permission of existing) {
+      const permissionKey = key(permission.grantee_wallet, permission.record_id);
+      const grant = wanted.get(permissionKey);
+      const expiration = Math.floor(new Date(permission.expiration).getTime() / 1000);
+
+      if (grant && !kept.has(permissionKey) && (grant.expiration ?? expiration) === expiration) {
+        kept.add(permissionKey);
+      } else {
+        stale.push(permission);
+      }
+    }
+
+    const result: ConsentSyncResult = { granted: [], revoked: [], skippedRecordIds: [] };
+    const pending = desired.filter(
+      (grant) =>
+        !kept.has(key(grant.grantee, grant.recordId)) &&
+        (grant.expiration === null || grant.expiration > now)
+    );
+    if (stale.length === 0 && pending.length === 0) {
+      return result;
+    }
+
+    const vault = getKeyVault();
+    if (!(await vault.hasKey(patientWallet))) {
+      throw new Error('Consents can only be enforced for patients whose key is in custody');
+    }
+    const signer = await vault.getSigner(patientWallet);
+
+    for (const permission of stale) {
+      const transactionHash = await patientRecordsService.revokePermission(
+        signer,
+        permission.permission_id
+      );
+      await db.none('UPDATE permissions SET revoked = TRUE WHERE id = $1', [permission.id]);
+      result.revoked.push({
+        permissionId: permission.permission_id,
+        grantee: permission.grantee_wallet,
+        recordId: permission.record_id,
+        transactionHash,
+      });
+    }
+
+    const recordService = getRecordService();
+
+    for (const grant of pending) {
+      const expiration = grant.expiration ?? now + DEFAULT_GRANT_DURATION;
+      const shared = await recordService.shareRecord(
+        patientWallet,
+        patientRecordsService,
+        grant.recordId,
+        grant.grantee,
+        expiration
+      );
+      if (!shared) {
+        result.skippedRecordIds.push(grant.recordId);
+        continue;
+      }
+
+      await db.none(
+        `INSERT INTO permissions
+           (patient_wallet, grantee_wallet, record_id, permission_id, wrapped_key, expiration,
+            transaction_hash, key_version, consent_id, purpose_of_use)
+         VALUES ($1, $2, $3, $4, $5, to_timestamp($6), $7, $8, $9, $10)`,
+        [
+          patientWallet,
+          grant.grantee,
+          grant.recordId,
+          shared.permissionId,
+          shared.wrappedKey,
+          expiration,
+          shared.transactionHash,
+          shared.keyVersion,
+          consent.id,
+          grant.purposeOfUse,
+        ]
+      );
+      result.granted.push({
+        permissionId: shared.permissionId,
+        grantee: grant.grantee,
+        recordId: grant.recordId,
+        transactionHash: shared.transactionHash,
+      });
+    }
+
+    return result;
+  }
+
+  /**
+   * Decision of a provision and its nested exceptions for one actor and record
+   * A provision that does not apply leaves the inherited decision unchanged
+   */
+  private decide(
+    provision: any,
+    grantee: string,
+    facts: RecordFacts,
+    inherited: Decision
+  ): Decision {
+    if (!this.applies(provision, grantee, facts)) {
+      return inherited;
+    }
+
+    const purposeOfUse = (provision.purpose || []).map((purpose: any) => purpose.code);
+    let decision: Decision = {
+      type: provision.type || inherited.type,
+      end: earliest(inherited.end, toEpoch(provision.period?.end)),
+      purposeOfUse: purposeOfUse.length > 0 ? purposeOfUse : inherited.purposeOfUse,
+    };
+
+    for (const nested of provision.provision || []) {
+      decision = this.decide(nested, grantee, facts, decision);
+    }
+    return decision;
+  }
+
+  /**
+   * Whether every criterion a provision sets matches the actor and record
+   */
+  private applies(provision: any, grantee: string, facts: RecordFacts): boolean {
+    const end = toEpoch(provision.period?.end);
+    if (end !== null && end <= Math.floor(Date.now() / 1000)) {
+      return false;
+    }
+
+    if (
+      provision.actor?.length &&
+      !provision.actor.some(
+        (actor: any) =>
+          WALLET_REFERENCE.exec(actor.reference?.reference || '')?.[1].toLowerCase() === grantee
+      )
+    ) {
+      return false;
+    }
+
+    if (
+      provision.class?.length &&
+      !provision.class.some((coding: any) => facts.classes.includes(coding.code))
+    ) {
+      return false;
+    }
+
+    if (
+      provision.code?.length &&
+      !provision.code.some((concept: any) =>
+        (concept.coding || []).some((coding: any) =>
+          facts.terms.has(
+            coding.system ? `code:${coding.system}|${coding.code}` : `code:${coding.code}`
+          )
+        )
+      )
+    ) {
+      return false;
+    }
+
+    if (
+      provision.data?.length &&
+      !provision.data.some((data: any) =>
+        facts.references.some(
+          (reference) => reference.toLowerCase() === (data.reference?.reference || '').toLowerCase()
+        )
+      )
+    ) {
+      return false;
+    }
+
+    if (provision.dataPeriod) {
+      const from = (provision.dataPeriod.start || '0000').slice(0, 10);
+      const to = (provision.dataPeriod.end || '9999').slice(0, 10);
+      const inPeriod = Array.from(facts.terms).some(
+        (term) =>
+          term.length === 15 &&
+          term.startsWith('date:') &&
+          term.slice(5) >= from &&
+          term.slice(5) <= to
+      );
+      if (!inPeriod) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+}
+
+// Export singleton instance
+let consentServiceInstance: ConsentService | null = null;
+
+export function getConsentService(): ConsentService {
+  if (!consentServiceInstance) {
+    consentServiceInstance = new ConsentService();
+  }
+  return consentServiceInstance;
+}
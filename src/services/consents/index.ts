@@ -0,0 +1,6 @@
+/**
+ * @file Consent Services
+ * @description Export FHIR Consent modules
+ */
+
+export * from './ConsentService';
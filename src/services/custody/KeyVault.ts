@@ -0,0 +1,204 @@
+/**
+ * @file Key Vault
+ * @description Server-side custody of user wallet keys using envelope encryption
+ */
+
+import { Wallet } from 'ethers';
+import db from '../database';
+import { createWallet } from '../blockchain/provider';
+import * as aesGcm from '../../utils/aes-gcm';
+import * as ecies from '../../utils/ecies';
+import { getMasterKey } from './master-key';
+
+export class KeyVault {
+  /**
+   * Store a user's private key (encrypted under a fresh data key)
+   */
+  async storeKey(walletAddress: string, privateKey: string): Promise<void> {
+    const wallet = new Wallet(privateKey);
+    if (wallet.address.toLowerCase() !== walletAddress.toLowerCase()) {
+      throw new Error('Private key does not match wallet address');
+    }
+
+    const aad = this.aad(walletAddress);
+    const dataKey = aesGcm.generateKey();
+
+    const encryptedPrivateKey = aesGcm.encryptToBase64(wallet.privateKey, dataKey, aad);
+    const encryptedDataKey = aesGcm.encryptToBase64(dataKey, getMasterKey(), aad);
+    dataKey.fill(0);
+
+    await db.none(
+      `INSERT INTO custodial_keys (wallet_address, encrypted_private_key, encrypted_data_key)
+       VALUES ($1, $2, $3)
+       ON CONFLICT (wallet_address)
+       DO UPDATE SET encrypted_private_key = $2, encrypted_data_key = $3, created_at = NOW()`,
+      [walletAddress, encryptedPrivateKey, encryptedDataKey]
+    );
+  }
+
+  /**
+   * Store a user's ECIES encryption key for a KeyRegistry version, when it differs from the
+   * wallet key (set by a rotation); the wallet key must already be held. Keys for earlier
+   * versions are kept, so anything still wrapped to them can be unwrapped.
+   */
+  async storeEncryptionKey(
+    walletAddress: string,
+    privateKey: Buffer,
+    keyVersion: number
+  ): Promise<void> {
+    if (!(await this.hasKey(walletAddress))) {
+      throw new Error(`No custodial key found for ${walletAddress}`);
+    }
+
+    const aad = this.aad(walletAddress);
+    const dataKey = aesGcm.generateKey();
+
+    const encryptedKey = aesGcm.encryptToBase64(privateKey.toString('hex'), dataKey, aad);
+    const encryptedDataKey = aesGcm.encryptToBase64(dataKey, getMasterKey(), aad);
+    dataKey.fill(0);
+
+    await db.none(
+      `INSERT INTO custodial_encryption_keys
+         (wallet_address, key_version, encrypted_key, encrypted_data_key)
+       VALUES ($1, $2, $3, $4)`,
+      [walletAddress, keyVersion, encryptedKey, encryptedDataKey]
+    );
+  }
+
+  /**
+   * Check whether the vault holds a user's encryption key for a KeyRegistry version
+   */
+  async hasEncryptionKey(walletAddress: string, keyVersion: number): Promise<boolean> {
+    const row = await db.oneOrNone(
+      'SELECT 1 FROM custodial_encryption_keys WHERE wallet_address = $1 AND key_version = $2',
+      [walletAddress, keyVersion]
+    );
+    return !!row;
+  }
+
+  /**
+   * Delete a user's encryption key for a KeyRegistry version
+   * (a rotation that was never published)
+   */
+  async deleteEncryptionKey(walletAddress: string, keyVersion: number): Promise<void> {
+    await db.none(
+      'DELETE FROM custodial_encryption_keys WHERE wallet_address = $1 AND key_version = $2',
+      [walletAddress, keyVersion]
+    );
+  }
+
+  /**
+   * Check whether the vault holds a key for a user
+   */
+  async hasKey(walletAddress: string): Promise<boolean> {
+    const row = await db.oneOrNone(
+      'SELECT 1 FROM custodial_keys WHERE wallet_address = $1',
+      [walletAddress]
+    );
+    return !!row;
+  }
+
+  /**
+   * Get a provider-connected signer for a user
+   */
+  async getSigner(walletAddress: string): Promise<Wallet> {
+    const privateKey = await this.loadPrivateKey(walletAddress);
+    return createWallet(privateKey);
+  }
+
+  /**
+   * Unwrap an ECIES-wrapped symmetric key addressed to a user
+   * Tries the rotated encryption keys newest first, then the wallet key (keys wrapped
+   * before any rotation). The private keys never leave the vault.
+   */
+  async unwrapKey(walletAddress: string, wrappedKey: string): Promise<Buffer> {
+    const privateKey = await this.loadPrivateKey(walletAddress);
+    const encryptionKeys = await this.loadEncryptionKeys(walletAddress);
+
+    for (const encryptionKey of encryptionKeys) {
+      try {
+        return await ecies.unwrapKey(encryptionKey, wrappedKey);
+      } catch (error) {
+        // Fall through to the next older key
+      }
+    }
+
+    return ecies.unwrapKey(privateKey, wrappedKey);
+  }
+
+  /**
+   * Delete a user's custodial key
+   */
+  async deleteKey(walletAddress: string): Promise<void> {
+    await db.none('DELETE FROM custodial_keys WHERE wallet_address = $1', [walletAddress]);
+  }
+
+  /**
+   * Decrypt a user's private key (data key first, then the key itself)
+   */
+  private async loadPrivateKey(walletAddress: string): Promise<string> {
+    const row = await db.oneOrNone(
+      `UPDATE custodial_keys SET last_used_at = NOW()
+       WHERE wallet_address = $1
+       RETURNING encrypted_private_key, encrypted_data_key`,
+      [walletAddress]
+    );
+
+    if (!row) {
+      throw new Error(`No custodial key found for ${walletAddress}`);
+    }
+
+    try {
+      const aad = this.aad(walletAddress);
+      const dataKey = aesGcm.decryptFromBase64(row.encrypted_data_key, getMasterKey(), aad);
+      const privateKey = aesGcm.decryptFromBase64(row.encrypted_private_key, dataKey, aad);
+      dataKey.fill(0);
+
+      return privateKey.toString('utf-8');
+    } catch (error) {
+      throw new Error(`Failed to decrypt custodial key: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Decrypt a user's rotated encryption keys, newest version first
+   */
+  private async loadEncryptionKeys(walletAddress: string): Promise<string[]> {
+    const rows = await db.manyOrNone(
+      `SELECT encrypted_key, encrypted_data_key FROM custodial_encryption_keys
+       WHERE wallet_address = $1
+       ORDER BY key_version DESC NULLS LAST`,
+      [walletAddress]
+    );
+
+    const aad = this.aad(walletAddress);
+    return rows.map((row) => {
+      try {
+        const dataKey = aesGcm.decryptFromBase64(row.encrypted_data_key, getMasterKey(), aad);
+        const privateKey = aesGcm.decryptFromBase64(row.encrypted_key, dataKey, aad);
+        dataKey.fill(0);
+
+        return privateKey.toString('utf-8');
+      } catch (error) {
+        throw new Error(`Failed to decrypt custodial encryption key: ${(error as Error).message}`);
+      }
+    });
+  }
+
+  /**
+   * Associated data binding ciphertexts to their owner
+   */
+  private aad(walletAddress: string): string {
+    return walletAddress.toLowerCase();
+  }
+}
+
+// Export singleton instance
+let keyVaultInstance: KeyVault | null = null;
+
+export function getKeyVault(): KeyVault {
+  if (!keyVaultInstance) {
+    keyVaultInstance = new KeyVault();
+  }
+  return keyVaultInstance;
+}
@@ -0,0 +1,7 @@
+/**
+ * @file Custody Services
+ * @description Export all key custody modules
+ */
+
+export * from './master-key';
+export * from './KeyVault';
@@ -0,0 +1,32 @@
+/**
+ * @file Master Key
+ * @description Loads ENCRYPTION_MASTER_KEY and derives purpose-bound subkeys from it
+ */
+
+import { hkdfSync } from 'crypto';
+import config from '../../config';
+
+let masterKey: Buffer | null = null;
+
+/**
+ * Get the master key-encryption key (32 bytes)
+ */
+export function getMasterKey(): Buffer {
+  if (!masterKey) {
+    const hex = config.encryption.masterKey.replace(/^0x/, '');
+
+    if (!/^[a-fA-F0-9]{64}$/.test(hex)) {
+      throw new Error('ENCRYPTION_MASTER_KEY must be a 32-byte hex string');
+    }
+
+    masterKey = Buffer.from(hex, 'hex');
+  }
+  return masterKey;
+}
+
+/**
+ * Derive a 32-byte subkey for a specific purpose (HKDF-SHA256)
+ */
+export function deriveMasterSubkey(purpose: string, context: string = ''): Buffer {
+  return Buffer.from(hkdfSync('sha256', getMasterKey(), Buffer.alloc(0), `${purpose}:${context}`, 32));
+}
@@ -0,0 +1,148 @@
+/**
+ * @file Emergency Directive Service
+ * @description Patients' advance rules for which records emergency access may open
+ * Rules match records through the search index, so no record is decrypted to apply them.
+ * A matching deny rule always wins, whatever the approvals; a record no rule matches gets the
+ * directive's default effect, and a patient without a directive allows every record.
+ */
+
+import db from '../database';
+import { getSearchIndexService } from '../search';
+import {
+  EmergencyContact,
+  EmergencyDirective,
+  EmergencyDirectiveDecision,
+  EmergencyDirectiveEffect,
+  EmergencyDirectiveRule,
+} from '../../types';
+
+export class EmergencyDirectiveService {
+  /**
+   * Get a patient's directive
+   */
+  async getDirective(patientWallet: string): Promise<EmergencyDirective | null> {
+    return db.oneOrNone(
+      'SELECT * FROM emergency_directives WHERE LOWER(patient_wallet) = LOWER($1)',
+      [patientWallet]
+    );
+  }
+
+  /**
+   * Create or replace a patient's directive; each replacement is a new version
+   */
+  async saveDirective(
+    patientWallet: string,
+    rules: EmergencyDirectiveRule[],
+    defaultEffect: EmergencyDirectiveEffect,
+    emergencyContacts: EmergencyContact[]
+  ): Promise<EmergencyDirective> {
+    return db.one(
+      `INSERT INTO emergency_directives (patient_wallet, rules, default_effect, emergency_contacts)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (patient_wallet) DO UPDATE
+       SET rules = EXCLUDED.rules, default_effect = EXCLUDED.default_effect,
+           emergency_contacts = EXCLUDED.emergency_contacts,
+           version = emergency_directives.version + 1
+       RETURNING *`,
+      [patientWallet, JSON.stringify(rules), defaultEffect, JSON.stringify(emergencyContacts)]
+    );
+  }
+
+  /**
+   * Remove a patient's directive; grants keep the decisions already recorded
+   */
+  async deleteDirective(patientWallet: string): Promise<boolean> {
+    const deleted = await db.oneOrNone(
+      `DELETE FROM emergency_directives WHERE LOWER(patient_wallet) = LOWER($1)
+       RETURNING patient_wallet`,
+      [patientWallet]
+    );
+    return !!deleted;
+  }
+
+  /**
+   * Split records into those a patient's directive lets emergency access open and those it
+   * does not
+   */
+  async filterRecordIds(
+    directive: EmergencyDirective | null,
+    recordIds: number[]
+  ): Promise<EmergencyDirectiveDecision> {
+    const decision: EmergencyDirectiveDecision = {
+      version: directive ? directive.version : null,
+      allowedRecordIds: [],
+      deniedRecordIds: [],
+      matchedRules: [],
+      decidedAt: new Date().toISOString(),
+    };
+
+    for (const recordId of recordIds) {
+      const rule = directive ? await this.decidingRule(directive, recordId) : null;
+      const effect = rule ? rule.effect : directive?.default_effect || 'allow';
+
+      if (effect === 'allow') {
+        decision.allowedRecordIds.push(recordId);
+      } else {
+        decision.deniedRecordIds.push(recordId);
+      }
+      decision.matchedRules.push({ recordId, rule });
+    }
+
+    return decision;
+  }
+
+  /**
+   * The rule deciding a record: the first matching deny rule, else the first matching allow
+   * rule, else none
+   */
+  private async decidingRule(
+    directive: EmergencyDirective,
+    recordId: number
+  ): Promise<EmergencyDirectiveRule | null> {
+    const ordered = [
+      ...directive.rules.filter((rule) => rule.effect === 'deny'),
+      ...directive.rules.filter((rule) => rule.effect === 'allow'),
+    ];
+
+    for (const rule of ordered) {
+      if (await this.matches(directive.patient_wallet, recordId, rule)) {
+        return rule;
+      }
+    }
+    return null;
+  }
+
+  /**
+   * Whether a record matches every criterion of a rule
+   */
+  private async matches(
+    patientWallet: string,
+    recordId: number,
+    rule: EmergencyDirectiveRule
+  ): Promise<boolean> {
+    const searchIndexService = getSearchIndexService();
+
+    if (rule.resourceType) {
+      const typeTerm = `type:${rule.resourceType}`;
+      if (!(await searchIndexService.hasAnyTerm(patientWallet, recordId, [typeTerm]))) {
+        return false;
+      }
+    }
+
+    if (rule.code && !(await searchIndexService.hasAnyCode(patientWallet, recordId, [rule.code]))) {
+      return false;
+    }
+
+    return true;
+  }
+}
+
+// Export singleton instance
+let emergencyDirectiveServiceInstance: EmergencyDirectiveService | null = null;
+
+export function getEmergencyDirectiveService(): EmergencyDirectiveService {
+  if (!emergencyDirectiveServiceInstance) {
+    emergencyDirectiveServiceInstance = new EmergencyDirectiveService();
+  }
+  return emergencyDirectiveServiceInstance;
+}
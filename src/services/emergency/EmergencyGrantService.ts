@@ -0,0 +1,304 @@
+/**
+ * @file Emergency Grant Service
+ * @description State machine of emergency ("break glass") grants
+ * requested → cosigning → cosigned → confirmed, ending expired or revoked. Once the
+ * justification code's approvals are in, the last approving physician co-signs with
+ * requestEmergencyAccess, which gives the grant its contract emergencyId; the requesting
+ * physician then sends confirmEmergencyAccess. Each transition only applies from the state it
+ * expects, so concurrent calls cannot both succeed. Approvals are counted under the grant's
+ * row lock; the co-signature is signed and stored under it too, but sent after it is released.
+ */
+
+import db from '../database';
+import { PatientRecordsService } from '../blockchain/PatientRecordsService';
+import {
+  EmergencyAccessChainState,
+  EmergencyApproval,
+  EmergencyCosignature,
+  EmergencyGrant,
+  EmergencyGrantStatus,
+} from '../../types';
+
+const TRANSITIONS: Record<EmergencyGrantStatus, EmergencyGrantStatus[]> = {
+  requested: ['cosigning', 'expired', 'revoked'],
+  cosigning: ['cosigned', 'requested', 'expired', 'revoked'],
+  cosigned: ['confirmed', 'expired', 'revoked'],
+  confirmed: ['expired', 'revoked'],
+  expired: [],
+  revoked: [],
+};
+
+/**
+ * States in which a grant still runs against its expiration
+ */
+const LIVE_STATES: EmergencyGrantStatus[] = ['requested', 'cosigning', 'cosigned', 'confirmed'];
+
+export class EmergencyGrantService {
+  /**
+   * Get a grant, expiring it first when its time has passed
+   */
+  async getGrant(grantId: string): Promise<EmergencyGrant | null> {
+    const grant: EmergencyGrant | null = await db.oneOrNone(
+      'SELECT * FROM emergency_grants WHERE grant_id = $1',
+      [grantId]
+    );
+    return grant && this.expireIfDue(grant);
+  }
+
+  /**
+   * Whether a grant may move from one state to another
+   */
+  canTransition(from: EmergencyGrantStatus, to: EmergencyGrantStatus): boolean {
+    return TRANSITIONS[from].includes(to);
+  }
+
+  /**
+   * Record a physician's approval of a requested grant, preparing the co-signature when it is
+   * the last one needed
+   * The grant row is locked while approvals are counted, so only one final approver prepares
+   * a co-signature. cosign releases the record key and signs, without sending, the on-chain
+   * request; the grant moves to cosigning with it, and completeCosigning sends it. When cosign
+   * throws, the approval is rolled back and the physician may approve again. approvals is
+   * null when the physician already approved, and grant is null when the grant left the
+   * state it was read in.
+   */
+  async approve(
+    grant: EmergencyGrant,
+    approverWallet: string,
+    approvalsRequired: number,
+    cosign: () => Promise<EmergencyCosignature>
+  ): Promise<EmergencyApproval> {
+    this.assertTransition(grant, 'cosigning');
+    return db.tx(async (t) => {
+      const locked: EmergencyGrant | null = await t.oneOrNone(
+        'SELECT * FROM emergency_grants WHERE grant_id = $1 AND status = $2 FOR UPDATE',
+        [grant.grant_id, grant.status]
+      );
+      if (!locked) {
+        return { grant: null, approvals: null };
+      }
+
+      const added = await t.oneOrNone(
+        `INSERT INTO emergency_grant_approvals (grant_id, approver_wallet)
+         VALUES ($1, $2)
+         ON CONFLICT (grant_id, approver_wallet) DO NOTHING
+         RETURNING id`,
+        [grant.grant_id, approverWallet]
+      );
+      if (!added) {
+        return { grant: locked, approvals: null };
+      }
+
+      const { count } = await t.one(
+        'SELECT COUNT(*)::int AS count FROM emergency_grant_approvals WHERE grant_id = $1',
+        [grant.grant_id]
+      );
+      if (count < approvalsRequired) {
+        return { grant: locked, approvals: count };
+      }
+
+      const cosignature = await cosign();
+      const cosigning: EmergencyGrant = await t.one(
+        `UPDATE emergency_grants
+         SET status = 'cosigning', physician2_wallet = $2, cosign_transaction_hash = $3,
+             cosign_signed_transaction = $4, wrapped_key = $5, physician2_wrapped_key = $6,
+             directive_applied = $7
+         WHERE grant_id = $1
+         RETURNING *`,
+        [
+          grant.grant_id,
+          approverWallet,
+          cosignature.transactionHash,
+          cosignature.signedTransaction,
+          cosignature.wrappedKeyPhysician1,
+          cosignature.wrappedKeyPhysician2,
+          cosignature.directive,
+        ]
+      );
+      return { grant: cosigning, approvals: count };
+    });
+  }
+
+  /**
+   * Send a cosigning grant's stored co-signature, or wait for it when already sent
+   * A mined co-signature makes the grant cosigned, its access running for the grant's
+   * duration from then. One that reverted or can no longer be mined returns the grant to
+   * requested without the final approval, so it can be approved again. When sending fails
+   * the grant stays cosigning and calling this again resumes with the same transaction.
+   * Returns null when the grant left cosigning meanwhile.
+   */
+  async completeCosigning(
+    grant: EmergencyGrant,
+    patientRecordsService: PatientRecordsService
+  ): Promise<EmergencyGrant | null> {
+    if (grant.status !== 'cosigning' || !grant.cosign_signed_transaction) {
+      throw new Error(`Emergency grant is ${grant.status}, not cosigning`);
+    }
+
+    const result = await patientRecordsService.sendEmergencyAccessRequest(
+      grant.cosign_signed_transaction
+    );
+
+    if (!result) {
+      return db.tx(async (t) => {
+        const reopened: EmergencyGrant | null = await t.oneOrNone(
+          `UPDATE emergency_grants
+           SET status = 'requested', physician2_wallet = NULL, cosign_transaction_hash = NULL,
+               cosign_signed_transaction = NULL, wrapped_key = NULL, physician2_wrapped_key = NULL
+           WHERE grant_id = $1 AND status = 'cosigning' AND cosign_transaction_hash = $2
+           RETURNING *`,
+          [grant.grant_id, grant.cosign_transaction_hash]
+        );
+        if (reopened) {
+          await t.none(
+            `DELETE FROM emergency_grant_approvals
+             WHERE grant_id = $1 AND approver_wallet = $2`,
+            [grant.grant_id, grant.physician2_wallet]
+          );
+        }
+        return reopened;
+      });
+    }
+
+    return db.oneOrNone(
+      `UPDATE emergency_grants
+       SET status = 'cosigned', emergency_id = $3, cosigned_at = NOW(),
+           expiration = NOW() + make_interval(secs => duration_seconds)
+       WHERE grant_id = $1 AND status = 'cosigning' AND cosign_transaction_hash = $2
+       RETURNING *`,
+      [grant.grant_id, result.transactionHash, result.emergencyId]
+    );
+  }
+
+  /**
+   * Physicians who approved a grant, in order
+   */
+  async listApprovals(grantId: string): Promise<{ approver_wallet: string; created_at: Date }[]> {
+    return db.manyOrNone(
+      `SELECT approver_wallet, created_at FROM emergency_grant_approvals
+       WHERE grant_id = $1
+       ORDER BY id`,
+      [grantId]
+    );
+  }
+
+  /**
+   * Record the on-chain confirmation; the physicians' wrapped keys become usable and the
+   * grant's post-hoc review is opened
+   */
+  async markConfirmed(
+    grant: EmergencyGrant,
+    transactionHash: string,
+    confirmedAt: number = Math.floor(Date.now() / 1000)
+  ): Promise<EmergencyGrant | null> {
+    this.assertTransition(grant, 'confirmed');
+    return db.tx(async (t) => {
+      const confirmed: EmergencyGrant | null = await t.oneOrNone(
+        `UPDATE emergency_grants
+         SET status = 'confirmed', confirmed = TRUE, confirmed_at = to_timestamp($3),
+             confirm_transaction_hash = $4, key_released_at = NOW()
+         WHERE grant_id = $1 AND status = $2
+         RETURNING *`,
+        [grant.grant_id, grant.status, confirmedAt, transactionHash]
+      );
+      if (!confirmed) {
+        return null;
+      }
+
+      await t.none(
+        `INSERT INTO emergency_reviews (grant_id, patient_wallet)
+         VALUES ($1, $2)
+         ON CONFLICT (grant_id) DO NOTHING`,
+        [confirmed.grant_id, confirmed.patient_wallet]
+      );
+
+      return confirmed;
+    });
+  }
+
+  /**
+   * Revoke a grant; its wrapped keys stop being served
+   * The contract has no revocation for emergency access, so this is enforced off-chain
+   */
+  async revoke(grant: EmergencyGrant, revokedBy: string): Promise<EmergencyGrant | null> {
+    this.assertTransition(grant, 'revoked');
+    return db.oneOrNone(
+      `UPDATE emergency_grants
+       SET status = 'revoked', revoked_at = NOW(), revoked_by = $3
+       WHERE grant_id = $1 AND status = $2
+       RETURNING *`,
+      [grant.grant_id, grant.status, revokedBy]
+    );
+  }
+
+  /**
+   * Move a live grant past its expiration to expired
+   */
+  async expireIfDue(grant: EmergencyGrant): Promise<EmergencyGrant> {
+    if (!LIVE_STATES.includes(grant.status) || new Date(grant.expiration) > new Date()) {
+      return grant;
+    }
+
+    const expired: EmergencyGrant | null = await db.oneOrNone(
+      `UPDATE emergency_grants SET status = 'expired'
+       WHERE grant_id = $1 AND status = $2
+       RETURNING *`,
+      [grant.grant_id, grant.status]
+    );
+    return expired || grant;
+  }
+
+  /**
+   * Expire every live grant past its expiration
+   */
+  async expireDue(): Promise<number> {
+    const expired = await db.manyOrNone(
+      `UPDATE emergency_grants SET status = 'expired'
+       WHERE status = ANY($1) AND expiration <= NOW()
+       RETURNING grant_id`,
+      [LIVE_STATES]
+    );
+    return expired.length;
+  }
+
+  /**
+   * Bring a grant in line with the chain
+   * A co-signed grant confirmed directly on-chain (e.g. from a client wallet) becomes
+   * confirmed; returns the chain state, or null when nothing was co-signed on-chain
+   */
+  async reconcile(
+    grant: EmergencyGrant,
+    patientRecordsService: PatientRecordsService
+  ): Promise<{ grant: EmergencyGrant; chain: EmergencyAccessChainState | null }> {
+    if (!grant.emergency_id) {
+      return { grant: await this.expireIfDue(grant), chain: null };
+    }
+
+    const chain = await patientRecordsService.getEmergencyAccessState(grant.emergency_id);
+
+    let current = grant;
+    if (chain?.confirmed && current.status === 'cosigned') {
+      current =
+        (await this.markConfirmed(current, chain.confirmTransactionHash!, chain.confirmedAt!)) ||
+        current;
+    }
+
+    return { grant: await this.expireIfDue(current), chain };
+  }
+
+  private assertTransition(grant: EmergencyGrant, to: EmergencyGrantStatus): void {
+    if (!this.canTransition(grant.status, to)) {
+      throw new Error(`Emergency grant cannot move from ${grant.status} to ${to}`);
+    }
+  }
+}
+
+// Export singleton instance
+let emergencyGrantServiceInstance: EmergencyGrantService | null = null;
+
+export function getEmergencyGrantService(): EmergencyGrantService {
+  if (!emergencyGrantServiceInstance) {
+    emergencyGrantServiceInstance = new EmergencyGrantService();
+  }
+  return emergencyGrantServiceInstance;
+}
@@ -0,0 +1,146 @@
+/**
+ * @file Emergency Justification Service
+ * @description Admin-managed catalogue of emergency justification codes
+ * Each code sets the approvals and approver roles a request needs, its longest access, the
+ * records it can open and whether a written justification is required. Codes are deactivated
+ * rather than deleted, since past grants refer to them.
+ */
+
+import db from '../database';
+import { getSearchIndexService } from '../search';
+import { EmergencyJustification, EmergencyJustificationInput } from '../../types';
+
+export class EmergencyJustificationService {
+  /**
+   * Catalogue codes, optionally including deactivated ones
+   */
+  async listCodes(includeInactive: boolean = false): Promise<EmergencyJustification[]> {
+    return db.manyOrNone(
+      `SELECT * FROM emergency_justification_codes
+       WHERE $1 = TRUE OR active = TRUE
+       ORDER BY code`,
+      [includeInactive]
+    );
+  }
+
+  /**
+   * Get a code, active or not
+   */
+  async getCode(code: number): Promise<EmergencyJustification | null> {
+    return db.oneOrNone('SELECT * FROM emergency_justification_codes WHERE code = $1', [code]);
+  }
+
+  /**
+   * Add a code
+   * Returns null when the code already exists
+   */
+  async createCode(
+    code: number,
+    input: EmergencyJustificationInput,
+    createdBy: string
+  ): Promise<EmergencyJustification | null> {
+    return db.oneOrNone(
+      `INSERT INTO emergency_justification_codes
+         (code, label, description, contract_code, approvals_required, approver_roles,
+          max_duration_seconds, record_categories, notes_required, notes_min_length, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11)
+       ON CONFLICT (code) DO NOTHING
+       RETURNING *`,
+      [
+        code,
+        input.label,
+        input.description || null,
+        input.contractCode,
+        input.approvalsRequired,
+        input.approverRoles,
+        input.maxDurationSeconds,
+        input.recordCategories || null,
+        input.notesRequired,
+        input.notesMinLength,
+        createdBy,
+      ]
+    );
+  }
+
+  /**
+   * Replace a code's rules; requests already made keep the duration they were given
+   */
+  async updateCode(
+    code: number,
+    input: EmergencyJustificationInput
+  ): Promise<EmergencyJustification | null> {
+    return db.oneOrNone(
+      `UPDATE emergency_justification_codes
+       SET label = $2, description = $3, contract_code = $4, approvals_required = $5,
+           approver_roles = $6, max_duration_seconds = $7, record_categories = $8,
+           notes_required = $9, notes_min_length = $10, active = TRUE
+       WHERE code = $1
+       RETURNING *`,
+      [
+        code,
+        input.label,
+        input.description || null,
+        input.contractCode,
+        input.approvalsRequired,
+        input.approverRoles,
+        input.maxDurationSeconds,
+        input.recordCategories || null,
+        input.notesRequired,
+        input.notesMinLength,
+      ]
+    );
+  }
+
+  /**
+   * Stop a code from being used for new requests
+   */
+  async deactivateCode(code: number): Promise<EmergencyJustification | null> {
+    return db.oneOrNone(
+      `UPDATE emergency_justification_codes SET active = FALSE
+       WHERE code = $1
+       RETURNING *`,
+      [code]
+    );
+  }
+
+  /**
+   * Whether written justification meets a code's requirement
+   */
+  meetsNotesRequirement(justification: EmergencyJustification, notes: string | null): boolean {
+    if (!justification.notes_required) {
+      return true;
+    }
+    return !!notes && notes.length >= Math.max(justification.notes_min_length, 1);
+  }
+
+  /**
+   * Whether a record falls in one of a code's eligible categories
+   * Categories are matched against the record's search index, so the record is not decrypted;
+   * a code without categories covers every record
+   */
+  async isRecordEligible(
+    justification: EmergencyJustification,
+    patientWallet: string,
+    recordId: number
+  ): Promise<boolean> {
+    if (!justification.record_categories || justification.record_categories.length === 0) {
+      return true;
+    }
+
+    return getSearchIndexService().hasAnyCode(
+      patientWallet,
+      recordId,
+      justification.record_categories
+    );
+  }
+}
+
+// Export singleton instance
+let emergencyJustificationServiceInstance: EmergencyJustificationService | null = null;
+
+export function getEmergencyJustificationService(): EmergencyJustificationService {
+  if (!emergencyJustificationServiceInstance) {
+    emergencyJustificationServiceInstance = new EmergencyJustificationService();
+  }
+  return emergencyJustificationServiceInstance;
+}
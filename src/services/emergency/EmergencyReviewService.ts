@@ -0,0 +1,136 @@
+/**
+ * @file Emergency Review Service
+ * @description Post-hoc review of emergency ("break glass") access
+ * A review is opened when a grant is confirmed. The privacy officer sees the grant's
+ * justification, the reads made under it and its timeline, then marks the access appropriate
+ * or inappropriate.
+ */
+
+import db from '../database';
+import {
+  EmergencyGrant,
+  EmergencyReview,
+  EmergencyReviewEvent,
+  EmergencyReviewStatus,
+} from '../../types';
+
+export class EmergencyReviewService {
+  /**
+   * Get a review
+   */
+  async getReview(reviewId: number): Promise<EmergencyReview | null> {
+    return db.oneOrNone('SELECT * FROM emergency_reviews WHERE id = $1', [reviewId]);
+  }
+
+  /**
+   * Reviews, oldest first so the queue is worked in order
+   */
+  async listReviews(status?: EmergencyReviewStatus): Promise<{ [key: string]: any }[]> {
+    return db.manyOrNone(
+      `SELECT er.id, er.grant_id, er.patient_wallet, er.status, er.reviewer_wallet,
+              er.reviewed_at, er.created_at, eg.record_id, eg.physician1_wallet,
+              eg.physician2_wallet, eg.justification_code, eg.confirmed_at,
+              eg.status AS grant_status
+       FROM emergency_reviews er
+       JOIN emergency_grants eg ON er.grant_id = eg.grant_id
+       WHERE ($1::text IS NULL OR er.status = $1)
+       ORDER BY er.created_at
+       LIMIT 100`,
+      [status || null]
+    );
+  }
+
+  /**
+   * The review of a grant, if one was opened
+   */
+  async getReviewForGrant(grantId: string): Promise<EmergencyReview | null> {
+    return db.oneOrNone('SELECT * FROM emergency_reviews WHERE grant_id = $1', [grantId]);
+  }
+
+  /**
+   * Reads of the grant's record by either physician while the grant was open
+   * A grant that was not revoked stays open until its expiration
+   */
+  async listAccesses(grant: EmergencyGrant): Promise<{ [key: string]: any }[]> {
+    return db.manyOrNone(
+      `SELECT al.record_id, al.accessor_wallet, al.accessed_at, al.ip_address, al.user_agent
+       FROM access_logs al
+       WHERE LOWER(al.patient_wallet) = LOWER($1)
+         AND al.record_id = $2
+         AND (LOWER(al.accessor_wallet) = LOWER($3) OR LOWER(al.accessor_wallet) = LOWER($4))
+         AND al.accessed_at >= $5::timestamp
+         AND al.accessed_at <= COALESCE($6::timestamp, $7::timestamp)
+       ORDER BY al.accessed_at`,
+      [
+        grant.patient_wallet,
+        grant.record_id,
+        grant.physician1_wallet,
+        grant.physician2_wallet,
+        grant.created_at,
+        grant.revoked_at,
+        grant.expiration,
+      ]
+    );
+  }
+
+  /**
+   * Everything that happened to a grant, from its audit entries and the reads made under it
+   */
+  async getTimeline(
+    grant: EmergencyGrant,
+    accesses: { [key: string]: any }[]
+  ): Promise<EmergencyReviewEvent[]> {
+    const entries = await db.manyOrNone(
+      `SELECT wallet_address, action, transaction_hash, created_at
+       FROM audit_log
+       WHERE details->>'grantId' = $1
+       ORDER BY created_at`,
+      [grant.grant_id]
+    );
+
+    const timeline: EmergencyReviewEvent[] = [
+      ...entries.map((entry) => ({
+        at: entry.created_at,
+        event: entry.action,
+        walletAddress: entry.wallet_address,
+        transactionHash: entry.transaction_hash,
+      })),
+      ...accesses.map((access) => ({
+        at: access.accessed_at,
+        event: 'record_read',
+        walletAddress: access.accessor_wallet,
+      })),
+    ];
+
+    return timeline.sort((a, b) => new Date(a.at).getTime() - new Date(b.at).getTime());
+  }
+
+  /**
+   * Record the reviewer's outcome
+   * Returns null when the review was already decided
+   */
+  async decide(
+    review: EmergencyReview,
+    reviewerWallet: string,
+    outcome: Exclude<EmergencyReviewStatus, 'pending'>,
+    notes: string | null
+  ): Promise<EmergencyReview | null> {
+    return db.oneOrNone(
+      `UPDATE emergency_reviews
+       SET status = $2, reviewer_wallet = $3, notes = $4, reviewed_at = NOW()
+       WHERE id = $1 AND status = 'pending'
+       RETURNING *`,
+      [review.id, outcome, reviewerWallet, notes]
+    );
+  }
+}
+
+// Export singleton instance
+let emergencyReviewServiceInstance: EmergencyReviewService | null = null;
+
+export function getEmergencyReviewService(): EmergencyReviewService {
+  if (!emergencyReviewServiceInstance) {
+    emergencyReviewServiceInstance = new EmergencyReviewService();
+  }
+  return emergencyReviewServiceInstance;
+}
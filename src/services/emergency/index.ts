@@ -0,0 +1,9 @@
+/**
+ * @file Emergency Services
+ * @description Export emergency grant modules
+ */
+
+export * from './EmergencyDirectiveService';
+export * from './EmergencyGrantService';
+export * from './EmergencyJustificationService';
+export * from './EmergencyReviewService';
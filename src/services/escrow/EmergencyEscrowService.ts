@@ -0,0 +1,150 @@
+/**
+ * @file Emergency Escrow Service
+ * @description Break-glass escrow of record keys
+ * Every record key is sealed under a master subkey when the record is added, and only opened
+ * once an emergency grant's approvals complete. This is master-key escrow: whoever holds
+ * ENCRYPTION_MASTER_KEY can open any escrowed key, as they can any custodial key. Splitting
+ * the key between holders would only help if each held key material of their own, and the
+ * approving physicians are not known when a record is added.
+ *
+ * Keys escrowed before migration 030 were split 2-of-3 with Shamir's scheme, each share under
+ * a subkey of the same master key; they are reconstructed from all three shares.
+ */
+
+import db from '../database';
+import { deriveMasterSubkey } from '../custody/master-key';
+import * as aesGcm from '../../utils/aes-gcm';
+import * as shamir from '../../utils/shamir';
+import { sha256 } from '../../utils/hash';
+import { RecordKeyEscrow } from '../../types';
+
+type EscrowHolder = 'hsm' | 'approver1' | 'approver2';
+
+/**
+ * A sealed record key, ready to be stored
+ */
+export interface SealedRecordKey {
+  sealedKey: string;
+  keyDigest: string;
+}
+
+export class EmergencyEscrowService {
+  /**
+   * Seal a record key for escrow
+   */
+  sealKey(patientWallet: string, aesKey: Buffer): SealedRecordKey {
+    return {
+      sealedKey: aesGcm.encryptToBase64(aesKey, this.escrowKey(patientWallet)),
+      keyDigest: sha256(aesKey),
+    };
+  }
+
+  /**
+   * Store the sealed key of a record
+   * A record key never changes, so a key escrowed earlier is kept
+   */
+  async storeSealedKey(
+    patientWallet: string,
+    recordId: number,
+    sealed: SealedRecordKey
+  ): Promise<void> {
+    await db.none(
+      `INSERT INTO record_key_escrow (patient_wallet, record_id, sealed_key, key_digest)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (patient_wallet, record_id) DO NOTHING`,
+      [patientWallet, recordId, sealed.sealedKey, sealed.keyDigest]
+    );
+  }
+
+  /**
+   * Escrow a record key
+   */
+  async escrowRecordKey(patientWallet: string, recordId: number, aesKey: Buffer): Promise<void> {
+    await this.storeSealedKey(patientWallet, recordId, this.sealKey(patientWallet, aesKey));
+  }
+
+  /**
+   * Whether a record's key is escrowed
+   */
+  async hasEscrow(patientWallet: string, recordId: number): Promise<boolean> {
+    const escrow = await db.oneOrNone(
+      `SELECT 1 FROM record_key_escrow
+       WHERE LOWER(patient_wallet) = LOWER($1) AND record_id = $2`,
+      [patientWallet, recordId]
+    );
+    return escrow !== null;
+  }
+
+  /**
+   * Open a record key for an emergency grant whose approvals are complete
+   * Returns null when the record's key was never escrowed
+   */
+  async releaseRecordKey(patientWallet: string, recordId: number): Promise<Buffer | null> {
+    const escrow: RecordKeyEscrow | null = await db.oneOrNone(
+      `SELECT * FROM record_key_escrow
+       WHERE LOWER(patient_wallet) = LOWER($1) AND record_id = $2`,
+      [patientWallet, recordId]
+    );
+    if (!escrow) {
+      return null;
+    }
+
+    const aesKey = escrow.sealed_key
+      ? aesGcm.decryptFromBase64(escrow.sealed_key, this.escrowKey(escrow.patient_wallet))
+      : this.combineLegacyShares(escrow);
+
+    // A wrong sealing key or share would yield an unrelated key, so check the escrowed digest
+    if (sha256(aesKey) !== escrow.key_digest) {
+      aesKey.fill(0);
+      throw new Error(`Escrowed key for record ${recordId} does not match its digest`);
+    }
+
+    return aesKey;
+  }
+
+  /**
+   * Reconstruct a key escrowed as Shamir shares before migration 030
+   */
+  private combineLegacyShares(escrow: RecordKeyEscrow): Buffer {
+    const sealed: [EscrowHolder, string | null][] = [
+      ['hsm', escrow.hsm_share],
+      ['approver1', escrow.approver1_share],
+      ['approver2', escrow.approver2_share],
+    ];
+    const shares = sealed
+      .filter((entry): entry is [EscrowHolder, string] => entry[1] !== null)
+      .map(([holder, share]) =>
+        aesGcm.decryptFromBase64(share, this.holderKey(holder, escrow.patient_wallet))
+      );
+
+    try {
+      return shamir.combineShares(shares);
+    } finally {
+      shares.forEach((share) => share.fill(0));
+    }
+  }
+
+  /**
+   * Sealing key of a patient's escrowed record keys
+   */
+  private escrowKey(patientWallet: string): Buffer {
+    return deriveMasterSubkey('emergency-escrow', `key:${patientWallet.toLowerCase()}`);
+  }
+
+  /**
+   * Sealing key of one holder's legacy shares for a patient
+   */
+  private holderKey(holder: EscrowHolder, patientWallet: string): Buffer {
+    return deriveMasterSubkey('emergency-escrow', `${holder}:${patientWallet.toLowerCase()}`);
+  }
+}
+
+// Export singleton instance
+let emergencyEscrowServiceInstance: EmergencyEscrowService | null = null;
+
+export function getEmergencyEscrowService(): EmergencyEscrowService {
+  if (!emergencyEscrowServiceInstance) {
+    emergencyEscrowServiceInstance = new EmergencyEscrowService();
+  }
+  return emergencyEscrowServiceInstance;
+}
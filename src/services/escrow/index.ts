@@ -0,0 +1,6 @@
+/**
+ * @file Escrow Services
+ * @description Export emergency key escrow modules
+ */
+
+export * from './EmergencyEscrowService';
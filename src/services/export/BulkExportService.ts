@@ -0,0 +1,317 @@
+/**
+ * @file Bulk Export Service
+ * @description FHIR Bulk Data `$export` of every record a requester can read
+ * The job decrypts records through the same on-chain access check as a read, groups them
+ * into one NDJSON file per resource type and stores each file encrypted under its own key.
+ * File keys are kept encrypted under a master subkey and wiped when the file expires.
+ */
+
+import crypto from 'crypto';
+import db from '../database';
+import config from '../../config';
+import { deriveMasterSubkey } from '../custody/master-key';
+import { createStorageService } from '../storage';
+import { getJobRunner, JobContext } from '../jobs';
+import { getRecordService } from '../records';
+import { toPatientResource, toRecordResource } from '../fhir';
+import * as aesGcm from '../../utils/aes-gcm';
+import { sha256 } from '../../utils/hash';
+import {
+  ExportFile,
+  FHIRResource,
+  FhirExportJobPayload,
+  FhirExportProgress,
+  FhirExportResult,
+  Job,
+} from '../../types';
+
+export class BulkExportService {
+  /**
+   * Patients whose records a requester may be able to read: themselves, patients who granted
+   * them access and patients under a confirmed emergency grant
+   * Every record is still checked on-chain when the export runs
+   */
+  async listExportablePatients(requester: string): Promise<string[]> {
+    const rows = await db.manyOrNone(
+      `SELECT wallet_address AS patient FROM users
+       WHERE wallet_address = $1 AND patient_contract_address IS NOT NULL
+       UNION
+       SELECT patient_wallet FROM permissions
+       WHERE grantee_wallet = $1 AND revoked = FALSE AND suspended = FALSE
+         AND expiration > NOW()
+       UNION
+       SELECT patient_wallet FROM emergency_grants
+       WHERE status = 'confirmed' AND expiration > NOW()
+         AND ((physician1_wallet = $1 AND physician1_suspended = FALSE)
+           OR (physician2_wallet = $1 AND physician2_suspended = FALSE))`,
+      [requester]
+    );
+    return rows.map((row) => row.patient);
+  }
+
+  /**
+   * Queue an export for a requester
+   */
+  async enqueue(requester: string, payload: FhirExportJobPayload): Promise<Job> {
+    await this.purgeExpired();
+    return getJobRunner().enqueue('fhir_export', requester, payload, requester);
+  }
+
+  /**
+   * An export job, or null if it does not exist or belongs to someone else
+   */
+  async getExport(jobId: number, requester: string): Promise<Job | null> {
+    const job = await getJobRunner().getJob(jobId);
+    if (
+      !job ||
+      job.job_type !== 'fhir_export' ||
+      job.wallet_address.toLowerCase() !== requester.toLowerCase()
+    ) {
+      return null;
+    }
+    return job;
+  }
+
+  /**
+   * Files written by an export
+   */
+  async listFiles(jobId: number): Promise<ExportFile[]> {
+    return db.manyOrNone(
+      `SELECT * FROM export_files WHERE job_id = $1 ORDER BY kind DESC, resource_type`,
+      [jobId]
+    );
+  }
+
+  /**
+   * Decrypted NDJSON of a file, or null once it has expired
+   */
+  async readFile(file: ExportFile): Promise<Buffer | null> {
+    if (!file.encrypted_key || new Date(file.expires_at) <= new Date()) {
+      return null;
+    }
+
+    const aesKey = aesGcm.decryptFromBase64(file.encrypted_key, this.fileKey(file.job_id));
+    const encryptedBlob = await createStorageService().retrieve(
+      file.storage_pointer,
+      file.content_digest.slice(2) // Remove 0x prefix
+    );
+
+    const iv = encryptedBlob.slice(0, 12);
+    const authTag = encryptedBlob.slice(-16);
+    const ciphertext = encryptedBlob.slice(12, -16);
+    return aesGcm.decrypt(ciphertext, aesKey, iv, authTag);
+  }
+
+  /**
+   * Expire an export's files now
+   */
+  async expireFiles(jobId: number): Promise<void> {
+    await db.none(
+      `UPDATE export_files SET encrypted_key = NULL, expires_at = LEAST(expires_at, NOW())
+       WHERE job_id = $1`,
+      [jobId]
+    );
+  }
+
+  /**
+   * Wipe the keys of expired files
+   */
+  async purgeExpired(): Promise<void> {
+    await db.none(
+      `UPDATE export_files SET encrypted_key = NULL
+       WHERE expires_at <= NOW() AND encrypted_key IS NOT NULL`
+    );
+  }
+
+  /**
+   * Job handler: decrypt every readable record and write one NDJSON file per resource type
+   */
+  async run(job: Job, context: JobContext): Promise<FhirExportResult> {
+    const requester = job.wallet_address;
+    const { types, since, patients } = job.payload as FhirExportJobPayload;
+    const transactionTime = new Date();
+    const sinceTime = since ? new Date(since).getTime() : null;
+    const included = (type: string) => !types || types.includes(type);
+
+    const recordService = getRecordService();
+    const exportable = await this.listExportablePatients(requester);
+    const targets = patients
+      ? exportable.filter((patient) =>
+          patients.some((requested) => requested.toLowerCase() === patient.toLowerCase())
+        )
+      : exportable;
+
+    const output = new Map<string, FHIRResource[]>();
+    const errors: FHIRResource[] = [];
+    const progress: FhirExportProgress = {
+      patients: targets.length,
+      patientsProcessed: 0,
+      exported: 0,
+      errors: 0,
+    };
+    await context.reportProgress(progress);
+
+    const add = (resource: FHIRResource) => {
+      if (!output.has(resource.resourceType)) {
+        output.set(resource.resourceType, []);
+      }
+      output.get(resource.resourceType)!.push(resource);
+      progress.exported++;
+    };
+
+    const fail = (diagnostics: string) => {
+      errors.push({
+        resourceType: 'OperationOutcome',
+        issue: [{ severity: 'error', code: 'processing', diagnostics }],
+      });
+      progress.errors++;
+    };
+
+    for (const patientAddress of targets) {
+      const patientRecordsService = await recordService.getPatientRecordsService(patientAddress);
+      const recordIds = patientRecordsService
+        ? await recordService.listReadableRecordIds(
+            requester,
+            patientAddress,
+            patientRecordsService
+          )
+        : [];
+
+      let exportedForPatient = 0;
+      for (const recordId of recordIds) {
+        try {
+          const record = await recordService.readRecord(
+            requester,
+            patientAddress,
+            patientRecordsService!,
+            recordId
+          );
+
+          // Attachment manifests are not FHIR resources
+          if (
+            !record?.fhirData.resourceType ||
+            !included(record.fhirData.resourceType) ||
+            (sinceTime !== null && record.metadata.lastUpdated * 1000 < sinceTime)
+          ) {
+            continue;
+          }
+
+          await recordService.logAccess(recordId, requester, patientAddress);
+          add(toRecordResource(patientAddress, record));
+          exportedForPatient++;
+        } catch (error) {
+          fail(`Record ${recordId} of Patient/${patientAddress} could not be exported`);
+        }
+      }
+
+      // The Patient resource accompanies the patient's exported records
+      const isSelf = patientAddress.toLowerCase() === requester.toLowerCase();
+      if (included('Patient') && (isSelf || exportedForPatient > 0)) {
+        const user = await db.oneOrNone(
+          'SELECT wallet_address, name, email FROM users WHERE wallet_address = $1',
+          [patientAddress]
+        );
+        if (user) {
+          add(toPatientResource(user));
+        }
+      }
+
+      progress.patientsProcessed++;
+      await context.reportProgress(progress);
+    }
+
+    const expiresAt = new Date(Date.now() + config.exports.fileTtl * 1000);
+
+    for (const [resourceType, resources] of output) {
+      await this.writeFile(job.id, 'output', resourceType, resources, expiresAt);
+    }
+    if (errors.length > 0) {
+      await this.writeFile(job.id, 'error', 'OperationOutcome', errors, expiresAt);
+    }
+
+    // Cancelled while running: the files must not outlive the request
+    const current = await getJobRunner().getJob(job.id);
+    if (current?.status !== 'running') {
+      await this.expireFiles(job.id);
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        requester,
+        'fhir_export_completed',
+        {
+          jobId: job.id,
+          patients: targets,
+          exported: progress.exported,
+          errors: progress.errors,
+        },
+      ]
+    );
+
+    return {
+      ...progress,
+      transactionTime: transactionTime.toISOString(),
+      expiresAt: expiresAt.toISOString(),
+    };
+  }
+
+  /**
+   * Encrypt an NDJSON file under a fresh key and store it
+   */
+  private async writeFile(
+    jobId: number,
+    kind: 'output' | 'error',
+    resourceType: string,
+    resources: FHIRResource[],
+    expiresAt: Date
+  ): Promise<void> {
+    const ndjson = resources.map((resource) => JSON.stringify(resource)).join('\n') + '\n';
+
+    const aesKey = crypto.randomBytes(32);
+    const encrypted = aesGcm.encrypt(ndjson, aesKey);
+    const encryptedBlob = Buffer.concat([encrypted.iv, encrypted.ciphertext, encrypted.authTag]);
+    const contentDigest = '0x' + sha256(encryptedBlob);
+
+    const storageResult = await createStorageService().store(encryptedBlob, {
+      contentDigest: contentDigest.slice(2), // Remove 0x prefix
+    });
+
+    await db.none(
+      `INSERT INTO export_files
+         (job_id, kind, resource_type, resource_count, storage_pointer, content_digest, encrypted_key, expires_at)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
+      [
+        jobId,
+        kind,
+        resourceType,
+        resources.length,
+        storageResult.pointer,
+        contentDigest,
+        aesGcm.encryptToBase64(aesKey, this.fileKey(jobId)),
+        expiresAt,
+      ]
+    );
+
+    aesKey.fill(0);
+  }
+
+  /**
+   * Subkey protecting an export's file keys
+   */
+  private fileKey(jobId: number): Buffer {
+    return deriveMasterSubkey('fhir-export', String(jobId));
+  }
+}
+
+// Export singleton instance
+let bulkExportServiceInstance: BulkExportService | null = null;
+
+export function getBulkExportService(): BulkExportService {
+  if (!bulkExportServiceInstance) {
+    bulkExportServiceInstance = new BulkExportService();
+  }
+  return bulkExportServiceInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file Export Services
+ * @description Export FHIR Bulk Data modules
+ */
+
+export * from './BulkExportService';
@@ -0,0 +1,163 @@
+/**
+ * @file FHIR Validator
+ * @description Validates FHIR resources against the core StructureDefinitions
+ * Cardinality, datatypes, required bindings and reference target types are checked by the
+ * conformance parser; reference formats and contained targets are checked here.
+ * Strict mode rejects unknown properties and disallowed reference targets; lenient mode
+ * reports them as warnings.
+ */
+
+import { Fhir, ParseConformance, ValidatorMessage } from 'fhir';
+import config from '../../config';
+import {
+  FhirValidationMode,
+  FhirValidationResult,
+  OperationOutcomeIssue,
+  OperationOutcomeSeverity,
+} from '../../types';
+
+// Type/id[/_history/vid], optionally prefixed with a server base URL
+const RELATIVE_REFERENCE =
+  /^(?:https?:\/\/\S+\/)?[A-Z][A-Za-z]+\/[\w\-.]{1,64}(?:\/_history\/[\w\-.]{1,64})?$/;
+const URN_REFERENCE = /^urn:(?:uuid:[0-9a-f-]{36}|oid:[0-2](?:\.(?:0|[1-9]\d*))+)$/i;
+
+export class FhirValidator {
+  private fhir: Fhir;
+
+  constructor(version: string = config.fhir.version) {
+    this.fhir = new Fhir(new ParseConformance(true, version));
+  }
+
+  /**
+   * Concrete resource types known to the loaded FHIR version
+   */
+  getResourceTypes(): string[] {
+    return Object.entries(this.fhir.parser.parsedStructureDefinitions)
+      .filter(([, structure]) => structure._kind === 'resource')
+      .map(([type]) => type)
+      .filter((type) => type !== 'Resource' && type !== 'DomainResource')
+      .sort();
+  }
+
+  /**
+   * Mode used for a resource type (per-type overrides, then the default)
+   */
+  getMode(resourceType: string): FhirValidationMode {
+    if (config.fhir.strictResourceTypes.includes(resourceType)) {
+      return 'strict';
+    }
+    if (config.fhir.lenientResourceTypes.includes(resourceType)) {
+      return 'lenient';
+    }
+    return config.fhir.strictValidation ? 'strict' : 'lenient';
+  }
+
+  /**
+   * Validate a resource and describe the result as an OperationOutcome
+   */
+  validate(resource: any, mode?: FhirValidationMode): FhirValidationResult {
+    const validationMode = mode || this.getMode(resource?.resourceType);
+    const strict = validationMode === 'strict';
+
+    const response = this.fhir.validate(resource, {
+      errorOnUnexpected: strict,
+      onBeforeValidateProperty: (_resource, property, location, value) => {
+        if (property._type !== 'Reference' || value === undefined || value === null) {
+          return [];
+        }
+        if (Array.isArray(value)) {
+          return value.flatMap((reference, index) =>
+            this.checkReference(resource, reference, `${location}[${index}]`)
+          );
+        }
+        return this.checkReference(resource, value, location);
+      },
+    });
+
+    const issue = response.messages.map((message) => this.toIssue(message, strict));
+
+    return {
+      valid: !issue.some((i) => i.severity === 'error' || i.severity === 'fatal'),
+      mode: validationMode,
+      outcome: {
+        resourceType: 'OperationOutcome',
+        issue: issue.length
+          ? issue
+          : [{ severity: 'information', code: 'informational', diagnostics: 'All OK' }],
+      },
+    };
+  }
+
+  /**
+   * Check a Reference value's format and, for local references, its contained target
+   */
+  private checkReference(resource: any, reference: any, location: string): ValidatorMessage[] {
+    const literal = reference?.reference;
+    if (typeof literal !== 'string') {
+      // Logical references (identifier / display only) are allowed
+      return [];
+    }
+
+    let problem: string | null = null;
+    if (literal.startsWith('#')) {
+      const contained: any[] = Array.isArray(resource.contained) ? resource.contained : [];
+      if (literal !== '#' && !contained.some((c) => c && `#${c.id}` === literal)) {
+        problem = `Contained resource "${literal}" not found`;
+      }
+    } else if (!RELATIVE_REFERENCE.test(literal) && !URN_REFERENCE.test(literal)) {
+      problem = `Invalid reference "${literal}"`;
+    }
+
+    return problem
+      ? [{ location, severity: 'error' as ValidatorMessage['severity'], message: problem }]
+      : [];
+  }
+
+  /**
+   * Map a validator message to an OperationOutcome issue
+   */
+  private toIssue(message: ValidatorMessage, strict: boolean): OperationOutcomeIssue {
+    const text = message.message || 'Invalid resource';
+    let severity: OperationOutcomeSeverity =
+      message.severity === 'info'
+        ? 'information'
+        : (message.severity as OperationOutcomeSeverity) || 'error';
+
+    // Lenient mode tolerates references to resource types the element does not allow
+    if (!strict && severity === 'error' && text.startsWith('Invalid type for reference')) {
+      severity = 'warning';
+    }
+
+    let code = 'invalid';
+    if (text.startsWith('Missing property')) {
+      code = 'required';
+    } else if (text.startsWith('Unexpected property')) {
+      code = 'structure';
+    } else if (text.includes('value set')) {
+      code = 'code-invalid';
+    } else if (
+      text.includes('expected') ||
+      text.includes('format') ||
+      text.startsWith('Invalid type')
+    ) {
+      code = 'value';
+    }
+
+    return {
+      severity,
+      code,
+      diagnostics: text,
+      ...(message.location && { expression: [message.location] }),
+    };
+  }
+}
+
+// Export singleton instance (parsing the conformance resources is done once)
+let fhirValidatorInstance: FhirValidator | null = null;
+
+export function getFhirValidator(): FhirValidator {
+  if (!fhirValidatorInstance) {
+    fhirValidatorInstance = new FhirValidator();
+  }
+  return fhirValidatorInstance;
+}
@@ -0,0 +1,7 @@
+/**
+ * @file FHIR Services
+ * @description Export FHIR modules
+ */
+
+export * from './FhirValidator';
+export * from './resources';
@@ -0,0 +1,41 @@
+/**
+ * @file FHIR Resources
+ * @description Builds FHIR resources from records and accounts
+ * Record resources have the logical id `<patientAddress>-<recordId>`; a patient's wallet
+ * address is the id of their Patient resource.
+ */
+
+import { DecryptedRecord } from '../records';
+import { FHIRResource } from '../../types';
+
+/**
+ * Attach the logical id and meta to a decrypted record
+ */
+export function toRecordResource(patientAddress: string, record: DecryptedRecord): FHIRResource {
+  return {
+    ...record.fhirData,
+    id: `${patientAddress.toLowerCase()}-${record.recordId}`,
+    meta: {
+      ...record.fhirData.meta,
+      versionId: String(record.version),
+      lastUpdated: new Date(record.metadata.timestamp * 1000).toISOString(),
+    },
+  };
+}
+
+/**
+ * Patient resource for a patient account
+ */
+export function toPatientResource(user: {
+  wallet_address: string;
+  name: string;
+  email: string;
+}): FHIRResource {
+  return {
+    resourceType: 'Patient',
+    id: user.wallet_address.toLowerCase(),
+    identifier: [{ system: 'urn:ethereum:address', value: user.wallet_address }],
+    name: [{ text: user.name }],
+    telecom: [{ system: 'email', value: user.email }],
+  };
+}
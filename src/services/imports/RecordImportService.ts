@@ -0,0 +1,470 @@
+/**
+ * @file Record Import Service
+ * @description Bulk ingestion of FHIR resources from a Bundle or NDJSON
+ * Entries are kept encrypted under a master subkey until registered, then processed by a
+ * background job in batches: validate, encrypt and store, send the addRecord transactions of
+ * the batch, then wait for their receipts. Each step is saved per entry, so a job that is
+ * interrupted or retried resumes where it stopped instead of registering a record twice.
+ */
+
+import db from '../database';
+import config from '../../config';
+import { getKeyVault } from '../custody';
+import { deriveMasterSubkey } from '../custody/master-key';
+import { getKeyRegistryService } from '../blockchain/KeyRegistryService';
+import { PatientRecordsService } from '../blockchain/PatientRecordsService';
+import { getFhirValidator } from '../fhir';
+import { getJobRunner, JobContext } from '../jobs';
+import { getRecordService } from '../records';
+import { getSearchIndexService } from '../search';
+import { getPermissionRuleService } from '../permissions';
+import { getEmergencyEscrowService } from '../escrow';
+import * as aesGcm from '../../utils/aes-gcm';
+import * as ecies from '../../utils/ecies';
+import {
+  Job,
+  OperationOutcomeIssue,
+  RecordImport,
+  RecordImportEntry,
+  RecordImportFormat,
+  RecordImportJobPayload,
+  RecordImportReport,
+} from '../../types';
+
+const BUNDLE_TYPES = ['transaction', 'collection'];
+const CREATE_METHODS = ['POST', 'PUT'];
+
+export interface ParsedImportEntry {
+  resource: any;
+  issue?: OperationOutcomeIssue;
+}
+
+export interface ParsedImport {
+  format: RecordImportFormat;
+  entries: ParsedImportEntry[];
+}
+
+/**
+ * Issue for an entry that cannot be imported
+ */
+function entryIssue(diagnostics: string, expression?: string): OperationOutcomeIssue {
+  return {
+    severity: 'error',
+    code: 'invalid',
+    diagnostics,
+    ...(expression && { expression: [expression] }),
+  };
+}
+
+export class RecordImportService {
+  /**
+   * Split a request body into entries
+   * Accepts a transaction or collection Bundle, or NDJSON text (one resource per line)
+   */
+  parse(body: any): ParsedImport {
+    if (typeof body === 'string') {
+      const entries = body
+        .split(/\r?\n/)
+        .filter((line) => line.trim().length > 0)
+        .map((line, index): ParsedImportEntry => {
+          try {
+            return { resource: JSON.parse(line) };
+          } catch (error) {
+            return { resource: null, issue: entryIssue(`Line ${index + 1} is not valid JSON`) };
+          }
+        });
+      return this.checkSize({ format: 'ndjson', entries });
+    }
+
+    if (body?.resourceType !== 'Bundle') {
+      throw new Error('Expected a FHIR Bundle or NDJSON');
+    }
+    if (!BUNDLE_TYPES.includes(body.type)) {
+      throw new Error(`Bundle type must be one of: ${BUNDLE_TYPES.join(', ')}`);
+    }
+
+    const bundleEntries: any[] = Array.isArray(body.entry) ? body.entry : [];
+    const entries = bundleEntries.map((entry, index): ParsedImportEntry => {
+      const method = entry?.request?.method;
+      if (body.type === 'transaction' && method && !CREATE_METHODS.includes(method)) {
+        return {
+          resource: null,
+          issue: entryIssue(
+            `Only create entries can be imported, not ${method}`,
+            `entry[${index}]`
+          ),
+        };
+      }
+      if (!entry?.resource) {
+        return { resource: null, issue: entryIssue('Entry has no resource', `entry[${index}]`) };
+      }
+      return { resource: entry.resource };
+    });
+
+    return this.checkSize({ format: 'bundle', entries });
+  }
+
+  /**
+   * Save the entries (encrypted) and queue the import job
+   */
+  async createImport(
+    patientWallet: string,
+    parsed: ParsedImport,
+    createdBy: string
+  ): Promise<{ recordImport: RecordImport; job: Job }> {
+    const key = this.entryKey(patientWallet);
+
+    const recordImport: RecordImport = await db.tx(async (t) => {
+      const created = await t.one(
+        `INSERT INTO record_imports (patient_wallet, format, entry_count, created_by)
+         VALUES ($1, $2, $3, $4)
+         RETURNING *`,
+        [patientWallet, parsed.format, parsed.entries.length, createdBy]
+      );
+
+      for (const [index, entry] of parsed.entries.entries()) {
+        await t.none(
+          `INSERT INTO record_import_entries
+             (import_id, entry_index, resource_type, encrypted_resource, status, issues)
+           VALUES ($1, $2, $3, $4, $5, $6)`,
+          [
+            created.id,
+            index,
+            typeof entry.resource?.resourceType === 'string'
+              ? entry.resource.resourceType.slice(0, 64)
+              : null,
+            entry.issue ? null : aesGcm.encryptToBase64(JSON.stringify(entry.resource), key),
+            entry.issue ? 'invalid' : 'pending',
+            entry.issue ? JSON.stringify([entry.issue]) : null,
+          ]
+        );
+      }
+
+      return created;
+    });
+
+    const payload: RecordImportJobPayload = { importId: recordImport.id };
+    const job = await getJobRunner().enqueue('record_import', patientWallet, payload, createdBy);
+
+    await db.none('UPDATE record_imports SET job_id = $2 WHERE id = $1', [recordImport.id, job.id]);
+
+    return { recordImport: { ...recordImport, job_id: job.id }, job };
+  }
+
+  /**
+   * Get an import
+   */
+  async getImport(importId: number): Promise<RecordImport | null> {
+    return db.oneOrNone('SELECT * FROM record_imports WHERE id = $1', [importId]);
+  }
+
+  /**
+   * Per-entry status of an import
+   */
+  async listEntries(importId: number): Promise<RecordImportEntry[]> {
+    return db.manyOrNone(
+      'SELECT * FROM record_import_entries WHERE import_id = $1 ORDER BY entry_index',
+      [importId]
+    );
+  }
+
+  /**
+   * Job handler: validate, store and register every unfinished entry, in batches
+   */
+  async run(job: Job, context: JobContext): Promise<RecordImportReport> {
+    const { importId } = job.payload as RecordImportJobPayload;
+    const recordImport = await this.getImport(importId);
+
+    if (!recordImport) {
+      throw new Error(`Import ${importId} not found`);
+    }
+
+    const patientWallet = recordImport.patient_wallet;
+    const vault = getKeyVault();
+
+    if (!(await vault.hasKey(patientWallet))) {
+      throw new Error(`No custodial key for ${patientWallet}; records cannot be registered`);
+    }
+
+    const patientRecordsService = await getRecordService().getPatientRecordsService(patientWallet);
+    if (!patientRecordsService) {
+      throw new Error(`Patient contract not found for ${patientWallet}`);
+    }
+
+    const signer = await vault.getSigner(patientWallet);
+    const entries = await this.listEntries(importId);
+    const pending = entries.filter(
+      (entry) => entry.status !== 'registered' && entry.status !== 'invalid'
+    );
+
+    for (let start = 0; start < pending.length; start += config.imports.batchSize) {
+      const batch = pending.slice(start, start + config.imports.batchSize);
+
+      // Validate, encrypt and store off-chain
+      for (const entry of batch) {
+        if (!entry.storage_pointer) {
+          await this.step(entry, () => this.store(patientWallet, entry));
+        }
+      }
+
+      // Send the batch's transactions back to back, then wait for them
+      let nonce = await signer.getTransactionCount('pending');
+      for (const entry of batch) {
+        if (entry.storage_pointer && !entry.transaction_hash) {
+          await this.step(entry, async () => {
+            const transactionHash = await patientRecordsService.sendAddRecord(
+              signer,
+              entry.storage_pointer!,
+              entry.content_digest!,
+              nonce
+            );
+            nonce++;
+            await this.update(entry, { status: 'submitted', transaction_hash: transactionHash });
+          });
+        }
+      }
+
+      for (const entry of batch) {
+        if (entry.transaction_hash && entry.status !== 'registered') {
+          await this.step(entry, async () => {
+            const recordId = await patientRecordsService.waitForRecordAdded(
+              entry.transaction_hash!
+            );
+            await this.register(
+              patientWallet,
+              patientRecordsService,
+              recordImport.created_by,
+              entry,
+              recordId
+            );
+          });
+        }
+      }
+
+      await context.reportProgress(this.summarize(importId, entries));
+    }
+
+    const report = this.summarize(importId, entries);
+
+    // Leave failed entries for another attempt while the job has attempts left
+    if (report.failed > 0 && job.attempts < config.jobs.maxAttempts) {
+      throw new Error(`${report.failed} entries failed; the import will resume`);
+    }
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        recordImport.created_by || patientWallet,
+        'records_imported',
+        {
+          importId,
+          jobId: job.id,
+          patientAddress: patientWallet,
+          total: report.total,
+          registered: report.registered,
+          invalid: report.invalid,
+          failed: report.failed,
+        },
+      ]
+    );
+
+    return report;
+  }
+
+  /**
+   * Validate an entry, then encrypt and store it and wrap its key for the patient
+   */
+  private async store(patientWallet: string, entry: RecordImportEntry): Promise<void> {
+    const resource = this.decryptEntry(patientWallet, entry);
+
+    const validation = getFhirValidator().validate(resource);
+    if (!validation.valid) {
+      await this.update(entry, {
+        status: 'invalid',
+        issues: validation.outcome.issue,
+        encrypted_resource: null,
+      });
+      return;
+    }
+
+    const blob = await getRecordService().encryptAndStore(resource);
+    const patientKeyInfo = await getKeyRegistryService().getPublicKey(patientWallet);
+    const wrappedKey = await ecies.wrapKey(
+      ecies.hexToPublicKey(patientKeyInfo.publicKey),
+      blob.aesKey
+    );
+
+    await this.update(entry, {
+      status: 'stored',
+      storage_pointer: blob.storagePointer,
+      content_digest: blob.contentDigest,
+      wrapped_key: wrappedKey,
+      key_version: patientKeyInfo.version,
+    });
+  }
+
+  /**
+   * Index, cache and escrow a registered entry, drop its encrypted copy and apply permission
+   * rules
+   * Each step keeps what an earlier, failed attempt already did, so a failed entry is
+   * registered again from the start
+   */
+  private async register(
+    patientWallet: string,
+    patientRecordsService: PatientRecordsService,
+    createdBy: string | null,
+    entry: RecordImportEntry,
+    recordId: number
+  ): Promise<void> {
+    const resource = this.decryptEntry(patientWallet, entry);
+    const searchIndex = getSearchIndexService();
+    await searchIndex.indexRecord(
+      patientWallet,
+      recordId,
+      searchIndex.tokenize(patientWallet, resource)
+    );
+
+    await getRecordService().cacheRecord(
+      patientWallet,
+      recordId,
+      { storagePointer: entry.storage_pointer!, contentDigest: entry.content_digest! },
+      entry.wrapped_key!,
+      entry.key_version!,
+      entry.transaction_hash!,
+      createdBy || patientWallet
+    );
+
+    // The record key only exists wrapped for the patient by now; escrow it from custody
+    const aesKey = await getKeyVault().unwrapKey(patientWallet, entry.wrapped_key!);
+    try {
+      await getEmergencyEscrowService().escrowRecordKey(patientWallet, recordId, aesKey);
+    } finally {
+      aesKey.fill(0);
+    }
+
+    await this.update(entry, {
+      status: 'registered',
+      record_id: recordId,
+      encrypted_resource: null,
+    });
+
+    // Share with grantees whose rules cover the new record
+    await getPermissionRuleService().applyToNewRecord(
+      patientWallet,
+      patientRecordsService,
+      recordId,
+      resource
+    );
+  }
+
+  /**
+   * Run one step of an entry; a failure is recorded on the entry and the import continues
+   */
+  private async step(entry: RecordImportEntry, action: () => Promise<void>): Promise<void> {
+    try {
+      await action();
+    } catch (error) {
+      await this.update(entry, { status: 'failed', error: (error as Error).message });
+    }
+  }
+
+  /**
+   * Persist entry fields and mirror them on the in-memory row
+   */
+  private async update(
+    entry: RecordImportEntry,
+    changes: Partial<Omit<RecordImportEntry, 'id' | 'import_id' | 'entry_index'>>
+  ): Promise<void> {
+    const values = { error: null, ...changes };
+    const columns = Object.keys(values);
+
+    await db.none(
+      `UPDATE record_import_entries
+       SET ${columns.map((column, index) => `${column} = $${index + 2}`).join(', ')}
+       WHERE id = $1`,
+      [
+        entry.id,
+        ...columns.map((column) => {
+          const value = (values as { [key: string]: any })[column];
+          return column === 'issues' && value ? JSON.stringify(value) : value;
+        }),
+      ]
+    );
+
+    Object.assign(entry, values);
+  }
+
+  /**
+   * Counts and per-entry outcome of an import
+   */
+  private summarize(importId: number, entries: RecordImportEntry[]): RecordImportReport {
+    const count = (status: string) => entries.filter((entry) => entry.status === status).length;
+    const registered = count('registered');
+    const invalid = count('invalid');
+    const failed = count('failed');
+
+    return {
+      importId,
+      total: entries.length,
+      processed: registered + invalid + failed,
+      registered,
+      invalid,
+      failed,
+      entries: entries.map((entry) => ({
+        index: entry.entry_index,
+        resourceType: entry.resource_type,
+        status: entry.status,
+        recordId: entry.record_id,
+        transactionHash: entry.transaction_hash,
+        ...(entry.issues && { issues: entry.issues }),
+        ...(entry.error && { error: entry.error }),
+      })),
+    };
+  }
+
+  /**
+   * Reject imports over the configured size
+   */
+  private checkSize(parsed: ParsedImport): ParsedImport {
+    if (parsed.entries.length === 0) {
+      throw new Error('Nothing to import');
+    }
+    if (parsed.entries.length > config.imports.maxEntries) {
+      throw new Error(`An import is limited to ${config.imports.maxEntries} resources`);
+    }
+    return parsed;
+  }
+
+  /**
+   * Decrypt an entry's resource
+   */
+  private decryptEntry(patientWallet: string, entry: RecordImportEntry): any {
+    if (!entry.encrypted_resource) {
+      throw new Error('Entry resource is no longer available');
+    }
+    const plaintext = aesGcm.decryptFromBase64(
+      entry.encrypted_resource,
+      this.entryKey(patientWallet)
+    );
+    return JSON.parse(plaintext.toString('utf-8'));
+  }
+
+  /**
+   * Subkey protecting a patient's pending import entries
+   */
+  private entryKey(patientWallet: string): Buffer {
+    return deriveMasterSubkey('record-import', patientWallet.toLowerCase());
+  }
+}
+
+// Export singleton instance
+let recordImportServiceInstance: RecordImportService | null = null;
+
+export function getRecordImportService(): RecordImportService {
+  if (!recordImportServiceInstance) {
+    recordImportServiceInstance = new RecordImportService();
+  }
+  return recordImportServiceInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file Imports Service Index
+ * @description Exports bulk record import
+ */
+
+export * from './RecordImportService';
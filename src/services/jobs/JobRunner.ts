@@ -0,0 +1,235 @@
+/**
+ * @file Job Runner
+ * @description Database-backed background job queue processed in-process
+ * Jobs are claimed one at a time with SKIP LOCKED, so several API instances can share the queue.
+ * A claimed job holds a lease its runner keeps extending; a job whose lease lapses (its process
+ * stopped) is taken over by another instance. Failed attempts are retried with backoff.
+ */
+
+import db from '../database';
+import config from '../../config';
+import { Job, JobType } from '../../types';
+
+export interface JobContext {
+  /**
+   * Persist progress so clients can follow the job
+   */
+  reportProgress(progress: { [key: string]: any }): Promise<void>;
+}
+
+export type JobHandler = (job: Job, context: JobContext) => Promise<{ [key: string]: any }>;
+
+export class JobRunner {
+  private handlers = new Map<JobType, JobHandler>();
+  private timer: NodeJS.Timeout | null = null;
+  private busy = false;
+
+  /**
+   * Register the handler for a job type
+   */
+  register(jobType: JobType, handler: JobHandler): void {
+    this.handlers.set(jobType, handler);
+  }
+
+  /**
+   * Queue a job for a user
+   */
+  async enqueue(
+    jobType: JobType,
+    walletAddress: string,
+    payload: { [key: string]: any },
+    createdBy: string | null = null
+  ): Promise<Job> {
+    const job: Job = await db.one(
+      `INSERT INTO jobs (job_type, wallet_address, payload, created_by)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [jobType, walletAddress, payload, createdBy]
+    );
+
+    // Pick the job up straight away if this instance is polling
+    if (this.timer) {
+      setImmediate(() => this.drain());
+    }
+
+    return job;
+  }
+
+  /**
+   * Get a job
+   */
+  async getJob(jobId: number): Promise<Job | null> {
+    return db.oneOrNone('SELECT * FROM jobs WHERE id = $1', [jobId]);
+  }
+
+  /**
+   * List a user's jobs, newest first
+   */
+  async listJobs(walletAddress: string, jobType?: JobType): Promise<Job[]> {
+    return db.manyOrNone(
+      `SELECT * FROM jobs
+       WHERE wallet_address = $1 AND ($2::text IS NULL OR job_type = $2)
+       ORDER BY created_at DESC
+       LIMIT 100`,
+      [walletAddress, jobType || null]
+    );
+  }
+
+  /**
+   * Cancel a queued or running job
+   * A running handler is not interrupted, but its result is discarded
+   * Returns false when the job had already finished
+   */
+  async cancel(jobId: number): Promise<boolean> {
+    const cancelled = await db.oneOrNone(
+      `UPDATE jobs SET status = 'failed', error = 'Cancelled', finished_at = NOW()
+       WHERE id = $1 AND status IN ('queued', 'running')
+       RETURNING id`,
+      [jobId]
+    );
+    return !!cancelled;
+  }
+
+  /**
+   * Start polling the queue
+   * Jobs left running by a stopped process are picked up once their lease lapses
+   */
+  async start(): Promise<void> {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => this.drain(), config.jobs.pollInterval);
+    setImmediate(() => this.drain());
+  }
+
+  /**
+   * Stop polling (a job already running finishes)
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Claim and run the oldest due job, or a running job whose lease has lapsed
+   * Returns false when nothing is due
+   */
+  async runNext(): Promise<boolean> {
+    const lease = config.jobs.lockTimeout / 1000;
+    const job: Job | null = await db.oneOrNone(
+      `UPDATE jobs
+       SET status = 'running', started_at = NOW(), attempts = attempts + 1,
+           locked_until = NOW() + make_interval(secs => $2)
+       WHERE id = (
+         SELECT id FROM jobs
+         WHERE job_type = ANY($1)
+           AND ((status = 'queued' AND run_after <= NOW())
+             OR (status = 'running' AND locked_until < NOW()))
+         ORDER BY run_after ASC
+         LIMIT 1
+         FOR UPDATE SKIP LOCKED
+       )
+       RETURNING *`,
+      [Array.from(this.handlers.keys()), lease]
+    );
+
+    if (!job) {
+      return false;
+    }
+
+    // A job taken over after its last attempt stopped mid-run is not tried again
+    if (job.attempts > config.jobs.maxAttempts) {
+      await this.finish(job, 'failed', null, 'Abandoned after the last attempt stopped');
+      return true;
+    }
+
+    const handler = this.handlers.get(job.job_type)!;
+    const context: JobContext = {
+      reportProgress: async (progress) => {
+        await db.none('UPDATE jobs SET progress = $2 WHERE id = $1', [job.id, progress]);
+      },
+    };
+
+    // Keep the lease while the handler runs
+    const heartbeat = setInterval(() => {
+      db.none(
+        `UPDATE jobs SET locked_until = NOW() + make_interval(secs => $3)
+         WHERE id = $1 AND status = 'running' AND attempts = $2`,
+        [job.id, job.attempts, lease]
+      ).catch((error) => console.error('❌ Job heartbeat error:', (error as Error).message));
+    }, config.jobs.lockTimeout / 3);
+
+    try {
+      const result = await handler(job, context);
+      await this.finish(job, 'completed', result, null);
+    } catch (error) {
+      // Retry with backoff until the attempt limit, then give up
+      if (job.attempts >= config.jobs.maxAttempts) {
+        await this.finish(job, 'failed', null, (error as Error).message);
+      } else {
+        const delay = (config.jobs.retryDelay / 1000) * 2 ** (job.attempts - 1);
+        await db.none(
+          `UPDATE jobs
+           SET status = 'queued', error = $3, locked_until = NULL,
+               run_after = NOW() + make_interval(secs => $4)
+           WHERE id = $1 AND status = 'running' AND attempts = $2`,
+          [job.id, job.attempts, (error as Error).message, delay]
+        );
+      }
+    } finally {
+      clearInterval(heartbeat);
+    }
+
+    return true;
+  }
+
+  /**
+   * Record a job's outcome, unless another instance has since taken it over
+   */
+  private async finish(
+    job: Job,
+    status: 'completed' | 'failed',
+    result: { [key: string]: any } | null,
+    error: string | null
+  ): Promise<void> {
+    await db.none(
+      `UPDATE jobs
+       SET status = $3, result = $4, error = $5, locked_until = NULL, finished_at = NOW()
+       WHERE id = $1 AND status = 'running' AND attempts = $2`,
+      [job.id, job.attempts, status, result, error]
+    );
+  }
+
+  /**
+   * Run queued jobs until the queue is empty (one at a time per instance)
+   */
+  private async drain(): Promise<void> {
+    if (this.busy || this.handlers.size === 0) {
+      return;
+    }
+
+    this.busy = true;
+    try {
+      while (await this.runNext()) {
+        // Keep going until nothing is queued
+      }
+    } catch (error) {
+      console.error('❌ Job runner error:', (error as Error).message);
+    } finally {
+      this.busy = false;
+    }
+  }
+}
+
+// Export singleton instance
+let jobRunnerInstance: JobRunner | null = null;
+
+export function getJobRunner(): JobRunner {
+  if (!jobRunnerInstance) {
+    jobRunnerInstance = new JobRunner();
+  }
+  return jobRunnerInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file Job Services
+ * @description Export background job modules
+ */
+
+export * from './JobRunner';
@@ -0,0 +1,477 @@
+/**
+ * @file MFA Service
+ * @description Second-factor enrolment and verification (TOTP, WebAuthn, recovery codes)
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  generateAuthenticationOptions,
+  generateRegistrationOptions,
+  verifyAuthenticationResponse,
+  verifyRegistrationResponse,
+} from '@simplewebauthn/server';
+import type {
+  AuthenticationResponseJSON,
+  AuthenticatorTransportFuture,
+  PublicKeyCredentialCreationOptionsJSON,
+  PublicKeyCredentialRequestOptionsJSON,
+  RegistrationResponseJSON,
+} from '@simplewebauthn/types';
+import db from '../database';
+import config from '../../config';
+import { deriveMasterSubkey } from '../custody/master-key';
+import * as aesGcm from '../../utils/aes-gcm';
+import * as totp from '../../utils/totp';
+import { sha256 } from '../../utils/hash';
+import { MfaFactor } from '../../types';
+
+const RECOVERY_CODE_COUNT = 10;
+const CHALLENGE_TTL_SECONDS = 5 * 60; // 5 minutes
+
+export class MfaService {
+  /**
+   * List a user's factors (without secrets)
+   */
+  async listFactors(walletAddress: string): Promise<Partial<MfaFactor>[]> {
+    return db.manyOrNone(
+      `SELECT id, factor_type, label, status, created_at, last_used_at
+       FROM mfa_factors
+       WHERE wallet_address = $1
+       ORDER BY created_at ASC`,
+      [walletAddress]
+    );
+  }
+
+  /**
+   * Check whether a user has at least one active factor
+   */
+  async hasActiveFactor(walletAddress: string): Promise<boolean> {
+    const row = await db.oneOrNone(
+      `SELECT 1 FROM mfa_factors WHERE wallet_address = $1 AND status = 'active' LIMIT 1`,
+      [walletAddress]
+    );
+    return !!row;
+  }
+
+  /**
+   * Check whether a session presented a second factor within MFA_MAX_AGE
+   */
+  async isSessionVerified(sessionId: number): Promise<boolean> {
+    const row = await db.oneOrNone(
+      `SELECT 1 FROM sessions
+       WHERE id = $1 AND mfa_verified_at > NOW() - make_interval(secs => $2)`,
+      [sessionId, config.mfa.maxAge]
+    );
+    return !!row;
+  }
+
+  /**
+   * Record that a session has just passed MFA
+   */
+  async markSessionVerified(sessionId: number): Promise<void> {
+    await db.none('UPDATE sessions SET mfa_verified_at = NOW() WHERE id = $1', [sessionId]);
+  }
+
+  /**
+   * Start TOTP enrolment (factor stays pending until the first code is confirmed)
+   */
+  async enrollTotp(
+    walletAddress: string,
+    label: string | null
+  ): Promise<{ factorId: number; secret: string; otpauthUri: string }> {
+    const secret = totp.generateTotpSecret();
+
+    // Only one pending TOTP enrolment at a time
+    await db.none(
+      `DELETE FROM mfa_factors
+       WHERE wallet_address = $1 AND factor_type = 'totp' AND status = 'pending'`,
+      [walletAddress]
+    );
+
+    const factor = await db.one(
+      `INSERT INTO mfa_factors (wallet_address, factor_type, label, encrypted_secret)
+       VALUES ($1, 'totp', $2, $3)
+       RETURNING id`,
+      [walletAddress, label, this.encryptSecret(walletAddress, secret)]
+    );
+
+    return {
+      factorId: factor.id,
+      secret,
+      otpauthUri: totp.buildOtpauthUri(config.mfa.issuer, walletAddress, secret),
+    };
+  }
+
+  /**
+   * Confirm a pending TOTP enrolment with a code from the authenticator app
+   */
+  async activateTotp(walletAddress: string, factorId: number, code: string): Promise<boolean> {
+    const factor: MfaFactor | null = await db.oneOrNone(
+      `SELECT * FROM mfa_factors
+       WHERE id = $1 AND wallet_address = $2 AND factor_type = 'totp' AND status = 'pending'`,
+      [factorId, walletAddress]
+    );
+
+    if (!factor) {
+      throw new Error('Pending TOTP factor not found');
+    }
+
+    const timeStep = totp.verifyTotp(this.decryptSecret(walletAddress, factor.encrypted_secret!), code);
+    if (timeStep === null) {
+      return false;
+    }
+
+    await db.none(
+      `UPDATE mfa_factors
+       SET status = 'active', last_time_step = $2, last_used_at = NOW()
+       WHERE id = $1`,
+      [factorId, timeStep]
+    );
+
+    return true;
+  }
+
+  /**
+   * Verify a TOTP code against the user's active TOTP factors
+   * Each time step is accepted at most once per factor (replay protection)
+   */
+  async verifyTotp(walletAddress: string, code: string): Promise<boolean> {
+    const factors: MfaFactor[] = await db.manyOrNone(
+      `SELECT * FROM mfa_factors
+       WHERE wallet_address = $1 AND factor_type = 'totp' AND status = 'active'`,
+      [walletAddress]
+    );
+
+    for (const factor of factors) {
+      const timeStep = totp.verifyTotp(
+        this.decryptSecret(walletAddress, factor.encrypted_secret!),
+        code
+      );
+      if (timeStep === null) {
+        continue;
+      }
+
+      const accepted = await db.oneOrNone(
+        `UPDATE mfa_factors
+         SET last_time_step = $2, last_used_at = NOW()
+         WHERE id = $1 AND (last_time_step IS NULL OR last_time_step < $2)
+         RETURNING id`,
+        [factor.id, timeStep]
+      );
+
+      return !!accepted;
+    }
+
+    return false;
+  }
+
+  /**
+   * Build WebAuthn registration options and remember the challenge for this session
+   */
+  async getWebAuthnRegistrationOptions(
+    walletAddress: string,
+    userName: string,
+    sessionId: number
+  ): Promise<PublicKeyCredentialCreationOptionsJSON> {
+    const existing = await db.manyOrNone(
+      `SELECT credential_id, transports FROM mfa_factors
+       WHERE wallet_address = $1 AND factor_type = 'webauthn'`,
+      [walletAddress]
+    );
+
+    const options = await generateRegistrationOptions({
+      rpName: config.mfa.webauthn.rpName,
+      rpID: config.mfa.webauthn.rpId,
+      userName,
+      userID: Buffer.from(walletAddress.replace(/^0x/, '').toLowerCase(), 'hex'),
+      attestationType: 'none',
+      excludeCredentials: existing.map((credential) => ({
+        id: credential.credential_id,
+        transports: credential.transports || undefined,
+      })),
+      authenticatorSelection: {
+        residentKey: 'preferred',
+        userVerification: 'required',
+      },
+    });
+
+    await this.storeChallenge(sessionId, 'registration', options.challenge);
+
+    return options;
+  }
+
+  /**
+   * Verify a WebAuthn registration and store the new credential as an active factor
+   * Returns the factor ID, or null if verification failed
+   */
+  async verifyWebAuthnRegistration(
+    walletAddress: string,
+    sessionId: number,
+    response: RegistrationResponseJSON,
+    label: string | null
+  ): Promise<number | null> {
+    const challenge = await this.takeChallenge(sessionId, 'registration');
+    if (!challenge) {
+      throw new Error('No pending WebAuthn registration challenge');
+    }
+
+    let verification;
+    try {
+      verification = await verifyRegistrationResponse({
+        response,
+        expectedChallenge: challenge,
+        expectedOrigin: config.mfa.webauthn.origin,
+        expectedRPID: config.mfa.webauthn.rpId,
+        requireUserVerification: true,
+      });
+    } catch (error) {
+      return null;
+    }
+
+    if (!verification.verified || !verification.registrationInfo) {
+      return null;
+    }
+
+    const { credentialID, credentialPublicKey, counter } = verification.registrationInfo;
+
+    const factor = await db.one(
+      `INSERT INTO mfa_factors
+         (wallet_address, factor_type, label, status, credential_id, public_key, sign_count, transports, last_used_at)
+       VALUES ($1, 'webauthn', $2, 'active', $3, $4, $5, $6, NOW())
+       RETURNING id`,
+      [
+        walletAddress,
+        label,
+        credentialID,
+        Buffer.from(credentialPublicKey).toString('base64url'),
+        counter,
+        JSON.stringify(response.response.transports || []),
+      ]
+    );
+
+    return factor.id;
+  }
+
+  /**
+   * Build WebAuthn authentication options for the user's registered credentials
+   */
+  async getWebAuthnAuthenticationOptions(
+    walletAddress: string,
+    sessionId: number
+  ): Promise<PublicKeyCredentialRequestOptionsJSON> {
+    const credentials = await db.manyOrNone(
+      `SELECT credential_id, transports FROM mfa_factors
+       WHERE wallet_address = $1 AND factor_type = 'webauthn' AND status = 'active'`,
+      [walletAddress]
+    );
+
+    if (credentials.length === 0) {
+      throw new Error('No WebAuthn credentials registered');
+    }
+
+    const options = await generateAuthenticationOptions({
+      rpID: config.mfa.webauthn.rpId,
+      allowCredentials: credentials.map((credential) => ({
+        id: credential.credential_id,
+        transports: credential.transports || undefined,
+      })),
+      userVerification: 'required',
+    });
+
+    await this.storeChallenge(sessionId, 'authentication', options.challenge);
+
+    return options;
+  }
+
+  /**
+   * Verify a WebAuthn assertion and advance the credential's signature counter
+   */
+  async verifyWebAuthnAuthentication(
+    walletAddress: string,
+    sessionId: number,
+    response: AuthenticationResponseJSON
+  ): Promise<boolean> {
+    const challenge = await this.takeChallenge(sessionId, 'authentication');
+    if (!challenge) {
+      throw new Error('No pending WebAuthn authentication challenge');
+    }
+
+    const factor: MfaFactor | null = await db.oneOrNone(
+      `SELECT * FROM mfa_factors
+       WHERE wallet_address = $1 AND factor_type = 'webauthn' AND status = 'active'
+         AND credential_id = $2`,
+      [walletAddress, response.id]
+    );
+
+    if (!factor) {
+      return false;
+    }
+
+    let verification;
+    try {
+      verification = await verifyAuthenticationResponse({
+        response,
+        expectedChallenge: challenge,
+        expectedOrigin: config.mfa.webauthn.origin,
+        expectedRPID: config.mfa.webauthn.rpId,
+        requireUserVerification: true,
+        authenticator: {
+          credentialID: factor.credential_id!,
+          credentialPublicKey: Buffer.from(factor.public_key!, 'base64url'),
+          counter: parseInt(factor.sign_count),
+          transports: (factor.transports || undefined) as AuthenticatorTransportFuture[] | undefined,
+        },
+      });
+    } catch (error) {
+      return false;
+    }
+
+    if (!verification.verified) {
+      return false;
+    }
+
+    await db.none(
+      `UPDATE mfa_factors SET sign_count = $2, last_used_at = NOW() WHERE id = $1`,
+      [factor.id, verification.authenticationInfo.newCounter]
+    );
+
+    return true;
+  }
+
+  /**
+   * Replace a user's recovery codes with a fresh set (plaintext returned once)
+   */
+  async generateRecoveryCodes(walletAddress: string): Promise<string[]> {
+    const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+      const hex = randomBytes(5).toString('hex');
+      return `${hex.slice(0, 5)}-${hex.slice(5)}`;
+    });
+
+    await db.tx(async (t) => {
+      await t.none('DELETE FROM mfa_recovery_codes WHERE wallet_address = $1', [walletAddress]);
+
+      for (const code of codes) {
+        await t.none(
+          'INSERT INTO mfa_recovery_codes (wallet_address, code_hash) VALUES ($1, $2)',
+          [walletAddress, sha256(this.normalizeRecoveryCode(code))]
+        );
+      }
+    });
+
+    return codes;
+  }
+
+  /**
+   * Consume a recovery code (each code works once)
+   */
+  async consumeRecoveryCode(walletAddress: string, code: string): Promise<boolean> {
+    const row = await db.oneOrNone(
+      `UPDATE mfa_recovery_codes
+       SET used_at = NOW()
+       WHERE wallet_address = $1 AND code_hash = $2 AND used_at IS NULL
+       RETURNING id`,
+      [walletAddress, sha256(this.normalizeRecoveryCode(code))]
+    );
+    return !!row;
+  }
+
+  /**
+   * Count a user's unused recovery codes
+   */
+  async countRecoveryCodes(walletAddress: string): Promise<number> {
+    const row = await db.one(
+      `SELECT COUNT(*)::int AS remaining FROM mfa_recovery_codes
+       WHERE wallet_address = $1 AND used_at IS NULL`,
+      [walletAddress]
+    );
+    return row.remaining;
+  }
+
+  /**
+   * Remove a factor; recovery codes go with the last active factor
+   */
+  async deleteFactor(walletAddress: string, factorId: number): Promise<boolean> {
+    const deleted = await db.oneOrNone(
+      'DELETE FROM mfa_factors WHERE id = $1 AND wallet_address = $2 RETURNING id',
+      [factorId, walletAddress]
+    );
+
+    if (deleted && !(await this.hasActiveFactor(walletAddress))) {
+      await db.none('DELETE FROM mfa_recovery_codes WHERE wallet_address = $1', [walletAddress]);
+    }
+
+    return !!deleted;
+  }
+
+  /**
+   * Store a WebAuthn challenge, replacing any earlier one for the same purpose
+   */
+  private async storeChallenge(
+    sessionId: number,
+    purpose: 'registration' | 'authentication',
+    challenge: string
+  ): Promise<void> {
+    await db.tx(async (t) => {
+      await t.none('DELETE FROM mfa_challenges WHERE session_id = $1 AND purpose = $2', [
+        sessionId,
+        purpose,
+      ]);
+      await t.none(
+        `INSERT INTO mfa_challenges (session_id, purpose, challenge, expires_at)
+         VALUES ($1, $2, $3, NOW() + make_interval(secs => $4))`,
+        [sessionId, purpose, challenge, CHALLENGE_TTL_SECONDS]
+      );
+    });
+  }
+
+  /**
+   * Take (and delete) the outstanding challenge for a session
+   */
+  private async takeChallenge(
+    sessionId: number,
+    purpose: 'registration' | 'authentication'
+  ): Promise<string | null> {
+    const row = await db.oneOrNone(
+      `DELETE FROM mfa_challenges
+       WHERE session_id = $1 AND purpose = $2
+       RETURNING challenge, expires_at > NOW() AS valid`,
+      [sessionId, purpose]
+    );
+    return row && row.valid ? row.challenge : null;
+  }
+
+  /**
+   * Encrypt a TOTP secret under a per-user subkey of the master key
+   */
+  private encryptSecret(walletAddress: string, secret: string): string {
+    const owner = walletAddress.toLowerCase();
+    return aesGcm.encryptToBase64(secret, deriveMasterSubkey('mfa-totp', owner), owner);
+  }
+
+  /**
+   * Decrypt a stored TOTP secret
+   */
+  private decryptSecret(walletAddress: string, encryptedSecret: string): string {
+    const owner = walletAddress.toLowerCase();
+    return aesGcm
+      .decryptFromBase64(encryptedSecret, deriveMasterSubkey('mfa-totp', owner), owner)
+      .toString('utf-8');
+  }
+
+  /**
+   * Recovery codes are compared case-insensitively, ignoring separators
+   */
+  private normalizeRecoveryCode(code: string): string {
+    return code.toLowerCase().replace(/[^a-z0-9]/g, '');
+  }
+}
+
+// Export singleton instance
+let mfaInstance: MfaService | null = null;
+
+export function getMfaService(): MfaService {
+  if (!mfaInstance) {
+    mfaInstance = new MfaService();
+  }
+  return mfaInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file MFA Services
+ * @description Export multi-factor authentication modules
+ */
+
+export * from './MfaService';
@@ -0,0 +1,64 @@
+/**
+ * @file Notification Service
+ * @description In-app notifications stored per user
+ */
+
+import db from '../database';
+import { Notification, NotificationType } from '../../types';
+
+export class NotificationService {
+  /**
+   * Notify a user
+   */
+  async notify(
+    walletAddress: string,
+    type: NotificationType,
+    message: string,
+    data: { [key: string]: any } = {}
+  ): Promise<Notification> {
+    return db.one(
+      `INSERT INTO notifications (wallet_address, type, message, data)
+       VALUES ($1, $2, $3, $4)
+       RETURNING *`,
+      [walletAddress, type, message, data]
+    );
+  }
+
+  /**
+   * List a user's notifications, newest first
+   */
+  async list(walletAddress: string, unreadOnly: boolean = false): Promise<Notification[]> {
+    return db.manyOrNone(
+      `SELECT * FROM notifications
+       WHERE wallet_address = $1 AND ($2 = FALSE OR read_at IS NULL)
+       ORDER BY created_at DESC
+       LIMIT 100`,
+      [walletAddress, unreadOnly]
+    );
+  }
+
+  /**
+   * Mark a notification as read
+   * Returns false if the notification does not belong to the user
+   */
+  async markRead(notificationId: number, walletAddress: string): Promise<boolean> {
+    const notification = await db.oneOrNone(
+      `UPDATE notifications SET read_at = COALESCE(read_at, NOW())
+       WHERE id = $1 AND wallet_address = $2
+       RETURNING id`,
+      [notificationId, walletAddress]
+    );
+
+    return !!notification;
+  }
+}
+
+// Export singleton instance
+let notificationServiceInstance: NotificationService | null = null;
+
+export function getNotificationService(): NotificationService {
+  if (!notificationServiceInstance) {
+    notificationServiceInstance = new NotificationService();
+  }
+  return notificationServiceInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file Notification Services
+ * @description Export notification modules
+ */
+
+export * from './NotificationService';
@@ -0,0 +1,540 @@
+/**
+ * @file Access Request Service
+ * @description Provider-initiated access requests decided by the patient
+ * A request names records, or criteria the patient's records are matched by. Approving it
+ * runs one of the existing grant paths: per-record grants signed from custody, or a grant the
+ * patient signed (EIP-712) relayed as with POST /permissions/signature. Every change of state
+ * is kept as an event.
+ */
+
+import db from '../database';
+import config from '../../config';
+import { PatientRecordsService } from '../blockchain/PatientRecordsService';
+import { getRelayer } from '../blockchain/provider';
+import { getKeyVault } from '../custody';
+import { getRecordService, SharedRecord } from '../records';
+import { getPermissionRuleService } from './PermissionRuleService';
+import {
+  AccessRequest,
+  AccessRequestEvent,
+  AccessRequestGrant,
+  AccessRequestStatus,
+  PermissionRuleCriteria,
+} from '../../types';
+
+export interface AccessRequestScope extends PermissionRuleCriteria {
+  recordIds?: number[];
+}
+
+/**
+ * A grant the patient signed client-side for an approval
+ */
+export interface SignedAccessGrant {
+  recordIds: number[];
+  wrappedKey: string;
+  expirationTime: number;
+  nonce: number;
+  signature: string;
+}
+
+export class AccessRequestService {
+  /**
+   * Open a request and record its first event
+   */
+  async createRequest(
+    patientWallet: string,
+    requesterWallet: string,
+    scope: AccessRequestScope,
+    purpose: string,
+    reason: string | null,
+    durationSeconds: number
+  ): Promise<AccessRequest> {
+    return db.tx(async (t) => {
+      const request: AccessRequest = await t.one(
+        `INSERT INTO access_requests
+           (patient_wallet, requester_wallet, record_ids, resource_type, category, tag, purpose,
+            reason, duration_seconds)
+         VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)
+         RETURNING *`,
+        [
+          patientWallet,
+          requesterWallet,
+          scope.recordIds || null,
+          scope.resourceType || null,
+          scope.category || null,
+          scope.tag || null,
+          purpose,
+          reason,
+          durationSeconds,
+        ]
+      );
+
+      await t.none(
+        `INSERT INTO access_request_events (request_id, status, actor_wallet, details)
+         VALUES ($1, $2, $3, $4)`,
+        [request.id, 'pending', requesterWallet, { purpose, durationSeconds }]
+      );
+
+      return request;
+    });
+  }
+
+  /**
+   * Get a request
+   */
+  async getRequest(requestId: number): Promise<AccessRequest | null> {
+    return db.oneOrNone('SELECT * FROM access_requests WHERE id = $1', [requestId]);
+  }
+
+  /**
+   * Requests made to a patient, newest first
+   */
+  async listForPatient(
+    patientWallet: string,
+    status?: AccessRequestStatus
+  ): Promise<AccessRequest[]> {
+    return db.manyOrNone(
+      `SELECT * FROM access_requests
+       WHERE LOWER(patient_wallet) = LOWER($1) AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC`,
+      [patientWallet, status || null]
+    );
+  }
+
+  /**
+   * Requests a provider made, newest first
+   */
+  async listForRequester(
+    requesterWallet: string,
+    status?: AccessRequestStatus
+  ): Promise<AccessRequest[]> {
+    return db.manyOrNone(
+      `SELECT * FROM access_requests
+       WHERE LOWER(requester_wallet) = LOWER($1) AND ($2::text IS NULL OR status = $2)
+       ORDER BY created_at DESC`,
+      [requesterWallet, status || null]
+    );
+  }
+
+  /**
+   * State history of a request, oldest first
+   */
+  async listEvents(requestId: number): Promise<AccessRequestEvent[]> {
+    return db.manyOrNone(
+      `SELECT * FROM access_request_events
+       WHERE request_id = $1
+       ORDER BY id`,
+      [requestId]
+    );
+  }
+
+  /**
+   * Permissions granted on approval of a request
+   */
+  async listPermissions(requestId: number): Promise<{ [key: string]: any }[]> {
+    return db.manyOrNone(
+      `SELECT permission_id, record_id, expiration, revoked, suspended, granted_at,
+              transaction_hash
+       FROM permissions
+       WHERE access_request_id = $1
+       ORDER BY record_id`,
+      [requestId]
+    );
+  }
+
+  /**
+   * Records of the patient a request covers
+   * Named records are returned as requested; criteria are matched against the decrypted
+   * records, which needs the patient's key in custody
+   */
+  async resolveRecordIds(
+    request: AccessRequest,
+    patientRecordsService: PatientRecordsService
+  ): Promise<number[]> {
+    if (request.record_ids) {
+      return request.record_ids;
+    }
+
+    const recordService = getRecordService();
+    const permissionRuleService = getPermissionRuleService();
+    const criteria: PermissionRuleCriteria = {
+      resourceType: request.resource_type,
+      category: request.category,
+      tag: request.tag,
+    };
+
+    const records = await db.manyOrNone(
+      'SELECT record_id FROM records WHERE patient_wallet = $1 ORDER BY record_id',
+      [request.patient_wallet]
+    );
+
+    const recordIds: number[] = [];
+    for (const { record_id: recordId } of records) {
+      const record = await recordService.readRecord(
+        request.patient_wallet,
+        request.patient_wallet,
+        patientRecordsService,
+        recordId
+      );
+      if (record && permissionRuleService.matches(criteria, record.fhirData)) {
+        recordIds.push(recordId);
+      }
+    }
+
+    return recordIds;
+  }
+
+  /**
+   * Whether a request was left approving by an approval whose claim has lapsed, so it can be
+   * approved again
+   */
+  claimLapsed(request: AccessRequest): boolean {
+    return (
+      request.status === 'approving' &&
+      !!request.claimed_until &&
+      new Date(request.claimed_until) < new Date()
+    );
+  }
+
+  /**
+   * Approve with grants signed from custody, one permission per record
+   * The request is claimed first, so a concurrent decision cannot grant it again; the claim
+   * is renewed after each record and lapses when the approval stops. Records an earlier,
+   * lapsed approval already granted are kept. Records that cannot be granted are skipped and
+   * reported, and make the approval partial; the request goes back to pending when none
+   * could be granted. Returns a null request when it was no longer pending.
+   */
+  async approveWithCustody(
+    request: AccessRequest,
+    decidedBy: string,
+    status: 'approved' | 'partially_approved',
+    recordIds: number[],
+    expirationTime: number,
+    note: string | null,
+    patientRecordsService: PatientRecordsService
+  ): Promise<{
+    request: AccessRequest | null;
+    granted: AccessRequestGrant[];
+    skippedRecordIds: number[];
+  }> {
+    const recordService = getRecordService();
+    const granted: AccessRequestGrant[] = [];
+    const skippedRecordIds: number[] = [];
+
+    const claim = await this.claim(request);
+    if (claim === null) {
+      return { request: null, granted, skippedRecordIds };
+    }
+
+    for (const recordId of recordIds) {
+      const earlier = await db.oneOrNone(
+        `SELECT permission_id, expiration, transaction_hash FROM permissions
+         WHERE access_request_id = $1 AND record_id = $2 AND revoked = FALSE`,
+        [request.id, recordId]
+      );
+      if (earlier) {
+        granted.push({
+          permissionId: earlier.permission_id,
+          recordIds: [recordId],
+          expirationTime: Math.floor(new Date(earlier.expiration).getTime() / 1000),
+          transactionHash: earlier.transaction_hash,
+        });
+        continue;
+      }
+
+      let shared: SharedRecord | null;
+      try {
+        shared = await recordService.shareRecord(
+          request.patient_wallet,
+          patientRecordsService,
+          recordId,
+          request.requester_wallet,
+          expirationTime
+        );
+      } catch (error) {
+        shared = null;
+      }
+      if (!shared) {
+        skippedRecordIds.push(recordId);
+        continue;
+      }
+
+      try {
+        await db.none(
+          `INSERT INTO permissions
+             (patient_wallet, grantee_wallet, record_id, permission_id, wrapped_key, expiration,
+              transaction_hash, key_version, access_request_id)
+           VALUES ($1, $2, $3, $4, $5, to_timestamp($6), $7, $8, $9)`,
+          [
+            request.patient_wallet,
+            request.requester_wallet,
+            recordId,
+            shared.permissionId,
+            shared.wrappedKey,
+            expirationTime,
+            shared.transactionHash,
+            shared.keyVersion,
+            request.id,
+          ]
+        );
+      } catch (error) {
+        // The grant is on-chain but not stored, so nothing here would ever revoke it
+        await this.revokeUnstored(request, recordId, shared, patientRecordsService, error);
+        skippedRecordIds.push(recordId);
+        continue;
+      }
+
+      granted.push({
+        permissionId: shared.permissionId,
+        recordIds: [recordId],
+        expirationTime,
+        transactionHash: shared.transactionHash,
+      });
+      await this.renewClaim(request, claim);
+    }
+
+    // Nothing was granted, so the request goes back to pending for the patient to retry or deny
+    if (granted.length === 0) {
+      await this.release(request, claim);
+      return { request, granted, skippedRecordIds };
+    }
+
+    const decided = await this.transition(
+      request,
+      skippedRecordIds.length > 0 ? 'partially_approved' : status,
+      decidedBy,
+      note,
+      {
+        recordIds: granted.flatMap((grant) => grant.recordIds),
+        expirationTime,
+        permissionIds: granted.map((grant) => grant.permissionId),
+        skippedRecordIds,
+      },
+      'approving',
+      claim
+    );
+
+    return { request: decided, granted, skippedRecordIds };
+  }
+
+  /**
+   * Approve with a grant the patient signed, relayed through grantPermissionBySig
+   * The request is claimed first as for custody approvals and released if the relay fails.
+   * Returns a null request when it was no longer pending.
+   */
+  async approveWithSignature(
+    request: AccessRequest,
+    decidedBy: string,
+    status: 'approved' | 'partially_approved',
+    grant: SignedAccessGrant,
+    note: string | null,
+    patientRecordsService: PatientRecordsService
+  ): Promise<{ request: AccessRequest | null; granted: AccessRequestGrant[] }> {
+    const claim = await this.claim(request);
+    if (claim === null) {
+      return { request: null, granted: [] };
+    }
+
+    let result: { permissionId: number; transactionHash: string };
+    try {
+      result = await patientRecordsService.grantPermissionBySig(
+        getRelayer(),
+        request.requester_wallet,
+        grant.recordIds,
+        grant.wrappedKey,
+        grant.expirationTime,
+        grant.nonce,
+        grant.signature
+      );
+    } catch (error) {
+      await this.release(request, claim);
+      throw error;
+    }
+
+    await db.none(
+      `INSERT INTO permissions
+         (patient_wallet, grantee_wallet, record_id, permission_id, wrapped_key, expiration,
+          nonce, transaction_hash, access_request_id)
+       VALUES ($1, $2, $3, $4, $5, to_timestamp($6), $7, $8, $9)`,
+      [
+        request.patient_wallet,
+        request.requester_wallet,
+        grant.recordIds[0],
+        result.permissionId,
+        grant.wrappedKey,
+        grant.expirationTime,
+        grant.nonce,
+        result.transactionHash,
+        request.id,
+      ]
+    );
+
+    const granted: AccessRequestGrant[] = [
+      {
+        permissionId: result.permissionId,
+        recordIds: grant.recordIds,
+        expirationTime: grant.expirationTime,
+        transactionHash: result.transactionHash,
+      },
+    ];
+
+    const decided = await this.transition(
+      request,
+      status,
+      decidedBy,
+      note,
+      {
+        recordIds: grant.recordIds,
+        expirationTime: grant.expirationTime,
+        permissionIds: [result.permissionId],
+        signed: true,
+      },
+      'approving',
+      claim
+    );
+
+    return { request: decided, granted };
+  }
+
+  /**
+   * Deny a pending request
+   */
+  async denyRequest(
+    request: AccessRequest,
+    decidedBy: string,
+    note: string | null
+  ): Promise<AccessRequest | null> {
+    return this.transition(request, 'denied', decidedBy, note, {});
+  }
+
+  /**
+   * Cancel a pending request on behalf of its requester
+   */
+  async cancelRequest(
+    request: AccessRequest,
+    requesterWallet: string
+  ): Promise<AccessRequest | null> {
+    return this.transition(request, 'cancelled', requesterWallet, null, {});
+  }
+
+  /**
+   * Claim a pending request, or one whose approval claim lapsed, for approval
+   * Returns the claim's attempt number, or null when the request was not claimable
+   */
+  private async claim(request: AccessRequest): Promise<number | null> {
+    const claimed = await db.oneOrNone(
+      `UPDATE access_requests
+       SET status = 'approving', claim_attempts = claim_attempts + 1,
+           claimed_until = NOW() + make_interval(secs => $2)
+       WHERE id = $1
+         AND (status = 'pending' OR (status = 'approving' AND claimed_until < NOW()))
+       RETURNING claim_attempts`,
+      [request.id, config.accessRequests.claimTimeout / 1000]
+    );
+    return claimed ? claimed.claim_attempts : null;
+  }
+
+  /**
+   * Keep the claim on a request while its approval is making progress
+   */
+  private async renewClaim(request: AccessRequest, claim: number): Promise<void> {
+    await db.none(
+      `UPDATE access_requests SET claimed_until = NOW() + make_interval(secs => $3)
+       WHERE id = $1 AND status = 'approving' AND claim_attempts = $2`,
+      [request.id, claim, config.accessRequests.claimTimeout / 1000]
+    );
+  }
+
+  /**
+   * Return a claimed request to pending when its approval granted nothing
+   */
+  private async release(request: AccessRequest, claim: number): Promise<void> {
+    await db.none(
+      `UPDATE access_requests SET status = 'pending', claimed_until = NULL
+       WHERE id = $1 AND status = 'approving' AND claim_attempts = $2`,
+      [request.id, claim]
+    );
+  }
+
+  /**
+   * Revoke an on-chain grant whose permission could not be stored
+   * When revoking fails too, the grant is left in the audit log to be revoked by hand
+   */
+  private async revokeUnstored(
+    request: AccessRequest,
+    recordId: number,
+    shared: SharedRecord,
+    patientRecordsService: PatientRecordsService,
+    storeError: unknown
+  ): Promise<void> {
+    try {
+      const signer = await getKeyVault().getSigner(request.patient_wallet);
+      await patientRecordsService.revokePermission(signer, shared.permissionId);
+    } catch (error) {
+      await db.none(
+        `INSERT INTO audit_log (wallet_address, action, transaction_hash, details)
+         VALUES ($1, $2, $3, $4)`,
+        [
+          request.patient_wallet,
+          'access_request_grant_unstored',
+          shared.transactionHash,
+          {
+            requestId: request.id,
+            recordId,
+            permissionId: shared.permissionId,
+            grantee: request.requester_wallet,
+            storeError: (storeError as Error).message,
+            revokeError: (error as Error).message,
+          },
+        ]
+      );
+    }
+  }
+
+  /**
+   * Move a request to its final state and record the event
+   * Returns null when the request was no longer in the expected state, or an approval's claim
+   * was taken over
+   */
+  private async transition(
+    request: AccessRequest,
+    status: AccessRequestStatus,
+    actorWallet: string,
+    note: string | null,
+    details: { [key: string]: any },
+    fromStatus: AccessRequestStatus = 'pending',
+    claim: number | null = null
+  ): Promise<AccessRequest | null> {
+    return db.tx(async (t) => {
+      const updated: AccessRequest | null = await t.oneOrNone(
+        `UPDATE access_requests
+         SET status = $2, decision_note = $3, decided_by = $4, decided_at = NOW(),
+             claimed_until = NULL
+         WHERE id = $1 AND status = $5 AND ($6::int IS NULL OR claim_attempts = $6)
+         RETURNING *`,
+        [request.id, status, note, actorWallet, fromStatus, claim]
+      );
+      if (!updated) {
+        return null;
+      }
+
+      await t.none(
+        `INSERT INTO access_request_events (request_id, status, actor_wallet, details)
+         VALUES ($1, $2, $3, $4)`,
+        [request.id, status, actorWallet, note ? { ...details, note } : details]
+      );
+
+      return updated;
+    });
+  }
+}
+
+// Export singleton instance
+let accessRequestServiceInstance: AccessRequestService | null = null;
+
+export function getAccessRequestService(): AccessRequestService {
+  if (!accessRequestServiceInstance) {
+    accessRequestServiceInstance = new AccessRequestService();
+  }
+  return accessRequestServiceInstance;
+}
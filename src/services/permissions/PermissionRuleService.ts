@@ -0,0 +1,357 @@
+/**
+ * @file Permission Rule Service
+ * @description Rule-based grants by FHIR resource type, category or tag
+ * The contract only grants explicit record IDs, each under the record's own key, so a rule
+ * is enforced as one on-chain permission per matching record. Existing records are granted
+ * when the rule is created; records added later are granted as they are registered while
+ * the rule covers future records.
+ */
+
+import db from '../database';
+import { getKeyVault } from '../custody';
+import { PatientRecordsService } from '../blockchain/PatientRecordsService';
+import { getRecordService } from '../records';
+import { PermissionRule, PermissionRuleCriteria, PermissionRuleGrant } from '../../types';
+
+/**
+ * Whether a coding matches a `code` or `system|code` criterion
+ */
+function codingMatches(coding: any, criterion: string): boolean {
+  if (!coding?.code) {
+    return false;
+  }
+  const separator = criterion.lastIndexOf('|');
+  if (separator === -1) {
+    return coding.code === criterion;
+  }
+  return (
+    coding.system === criterion.slice(0, separator) &&
+    coding.code === criterion.slice(separator + 1)
+  );
+}
+
+export class PermissionRuleService {
+  /**
+   * Whether a FHIR resource matches every criterion of a rule
+   */
+  matches(criteria: PermissionRuleCriteria, resource: any): boolean {
+    if (!resource?.resourceType) {
+      return false;
+    }
+
+    if (criteria.resourceType && resource.resourceType !== criteria.resourceType) {
+      return false;
+    }
+
+    if (criteria.category) {
+      const categories = [].concat(resource.category || []);
+      const matched = categories.some((concept: any) =>
+        (concept?.coding || []).some((coding: any) => codingMatches(coding, criteria.category!))
+      );
+      if (!matched) {
+        return false;
+      }
+    }
+
+    if (criteria.tag) {
+      const tags = resource.meta?.tag || [];
+      if (!tags.some((coding: any) => codingMatches(coding, criteria.tag!))) {
+        return false;
+      }
+    }
+
+    return true;
+  }
+
+  /**
+   * Create a rule and, unless it only covers future records, grant the matching records
+   */
+  async createRule(
+    patientWallet: string,
+    createdBy: string,
+    granteeAddress: string,
+    criteria: PermissionRuleCriteria,
+    options: { includeExisting: boolean; includeFuture: boolean; expiration: number },
+    patientRecordsService: PatientRecordsService
+  ): Promise<{ rule: PermissionRule; granted: PermissionRuleGrant[]; skippedRecordIds: number[] }> {
+    const rule: PermissionRule = await db.one(
+      `INSERT INTO permission_rules
+         (patient_wallet, grantee_wallet, resource_type, category, tag, include_existing,
+          include_future, expiration, created_by)
+       VALUES ($1, $2, $3, $4, $5, $6, $7, to_timestamp($8), $9)
+       RETURNING *`,
+      [
+        patientWallet,
+        granteeAddress,
+        criteria.resourceType || null,
+        criteria.category || null,
+        criteria.tag || null,
+        options.includeExisting,
+        options.includeFuture,
+        options.expiration,
+        createdBy,
+      ]
+    );
+
+    const granted: PermissionRuleGrant[] = [];
+    const skippedRecordIds: number[] = [];
+    if (!options.includeExisting) {
+      return { rule, granted, skippedRecordIds };
+    }
+
+    // Matching needs the plaintext, so every record is decrypted for the patient
+    const recordService = getRecordService();
+    const records = await db.manyOrNone(
+      'SELECT record_id FROM records WHERE patient_wallet = $1 ORDER BY record_id',
+      [patientWallet]
+    );
+
+    for (const { record_id: recordId } of records) {
+      const record = await recordService.readRecord(
+        patientWallet,
+        patientWallet,
+        patientRecordsService,
+        recordId
+      );
+      if (!record || !this.matches(this.toCriteria(rule), record.fhirData)) {
+        continue;
+      }
+
+      const grant = await this.grant(rule, patientRecordsService, recordId);
+      if (grant) {
+        granted.push(grant);
+      } else {
+        skippedRecordIds.push(recordId);
+      }
+    }
+
+    return { rule, granted, skippedRecordIds };
+  }
+
+  /**
+   * Grant a newly registered record to every active rule covering future records it matches
+   * The record is decrypted when its resource is not at hand. A failing grant does not fail
+   * the record; it is reported and the other rules still apply. Rules that already granted
+   * the record are passed over, so registering a record again does not grant it twice
+   */
+  async applyToNewRecord(
+    patientWallet: string,
+    patientRecordsService: PatientRecordsService,
+    recordId: number,
+    resource?: any
+  ): Promise<PermissionRuleGrant[]> {
+    const rules: PermissionRule[] = await db.manyOrNone(
+      `SELECT * FROM permission_rules r
+       WHERE r.patient_wallet = $1 AND r.revoked = FALSE AND r.include_future = TRUE
+         AND r.expiration > NOW()
+         AND NOT EXISTS (
+           SELECT 1 FROM permissions p WHERE p.rule_id = r.id AND p.record_id = $2
+         )
+       ORDER BY r.id`,
+      [patientWallet, recordId]
+    );
+
+    // Grants are signed for the patient, so rules only apply while their key is in custody
+    if (rules.length === 0 || !(await getKeyVault().hasKey(patientWallet))) {
+      return [];
+    }
+
+    let fhirData = resource;
+    if (fhirData === undefined) {
+      const record = await getRecordService().readRecord(
+        patientWallet,
+        patientWallet,
+        patientRecordsService,
+        recordId
+      );
+      fhirData = record?.fhirData;
+    }
+    const matching = rules.filter((rule) => this.matches(this.toCriteria(rule), fhirData));
+
+    const granted: PermissionRuleGrant[] = [];
+    for (const rule of matching) {
+      try {
+        const grant = await this.grant(rule, patientRecordsService, recordId);
+        if (grant) {
+          granted.push(grant);
+        }
+      } catch (error) {
+        console.warn(
+          `⚠️ Permission rule ${rule.id} could not grant record ${recordId}:`,
+          (error as Error).message
+        );
+      }
+    }
+
+    if (granted.length > 0) {
+      await db.none(
+        `INSERT INTO audit_log (wallet_address, action, details)
+         VALUES ($1, $2, $3)`,
+        [
+          patientWallet,
+          'permission_rules_applied',
+          {
+            recordId,
+            grants: granted.map(({ ruleId, permissionId, grantee }) => ({
+              ruleId,
+              permissionId,
+              grantee,
+            })),
+          },
+        ]
+      );
+    }
+
+    return granted;
+  }
+
+  /**
+   * Get a rule
+   */
+  async getRule(ruleId: number): Promise<PermissionRule | null> {
+    return db.oneOrNone('SELECT * FROM permission_rules WHERE id = $1', [ruleId]);
+  }
+
+  /**
+   * A patient's rules, newest first
+   */
+  async listRules(patientWallet: string): Promise<PermissionRule[]> {
+    return db.manyOrNone(
+      `SELECT * FROM permission_rules WHERE patient_wallet = $1 ORDER BY created_at DESC`,
+      [patientWallet]
+    );
+  }
+
+  /**
+   * Permissions granted under a rule, including revoked ones
+   */
+  async listPermissions(ruleId: number): Promise<{ [key: string]: any }[]> {
+    return db.manyOrNone(
+      `SELECT permission_id, record_id, expiration, revoked, suspended, granted_at,
+              transaction_hash
+       FROM permissions
+       WHERE rule_id = $1
+       ORDER BY record_id`,
+      [ruleId]
+    );
+  }
+
+  /**
+   * Whether a rule still has live permissions, as when revoking it stopped midway
+   */
+  async hasLivePermissions(ruleId: number): Promise<boolean> {
+    const permission = await db.oneOrNone(
+      `SELECT 1 FROM permissions
+       WHERE rule_id = $1 AND revoked = FALSE AND expiration > NOW()
+       LIMIT 1`,
+      [ruleId]
+    );
+    return permission !== null;
+  }
+
+  /**
+   * Revoke a rule and every permission granted under it
+   * The rule is marked revoked first so no new record is granted under it, and each
+   * permission as soon as it is revoked on-chain; when revoking stops midway, calling this
+   * again revokes the permissions that are left.
+   */
+  async revokeRule(
+    rule: PermissionRule,
+    patientRecordsService: PatientRecordsService
+  ): Promise<{
+    rule: PermissionRule;
+    revoked: { permissionId: number; transactionHash: string }[];
+  }> {
+    const revokedRule: PermissionRule = await db.one(
+      `UPDATE permission_rules SET revoked = TRUE, revoked_at = COALESCE(revoked_at, NOW())
+       WHERE id = $1
+       RETURNING *`,
+      [rule.id]
+    );
+
+    const permissions = await db.manyOrNone(
+      `SELECT id, permission_id FROM permissions
+       WHERE rule_id = $1 AND revoked = FALSE AND expiration > NOW()`,
+      [rule.id]
+    );
+
+    const revoked = [];
+    if (permissions.length > 0) {
+      const signer = await getKeyVault().getSigner(rule.patient_wallet);
+      for (const permission of permissions) {
+        const transactionHash = await patientRecordsService.revokePermission(
+          signer,
+          permission.permission_id
+        );
+        await db.none('UPDATE permissions SET revoked = TRUE WHERE id = $1', [permission.id]);
+        revoked.push({ permissionId: permission.permission_id, transactionHash });
+      }
+    }
+
+    return { rule: revokedRule, revoked };
+  }
+
+  /**
+   * Criteria of a stored rule
+   */
+  toCriteria(rule: PermissionRule): PermissionRuleCriteria {
+    return { resourceType: rule.resource_type, category: rule.category, tag: rule.tag };
+  }
+
+  /**
+   * Grant one record under a rule and link the permission to it
+   */
+  private async grant(
+    rule: PermissionRule,
+    patientRecordsService: PatientRecordsService,
+    recordId: number
+  ): Promise<PermissionRuleGrant | null> {
+    const expiration = Math.floor(new Date(rule.expiration).getTime() / 1000);
+    const shared = await getRecordService().shareRecord(
+      rule.patient_wallet,
+      patientRecordsService,
+      recordId,
+      rule.grantee_wallet,
+      expiration
+    );
+    if (!shared) {
+      return null;
+    }
+
+    await db.none(
+      `INSERT INTO permissions
+         (patient_wallet, grantee_wallet, record_id, permission_id, wrapped_key, expiration,
+          transaction_hash, key_version, rule_id)
+       VALUES ($1, $2, $3, $4, $5, to_timestamp($6), $7, $8, $9)`,
+      [
+        rule.patient_wallet,
+        rule.grantee_wallet,
+        recordId,
+        shared.permissionId,
+        shared.wrappedKey,
+        expiration,
+        shared.transactionHash,
+        shared.keyVersion,
+        rule.id,
+      ]
+    );
+
+    return {
+      ruleId: rule.id,
+      permissionId: shared.permissionId,
+      grantee: rule.grantee_wallet,
+      recordId,
+      transactionHash: shared.transactionHash,
+    };
+  }
+}
+
+// Export singleton instance
+let permissionRuleServiceInstance: PermissionRuleService | null = null;
+
+export function getPermissionRuleService(): PermissionRuleService {
+  if (!permissionRuleServiceInstance) {
+    permissionRuleServiceInstance = new PermissionRuleService();
+  }
+  return permissionRuleServiceInstance;
+}
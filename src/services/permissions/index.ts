@@ -0,0 +1,7 @@
+/**
+ * @file Permission Services
+ * @description Export rule-based permission and access request modules
+ */
+
+export * from './PermissionRuleService';
+export * from './AccessRequestService';
@@ -0,0 +1,282 @@
+/**
+ * @file Policy Engine
+ * @description Evaluates declarative RBAC/ABAC policies against a user's role grants
+ */
+
+import db from '../database';
+import {
+  DelegationGrant,
+  Policy,
+  PolicyAction,
+  PolicyCondition,
+  PolicyDecision,
+  PolicyEvaluation,
+  PolicyResource,
+  PolicySubject,
+  ProxyDelegation,
+  RoleAssignment,
+  RoleGrant,
+  UserRole,
+} from '../../types';
+import { POLICIES } from './policies';
+
+export class PolicyEngine {
+  constructor(private policies: Policy[] = POLICIES) {}
+
+  /**
+   * Get the declared policies
+   */
+  getPolicies(): Policy[] {
+    return this.policies;
+  }
+
+  /**
+   * Build a subject from the user's primary role, active role assignments and
+   * active delegations in which the user is the proxy
+   */
+  async loadSubject(walletAddress: string, primaryRole: string): Promise<PolicySubject> {
+    const assignments: RoleAssignment[] = await db.manyOrNone(
+      `SELECT * FROM role_assignments
+       WHERE LOWER(wallet_address) = LOWER($1)
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())
+       ORDER BY created_at ASC`,
+      [walletAddress]
+    );
+
+    const grants: RoleGrant[] = [
+      { role: primaryRole as UserRole, source: 'primary' },
+      ...assignments.map((assignment) => ({
+        role: assignment.role,
+        source: 'assignment' as const,
+        assignmentId: assignment.id,
+        department: assignment.department,
+        facility: assignment.facility,
+      })),
+    ];
+
+    const delegations: ProxyDelegation[] = await db.manyOrNone(
+      `SELECT * FROM proxy_delegations
+       WHERE LOWER(proxy_wallet) = LOWER($1)
+         AND revoked_at IS NULL
+         AND (expires_at IS NULL OR expires_at > NOW())
+       ORDER BY created_at ASC`,
+      [walletAddress]
+    );
+
+    return {
+      walletAddress,
+      grants,
+      delegations: delegations.map((delegation) => ({
+        id: delegation.id,
+        patientAddress: delegation.patient_wallet,
+        relationship: delegation.relationship,
+        scopes: delegation.scopes,
+        expiresAt: delegation.expires_at,
+      })),
+    };
+  }
+
+  /**
+   * Load a subject and evaluate an action for it
+   */
+  async authorize(
+    walletAddress: string,
+    primaryRole: string,
+    action: PolicyAction,
+    resource: PolicyResource = {}
+  ): Promise<PolicyDecision> {
+    const subject = await this.loadSubject(walletAddress, primaryRole);
+    return this.evaluate(subject, action, resource);
+  }
+
+  /**
+   * Evaluate an action (deny overrides allow, default deny)
+   */
+  evaluate(
+    subject: PolicySubject,
+    action: PolicyAction,
+    resource: PolicyResource = {}
+  ): PolicyDecision {
+    const evaluations: PolicyEvaluation[] = this.policies
+      .filter((policy) => policy.actions.includes(action))
+      .map((policy) => this.evaluatePolicy(policy, subject, action, resource));
+
+    const deny = evaluations.find((evaluation) => evaluation.matched && evaluation.effect === 'deny');
+    if (deny) {
+      return {
+        allowed: false,
+        action,
+        decidingPolicy: deny.policyId,
+        reason: `Denied by policy ${deny.policyId}: ${deny.detail}`,
+        evaluations,
+      };
+    }
+
+    const allow = evaluations.find((evaluation) => evaluation.matched && evaluation.effect === 'allow');
+    if (allow) {
+      return {
+        allowed: true,
+        action,
+        decidingPolicy: allow.policyId,
+        reason: `Allowed by policy ${allow.policyId}: ${allow.detail}`,
+        evaluations,
+        delegation: allow.delegation,
+      };
+    }
+
+    return {
+      allowed: false,
+      action,
+      decidingPolicy: null,
+      reason:
+        evaluations.length === 0
+          ? `No policy covers action ${action}`
+          : `No policy allows action ${action} for roles ${this.describeRoles(subject)}`,
+      evaluations,
+    };
+  }
+
+  /**
+   * A policy matches if one of the subject's role grants satisfies its role and conditions
+   */
+  private evaluatePolicy(
+    policy: Policy,
+    subject: PolicySubject,
+    action: PolicyAction,
+    resource: PolicyResource
+  ): PolicyEvaluation {
+    const candidates = subject.grants.filter((grant) => policy.roles.includes(grant.role));
+
+    if (candidates.length === 0) {
+      return {
+        policyId: policy.id,
+        effect: policy.effect,
+        matched: false,
+        detail: `requires role ${policy.roles.join(' or ')}`,
+      };
+    }
+
+    let failure = '';
+    for (const grant of candidates) {
+      const unmet = (policy.conditions || [])
+        .map((condition) => this.checkCondition(condition, grant, subject, action, resource))
+        .find((result) => result !== null);
+
+      if (!unmet) {
+        const delegation = (policy.conditions || []).some(
+          (condition) => condition.type === 'delegation'
+        )
+          ? this.findDelegation(subject, action, resource)
+          : undefined;
+
+        return {
+          policyId: policy.id,
+          effect: policy.effect,
+          matched: true,
+          detail: delegation
+            ? `${delegation.relationship} delegation #${delegation.id} from ${delegation.patientAddress}`
+            : `role ${grant.role} (${this.describeGrant(grant)})`,
+          delegation,
+        };
+      }
+
+      failure = unmet;
+    }
+
+    return {
+      policyId: policy.id,
+      effect: policy.effect,
+      matched: false,
+      detail: failure,
+    };
+  }
+
+  /**
+   * Check a single condition; returns null when satisfied, otherwise why not
+   */
+  private checkCondition(
+    condition: PolicyCondition,
+    grant: RoleGrant,
+    subject: PolicySubject,
+    action: PolicyAction,
+    resource: PolicyResource
+  ): string | null {
+    switch (condition.type) {
+      case 'owner':
+        if (
+          resource.patientAddress &&
+          resource.patientAddress.toLowerCase() === subject.walletAddress.toLowerCase()
+        ) {
+          return null;
+        }
+        return 'resource does not belong to the subject';
+
+      case 'attribute': {
+        const value = grant[condition.attribute];
+        if (value && condition.values.includes(value)) {
+          return null;
+        }
+        return `role ${grant.role} requires ${condition.attribute} ${condition.values.join(' or ')}`;
+      }
+
+      case 'delegation':
+        if (this.findDelegation(subject, action, resource)) {
+          return null;
+        }
+        return `no active delegation from the patient covers ${action}`;
+
+      case 'participant':
+        if (
+          (resource.participants || []).some(
+            (participant) => participant.toLowerCase() === subject.walletAddress.toLowerCase()
+          )
+        ) {
+          return null;
+        }
+        return 'subject does not take part in the resource';
+    }
+  }
+
+  /**
+   * Find an active delegation from the resource's patient whose scopes include the action
+   */
+  private findDelegation(
+    subject: PolicySubject,
+    action: PolicyAction,
+    resource: PolicyResource
+  ): DelegationGrant | undefined {
+    if (!resource.patientAddress) {
+      return undefined;
+    }
+
+    const patientAddress = resource.patientAddress.toLowerCase();
+    return subject.delegations.find(
+      (delegation) =>
+        delegation.patientAddress.toLowerCase() === patientAddress &&
+        delegation.scopes.includes(action)
+    );
+  }
+
+  private describeGrant(grant: RoleGrant): string {
+    const parts: string[] =
+      grant.source === 'primary' ? ['primary role'] : [`assignment #${grant.assignmentId}`];
+    if (grant.department) parts.push(`department ${grant.department}`);
+    if (grant.facility) parts.push(`facility ${grant.facility}`);
+    return parts.join(', ');
+  }
+
+  private describeRoles(subject: PolicySubject): string {
+    return Array.from(new Set(subject.grants.map((grant) => grant.role))).join(', ');
+  }
+}
+
+// Export singleton instance
+let policyEngineInstance: PolicyEngine | null = null;
+
+export function getPolicyEngine(): PolicyEngine {
+  if (!policyEngineInstance) {
+    policyEngineInstance = new PolicyEngine();
+  }
+  return policyEngineInstance;
+}
@@ -0,0 +1,7 @@
+/**
+ * @file Policy Services
+ * @description Export authorization policy modules
+ */
+
+export * from './policies';
+export * from './PolicyEngine';
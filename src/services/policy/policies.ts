@@ -0,0 +1,171 @@
+/**
+ * @file Access Policies
+ * @description Declarative authorization policies evaluated by the policy engine
+ * Combining rule: any matching deny wins, otherwise any matching allow, otherwise deny.
+ */
+
+import { Policy, PolicyAction, UserRole } from '../../types';
+
+/**
+ * Every role the system knows about
+ */
+export const ROLES: UserRole[] = [
+  'patient',
+  'doctor',
+  'nurse',
+  'pharmacist',
+  'researcher',
+  'auditor',
+  'guardian',
+  'admin',
+  'privacy_officer',
+];
+
+/**
+ * Actions a patient can delegate to a proxy
+ */
+export const DELEGABLE_ACTIONS: PolicyAction[] = [
+  'record:create',
+  'record:update',
+  'permission:grant',
+  'permission:revoke',
+  'permission:list_granted',
+];
+
+export const POLICIES: Policy[] = [
+  // Patients manage their own records and who can see them
+  {
+    id: 'patient-manage-own-records',
+    description: 'Patients add and update records and grant or revoke access to them',
+    effect: 'allow',
+    roles: ['patient'],
+    actions: [
+      'record:create',
+      'record:update',
+      'permission:grant',
+      'permission:revoke',
+      'permission:list_granted',
+    ],
+    conditions: [{ type: 'owner' }],
+  },
+  {
+    id: 'patient-view-own-history',
+    description: 'Patients view access and emergency history for their own records',
+    effect: 'allow',
+    roles: ['patient'],
+    actions: ['record:access_history', 'emergency:history'],
+    conditions: [{ type: 'owner' }],
+  },
+
+  // Proxies (parents, legal guardians, power of attorney) act within their delegated scopes
+  {
+    id: 'proxy-act-for-patient',
+    description: 'Proxies manage a patient\'s records within the scopes the patient delegated',
+    effect: 'allow',
+    roles: ROLES,
+    actions: DELEGABLE_ACTIONS,
+    conditions: [{ type: 'delegation' }],
+  },
+  {
+    id: 'patient-manage-own-delegations',
+    description: 'Patients designate and revoke their own proxies',
+    effect: 'allow',
+    roles: ['patient'],
+    actions: ['delegation:manage'],
+    conditions: [{ type: 'owner' }],
+  },
+
+  // Providers ask patients for access; the patient decides
+  {
+    id: 'provider-request-access',
+    description: 'Care providers and researchers request access to a patient\'s records',
+    effect: 'allow',
+    roles: ['doctor', 'nurse', 'pharmacist', 'researcher'],
+    actions: ['permission:request'],
+  },
+
+  // Emergency ("break glass") access
+  {
+    id: 'doctor-emergency-access',
+    description: 'Doctors request, approve and reject emergency access',
+    effect: 'allow',
+    roles: ['doctor'],
+    actions: ['emergency:request', 'emergency:approve', 'emergency:reject', 'emergency:list_pending'],
+  },
+  {
+    id: 'emergency-department-nurse-triage',
+    description: 'Emergency department nurses can see pending emergency requests',
+    effect: 'allow',
+    roles: ['nurse'],
+    actions: ['emergency:list_pending'],
+    conditions: [{ type: 'attribute', attribute: 'department', values: ['emergency'] }],
+  },
+  {
+    id: 'physician-view-own-emergency-grants',
+    description: 'Requesting and approving physicians view the emergency grants they are part of',
+    effect: 'allow',
+    roles: ROLES,
+    actions: ['emergency:history'],
+    conditions: [{ type: 'participant' }],
+  },
+  {
+    id: 'patient-revoke-emergency-access',
+    description: 'Patients revoke emergency access to their own records',
+    effect: 'allow',
+    roles: ['patient'],
+    actions: ['emergency:revoke'],
+    conditions: [{ type: 'owner' }],
+  },
+  {
+    id: 'patient-manage-emergency-directive',
+    description: 'Patients declare which of their records may be opened in an emergency',
+    effect: 'allow',
+    roles: ['patient'],
+    actions: ['emergency:directive'],
+    conditions: [{ type: 'owner' }],
+  },
+
+  // Oversight
+  {
+    id: 'oversight-view-history',
+    description: 'Admins and auditors review access and emergency history for any patient',
+    effect: 'allow',
+    roles: ['admin', 'auditor'],
+    actions: ['record:access_history', 'emergency:history'],
+  },
+  {
+    id: 'privacy-officer-review-emergency-access',
+    description: 'Privacy officers review confirmed emergency access after the fact',
+    effect: 'allow',
+    roles: ['privacy_officer'],
+    actions: ['emergency:review', 'emergency:history'],
+  },
+  {
+    id: 'auditor-explain-decisions',
+    description: 'Auditors can ask the engine to explain authorization decisions',
+    effect: 'allow',
+    roles: ['auditor'],
+    actions: ['policy:explain'],
+  },
+  {
+    id: 'admin-manage-roles',
+    description: 'Admins manage role assignments and explain decisions',
+    effect: 'allow',
+    roles: ['admin'],
+    actions: ['role:manage', 'policy:explain'],
+  },
+  {
+    id: 'admin-configure-emergency-access',
+    description: 'Admins manage the emergency justification catalogue',
+    effect: 'allow',
+    roles: ['admin'],
+    actions: ['emergency:configure'],
+  },
+  {
+    id: 'admin-manage-delegations',
+    description: 'Admins designate proxies for any patient (proof documents required)',
+    effect: 'allow',
+    roles: ['admin'],
+    actions: ['delegation:manage'],
+  },
+];
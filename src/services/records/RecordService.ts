@@ -0,0 +1,565 @@
+/**
+ * @file Record Service
+ * @description Creates, updates and reads encrypted health records
+ * Shared by the /records API and the FHIR facade so both apply the same on-chain access
+ * checks and encryption.
+ *
+ * An update re-encrypts the new content under the record's existing AES key, so the wrapped
+ * keys already granted keep working and every stored version stays readable.
+ */
+
+import crypto from 'crypto';
+import db from '../database';
+import { getKeyVault } from '../custody';
+import { createStorageService } from '../storage';
+import { PatientRecordsService } from '../blockchain/PatientRecordsService';
+import { getKeyRegistryService } from '../blockchain/KeyRegistryService';
+import * as aesGcm from '../../utils/aes-gcm';
+import * as ecies from '../../utils/ecies';
+import { sha256 } from '../../utils/hash';
+import { getSearchIndexService } from '../search';
+import { getEmergencyEscrowService } from '../escrow';
+import { HealthRecordMetadata, RecordKind, RecordVersion } from '../../types';
+
+export interface StoredRecordBlob {
+  aesKey: Buffer;
+  storagePointer: string;
+  contentDigest: string;
+}
+
+export interface CreatedRecord extends StoredRecordBlob {
+  recordId: number;
+  transactionHash: string;
+}
+
+export interface UpdatedRecord extends CreatedRecord {
+  version: number;
+}
+
+export interface SharedRecord {
+  permissionId: number;
+  transactionHash: string;
+  wrappedKey: string;
+  keyVersion: number;
+}
+
+export interface DecryptedRecord {
+  recordId: number;
+  version: number;
+  fhirData: any;
+  metadata: HealthRecordMetadata;
+}
+
+export interface DecryptedRecordVersion {
+  recordId: number;
+  version: number;
+  fhirData: any;
+  storagePointer: string;
+  contentDigest: string;
+  transactionHash: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export class RecordService {
+  /**
+   * Contract service for a patient, or null if the patient has no contract
+   */
+  async getPatientRecordsService(patientAddress: string): Promise<PatientRecordsService | null> {
+    const patient = await db.oneOrNone(
+      'SELECT patient_contract_address FROM users WHERE wallet_address = $1',
+      [patientAddress]
+    );
+
+    if (!patient?.patient_contract_address) {
+      return null;
+    }
+
+    return new PatientRecordsService(patient.patient_contract_address);
+  }
+
+  /**
+   * Encrypt a FHIR resource and store the blob off-chain
+   * New records get a fresh AES key; updates pass the record's existing key
+   */
+  async encryptAndStore(
+    fhirData: any,
+    aesKey: Buffer = crypto.randomBytes(32)
+  ): Promise<StoredRecordBlob> {
+    // Encrypt FHIR data with AES-GCM
+    const encrypted = aesGcm.encrypt(JSON.stringify(fhirData), aesKey);
+
+    // Calculate content digest
+    const encryptedBlob = Buffer.concat([encrypted.iv, encrypted.ciphertext, encrypted.authTag]);
+    const contentDigest = '0x' + sha256(encryptedBlob);
+
+    // Store encrypted blob
+    const storageResult = await createStorageService().store(encryptedBlob, {
+      contentDigest: contentDigest.slice(2), // Remove 0x prefix
+    });
+
+    return { aesKey, storagePointer: storageResult.pointer, contentDigest };
+  }
+
+  /**
+   * Encrypt, store, register and index a record for a patient whose key is in custody
+   */
+  async createRecord(
+    patientWallet: string,
+    patientRecordsService: PatientRecordsService,
+    fhirData: any
+  ): Promise<CreatedRecord> {
+    const blob = await this.encryptAndStore(fhirData);
+    const created = await this.registerRecord(patientWallet, patientRecordsService, blob);
+
+    // Index keyed-hash search tokens while the plaintext is at hand
+    const searchIndex = getSearchIndexService();
+    await searchIndex.indexRecord(
+      patientWallet,
+      created.recordId,
+      searchIndex.tokenize(patientWallet, fhirData)
+    );
+
+    return created;
+  }
+
+  /**
+   * Register a stored blob on-chain for a patient whose key is in custody, and cache it
+   * The patient keeps their own copy of the record key, wrapped to their current key version,
+   * and the key is escrowed for emergency access
+   */
+  async registerRecord(
+    patientWallet: string,
+    patientRecordsService: PatientRecordsService,
+    blob: StoredRecordBlob,
+    kind: RecordKind = 'fhir'
+  ): Promise<CreatedRecord> {
+    // Proxies sign with the patient's custodial key; the contract only accepts the patient
+    const signer = await getKeyVault().getSigner(patientWallet);
+    const { recordId, transactionHash } = await patientRecordsService.addRecord(
+      signer,
+      blob.storagePointer,
+      blob.contentDigest
+    );
+
+    const patientKeyInfo = await getKeyRegistryService().getPublicKey(patientWallet);
+    const ownerWrappedKey = await ecies.wrapKey(
+      ecies.hexToPublicKey(patientKeyInfo.publicKey),
+      blob.aesKey
+    );
+
+    await this.cacheRecord(
+      patientWallet,
+      recordId,
+      blob,
+      ownerWrappedKey,
+      patientKeyInfo.version,
+      transactionHash,
+      patientWallet,
+      kind
+    );
+    await getEmergencyEscrowService().escrowRecordKey(patientWallet, recordId, blob.aesKey);
+
+    return { ...blob, recordId, transactionHash };
+  }
+
+  /**
+   * Store a new version of a FHIR record for a patient whose key is in custody
+   * Returns null when the record is not a cached FHIR record with the patient's own copy
+   * of the record key
+   */
+  async updateRecord(
+    patientWallet: string,
+    patientRecordsService: PatientRecordsService,
+    recordId: number,
+    fhirData: any,
+    updatedBy: string
+  ): Promise<UpdatedRecord | null> {
+    const record = await db.oneOrNone(
+      'SELECT wrapped_key, kind FROM records WHERE patient_wallet = $1 AND record_id = $2',
+      [patientWallet, recordId]
+    );
+
+    if (!record?.wrapped_key || record.kind !== 'fhir') {
+      return null;
+    }
+
+    const vault = getKeyVault();
+    const aesKey = await vault.unwrapKey(patientWallet, record.wrapped_key);
+    const blob = await this.encryptAndStore(fhirData, aesKey);
+
+    const signer = await vault.getSigner(patientWallet);
+    const transactionHash = await patientRecordsService.updateRecord(
+      signer,
+      recordId,
+      blob.storagePointer,
+      blob.contentDigest
+    );
+
+    // Bump the cached record and keep the new version in one statement
+    const { version } = await db.one(
+      `WITH updated AS (
+         UPDATE records
+         SET storage_pointer = $3, content_digest = $4, version = version + 1
+         WHERE patient_wallet = $1 AND record_id = $2
+         RETURNING version
+       )
+       INSERT INTO record_versions
+         (patient_wallet, record_id, version, storage_pointer, content_digest, transaction_hash, created_by)
+       SELECT $1, $2, version, $3, $4, $5, $6 FROM updated
+       RETURNING version`,
+      [patientWallet, recordId, blob.storagePointer, blob.contentDigest, transactionHash, updatedBy]
+    );
+
+    // Search reflects the latest version only
+    const searchIndex = getSearchIndexService();
+    await searchIndex.removeRecord(patientWallet, recordId);
+    await searchIndex.indexRecord(
+      patientWallet,
+      recordId,
+      searchIndex.tokenize(patientWallet, fhirData)
+    );
+
+    return { ...blob, recordId, transactionHash, version };
+  }
+
+  /**
+   * Cache a newly registered record and its first version
+   * ownerWrappedKey is the patient's own copy of the record key. A record ID is only ever
+   * registered once, so a record already cached (e.g. by an import step being retried) is kept
+   */
+  async cacheRecord(
+    patientWallet: string,
+    recordId: number,
+    blob: { storagePointer: string; contentDigest: string },
+    ownerWrappedKey: string,
+    keyVersion: number,
+    transactionHash: string,
+    createdBy: string,
+    kind: RecordKind = 'fhir'
+  ): Promise<void> {
+    await db.tx(async (t) => {
+      await t.none(
+        `INSERT INTO records (patient_wallet, record_id, storage_pointer, content_digest, wrapped_key, key_version, kind)
+         VALUES ($1, $2, $3, $4, $5, $6, $7)
+         ON CONFLICT (patient_wallet, record_id) DO NOTHING`,
+        [
+          patientWallet,
+          recordId,
+          blob.storagePointer,
+          blob.contentDigest,
+          ownerWrappedKey,
+          keyVersion,
+          kind,
+        ]
+      );
+      await t.none(
+        `INSERT INTO record_versions
+           (patient_wallet, record_id, version, storage_pointer, content_digest, transaction_hash, created_by)
+         VALUES ($1, $2, 1, $3, $4, $5, $6)
+         ON CONFLICT (patient_wallet, record_id, version) DO NOTHING`,
+        [
+          patientWallet,
+          recordId,
+          blob.storagePointer,
+          blob.contentDigest,
+          transactionHash,
+          createdBy,
+        ]
+      );
+    });
+  }
+
+  /**
+   * Stored versions of a record, oldest first
+   */
+  async listVersions(patientWallet: string, recordId: number): Promise<RecordVersion[]> {
+    return db.manyOrNone(
+      `SELECT * FROM record_versions
+       WHERE patient_wallet = $1 AND record_id = $2
+       ORDER BY version`,
+      [patientWallet, recordId]
+    );
+  }
+
+  /**
+   * One stored version of a record, or null if it does not exist
+   */
+  async getVersion(
+    patientWallet: string,
+    recordId: number,
+    version: number
+  ): Promise<RecordVersion | null> {
+    return db.oneOrNone(
+      `SELECT * FROM record_versions
+       WHERE patient_wallet = $1 AND record_id = $2 AND version = $3`,
+      [patientWallet, recordId, version]
+    );
+  }
+
+  /**
+   * Decrypt a record for a reader
+   * Returns null when the contract does not grant the reader access
+   */
+  async readRecord(
+    readerAddress: string,
+    patientAddress: string,
+    patientRecordsService: PatientRecordsService,
+    recordId: number
+  ): Promise<DecryptedRecord | null> {
+    const wrappedKey = await this.getReaderWrappedKey(
+      readerAddress,
+      patientAddress,
+      patientRecordsService,
+      recordId
+    );
+    if (wrappedKey === null) {
+      return null;
+    }
+
+    // Get record metadata from blockchain
+    const metadata = await patientRecordsService.getRecordMetadata(recordId);
+
+    const fhirData = await this.decryptBlob(
+      readerAddress,
+      wrappedKey,
+      metadata.storagePointer,
+      metadata.contentDigest
+    );
+
+    // The stored version whose content the contract points at
+    const stored = await db.oneOrNone(
+      `SELECT version FROM record_versions
+       WHERE patient_wallet = $1 AND record_id = $2 AND content_digest = $3
+       ORDER BY version DESC
+       LIMIT 1`,
+      [patientAddress, recordId, metadata.contentDigest]
+    );
+
+    return { recordId, version: stored ? stored.version : 1, fhirData, metadata };
+  }
+
+  /**
+   * Unwrapped record key for a reader, or null when the contract denies access
+   */
+  async getRecordKey(
+    readerAddress: string,
+    patientAddress: string,
+    patientRecordsService: PatientRecordsService,
+    recordId: number
+  ): Promise<Buffer | null> {
+    const wrappedKey = await this.getReaderWrappedKey(
+      readerAddress,
+      patientAddress,
+      patientRecordsService,
+      recordId
+    );
+    return wrappedKey === null ? null : getKeyVault().unwrapKey(readerAddress, wrappedKey);
+  }
+
+  /**
+   * Grant a user access to one record of a patient whose key is in custody
+   * The record key is wrapped to the grantee's current public key; returns null when the
+   * patient's own copy of the record key is not cached
+   */
+  async shareRecord(
+    patientWallet: string,
+    patientRecordsService: PatientRecordsService,
+    recordId: number,
+    granteeAddress: string,
+    expiration: number
+  ): Promise<SharedRecord | null> {
+    const aesKey = await this.getRecordKey(
+      patientWallet,
+      patientWallet,
+      patientRecordsService,
+      recordId
+    );
+    if (!aesKey) {
+      return null;
+    }
+
+    const granteeKeyInfo = await getKeyRegistryService().getPublicKey(granteeAddress);
+    let wrappedKey: string;
+    try {
+      wrappedKey = await ecies.wrapKey(ecies.hexToPublicKey(granteeKeyInfo.publicKey), aesKey);
+    } finally {
+      aesKey.fill(0);
+    }
+
+    const signer = await getKeyVault().getSigner(patientWallet);
+    const { permissionId, transactionHash } = await patientRecordsService.grantPermission(
+      signer,
+      granteeAddress,
+      [recordId],
+      wrappedKey,
+      expiration
+    );
+
+    return { permissionId, transactionHash, wrappedKey, keyVersion: granteeKeyInfo.version };
+  }
+
+  /**
+   * Decrypt a stored version of a record for a reader
+   * Returns null when the contract does not grant the reader access to the record
+   */
+  async readRecordVersion(
+    readerAddress: string,
+    patientAddress: string,
+    patientRecordsService: PatientRecordsService,
+    recordVersion: RecordVersion
+  ): Promise<DecryptedRecordVersion | null> {
+    const wrappedKey = await this.getReaderWrappedKey(
+      readerAddress,
+      patientAddress,
+      patientRecordsService,
+      recordVersion.record_id
+    );
+    if (wrappedKey === null) {
+      return null;
+    }
+
+    // Every version is encrypted under the same record key
+    const fhirData = await this.decryptBlob(
+      readerAddress,
+      wrappedKey,
+      recordVersion.storage_pointer,
+      recordVersion.content_digest
+    );
+
+    return {
+      recordId: recordVersion.record_id,
+      version: recordVersion.version,
+      fhirData,
+      storagePointer: recordVersion.storage_pointer,
+      contentDigest: recordVersion.content_digest,
+      transactionHash: recordVersion.transaction_hash,
+      createdBy: recordVersion.created_by,
+      createdAt: recordVersion.created_at,
+    };
+  }
+
+  /**
+   * Record IDs a reader can see: all of them for the patient, otherwise those granted
+   */
+  async listReadableRecordIds(
+    readerAddress: string,
+    patientAddress: string,
+    patientRecordsService: PatientRecordsService
+  ): Promise<number[]> {
+    if (readerAddress.toLowerCase() === patientAddress.toLowerCase()) {
+      return patientRecordsService.getAllRecordIds();
+    }
+    return patientRecordsService.getAccessibleRecords(readerAddress);
+  }
+
+  /**
+   * Wrapped record key for a reader, or null when the contract denies access
+   */
+  private async getReaderWrappedKey(
+    readerAddress: string,
+    patientAddress: string,
+    patientRecordsService: PatientRecordsService,
+    recordId: number
+  ): Promise<string | null> {
+    const access = await patientRecordsService.checkAccess(readerAddress, recordId);
+    if (!access.hasAccess) {
+      return this.getEmergencyWrappedKey(readerAddress, patientAddress, recordId);
+    }
+
+    // The contract grants the patient access without a wrapped key; use their own copy
+    let wrappedKey = access.wrappedKey;
+    if (readerAddress.toLowerCase() === patientAddress.toLowerCase()) {
+      const record = await db.oneOrNone(
+        'SELECT wrapped_key FROM records WHERE patient_wallet = $1 AND record_id = $2',
+        [patientAddress, recordId]
+      );
+      wrappedKey = record?.wrapped_key || wrappedKey;
+    }
+
+    return wrappedKey;
+  }
+
+  /**
+   * Record key released to a physician by a confirmed emergency grant, or null
+   * The contract's checkAccess does not consider emergency access, so released keys are
+   * looked up here while the grant is unexpired and not suspended
+   */
+  private async getEmergencyWrappedKey(
+    readerAddress: string,
+    patientAddress: string,
+    recordId: number
+  ): Promise<string | null> {
+    const grant = await db.oneOrNone(
+      `SELECT CASE WHEN LOWER(physician1_wallet) = LOWER($1) THEN wrapped_key
+                   ELSE physician2_wrapped_key END AS wrapped_key
+       FROM emergency_grants
+       WHERE LOWER(patient_wallet) = LOWER($2) AND record_id = $3
+         AND status = 'confirmed' AND expiration > NOW()
+         AND ((LOWER(physician1_wallet) = LOWER($1) AND physician1_suspended = FALSE)
+           OR (LOWER(physician2_wallet) = LOWER($1) AND physician2_suspended = FALSE))
+       ORDER BY expiration DESC
+       LIMIT 1`,
+      [readerAddress, patientAddress, recordId]
+    );
+    return grant?.wrapped_key || null;
+  }
+
+  /**
+   * Retrieve an encrypted blob and decrypt it with the reader's unwrapped record key
+   */
+  private async decryptBlob(
+    readerAddress: string,
+    wrappedKey: string,
+    storagePointer: string,
+    contentDigest: string
+  ): Promise<any> {
+    // Retrieve encrypted data from storage
+    const encryptedBlob = await createStorageService().retrieve(
+      storagePointer,
+      contentDigest.slice(2) // Remove 0x prefix
+    );
+
+    // Unwrap AES key inside the key vault
+    const aesKey = await getKeyVault().unwrapKey(readerAddress, wrappedKey);
+
+    // Decrypt record
+    const iv = encryptedBlob.slice(0, 12);
+    const authTag = encryptedBlob.slice(-16);
+    const ciphertext = encryptedBlob.slice(12, -16);
+    const decrypted = aesGcm.decrypt(ciphertext, aesKey, iv, authTag);
+
+    return JSON.parse(decrypted.toString('utf-8'));
+  }
+
+  /**
+   * Log a read (except patients reading their own records)
+   */
+  async logAccess(
+    recordId: number,
+    readerAddress: string,
+    patientAddress: string,
+    ipAddress?: string,
+    userAgent?: string
+  ): Promise<void> {
+    if (readerAddress.toLowerCase() === patientAddress.toLowerCase()) {
+      return;
+    }
+
+    await db.none(
+      `INSERT INTO access_logs (record_id, patient_wallet, accessor_wallet, ip_address, user_agent)
+       VALUES ($1, $2, $3, $4, $5)`,
+      [recordId, patientAddress, readerAddress, ipAddress, userAgent]
+    );
+  }
+}
+
+// Export singleton instance
+let recordServiceInstance: RecordService | null = null;
+
+export function getRecordService(): RecordService {
+  if (!recordServiceInstance) {
+    recordServiceInstance = new RecordService();
+  }
+  return recordServiceInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file Record Services
+ * @description Export health record modules
+ */
+
+export * from './RecordService';
@@ -0,0 +1,398 @@
+/**
+ * @file Recovery Service
+ * @description Social / threshold recovery of a user's wallet key
+ * The key is split into Shamir shares, each ECIES-encrypted to a guardian or recovery
+ * device. Once enough holders release their shares the key is reconstructed, put back
+ * in custody, and the ECIES encryption key is rotated with a rekey job re-wrapping every
+ * key addressed to the old one.
+ */
+
+import { Wallet } from 'ethers';
+import db from '../database';
+import config from '../../config';
+import { getKeyVault } from '../custody';
+import { deriveMasterSubkey } from '../custody/master-key';
+import { getRekeyService } from '../rekey';
+import * as aesGcm from '../../utils/aes-gcm';
+import * as ecies from '../../utils/ecies';
+import * as shamir from '../../utils/shamir';
+import { sha256 } from '../../utils/hash';
+import { RecoveryRecipient, RecoveryShare, RecoverySession } from '../../types';
+
+export interface RecoveryProgress {
+  session: RecoverySession;
+  threshold: number;
+  approvals: number;
+}
+
+export interface EncryptionKeyRotation {
+  transactionHash: string;
+  newPublicKey: string;
+  rekeyJobId: number;
+}
+
+export class RecoveryService {
+  /**
+   * Split a user's wallet key across guardians / devices
+   * Replaces any previous setup, whose shares stop being usable
+   */
+  async configure(
+    walletAddress: string,
+    privateKey: string,
+    threshold: number,
+    recipients: RecoveryRecipient[]
+  ): Promise<{ configId: number; shares: Partial<RecoveryShare>[] }> {
+    const wallet = new Wallet(privateKey);
+    if (wallet.address.toLowerCase() !== walletAddress.toLowerCase()) {
+      throw new Error('Private key does not match wallet address');
+    }
+
+    if (recipients.length > config.recovery.maxShares) {
+      throw new Error(`At most ${config.recovery.maxShares} recovery shares are allowed`);
+    }
+
+    const secret = Buffer.from(wallet.privateKey.slice(2), 'hex');
+    const shares = shamir.splitSecret(secret, recipients.length, threshold);
+    secret.fill(0);
+
+    const encryptedShares = await Promise.all(
+      shares.map(async (share, i) => {
+        const publicKey = ecies.hexToPublicKey(recipients[i].publicKey);
+        const encrypted = {
+          shareIndex: shamir.getShareIndex(share),
+          encryptedShare: await ecies.wrapKey(publicKey, share),
+          digest: sha256(share),
+        };
+        share.fill(0);
+        return encrypted;
+      })
+    );
+
+    return db.tx(async (t) => {
+      await t.none(
+        `UPDATE recovery_configs SET status = 'superseded', retired_at = NOW()
+         WHERE wallet_address = $1 AND status = 'active'`,
+        [walletAddress]
+      );
+      await t.none(
+        `UPDATE recovery_sessions SET status = 'cancelled'
+         WHERE wallet_address = $1 AND status = 'pending'`,
+        [walletAddress]
+      );
+
+      const created = await t.one(
+        `INSERT INTO recovery_configs (wallet_address, threshold, share_count)
+         VALUES ($1, $2, $3)
+         RETURNING id`,
+        [walletAddress, threshold, recipients.length]
+      );
+
+      const stored: Partial<RecoveryShare>[] = [];
+      for (let i = 0; i < recipients.length; i++) {
+        stored.push(
+          await t.one(
+            `INSERT INTO recovery_shares
+               (config_id, share_index, guardian_wallet, device_label, recipient_public_key, encrypted_share, share_digest)
+             VALUES ($1, $2, $3, $4, $5, $6, $7)
+             RETURNING id, share_index, guardian_wallet, device_label, encrypted_share`,
+            [
+              created.id,
+              encryptedShares[i].shareIndex,
+              recipients[i].guardianAddress || null,
+              recipients[i].guardianAddress ? null : recipients[i].deviceLabel,
+              recipients[i].publicKey,
+              encryptedShares[i].encryptedShare,
+              encryptedShares[i].digest,
+            ]
+          )
+        );
+      }
+
+      return { configId: created.id, shares: stored };
+    });
+  }
+
+  /**
+   * Get a user's active recovery setup (without encrypted shares)
+   */
+  async getConfig(walletAddress: string): Promise<{ [key: string]: any } | null> {
+    const recoveryConfig = await db.oneOrNone(
+      `SELECT id, threshold, share_count, created_at FROM recovery_configs
+       WHERE wallet_address = $1 AND status = 'active'`,
+      [walletAddress]
+    );
+
+    if (!recoveryConfig) {
+      return null;
+    }
+
+    const shares = await db.manyOrNone(
+      `SELECT id, share_index, guardian_wallet, device_label, created_at
+       FROM recovery_shares WHERE config_id = $1 ORDER BY share_index ASC`,
+      [recoveryConfig.id]
+    );
+
+    return { ...recoveryConfig, shares };
+  }
+
+  /**
+   * Start a recovery ceremony for the user's active setup
+   */
+  async startSession(walletAddress: string): Promise<RecoverySession> {
+    const recoveryConfig = await db.oneOrNone(
+      `SELECT id FROM recovery_configs WHERE wallet_address = $1 AND status = 'active'`,
+      [walletAddress]
+    );
+
+    if (!recoveryConfig) {
+      throw new Error('No recovery setup found');
+    }
+
+    await this.expireSessions(walletAddress);
+
+    const pending = await db.oneOrNone(
+      `SELECT id FROM recovery_sessions WHERE wallet_address = $1 AND status = 'pending'`,
+      [walletAddress]
+    );
+
+    if (pending) {
+      throw new Error('A recovery is already in progress');
+    }
+
+    return db.one(
+      `INSERT INTO recovery_sessions (config_id, wallet_address, expires_at)
+       VALUES ($1, $2, NOW() + make_interval(secs => $3))
+       RETURNING *`,
+      [recoveryConfig.id, walletAddress, config.recovery.sessionTtl]
+    );
+  }
+
+  /**
+   * Get a ceremony with its approval progress
+   */
+  async getProgress(sessionId: number): Promise<RecoveryProgress | null> {
+    const session: RecoverySession | null = await db.oneOrNone(
+      'SELECT * FROM recovery_sessions WHERE id = $1',
+      [sessionId]
+    );
+
+    if (!session) {
+      return null;
+    }
+
+    if (session.status === 'pending' && new Date(session.expires_at) <= new Date()) {
+      await this.expireSessions(session.wallet_address);
+      session.status = 'expired';
+    }
+
+    const { threshold } = await db.one('SELECT threshold FROM recovery_configs WHERE id = $1', [
+      session.config_id,
+    ]);
+    const { count } = await db.one(
+      'SELECT COUNT(*)::int AS count FROM recovery_approvals WHERE session_id = $1',
+      [sessionId]
+    );
+
+    return { session, threshold, approvals: count };
+  }
+
+  /**
+   * Pending ceremonies in which a guardian holds a share
+   * Includes the guardian's encrypted share so it can be decrypted client-side
+   */
+  async listGuardianRequests(guardianAddress: string): Promise<any[]> {
+    return db.manyOrNone(
+      `SELECT s.id AS session_id, s.wallet_address, s.expires_at, s.created_at,
+              rs.id AS share_id, rs.encrypted_share,
+              (a.share_id IS NOT NULL) AS approved
+       FROM recovery_sessions s
+       JOIN recovery_shares rs ON rs.config_id = s.config_id
+       LEFT JOIN recovery_approvals a ON a.session_id = s.id AND a.share_id = rs.id
+       WHERE rs.guardian_wallet = $1 AND s.status = 'pending' AND s.expires_at > NOW()
+       ORDER BY s.created_at DESC`,
+      [guardianAddress]
+    );
+  }
+
+  /**
+   * Release a share for a ceremony
+   * Guardians release their own shares; the account owner releases device shares.
+   * A share may be given decrypted (hex) or, for custodial guardians, decrypted in the vault.
+   * Reaching the threshold completes the recovery.
+   */
+  async submitShare(
+    sessionId: number,
+    shareId: number,
+    submittedBy: string,
+    shareHex?: string
+  ): Promise<RecoveryProgress> {
+    const progress = await this.getProgress(sessionId);
+    if (!progress || progress.session.status !== 'pending') {
+      throw new Error('Recovery is not pending');
+    }
+    const { session } = progress;
+
+    const share: RecoveryShare | null = await db.oneOrNone(
+      'SELECT * FROM recovery_shares WHERE id = $1 AND config_id = $2',
+      [shareId, session.config_id]
+    );
+
+    if (!share) {
+      throw new Error('Share does not belong to this recovery');
+    }
+
+    const holder = share.guardian_wallet || session.wallet_address;
+    if (holder.toLowerCase() !== submittedBy.toLowerCase()) {
+      throw new Error('Only the share holder can release this share');
+    }
+
+    const plainShare = shareHex
+      ? Buffer.from(shareHex.replace(/^0x/, ''), 'hex')
+      : await getKeyVault().unwrapKey(holder, share.encrypted_share);
+
+    if (sha256(plainShare) !== share.share_digest) {
+      throw new Error('Share does not match the recovery setup');
+    }
+
+    const sealedShare = aesGcm.encryptToBase64(
+      plainShare,
+      this.sealingKey(sessionId),
+      String(share.id)
+    );
+    plainShare.fill(0);
+
+    await db.none(
+      `INSERT INTO recovery_approvals (session_id, share_id, submitted_by, sealed_share)
+       VALUES ($1, $2, $3, $4)
+       ON CONFLICT (session_id, share_id) DO NOTHING`,
+      [sessionId, share.id, submittedBy, sealedShare]
+    );
+
+    const updated = (await this.getProgress(sessionId))!;
+    if (updated.approvals < updated.threshold) {
+      return updated;
+    }
+
+    await this.complete(session);
+    return (await this.getProgress(sessionId))!;
+  }
+
+  /**
+   * Cancel a pending ceremony
+   */
+  async cancelSession(sessionId: number, walletAddress: string): Promise<boolean> {
+    const cancelled = await db.oneOrNone(
+      `UPDATE recovery_sessions SET status = 'cancelled'
+       WHERE id = $1 AND wallet_address = $2 AND status = 'pending'
+       RETURNING id`,
+      [sessionId, walletAddress]
+    );
+
+    if (!cancelled) {
+      return false;
+    }
+
+    await db.none('UPDATE recovery_approvals SET sealed_share = NULL WHERE session_id = $1', [
+      sessionId,
+    ]);
+    return true;
+  }
+
+  /**
+   * Rotate a user's ECIES encryption key
+   * The new key is kept in the vault alongside the earlier ones and published with rotateKey
+   * on the KeyRegistry; a rekey job then re-wraps record keys and on-chain grants to it
+   */
+  async rotateEncryptionKey(walletAddress: string): Promise<EncryptionKeyRotation> {
+    const rotation = await getRekeyService().rotateCustodialKey(walletAddress, walletAddress);
+
+    return {
+      transactionHash: rotation.transactionHash,
+      newPublicKey: rotation.newPublicKey,
+      rekeyJobId: rotation.job.id,
+    };
+  }
+
+  /**
+   * Reconstruct the key, restore it to custody and rotate the encryption key
+   */
+  private async complete(session: RecoverySession): Promise<void> {
+    const approvals = await db.manyOrNone(
+      'SELECT share_id, sealed_share FROM recovery_approvals WHERE session_id = $1',
+      [session.id]
+    );
+
+    try {
+      const shares = approvals.map((approval) =>
+        aesGcm.decryptFromBase64(
+          approval.sealed_share,
+          this.sealingKey(session.id),
+          String(approval.share_id)
+        )
+      );
+      const secret = shamir.combineShares(shares);
+      shares.forEach((share) => share.fill(0));
+
+      const wallet = new Wallet('0x' + secret.toString('hex'));
+      secret.fill(0);
+
+      if (wallet.address.toLowerCase() !== session.wallet_address.toLowerCase()) {
+        throw new Error('Reconstructed key does not match the wallet address');
+      }
+
+      await getKeyVault().storeKey(session.wallet_address, wallet.privateKey);
+      const rotation = await this.rotateEncryptionKey(session.wallet_address);
+
+      await db.tx(async (t) => {
+        await t.none(
+          `UPDATE recovery_sessions
+           SET status = 'completed', completed_at = NOW(), rotation_tx_hash = $2, rekey_job_id = $3
+           WHERE id = $1`,
+          [session.id, rotation.transactionHash, rotation.rekeyJobId]
+        );
+        // The shares have been used together, so the setup is retired
+        await t.none(
+          `UPDATE recovery_configs SET status = 'used', retired_at = NOW() WHERE id = $1`,
+          [session.config_id]
+        );
+      });
+    } catch (error) {
+      await db.none(
+        `UPDATE recovery_sessions SET status = 'failed', failure_reason = $2 WHERE id = $1`,
+        [session.id, (error as Error).message]
+      );
+    } finally {
+      await db.none('UPDATE recovery_approvals SET sealed_share = NULL WHERE session_id = $1', [
+        session.id,
+      ]);
+    }
+  }
+
+  /**
+   * Mark a user's lapsed ceremonies as expired
+   */
+  private async expireSessions(walletAddress: string): Promise<void> {
+    await db.none(
+      `UPDATE recovery_sessions SET status = 'expired'
+       WHERE wallet_address = $1 AND status = 'pending' AND expires_at <= NOW()`,
+      [walletAddress]
+    );
+  }
+
+  /**
+   * Key sealing released shares until the ceremony completes
+   */
+  private sealingKey(sessionId: number): Buffer {
+    return deriveMasterSubkey('recovery-share', String(sessionId));
+  }
+}
+
+// Export singleton instance
+let recoveryServiceInstance: RecoveryService | null = null;
+
+export function getRecoveryService(): RecoveryService {
+  if (!recoveryServiceInstance) {
+    recoveryServiceInstance = new RecoveryService();
+  }
+  return recoveryServiceInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file Recovery Services
+ * @description Export account recovery modules
+ */
+
+export * from './RecoveryService';
@@ -0,0 +1,316 @@
+/**
+ * @file Re-key Service
+ * @description Re-wraps record keys for a user after their ECIES key is rotated
+ * Each wrapped key addressed to the old key version is unwrapped in the key vault,
+ * re-wrapped to the new public key and, for permissions, re-published on-chain by
+ * re-granting with the new wrapped key and revoking the old grant. The vault keeps the
+ * old key, so anything the job has not reached yet stays readable.
+ */
+
+import db from '../database';
+import { getKeyVault } from '../custody';
+import { getKeyRegistryService } from '../blockchain/KeyRegistryService';
+import { PatientRecordsService } from '../blockchain/PatientRecordsService';
+import { getJobRunner, JobContext } from '../jobs';
+import * as ecies from '../../utils/ecies';
+import { Job, RekeyJobPayload, RekeyProgress } from '../../types';
+
+const MAX_REPORTED_FAILURES = 50;
+const PROGRESS_EVERY = 10;
+
+export interface KeyRotation {
+  fromVersion: number;
+  toVersion: number;
+  oldPublicKey: string;
+  newPublicKey: string;
+  transactionHash: string;
+  job: Job;
+}
+
+export class RekeyService {
+  /**
+   * Rotate a custodial user's ECIES encryption key and queue the re-keying
+   * The new keypair is generated here and stored in the vault under the next version before
+   * rotateKey is sent, so the job re-wraps to a key the vault holds. The stored key is removed
+   * again if the rotation is not published; keys for earlier versions stay in the vault.
+   */
+  async rotateCustodialKey(
+    walletAddress: string,
+    requestedBy: string | null = null
+  ): Promise<KeyRotation> {
+    const vault = getKeyVault();
+    const keyRegistryService = getKeyRegistryService();
+
+    const current = await keyRegistryService.getPublicKey(walletAddress);
+    const toVersion = current.version + 1;
+
+    const keypair = ecies.generateKeypair();
+    const newPublicKey = ecies.publicKeyToHex(keypair.publicKey);
+    await vault.storeEncryptionKey(walletAddress, keypair.privateKey, toVersion);
+    keypair.privateKey.fill(0);
+
+    let transactionHash: string;
+    try {
+      const signer = await vault.getSigner(walletAddress);
+      transactionHash = await keyRegistryService.rotateKey(signer, newPublicKey);
+    } catch (error) {
+      await vault.deleteEncryptionKey(walletAddress, toVersion);
+      throw error;
+    }
+
+    const job = await this.enqueueRotation(
+      walletAddress,
+      current.version,
+      newPublicKey,
+      requestedBy
+    );
+
+    return {
+      fromVersion: current.version,
+      toVersion,
+      oldPublicKey: current.publicKey,
+      newPublicKey,
+      transactionHash,
+      job,
+    };
+  }
+
+  /**
+   * Queue a re-keying job after a rotation from fromVersion to fromVersion + 1
+   */
+  async enqueueRotation(
+    walletAddress: string,
+    fromVersion: number,
+    newPublicKey: string,
+    requestedBy: string | null = null
+  ): Promise<Job> {
+    const oldKey = await getKeyRegistryService().getPublicKeyByVersion(walletAddress, fromVersion);
+
+    const payload: RekeyJobPayload = {
+      fromVersion,
+      toVersion: fromVersion + 1,
+      oldPublicKey: oldKey.publicKey,
+      newPublicKey,
+    };
+
+    return getJobRunner().enqueue('rekey', walletAddress, payload, requestedBy);
+  }
+
+  /**
+   * Job handler: re-wrap every record and permission key addressed to an older key version
+   */
+  async run(job: Job, context: JobContext): Promise<{ [key: string]: any }> {
+    const walletAddress = job.wallet_address;
+    const { toVersion, newPublicKey } = job.payload as RekeyJobPayload;
+    const vault = getKeyVault();
+
+    if (!(await vault.hasKey(walletAddress))) {
+      throw new Error(`No custodial key for ${walletAddress}; wrapped keys cannot be unwrapped`);
+    }
+
+    const newKey = ecies.hexToPublicKey(newPublicKey);
+
+    // The patient's own record keys are what the vault unwraps for every read, so they only
+    // move to a new key the vault holds (not to a key rotated with client-side signing)
+    const vaultHoldsNewKey = await vault.hasEncryptionKey(walletAddress, toVersion);
+
+    const records = await db.manyOrNone(
+      `SELECT id, record_id, wrapped_key FROM records
+       WHERE patient_wallet = $1 AND wrapped_key IS NOT NULL
+         AND (key_version IS NULL OR key_version < $2)`,
+      [walletAddress, toVersion]
+    );
+
+    const permissions = await db.manyOrNone(
+      `SELECT p.id, p.patient_wallet, p.permission_id, p.wrapped_key,
+              EXTRACT(EPOCH FROM p.expiration)::bigint AS expiration,
+              u.patient_contract_address
+       FROM permissions p
+       JOIN users u ON u.wallet_address = p.patient_wallet
+       WHERE p.grantee_wallet = $1 AND p.revoked = FALSE AND p.expiration > NOW()
+         AND p.suspended = FALSE AND p.wrapped_key IS NOT NULL
+         AND (p.key_version IS NULL OR p.key_version < $2)`,
+      [walletAddress, toVersion]
+    );
+
+    const rewrappable = vaultHoldsNewKey ? records : [];
+
+    const progress: RekeyProgress = {
+      total: rewrappable.length + permissions.length,
+      processed: 0,
+      rewrapped: 0,
+      published: 0,
+      unpublished: 0,
+      revokePending: 0,
+      skipped: 0,
+      kept: records.length - rewrappable.length,
+      failures: [],
+    };
+    await context.reportProgress(progress);
+
+    const report = (kind: 'permission' | 'record' | 'revoke', id: number, error: unknown) => {
+      if (progress.failures.length < MAX_REPORTED_FAILURES) {
+        progress.failures.push({ kind, id, reason: (error as Error).message });
+      }
+    };
+
+    const fail = (kind: 'permission' | 'record', id: number, error: unknown) => {
+      progress.skipped++;
+      report(kind, id, error);
+    };
+
+    const step = async () => {
+      progress.processed++;
+      if (progress.processed % PROGRESS_EVERY === 0) {
+        await context.reportProgress(progress);
+      }
+    };
+
+    // The patient's own copies of record keys (off-chain only)
+    for (const record of rewrappable) {
+      try {
+        const wrappedKey = await this.rewrap(walletAddress, record.wrapped_key, newKey);
+        await db.none('UPDATE records SET wrapped_key = $2, key_version = $3 WHERE id = $1', [
+          record.id,
+          wrappedKey,
+          toVersion,
+        ]);
+        progress.rewrapped++;
+      } catch (error) {
+        fail('record', record.record_id, error);
+      }
+      await step();
+    }
+
+    // Keys granted to the user by patients
+    for (const permission of permissions) {
+      try {
+        const wrappedKey = await this.rewrap(walletAddress, permission.wrapped_key, newKey);
+        const published = await this.publish(permission, walletAddress, wrappedKey);
+
+        await db.none(
+          `UPDATE permissions
+           SET wrapped_key = $2, key_version = $3,
+               permission_id = COALESCE($4, permission_id),
+               transaction_hash = COALESCE($5, transaction_hash)
+           WHERE id = $1`,
+          [
+            permission.id,
+            wrappedKey,
+            toVersion,
+            published ? published.permissionId : null,
+            published ? published.transactionHash : null,
+          ]
+        );
+
+        progress.rewrapped++;
+        if (!published) {
+          progress.unpublished++;
+        } else {
+          // The new grant is stored, so an old grant left unrevoked does not undo the re-key
+          progress.published++;
+          try {
+            await this.revokeReplaced(permission);
+          } catch (error) {
+            progress.revokePending++;
+            report('revoke', permission.permission_id, error);
+          }
+        }
+      } catch (error) {
+        fail('permission', permission.permission_id, error);
+      }
+      await step();
+    }
+
+    await context.reportProgress(progress);
+
+    // Log audit trail
+    await db.none(
+      `INSERT INTO audit_log (wallet_address, action, details)
+       VALUES ($1, $2, $3)`,
+      [
+        walletAddress,
+        'keys_rewrapped',
+        {
+          jobId: job.id,
+          toVersion,
+          rewrapped: progress.rewrapped,
+          published: progress.published,
+          unpublished: progress.unpublished,
+          revokePending: progress.revokePending,
+          skipped: progress.skipped,
+          kept: progress.kept,
+        },
+      ]
+    );
+
+    return progress;
+  }
+
+  /**
+   * Unwrap with the user's custodial key and wrap to the new public key
+   */
+  private async rewrap(walletAddress: string, wrappedKey: string, newKey: Buffer): Promise<string> {
+    const aesKey = await getKeyVault().unwrapKey(walletAddress, wrappedKey);
+    try {
+      return await ecies.wrapKey(newKey, aesKey);
+    } finally {
+      aesKey.fill(0);
+    }
+  }
+
+  /**
+   * Re-grant a permission on-chain with the new wrapped key
+   * Only possible when the patient's key is in custody; otherwise returns null and the
+   * patient must re-grant themselves. The old grant is revoked with revokeReplaced once the
+   * new one is stored.
+   */
+  private async publish(
+    permission: { [key: string]: any },
+    granteeAddress: string,
+    wrappedKey: string
+  ): Promise<{ permissionId: number; transactionHash: string } | null> {
+    const vault = getKeyVault();
+
+    if (
+      permission.permission_id === null ||
+      !permission.patient_contract_address ||
+      !(await vault.hasKey(permission.patient_wallet))
+    ) {
+      return null;
+    }
+
+    const patientRecordsService = new PatientRecordsService(permission.patient_contract_address);
+    const signer = await vault.getSigner(permission.patient_wallet);
+
+    const recordIds = await patientRecordsService.getPermissionRecordIds(permission.permission_id);
+    const granted = await patientRecordsService.grantPermission(
+      signer,
+      granteeAddress,
+      recordIds,
+      wrappedKey,
+      parseInt(permission.expiration)
+    );
+
+    return granted;
+  }
+
+  /**
+   * Revoke the grant a re-published permission replaced
+   */
+  private async revokeReplaced(permission: { [key: string]: any }): Promise<void> {
+    const patientRecordsService = new PatientRecordsService(permission.patient_contract_address);
+    const signer = await getKeyVault().getSigner(permission.patient_wallet);
+    await patientRecordsService.revokePermission(signer, permission.permission_id);
+  }
+}
+
+// Export singleton instance
+let rekeyServiceInstance: RekeyService | null = null;
+
+export function getRekeyService(): RekeyService {
+  if (!rekeyServiceInstance) {
+    rekeyServiceInstance = new RekeyService();
+  }
+  return rekeyServiceInstance;
+}
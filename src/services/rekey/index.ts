@@ -0,0 +1,6 @@
+/**
+ * @file Re-key Services
+ * @description Export re-keying modules
+ */
+
+export * from './RekeyService';
@@ -0,0 +1,116 @@
+/**
+ * @file Key Revocation Service
+ * @description Cascades an ECIES key revocation to the grants wrapped for that key
+ * Active permissions and emergency grants addressed to the revoked key are suspended in the
+ * database cache and their grantors are notified so they can re-grant once the grantee
+ * registers a new key.
+ */
+
+import db from '../database';
+import { getKeyRegistryService } from '../blockchain/KeyRegistryService';
+import { getNotificationService } from '../notifications';
+import { KeyUsability, RevocationCascade } from '../../types';
+
+export class KeyRevocationService {
+  /**
+   * Suspend every active grant wrapped to the user's key up to the revoked version
+   */
+  async cascade(walletAddress: string, revokedVersion: number): Promise<RevocationCascade> {
+    const { permissions, emergencyGrants } = await db.tx(async (t) => {
+      const permissions = await t.manyOrNone(
+        `UPDATE permissions
+         SET suspended = TRUE, suspended_at = NOW(), suspension_reason = 'key_revoked'
+         WHERE grantee_wallet = $1 AND revoked = FALSE AND suspended = FALSE
+           AND expiration > NOW()
+           AND (key_version IS NULL OR key_version <= $2)
+         RETURNING permission_id, patient_wallet, record_id`,
+        [walletAddress, revokedVersion]
+      );
+
+      // Emergency keys are wrapped for each physician once the grant is co-signed; only the
+      // revoking physician's access is suspended
+      const emergencyGrants = await t.manyOrNone(
+        `UPDATE emergency_grants
+         SET physician1_suspended = physician1_suspended OR COALESCE(physician1_wallet = $1, FALSE),
+             physician2_suspended = physician2_suspended OR COALESCE(physician2_wallet = $1, FALSE),
+             suspended_at = NOW(), suspension_reason = 'key_revoked'
+         WHERE status IN ('cosigned', 'confirmed') AND expiration > NOW()
+           AND ((physician1_wallet = $1 AND physician1_suspended = FALSE)
+             OR (physician2_wallet = $1 AND physician2_suspended = FALSE))
+         RETURNING grant_id, patient_wallet, physician1_wallet, physician2_wallet, record_id`,
+        [walletAddress]
+      );
+
+      return { permissions, emergencyGrants };
+    });
+
+    // Group by grantor: the patient for permissions; the patient and the other physician for
+    // emergency grants
+    const byGrantor = new Map<string, { permissionIds: number[]; emergencyGrantIds: string[] }>();
+    const suspendedFor = (grantor: string) => {
+      if (!byGrantor.has(grantor)) {
+        byGrantor.set(grantor, { permissionIds: [], emergencyGrantIds: [] });
+      }
+      return byGrantor.get(grantor)!;
+    };
+
+    for (const permission of permissions) {
+      suspendedFor(permission.patient_wallet).permissionIds.push(permission.permission_id);
+    }
+    for (const grant of emergencyGrants) {
+      suspendedFor(grant.patient_wallet).emergencyGrantIds.push(grant.grant_id);
+      const otherPhysician =
+        grant.physician1_wallet.toLowerCase() === walletAddress.toLowerCase()
+          ? grant.physician2_wallet
+          : grant.physician1_wallet;
+      if (otherPhysician) {
+        suspendedFor(otherPhysician).emergencyGrantIds.push(grant.grant_id);
+      }
+    }
+
+    const notifications = getNotificationService();
+    for (const [grantor, suspended] of byGrantor) {
+      await notifications.notify(
+        grantor,
+        'permissions_suspended',
+        `${walletAddress} revoked their encryption key. Grants wrapped for it are suspended ` +
+          'and must be re-granted once they register a new key.',
+        { grantee: walletAddress, revokedVersion, ...suspended }
+      );
+    }
+
+    return {
+      suspendedPermissions: permissions.length,
+      suspendedEmergencyGrants: emergencyGrants.length,
+      notifiedGrantors: Array.from(byGrantor.keys()),
+    };
+  }
+
+  /**
+   * Whether a user currently has a key that grants can be wrapped to
+   */
+  async getKeyUsability(walletAddress: string): Promise<KeyUsability> {
+    const keyRegistryService = getKeyRegistryService();
+
+    if (!(await keyRegistryService.isRegistered(walletAddress))) {
+      return { usableKey: false, version: null, reason: 'KEY_NOT_REGISTERED' };
+    }
+
+    const version = await keyRegistryService.getCurrentVersion(walletAddress);
+    if (!(await keyRegistryService.hasActiveKey(walletAddress))) {
+      return { usableKey: false, version, reason: 'KEY_REVOKED' };
+    }
+
+    return { usableKey: true, version, reason: null };
+  }
+}
+
+// Export singleton instance
+let keyRevocationServiceInstance: KeyRevocationService | null = null;
+
+export function getKeyRevocationService(): KeyRevocationService {
+  if (!keyRevocationServiceInstance) {
+    keyRevocationServiceInstance = new KeyRevocationService();
+  }
+  return keyRevocationServiceInstance;
+}
@@ -0,0 +1,6 @@
+/**
+ * @file Revocation Services
+ * @description Export key revocation modules
+ */
+
+export * from './KeyRevocationService';
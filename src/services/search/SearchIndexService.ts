@@ -0,0 +1,308 @@
+/**
+ * @file Search Index Service
+ * @description Searchable encryption index for records
+ * When a record is created its plaintext is reduced to search terms (resource type, codes,
+ * dates, encounter, words), and each term is stored as HMAC-SHA256 under a per-patient key
+ * derived from the master key. Queries hash their terms the same way, so records can be
+ * filtered without decrypting any blob and the index alone reveals no values.
+ *
+ * Dates are indexed at year, month and day granularity; a range query becomes the smallest
+ * set of year/month/day tokens covering it.
+ */
+
+import { createHmac } from 'crypto';
+import db from '../database';
+import { deriveMasterSubkey } from '../custody/master-key';
+import { RecordSearchCriteria } from '../../types';
+
+const MIN_WORD_LENGTH = 3;
+const MAX_WORDS = 200;
+const EARLIEST_DATE = '1900-01-01';
+
+// Elements whose dates describe when the clinical fact happened or was recorded
+const DATE_FIELDS = [
+  'effectiveDateTime',
+  'effectiveInstant',
+  'effectivePeriod.start',
+  'issued',
+  'recordedDate',
+  'onsetDateTime',
+  'authoredOn',
+  'date',
+  'occurrenceDateTime',
+  'performedDateTime',
+  'performedPeriod.start',
+  'period.start',
+];
+
+// String elements whose words are indexed for text search
+const TEXT_FIELDS = new Set([
+  'text',
+  'display',
+  'valueString',
+  'description',
+  'conclusion',
+  'comment',
+  'title',
+]);
+
+/**
+ * Read a dotted path from a resource
+ */
+function readPath(resource: any, path: string): any {
+  return path.split('.').reduce((value, key) => (value ? value[key] : undefined), resource);
+}
+
+/**
+ * Lowercase words of a string
+ */
+function words(value: string): string[] {
+  return value
+    .toLowerCase()
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= MIN_WORD_LENGTH);
+}
+
+/**
+ * YYYY-MM-DD of a UTC date
+ */
+function isoDay(date: Date): string {
+  return date.toISOString().slice(0, 10);
+}
+
+export class SearchIndexService {
+  /**
+   * Plain search terms of a FHIR resource ("<kind>:<value>")
+   */
+  extractTerms(resource: any): string[] {
+    const terms = new Set<string>();
+
+    if (resource?.resourceType) {
+      terms.add(`type:${resource.resourceType}`);
+    }
+
+    // Codes from every CodeableConcept (LOINC, SNOMED CT, ...), with and without the system
+    const textWords = new Set<string>();
+    const walk = (value: any, key?: string) => {
+      if (Array.isArray(value)) {
+        value.forEach((item) => walk(item, key));
+        return;
+      }
+      if (typeof value === 'string') {
+        if (key && TEXT_FIELDS.has(key)) {
+          words(value).forEach((word) => textWords.add(word));
+        }
+        return;
+      }
+      if (!value || typeof value !== 'object') {
+        return;
+      }
+
+      if (Array.isArray(value.coding)) {
+        for (const coding of value.coding) {
+          if (coding?.code) {
+            terms.add(`code:${coding.code}`);
+            if (coding.system) {
+              terms.add(`code:${coding.system}|${coding.code}`);
+            }
+          }
+        }
+      }
+
+      for (const [childKey, child] of Object.entries(value)) {
+        walk(child, childKey);
+      }
+    };
+    walk(resource);
+
+    Array.from(textWords)
+      .slice(0, MAX_WORDS)
+      .forEach((word) => terms.add(`text:${word}`));
+
+    // Dates at year, month and day granularity
+    for (const field of DATE_FIELDS) {
+      const value = readPath(resource, field);
+      if (typeof value === 'string' && /^\d{4}(-\d{2}(-\d{2})?)?/.test(value)) {
+        terms.add(`date:${value.slice(0, 4)}`);
+        if (value.length >= 7) {
+          terms.add(`date:${value.slice(0, 7)}`);
+        }
+        if (value.length >= 10) {
+          terms.add(`date:${value.slice(0, 10)}`);
+        }
+      }
+    }
+
+    const encounter = resource?.encounter?.reference || resource?.context?.reference;
+    if (typeof encounter === 'string') {
+      terms.add(`encounter:${encounter}`);
+    }
+
+    return Array.from(terms);
+  }
+
+  /**
+   * Keyed-hash tokens of search terms under the patient's index key
+   */
+  hashTerms(patientWallet: string, terms: string[]): string[] {
+    const key = deriveMasterSubkey('search-index', patientWallet.toLowerCase());
+    return terms.map((term) => createHmac('sha256', key).update(term).digest('hex'));
+  }
+
+  /**
+   * Tokens to index for a resource
+   */
+  tokenize(patientWallet: string, resource: any): string[] {
+    return this.hashTerms(patientWallet, this.extractTerms(resource));
+  }
+
+  /**
+   * Store a record's tokens
+   */
+  async indexRecord(patientWallet: string, recordId: number, tokens: string[]): Promise<void> {
+    if (tokens.length === 0) {
+      return;
+    }
+
+    await db.none(
+      `INSERT INTO record_search_tokens (patient_wallet, record_id, token)
+       SELECT $1, $2, token FROM unnest($3::text[]) AS token
+       ON CONFLICT DO NOTHING`,
+      [patientWallet, recordId, tokens]
+    );
+  }
+
+  /**
+   * Drop a record's tokens (before re-indexing a new version)
+   */
+  async removeRecord(patientWallet: string, recordId: number): Promise<void> {
+    await db.none('DELETE FROM record_search_tokens WHERE patient_wallet = $1 AND record_id = $2', [
+      patientWallet,
+      recordId,
+    ]);
+  }
+
+  /**
+   * IDs of a patient's records matching every criterion
+   * Returns null when no criteria are given (nothing to filter on)
+   */
+  async search(patientWallet: string, criteria: RecordSearchCriteria): Promise<number[] | null> {
+    // Each group lists alternative terms; a record must match one term of every group
+    const groups: string[][] = [];
+
+    if (criteria.resourceType) {
+      groups.push([`type:${criteria.resourceType}`]);
+    }
+    if (criteria.code) {
+      groups.push([`code:${criteria.code}`]);
+    }
+    if (criteria.encounter) {
+      groups.push([`encounter:${criteria.encounter}`]);
+    }
+    if (criteria.dateFrom || criteria.dateTo) {
+      const from = criteria.dateFrom || EARLIEST_DATE;
+      const to = criteria.dateTo || isoDay(new Date());
+      groups.push(this.coverDateRange(from, to));
+    }
+    if (criteria.text) {
+      for (const word of new Set(words(criteria.text))) {
+        groups.push([`text:${word}`]);
+      }
+    }
+
+    if (groups.length === 0) {
+      return null;
+    }
+    if (groups.some((group) => group.length === 0)) {
+      return [];
+    }
+
+    const tokens: string[] = [];
+    const groupIndexes: number[] = [];
+    groups.forEach((group, index) => {
+      for (const token of this.hashTerms(patientWallet, group)) {
+        tokens.push(token);
+        groupIndexes.push(index);
+      }
+    });
+
+    const rows = await db.manyOrNone(
+      `SELECT t.record_id
+       FROM record_search_tokens t
+       JOIN unnest($2::text[], $3::int[]) AS q(token, grp) ON q.token = t.token
+       WHERE t.patient_wallet = $1
+       GROUP BY t.record_id
+       HAVING COUNT(DISTINCT q.grp) = $4
+       ORDER BY t.record_id`,
+      [patientWallet, tokens, groupIndexes, groups.length]
+    );
+
+    return rows.map((row) => row.record_id);
+  }
+
+  /**
+   * Whether a record was indexed with any of the given codes (`code` or `system|code`)
+   */
+  async hasAnyCode(patientWallet: string, recordId: number, codes: string[]): Promise<boolean> {
+    return this.hasAnyTerm(
+      patientWallet,
+      recordId,
+      codes.map((code) => `code:${code}`)
+    );
+  }
+
+  /**
+   * Whether a record was indexed with any of the given terms ("<kind>:<value>")
+   */
+  async hasAnyTerm(patientWallet: string, recordId: number, terms: string[]): Promise<boolean> {
+    const tokens = this.hashTerms(patientWallet, terms);
+
+    const match = await db.oneOrNone(
+      `SELECT 1 FROM record_search_tokens
+       WHERE patient_wallet = $1 AND record_id = $2 AND token = ANY($3)
+       LIMIT 1`,
+      [patientWallet, recordId, tokens]
+    );
+
+    return !!match;
+  }
+
+  /**
+   * Smallest set of year/month/day terms covering an inclusive range of days
+   */
+  coverDateRange(from: string, to: string): string[] {
+    const terms: string[] = [];
+    const end = new Date(`${to.slice(0, 10)}T00:00:00Z`);
+    const day = new Date(`${from.slice(0, 10)}T00:00:00Z`);
+
+    while (day <= end) {
+      const year = day.getUTCFullYear();
+      const month = day.getUTCMonth();
+      const lastOfYear = new Date(Date.UTC(year, 11, 31));
+      const lastOfMonth = new Date(Date.UTC(year, month + 1, 0));
+
+      if (month === 0 && day.getUTCDate() === 1 && lastOfYear <= end) {
+        terms.push(`date:${year}`);
+        day.setUTCFullYear(year + 1, 0, 1);
+      } else if (day.getUTCDate() === 1 && lastOfMonth <= end) {
+        terms.push(`date:${isoDay(day).slice(0, 7)}`);
+        day.setUTCMonth(month + 1, 1);
+      } else {
+        terms.push(`date:${isoDay(day)}`);
+        day.setUTCDate(day.getUTCDate() + 1);
+      }
+    }
+
+    return terms;
+  }
+}
+
+// Export singleton instance
+let searchIndexServiceInstance: SearchIndexService | null = null;
+
+export function getSearchIndexService(): SearchIndexService {
+  if (!searchIndexServiceInstance) {
+    searchIndexServiceInstance = new SearchIndexService();
+  }
+  return searchIndexServiceInstance;
+}
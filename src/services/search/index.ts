@@ -0,0 +1,6 @@
+/**
+ * @file Search Services
+ * @description Export record search modules
+ */
+
+export * from './SearchIndexService';
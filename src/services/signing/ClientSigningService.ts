@@ -0,0 +1,206 @@
+/**
+ * @file Client Signing Service
+ * @description Prepare / submit flow for users who sign with their own wallets
+ * The backend builds unsigned transactions or EIP-712 payloads, the client signs
+ * them, and the backend relays the result without ever seeing the private key.
+ */
+
+import crypto from 'crypto';
+import { PopulatedTransaction, providers, utils } from 'ethers';
+import db from '../database';
+import { getProvider } from '../blockchain/provider';
+import config from '../../config';
+import {
+  PreparedOperation,
+  PreparedOperationType,
+  SigningMethod,
+  TypedDataPayload,
+  UnsignedTransaction,
+} from '../../types';
+
+const OPERATION_TTL_SECONDS = 15 * 60; // 15 minutes
+
+export class ClientSigningService {
+  /**
+   * Fill in nonce, gas and fee fields for a populated contract call
+   */
+  async buildUnsignedTransaction(
+    from: string,
+    populated: PopulatedTransaction
+  ): Promise<UnsignedTransaction> {
+    try {
+      const provider = getProvider();
+
+      if (!populated.to || !populated.data) {
+        throw new Error('Populated transaction is missing target or calldata');
+      }
+
+      const [nonce, gasLimit, feeData] = await Promise.all([
+        provider.getTransactionCount(from, 'pending'),
+        provider.estimateGas({ from, to: populated.to, data: populated.data }),
+        provider.getFeeData(),
+      ]);
+
+      const unsigned: UnsignedTransaction = {
+        to: populated.to,
+        data: populated.data,
+        value: '0x0',
+        nonce,
+        gasLimit: gasLimit.toHexString(),
+        chainId: config.blockchain.chainId,
+        type: 0,
+      };
+
+      if (feeData.maxFeePerGas && feeData.maxPriorityFeePerGas) {
+        unsigned.type = 2;
+        unsigned.maxFeePerGas = feeData.maxFeePerGas.toHexString();
+        unsigned.maxPriorityFeePerGas = feeData.maxPriorityFeePerGas.toHexString();
+      } else if (feeData.gasPrice) {
+        unsigned.gasPrice = feeData.gasPrice.toHexString();
+      }
+
+      return unsigned;
+    } catch (error) {
+      throw new Error(`Failed to build unsigned transaction: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Persist a prepared operation awaiting the client's signature
+   */
+  async createOperation(
+    walletAddress: string,
+    operationType: PreparedOperationType,
+    signingMethod: SigningMethod,
+    payload: Record<string, any>
+  ): Promise<{ operationId: string; expiresAt: number }> {
+    const operationId = '0x' + crypto.randomBytes(32).toString('hex');
+    const expiresAt = Math.floor(Date.now() / 1000) + OPERATION_TTL_SECONDS;
+
+    await db.none(
+      `INSERT INTO prepared_operations
+         (operation_id, wallet_address, operation_type, signing_method, payload, expires_at)
+       VALUES ($1, $2, $3, $4, $5, to_timestamp($6))`,
+      [operationId, walletAddress, operationType, signingMethod, payload, expiresAt]
+    );
+
+    return { operationId, expiresAt };
+  }
+
+  /**
+   * Get a prepared operation that is still awaiting submission
+   */
+  async getPendingOperation(
+    operationId: string,
+    walletAddress: string,
+    operationType: PreparedOperationType
+  ): Promise<PreparedOperation | null> {
+    return db.oneOrNone(
+      `SELECT * FROM prepared_operations
+       WHERE operation_id = $1
+         AND LOWER(wallet_address) = LOWER($2)
+         AND operation_type = $3
+         AND status = 'prepared'
+         AND expires_at > NOW()`,
+      [operationId, walletAddress, operationType]
+    );
+  }
+
+  /**
+   * Check that a signed transaction is exactly the prepared one, signed by its owner
+   */
+  matchesSignedTransaction(operation: PreparedOperation, signedTransaction: string): boolean {
+    try {
+      const parsed = utils.parseTransaction(signedTransaction);
+      const expected: UnsignedTransaction = operation.payload.transaction;
+
+      return (
+        !!parsed.from &&
+        parsed.from.toLowerCase() === operation.wallet_address.toLowerCase() &&
+        !!parsed.to &&
+        parsed.to.toLowerCase() === expected.to.toLowerCase() &&
+        parsed.data.toLowerCase() === expected.data.toLowerCase() &&
+        parsed.chainId === expected.chainId &&
+        parsed.value.isZero()
+      );
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Check that an EIP-712 signature over the prepared payload comes from its owner
+   */
+  matchesTypedDataSignature(operation: PreparedOperation, signature: string): boolean {
+    try {
+      const typedData: TypedDataPayload = operation.payload.typedData;
+      const signer = utils.verifyTypedData(
+        typedData.domain,
+        typedData.types,
+        typedData.message,
+        signature
+      );
+
+      return signer.toLowerCase() === operation.wallet_address.toLowerCase();
+    } catch (error) {
+      return false;
+    }
+  }
+
+  /**
+   * Broadcast a client-signed transaction and wait for its receipt
+   */
+  async relaySignedTransaction(
+    operation: PreparedOperation,
+    signedTransaction: string
+  ): Promise<providers.TransactionReceipt> {
+    try {
+      const provider = getProvider();
+      const response = await provider.sendTransaction(signedTransaction);
+      const receipt = await response.wait();
+
+      if (receipt.status === 0) {
+        throw new Error(`Transaction ${receipt.transactionHash} reverted`);
+      }
+
+      return receipt;
+    } catch (error) {
+      await this.markFailed(operation.operation_id, (error as Error).message);
+      throw new Error(`Failed to relay signed transaction: ${(error as Error).message}`);
+    }
+  }
+
+  /**
+   * Mark an operation as submitted on-chain
+   */
+  async markSubmitted(operationId: string, transactionHash: string): Promise<void> {
+    await db.none(
+      `UPDATE prepared_operations
+       SET status = 'submitted', transaction_hash = $2, submitted_at = NOW()
+       WHERE operation_id = $1`,
+      [operationId, transactionHash]
+    );
+  }
+
+  /**
+   * Mark an operation as failed
+   */
+  async markFailed(operationId: string, reason: string): Promise<void> {
+    await db.none(
+      `UPDATE prepared_operations
+       SET status = 'failed', error = $2, submitted_at = NOW()
+       WHERE operation_id = $1`,
+      [operationId, reason]
+    );
+  }
+}
+
+// Export singleton instance
+let clientSigningInstance: ClientSigningService | null = null;
+
+export function getClientSigningService(): ClientSigningService {
+  if (!clientSigningInstance) {
+    clientSigningInstance = new ClientSigningService();
+  }
+  return clientSigningInstance;
+}
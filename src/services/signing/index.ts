@@ -0,0 +1,6 @@
+/**
+ * @file Signing Services
+ * @description Export client-side signing modules
+ */
+
+export * from './ClientSigningService';
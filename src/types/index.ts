@@ -3,8 +3,6 @@
  * @description Central type definitions for the blockchain EHR system
  */
 
-import { Wallet } from 'ethers';
-
 // ============================================================================
 // Configuration Types
 // ============================================================================
@@ -23,6 +21,7 @@ export interface BlockchainConfig {
   chainId: number;
   keyRegistryAddress: string;
   factoryAddress: string;
+  relayerPrivateKey: string;
 }
 
 export interface JWTConfig {
@@ -31,6 +30,52 @@ export interface JWTConfig {
   refreshExpiry: string;
 }
 
+export interface SiweConfig {
+  domain: string;
+  nonceTtl: number;
+}
+
+export interface MfaConfig {
+  issuer: string;
+  maxAge: number;
+  webauthn: {
+    rpId: string;
+    rpName: string;
+    origin: string;
+  };
+}
+
+export interface RecoveryConfig {
+  sessionTtl: number;
+  maxShares: number;
+}
+
+export interface AccessRequestsConfig {
+  claimTimeout: number;
+}
+
+export interface JobsConfig {
+  pollInterval: number;
+  maxAttempts: number;
+  lockTimeout: number;
+  retryDelay: number;
+}
+
+export interface ImportsConfig {
+  maxEntries: number;
+  batchSize: number;
+}
+
+export interface ExportsConfig {
+  fileTtl: number;
+}
+
+export interface AttachmentsConfig {
+  chunkSize: number;
+  maxSize: number;
+  uploadTtl: number;
+}
+
 export interface StorageIPFSConfig {
   host: string;
   port: number;
@@ -58,6 +103,14 @@ export interface Config {
   database: DatabaseConfig;
   blockchain: BlockchainConfig;
   jwt: JWTConfig;
+  siwe: SiweConfig;
+  mfa: MfaConfig;
+  recovery: RecoveryConfig;
+  accessRequests: AccessRequestsConfig;
+  jobs: JobsConfig;
+  imports: ImportsConfig;
+  exports: ExportsConfig;
+  attachments: AttachmentsConfig;
   encryption: {
     masterKey: string;
   };
@@ -77,6 +130,8 @@ export interface Config {
   fhir: {
     version: string;
     strictValidation: boolean;
+    strictResourceTypes: string[];
+    lenientResourceTypes: string[];
   };
   emergency: {
     accessDuration: number;
@@ -193,6 +248,19 @@ export interface EmergencyAccess {
   confirmedAt: number;
 }
 
+/**
+ * Emergency access as recorded on-chain, read from its events
+ */
+export interface EmergencyAccessChainState {
+  emergencyId: string;
+  requestedAt: number;
+  expirationTime: number;
+  requestTransactionHash: string;
+  confirmed: boolean;
+  confirmedAt: number | null;
+  confirmTransactionHash: string | null;
+}
+
 export interface PublicKeyInfo {
   publicKey: string;
   version: number;
@@ -231,6 +299,475 @@ export interface SignatureComponents {
   v: number;
 }
 
+// ============================================================================
+// Sign-In with Ethereum (EIP-4361) Types
+// ============================================================================
+
+export interface SiweMessage {
+  domain: string;
+  address: string;
+  statement?: string;
+  uri: string;
+  version: string;
+  chainId: number;
+  nonce: string;
+  issuedAt: string;
+  expirationTime?: string;
+  notBefore?: string;
+  requestId?: string;
+  resources?: string[];
+}
+
+// ============================================================================
+// Multi-Factor Authentication Types
+// ============================================================================
+
+export type MfaFactorType = 'totp' | 'webauthn';
+
+export interface MfaFactor {
+  id: number;
+  wallet_address: string;
+  factor_type: MfaFactorType;
+  label: string | null;
+  status: 'pending' | 'active';
+  encrypted_secret: string | null;
+  last_time_step: string | null;
+  credential_id: string | null;
+  public_key: string | null;
+  sign_count: string;
+  transports: string[] | null;
+  created_at: Date;
+  last_used_at: Date | null;
+}
+
+// ============================================================================
+// Authorization (Policy Engine) Types
+// ============================================================================
+
+export type UserRole =
+  | 'patient'
+  | 'doctor'
+  | 'nurse'
+  | 'pharmacist'
+  | 'researcher'
+  | 'auditor'
+  | 'guardian'
+  | 'admin'
+  | 'privacy_officer';
+
+export type PolicyAction =
+  | 'record:create'
+  | 'record:update'
+  | 'record:access_history'
+  | 'permission:grant'
+  | 'permission:revoke'
+  | 'permission:list_granted'
+  | 'permission:request'
+  | 'emergency:request'
+  | 'emergency:approve'
+  | 'emergency:reject'
+  | 'emergency:list_pending'
+  | 'emergency:history'
+  | 'emergency:revoke'
+  | 'emergency:review'
+  | 'emergency:configure'
+  | 'emergency:directive'
+  | 'role:manage'
+  | 'policy:explain'
+  | 'delegation:manage';
+
+export type PolicyEffect = 'allow' | 'deny';
+
+export type SubjectAttribute = 'department' | 'facility';
+
+/**
+ * Declarative policy conditions
+ * - owner: the resource's patient is the subject
+ * - attribute: the matching role grant carries one of the listed attribute values
+ * - delegation: the resource's patient has delegated the action to the subject
+ */
+export type PolicyCondition =
+  | { type: 'owner' }
+  | { type: 'attribute'; attribute: SubjectAttribute; values: string[] }
+  | { type: 'delegation' }
+  | { type: 'participant' };
+
+export interface Policy {
+  id: string;
+  description: string;
+  effect: PolicyEffect;
+  roles: UserRole[];
+  actions: PolicyAction[];
+  conditions?: PolicyCondition[];
+}
+
+/**
+ * What an action is on; participants are users taking part besides the patient (the
+ * physicians of an emergency grant)
+ */
+export interface PolicyResource {
+  patientAddress?: string;
+  participants?: string[];
+}
+
+export interface RoleGrant {
+  role: UserRole;
+  source: 'primary' | 'assignment';
+  assignmentId?: number;
+  department?: string | null;
+  facility?: string | null;
+}
+
+export interface PolicySubject {
+  walletAddress: string;
+  grants: RoleGrant[];
+  delegations: DelegationGrant[];
+}
+
+export interface PolicyEvaluation {
+  policyId: string;
+  effect: PolicyEffect;
+  matched: boolean;
+  detail: string;
+  delegation?: DelegationGrant;
+}
+
+export interface PolicyDecision {
+  allowed: boolean;
+  action: PolicyAction;
+  decidingPolicy: string | null;
+  reason: string;
+  evaluations: PolicyEvaluation[];
+  delegation?: DelegationGrant;
+}
+
+export interface RoleAssignment {
+  id: number;
+  wallet_address: string;
+  role: UserRole;
+  department: string | null;
+  facility: string | null;
+  granted_by: string;
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  created_at: Date;
+}
+
+// ============================================================================
+// Proxy Delegation Types
+// ============================================================================
+
+export type ProxyRelationship = 'parent' | 'legal_guardian' | 'power_of_attorney';
+
+export interface ProofDocument {
+  type: string;
+  reference: string;
+  sha256?: string;
+}
+
+/**
+ * An active delegation as seen by the policy engine
+ */
+export interface DelegationGrant {
+  id: number;
+  patientAddress: string;
+  relationship: ProxyRelationship;
+  scopes: PolicyAction[];
+  expiresAt: Date | null;
+}
+
+export interface ProxyDelegation {
+  id: number;
+  patient_wallet: string;
+  proxy_wallet: string;
+  relationship: ProxyRelationship;
+  scopes: PolicyAction[];
+  created_by: string;
+  proof_documents: ProofDocument[];
+  expires_at: Date | null;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+  created_at: Date;
+}
+
+// ============================================================================
+// Account Recovery Types
+// ============================================================================
+
+export type RecoverySessionStatus = 'pending' | 'completed' | 'cancelled' | 'expired' | 'failed';
+
+/**
+ * Holder of one recovery share: a guardian account or a recovery device
+ */
+export interface RecoveryRecipient {
+  guardianAddress?: string;
+  deviceLabel?: string;
+  publicKey: string;
+}
+
+export interface RecoveryShare {
+  id: number;
+  config_id: number;
+  share_index: number;
+  guardian_wallet: string | null;
+  device_label: string | null;
+  recipient_public_key: string;
+  encrypted_share: string;
+  share_digest: string;
+  created_at: Date;
+}
+
+export interface RecoverySession {
+  id: number;
+  config_id: number;
+  wallet_address: string;
+  status: RecoverySessionStatus;
+  failure_reason: string | null;
+  rotation_tx_hash: string | null;
+  rewrapped_keys: number | null;
+  rekey_job_id: number | null;
+  expires_at: Date;
+  completed_at: Date | null;
+  created_at: Date;
+}
+
+// ============================================================================
+// Background Job Types
+// ============================================================================
+
+export type JobType = 'rekey' | 'record_import' | 'fhir_export';
+
+export type JobStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Job {
+  id: number;
+  job_type: JobType;
+  wallet_address: string;
+  status: JobStatus;
+  payload: { [key: string]: any };
+  progress: { [key: string]: any };
+  result: { [key: string]: any } | null;
+  error: string | null;
+  attempts: number;
+  locked_until: Date | null;
+  run_after: Date;
+  created_by: string | null;
+  created_at: Date;
+  started_at: Date | null;
+  finished_at: Date | null;
+}
+
+/**
+ * Re-keying job payload: wrapped keys addressed to fromVersion move to toVersion
+ */
+export interface RekeyJobPayload {
+  fromVersion: number;
+  toVersion: number;
+  oldPublicKey: string;
+  newPublicKey: string;
+}
+
+/**
+ * Re-keying progress; kept counts record keys left on the old key because the vault does
+ * not hold the new one, and revokePending published permissions whose old grant could not be
+ * revoked (reported as revoke failures)
+ */
+export interface RekeyProgress {
+  total: number;
+  processed: number;
+  rewrapped: number;
+  published: number;
+  unpublished: number;
+  revokePending: number;
+  skipped: number;
+  kept: number;
+  failures: Array<{ kind: 'permission' | 'record' | 'revoke'; id: number; reason: string }>;
+}
+
+export type RecordImportFormat = 'bundle' | 'ndjson';
+
+export type RecordImportEntryStatus =
+  | 'pending'
+  | 'invalid'
+  | 'stored'
+  | 'submitted'
+  | 'registered'
+  | 'failed';
+
+export interface RecordImport {
+  id: number;
+  patient_wallet: string;
+  format: RecordImportFormat;
+  entry_count: number;
+  job_id: number | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface RecordImportEntry {
+  id: number;
+  import_id: number;
+  entry_index: number;
+  resource_type: string | null;
+  encrypted_resource: string | null;
+  status: RecordImportEntryStatus;
+  issues: OperationOutcomeIssue[] | null;
+  error: string | null;
+  storage_pointer: string | null;
+  content_digest: string | null;
+  wrapped_key: string | null;
+  key_version: number | null;
+  transaction_hash: string | null;
+  record_id: number | null;
+  updated_at: Date;
+}
+
+/**
+ * Record import job payload
+ */
+export interface RecordImportJobPayload {
+  importId: number;
+}
+
+export interface RecordImportProgress {
+  total: number;
+  processed: number;
+  registered: number;
+  invalid: number;
+  failed: number;
+}
+
+export interface RecordImportReport extends RecordImportProgress {
+  importId: number;
+  entries: Array<{
+    index: number;
+    resourceType: string | null;
+    status: RecordImportEntryStatus;
+    recordId: number | null;
+    transactionHash: string | null;
+    issues?: OperationOutcomeIssue[];
+    error?: string;
+  }>;
+}
+
+/**
+ * FHIR $export job payload (the job's wallet is the requester)
+ */
+export interface FhirExportJobPayload {
+  requestUrl: string;
+  types: string[] | null;
+  since: string | null;
+  patients: string[] | null;
+}
+
+export interface FhirExportProgress {
+  patients: number;
+  patientsProcessed: number;
+  exported: number;
+  errors: number;
+}
+
+export interface FhirExportResult extends FhirExportProgress {
+  transactionTime: string;
+  expiresAt: string;
+}
+
+export interface ExportFile {
+  id: number;
+  job_id: number;
+  kind: 'output' | 'error';
+  resource_type: string;
+  resource_count: number;
+  storage_pointer: string;
+  content_digest: string;
+  encrypted_key: string | null;
+  expires_at: Date;
+  created_at: Date;
+}
+
+// ============================================================================
+// Notification Types
+// ============================================================================
+
+export type NotificationType =
+  | 'permissions_suspended'
+  | 'access_requested'
+  | 'access_request_decided'
+  | 'emergency_access_reviewed';
+
+export interface Notification {
+  id: number;
+  wallet_address: string;
+  type: NotificationType;
+  message: string;
+  data: { [key: string]: any };
+  read_at: Date | null;
+  created_at: Date;
+}
+
+// ============================================================================
+// Key Revocation Types
+// ============================================================================
+
+export type SuspensionReason = 'key_revoked';
+
+export interface RevocationCascade {
+  suspendedPermissions: number;
+  suspendedEmergencyGrants: number;
+  notifiedGrantors: string[];
+}
+
+export interface KeyUsability {
+  usableKey: boolean;
+  version: number | null;
+  reason: 'KEY_REVOKED' | 'KEY_NOT_REGISTERED' | null;
+}
+
+// ============================================================================
+// Client Signing Types
+// ============================================================================
+
+export type PreparedOperationType =
+  | 'add_record'
+  | 'grant_permission'
+  | 'revoke_permission'
+  | 'rotate_key';
+
+export type SigningMethod = 'transaction' | 'eip712';
+
+export interface UnsignedTransaction {
+  to: string;
+  data: string;
+  value: string;
+  nonce: number;
+  gasLimit: string;
+  chainId: number;
+  type: number;
+  maxFeePerGas?: string;
+  maxPriorityFeePerGas?: string;
+  gasPrice?: string;
+}
+
+export interface TypedDataPayload {
+  domain: EIP712Domain;
+  types: { [key: string]: Array<{ name: string; type: string }> };
+  primaryType: string;
+  message: { [key: string]: any };
+}
+
+export interface PreparedOperation {
+  operation_id: string;
+  wallet_address: string;
+  operation_type: PreparedOperationType;
+  signing_method: SigningMethod;
+  payload: { [key: string]: any };
+  status: 'prepared' | 'submitted' | 'failed';
+  transaction_hash: string | null;
+  expires_at: Date;
+  created_at: Date;
+  submitted_at: Date | null;
+}
+
 // ============================================================================
 // Database Types
 // ============================================================================
@@ -240,21 +777,37 @@ export interface User {
   name: string;
   email: string;
   password_hash: string;
-  role: 'patient' | 'doctor' | 'admin';
+  role: UserRole;
   patient_contract_address: string | null;
   created_at: Date;
 }
 
+export type RecordKind = 'fhir' | 'attachment';
+
 export interface Record {
   id: number;
   patient_wallet: string;
   record_id: number;
   storage_pointer: string;
   content_digest: string;
+  kind: RecordKind;
+  version: number;
   created_at: Date;
   updated_at: Date;
 }
 
+export interface RecordVersion {
+  id: number;
+  patient_wallet: string;
+  record_id: number;
+  version: number;
+  storage_pointer: string;
+  content_digest: string;
+  transaction_hash: string | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
 export interface PermissionDB {
   id: number;
   patient_wallet: string;
@@ -262,6 +815,9 @@ export interface PermissionDB {
   record_id: number;
   expiration: Date;
   revoked: boolean;
+  suspended: boolean;
+  suspended_at: Date | null;
+  suspension_reason: SuspensionReason | null;
   granted_at: Date;
   nonce: string;
 }
@@ -269,21 +825,193 @@ export interface PermissionDB {
 export interface AccessLog {
   id: number;
   record_id: number;
+  patient_wallet: string | null;
   accessor_wallet: string;
   accessed_at: Date;
   details_hash: string;
 }
 
+/**
+ * requested → cosigning (co-signature sent by the approving physician) → cosigned (mined) →
+ * confirmed (on-chain by the requesting physician); a grant ends expired or revoked
+ */
+export type EmergencyGrantStatus =
+  | 'requested'
+  | 'cosigning'
+  | 'cosigned'
+  | 'confirmed'
+  | 'expired'
+  | 'revoked';
+
 export interface EmergencyGrant {
   grant_id: string;
+  emergency_id: string | null;
+  status: EmergencyGrantStatus;
   patient_wallet: string;
   record_id: number;
   physician1_wallet: string;
-  physician2_wallet: string;
+  physician2_wallet: string | null;
   justification_code: number;
+  justification_notes: string | null;
+  duration_seconds: number;
+  directive_applied: EmergencyDirectiveDecision | null;
+  wrapped_key: string | null;
+  physician2_wrapped_key: string | null;
   expiration: Date;
   confirmed: boolean;
+  cosigned_at: Date | null;
+  cosign_transaction_hash: string | null;
+  cosign_signed_transaction: string | null;
   confirmed_at: Date | null;
+  confirm_transaction_hash: string | null;
+  key_released_at: Date | null;
+  revoked_at: Date | null;
+  revoked_by: string | null;
+  physician1_suspended: boolean;
+  physician2_suspended: boolean;
+  suspended_at: Date | null;
+  suspension_reason: SuspensionReason | null;
+  created_at: Date;
+}
+
+/**
+ * The final approver's co-signature of an emergency grant, signed but not yet sent
+ * The record key was released from escrow and wrapped to each physician, under the directive
+ * decision given
+ */
+export interface EmergencyCosignature {
+  signedTransaction: string;
+  transactionHash: string;
+  wrappedKeyPhysician1: string;
+  wrappedKeyPhysician2: string;
+  directive: EmergencyDirectiveDecision;
+}
+
+/**
+ * Outcome of a physician's approval of an emergency grant
+ * grant is null when the grant changed concurrently; approvals is null when the physician
+ * had already approved
+ */
+export interface EmergencyApproval {
+  grant: EmergencyGrant | null;
+  approvals: number | null;
+}
+
+/**
+ * A record key sealed under the master key for emergency access
+ * Rows escrowed before migration 030 hold Shamir shares (2-of-3) instead of sealed_key
+ */
+export interface RecordKeyEscrow {
+  patient_wallet: string;
+  record_id: number;
+  sealed_key: string | null;
+  hsm_share: string | null;
+  approver1_share: string | null;
+  approver2_share: string | null;
+  key_digest: string;
+  created_at: Date;
+}
+
+/**
+ * Admin-managed justification code and the rules an emergency request under it must meet
+ * contract_code is the contract's own code (1=Trauma, 2=Unconscious, 3=Critical)
+ */
+export interface EmergencyJustification {
+  code: number;
+  label: string;
+  description: string | null;
+  contract_code: number;
+  approvals_required: number;
+  approver_roles: UserRole[];
+  max_duration_seconds: number;
+  record_categories: string[] | null;
+  notes_required: boolean;
+  notes_min_length: number;
+  active: boolean;
+  created_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface EmergencyJustificationInput {
+  label: string;
+  description?: string | null;
+  contractCode: number;
+  approvalsRequired: number;
+  approverRoles: UserRole[];
+  maxDurationSeconds: number;
+  recordCategories?: string[] | null;
+  notesRequired: boolean;
+  notesMinLength: number;
+}
+
+export type EmergencyDirectiveEffect = 'allow' | 'deny';
+
+/**
+ * A directive rule matches records by FHIR resource type, code (`code` or `system|code`) or both
+ */
+export interface EmergencyDirectiveRule {
+  effect: EmergencyDirectiveEffect;
+  resourceType?: string;
+  code?: string;
+}
+
+export interface EmergencyContact {
+  name: string;
+  relationship?: string;
+  phone?: string;
+  email?: string;
+}
+
+/**
+ * A patient's advance rules for emergency access; deny rules win over allow rules, and
+ * records no rule matches get the default effect
+ */
+export interface EmergencyDirective {
+  patient_wallet: string;
+  rules: EmergencyDirectiveRule[];
+  default_effect: EmergencyDirectiveEffect;
+  emergency_contacts: EmergencyContact[];
+  version: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+/**
+ * The directive decision recorded on a grant (version null: the patient had no directive)
+ */
+export interface EmergencyDirectiveDecision {
+  version: number | null;
+  allowedRecordIds: number[];
+  deniedRecordIds: number[];
+  matchedRules: { recordId: number; rule: EmergencyDirectiveRule | null }[];
+  decidedAt: string;
+}
+
+export type EmergencyReviewStatus = 'pending' | 'appropriate' | 'inappropriate';
+
+/**
+ * Post-hoc privacy officer review of a confirmed emergency grant
+ */
+export interface EmergencyReview {
+  id: number;
+  grant_id: string;
+  patient_wallet: string;
+  status: EmergencyReviewStatus;
+  reviewer_wallet: string | null;
+  notes: string | null;
+  reviewed_at: Date | null;
+  created_at: Date;
+}
+
+/**
+ * One entry of a reviewed grant's timeline, from the audit log or the access log
+ */
+export interface EmergencyReviewEvent {
+  at: Date;
+  event: string;
+  walletAddress: string;
+  transactionHash?: string | null;
 }
 
 // ============================================================================
@@ -294,7 +1022,7 @@ export interface SignupRequest {
   name: string;
   email: string;
   password: string;
-  role: 'patient' | 'doctor';
+  role: Exclude<UserRole, 'admin' | 'auditor' | 'privacy_officer'>;
   publicKey: string;
 }
 
@@ -358,12 +1086,238 @@ export interface FHIRResource {
 
 export interface FHIRBundle {
   resourceType: 'Bundle';
-  type: 'collection' | 'document' | 'message' | 'transaction' | 'batch';
+  type: 'collection' | 'document' | 'message' | 'transaction' | 'batch' | 'searchset';
+  total?: number;
+  link?: Array<{
+    relation: string;
+    url: string;
+  }>;
   entry: Array<{
+    fullUrl?: string;
     resource: FHIRResource;
+    search?: {
+      mode: 'match' | 'include' | 'outcome';
+    };
   }>;
 }
 
+export type FhirValidationMode = 'strict' | 'lenient';
+
+export type OperationOutcomeSeverity = 'fatal' | 'error' | 'warning' | 'information';
+
+export interface OperationOutcomeIssue {
+  severity: OperationOutcomeSeverity;
+  code: string;
+  diagnostics: string;
+  expression?: string[];
+}
+
+export interface OperationOutcome {
+  resourceType: 'OperationOutcome';
+  issue: OperationOutcomeIssue[];
+}
+
+export interface FhirValidationResult {
+  valid: boolean;
+  mode: FhirValidationMode;
+  outcome: OperationOutcome;
+}
+
+// ============================================================================
+// Record Search Types
+// ============================================================================
+
+export interface RecordSearchCriteria {
+  resourceType?: string;
+  code?: string;
+  dateFrom?: string;
+  dateTo?: string;
+  encounter?: string;
+  text?: string;
+}
+
+// ============================================================================
+// Attachment Types
+// ============================================================================
+
+export type AttachmentUploadStatus = 'uploading' | 'completed';
+
+export interface AttachmentUpload {
+  id: string;
+  patient_wallet: string;
+  created_by: string;
+  content_type: string;
+  filename: string | null;
+  size: number;
+  chunk_size: number;
+  total_chunks: number;
+  encrypted_key: string | null;
+  status: AttachmentUploadStatus;
+  record_id: number | null;
+  transaction_hash: string | null;
+  expires_at: Date;
+  created_at: Date;
+  completed_at: Date | null;
+}
+
+export interface AttachmentChunk {
+  index: number;
+  storagePointer: string;
+  contentDigest: string;
+  size: number;
+}
+
+/**
+ * Chunk manifest of an attachment, stored encrypted under the attachment's record key
+ * Its storage pointer and digest are the on-chain record
+ */
+export interface AttachmentManifest {
+  type: 'attachment-manifest';
+  version: 1;
+  algorithm: 'AES-256-GCM';
+  uploadId: string;
+  contentType: string;
+  filename: string | null;
+  size: number;
+  chunkSize: number;
+  chunks: AttachmentChunk[];
+}
+
+// ============================================================================
+// Consent Types
+// ============================================================================
+
+export type ConsentStatus =
+  | 'draft'
+  | 'proposed'
+  | 'active'
+  | 'rejected'
+  | 'inactive'
+  | 'entered-in-error';
+
+/**
+ * A stored FHIR Consent; `resource` holds the Consent as submitted
+ */
+export interface PatientConsent {
+  id: number;
+  patient_wallet: string;
+  status: ConsentStatus;
+  resource: FHIRResource;
+  version: number;
+  created_by: string | null;
+  updated_by: string | null;
+  created_at: Date;
+  updated_at: Date;
+  withdrawn_at: Date | null;
+}
+
+/**
+ * A grant a consent calls for: one record for one grantee
+ * A null expiration means the consent sets no end and the default grant duration applies
+ */
+export interface ConsentGrant {
+  grantee: string;
+  recordId: number;
+  expiration: number | null;
+  purposeOfUse: string[];
+}
+
+export interface ConsentSyncResult {
+  granted: { permissionId: number; grantee: string; recordId: number; transactionHash: string }[];
+  revoked: { permissionId: number; grantee: string; recordId: number; transactionHash: string }[];
+  skippedRecordIds: number[];
+}
+
+// ============================================================================
+// Permission Rule Types
+// ============================================================================
+
+/**
+ * Records a rule matches; category and tag are `code` or `system|code`
+ */
+export interface PermissionRuleCriteria {
+  resourceType?: string | null;
+  category?: string | null;
+  tag?: string | null;
+}
+
+export interface PermissionRule {
+  id: number;
+  patient_wallet: string;
+  grantee_wallet: string;
+  resource_type: string | null;
+  category: string | null;
+  tag: string | null;
+  include_existing: boolean;
+  include_future: boolean;
+  expiration: Date;
+  revoked: boolean;
+  revoked_at: Date | null;
+  created_by: string | null;
+  created_at: Date;
+}
+
+export interface PermissionRuleGrant {
+  ruleId: number;
+  permissionId: number;
+  grantee: string;
+  recordId: number;
+  transactionHash: string;
+}
+
+// ============================================================================
+// Access Request Types
+// ============================================================================
+
+export type AccessRequestStatus =
+  | 'pending'
+  | 'approving'
+  | 'approved'
+  | 'partially_approved'
+  | 'denied'
+  | 'cancelled';
+
+/**
+ * A provider's request for access to a patient's records
+ * It names records, or criteria (as in permission rules) the patient's records are matched by
+ */
+export interface AccessRequest {
+  id: number;
+  patient_wallet: string;
+  requester_wallet: string;
+  record_ids: number[] | null;
+  resource_type: string | null;
+  category: string | null;
+  tag: string | null;
+  purpose: string;
+  reason: string | null;
+  duration_seconds: number;
+  status: AccessRequestStatus;
+  decision_note: string | null;
+  decided_by: string | null;
+  decided_at: Date | null;
+  claimed_until: Date | null;
+  claim_attempts: number;
+  created_at: Date;
+  updated_at: Date;
+}
+
+export interface AccessRequestEvent {
+  id: number;
+  request_id: number;
+  status: AccessRequestStatus;
+  actor_wallet: string | null;
+  details: { [key: string]: any };
+  created_at: Date;
+}
+
+export interface AccessRequestGrant {
+  permissionId: number;
+  recordIds: number[];
+  expirationTime: number;
+  transactionHash: string;
+}
+
 // ============================================================================
 // Utility Types
 // ============================================================================
@@ -401,8 +1355,12 @@ declare global {
         walletAddress: string;
         email: string;
         role: string;
+        sessionId?: number;
+      };
+      actingFor?: {
+        patientAddress: string;
+        delegation?: DelegationGrant;
       };
-      wallet?: Wallet;
     }
   }
 }
@@ -0,0 +1,134 @@
+/**
+ * @file Shamir Secret Sharing
+ * @description Threshold splitting of secrets over GF(2^8)
+ * Each byte of the secret is shared with its own random polynomial of degree threshold-1.
+ * Share format: x-coordinate (1 byte, 1-255) followed by one y byte per secret byte.
+ */
+
+import { randomBytes } from 'crypto';
+
+const MAX_SHARES = 255;
+
+// Log / exp tables for GF(2^8) with the AES polynomial x^8 + x^4 + x^3 + x + 1 (generator 3)
+const EXP = new Uint8Array(510);
+const LOG = new Uint8Array(256);
+
+(() => {
+  let x = 1;
+  for (let i = 0; i < 255; i++) {
+    EXP[i] = x;
+    LOG[x] = i;
+    // Multiply by the generator: x * 3 = x * 2 XOR x
+    x ^= (x << 1) ^ (x & 0x80 ? 0x11b : 0);
+  }
+  for (let i = 255; i < 510; i++) {
+    EXP[i] = EXP[i - 255];
+  }
+})();
+
+function mul(a: number, b: number): number {
+  if (a === 0 || b === 0) {
+    return 0;
+  }
+  return EXP[LOG[a] + LOG[b]];
+}
+
+function div(a: number, b: number): number {
+  if (b === 0) {
+    throw new Error('Division by zero in GF(256)');
+  }
+  if (a === 0) {
+    return 0;
+  }
+  return EXP[LOG[a] + 255 - LOG[b]];
+}
+
+/**
+ * Evaluate a polynomial (coefficients lowest degree first) at x (Horner's rule)
+ */
+function evaluate(coefficients: Uint8Array, x: number): number {
+  let result = 0;
+  for (let i = coefficients.length - 1; i >= 0; i--) {
+    result = mul(result, x) ^ coefficients[i];
+  }
+  return result;
+}
+
+/**
+ * Split a secret into shares, any `threshold` of which reconstruct it
+ */
+export function splitSecret(secret: Buffer, shareCount: number, threshold: number): Buffer[] {
+  if (secret.length === 0) {
+    throw new Error('Secret must not be empty');
+  }
+  if (!Number.isInteger(threshold) || threshold < 2) {
+    throw new Error('Threshold must be at least 2');
+  }
+  if (!Number.isInteger(shareCount) || shareCount < threshold || shareCount > MAX_SHARES) {
+    throw new Error(`Share count must be between the threshold and ${MAX_SHARES}`);
+  }
+
+  const shares = Array.from({ length: shareCount }, (_, i) => {
+    const share = Buffer.alloc(secret.length + 1);
+    share[0] = i + 1;
+    return share;
+  });
+
+  const coefficients = new Uint8Array(threshold);
+  for (let byte = 0; byte < secret.length; byte++) {
+    coefficients[0] = secret[byte];
+    coefficients.set(randomBytes(threshold - 1), 1);
+
+    for (const share of shares) {
+      share[byte + 1] = evaluate(coefficients, share[0]);
+    }
+  }
+  coefficients.fill(0);
+
+  return shares;
+}
+
+/**
+ * Reconstruct a secret from at least `threshold` shares (Lagrange interpolation at x = 0)
+ * Fewer shares than the threshold yield an unrelated value, so callers must verify the result.
+ */
+export function combineShares(shares: Buffer[]): Buffer {
+  if (shares.length < 2) {
+    throw new Error('At least two shares are required');
+  }
+
+  const length = shares[0].length;
+  const xs = shares.map((share) => share[0]);
+
+  if (shares.some((share) => share.length !== length || share.length < 2)) {
+    throw new Error('Shares must all have the same length');
+  }
+  if (xs.some((x) => x === 0) || new Set(xs).size !== xs.length) {
+    throw new Error('Shares must have distinct, non-zero indices');
+  }
+
+  const secret = Buffer.alloc(length - 1);
+  for (let byte = 0; byte < secret.length; byte++) {
+    let value = 0;
+    for (let i = 0; i < shares.length; i++) {
+      // Lagrange basis polynomial for share i evaluated at 0
+      let basis = 1;
+      for (let j = 0; j < shares.length; j++) {
+        if (i !== j) {
+          basis = mul(basis, div(xs[j], xs[i] ^ xs[j]));
+        }
+      }
+      value ^= mul(shares[i][byte + 1], basis);
+    }
+    secret[byte] = value;
+  }
+
+  return secret;
+}
+
+/**
+ * Get the index (x-coordinate) of a share
+ */
+export function getShareIndex(share: Buffer): number {
+  return share[0];
+}
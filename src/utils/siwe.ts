@@ -0,0 +1,123 @@
+/**
+ * @file Sign-In with Ethereum utilities
+ * @description Parse and verify EIP-4361 messages
+ */
+
+import { randomBytes } from 'crypto';
+import { utils } from 'ethers';
+import { SiweMessage } from '../types';
+
+const HEADER_SUFFIX = ' wants you to sign in with your Ethereum account:';
+
+const FIELD_NAMES: { [label: string]: keyof SiweMessage } = {
+  URI: 'uri',
+  Version: 'version',
+  'Chain ID': 'chainId',
+  Nonce: 'nonce',
+  'Issued At': 'issuedAt',
+  'Expiration Time': 'expirationTime',
+  'Not Before': 'notBefore',
+  'Request ID': 'requestId',
+};
+
+/**
+ * Generate a random alphanumeric nonce (EIP-4361 requires at least 8 characters)
+ */
+export function generateSiweNonce(): string {
+  return randomBytes(16).toString('hex');
+}
+
+/**
+ * Parse an EIP-4361 message string
+ */
+export function parseSiweMessage(message: string): SiweMessage {
+  const lines = message.replace(/\r\n/g, '\n').split('\n');
+
+  const header = lines[0] || '';
+  if (!header.endsWith(HEADER_SUFFIX)) {
+    throw new Error('Invalid SIWE message header');
+  }
+  const domain = header.slice(0, -HEADER_SUFFIX.length);
+
+  const address = (lines[1] || '').trim();
+  if (!utils.isAddress(address)) {
+    throw new Error('Invalid SIWE message address');
+  }
+
+  const parsed: Partial<SiweMessage> = { domain, address };
+  let index = 2;
+
+  // Optional statement sits between blank lines before the URI field
+  while (index < lines.length && !lines[index].startsWith('URI: ')) {
+    const line = lines[index].trim();
+    if (line) {
+      parsed.statement = parsed.statement ? `${parsed.statement}\n${line}` : line;
+    }
+    index++;
+  }
+
+  for (; index < lines.length; index++) {
+    const line = lines[index];
+
+    if (line === 'Resources:') {
+      parsed.resources = lines
+        .slice(index + 1)
+        .filter((resource) => resource.startsWith('- '))
+        .map((resource) => resource.slice(2));
+      break;
+    }
+
+    const separator = line.indexOf(': ');
+    if (separator === -1) {
+      continue;
+    }
+
+    const field = FIELD_NAMES[line.slice(0, separator)];
+    if (!field) {
+      continue;
+    }
+
+    const value = line.slice(separator + 2);
+    if (field === 'chainId') {
+      parsed.chainId = parseInt(value, 10);
+    } else {
+      (parsed as any)[field] = value;
+    }
+  }
+
+  if (!parsed.uri || !parsed.version || !parsed.chainId || !parsed.nonce || !parsed.issuedAt) {
+    throw new Error('SIWE message is missing required fields');
+  }
+
+  if (parsed.version !== '1') {
+    throw new Error(`Unsupported SIWE message version: ${parsed.version}`);
+  }
+
+  if (!/^[a-zA-Z0-9]{8,}$/.test(parsed.nonce)) {
+    throw new Error('Invalid SIWE nonce');
+  }
+
+  return parsed as SiweMessage;
+}
+
+/**
+ * Check the message's validity window against the current time
+ */
+export function isSiweMessageTimely(message: SiweMessage, now: Date = new Date()): boolean {
+  if (message.expirationTime && new Date(message.expirationTime) <= now) {
+    return false;
+  }
+
+  if (message.notBefore && new Date(message.notBefore) > now) {
+    return false;
+  }
+
+  return true;
+}
+
+/**
+ * Recover the address that signed a SIWE message (EIP-191 personal_sign)
+ */
+export function recoverSiweSigner(message: string, signature: string): string {
+  return utils.verifyMessage(message, signature);
+}
@@ -0,0 +1,268 @@
+const { expect } = require('chai');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+
+/**
+ * Require a module with the contract bindings stubbed out
+ * Deciding provisions never touches the chain, and the bindings need compiled contract
+ * artifacts; every module loaded on the way is dropped again, so later suites get the real ones
+ */
+function requireWithoutContracts(modulePath) {
+  const cached = new Set(Object.keys(require.cache));
+  for (const [binding, exported] of [
+    ['../../src/services/blockchain/PatientRecordsService', 'PatientRecordsService'],
+    ['../../src/services/blockchain/KeyRegistryService', 'KeyRegistryService'],
+  ]) {
+    const filename = require.resolve(binding);
+    require.cache[filename] = {
+      id: filename,
+      filename,
+      loaded: true,
+      exports: { [exported]: class {}, [`get${exported}`]: () => ({}) },
+    };
+  }
+
+  try {
+    return require(modulePath);
+  } finally {
+    for (const id of Object.keys(require.cache)) {
+      if (!cached.has(id)) {
+        delete require.cache[id];
+      }
+    }
+  }
+}
+
+const { ConsentService } = requireWithoutContracts('../../src/services/consents/ConsentService');
+
+const PATIENT = '0x' + '1'.repeat(40);
+const DOCTOR = '0x' + '2'.repeat(40);
+const NURSE = '0x' + '3'.repeat(40);
+
+const DENY = { type: 'deny', end: null, purposeOfUse: [] };
+
+/**
+ * Actor entry naming a user by wallet address
+ */
+function actor(wallet, type = 'Practitioner') {
+  return { reference: { reference: `${type}/${wallet}` } };
+}
+
+/**
+ * Facts of an Observation record with the given codes and effective day
+ */
+function observation(recordId, codes = [], day = '2024-03-15') {
+  return {
+    recordId,
+    classes: ['Observation'],
+    references: [`Observation/${PATIENT}-${recordId}`],
+    terms: new Set([
+      'type:Observation',
+      ...codes.map((code) => `code:${code}`),
+      `date:${day.slice(0, 4)}`,
+      `date:${day.slice(0, 7)}`,
+      `date:${day}`,
+    ]),
+  };
+}
+
+describe('Consent Decision Test Suite', function () {
+  let service;
+
+  /**
+   * Decide a provision tree for one grantee and record, starting from deny
+   */
+  function decide(provision, grantee, facts) {
+    return service.decide(provision, grantee, facts, DENY);
+  }
+
+  before(function () {
+    console.log('\n  📝 Testing consent provision evaluation...');
+    service = new ConsentService();
+  });
+
+  describe('📋 Provisions', function () {
+    it('Should permit named actors and deny everyone else', function () {
+      const provision = { type: 'permit', actor: [actor(DOCTOR)] };
+
+      expect(decide(provision, DOCTOR, observation(1)).type).to.equal('permit');
+      expect(decide(provision, NURSE, observation(1)).type).to.equal('deny');
+    });
+
+    it('Should match records by class, code, data reference and data period', function () {
+      const byClass = { type: 'permit', class: [{ code: 'Condition' }] };
+      const byCode = { type: 'permit', code: [{ coding: [{ code: '8867-4' }] }] };
+      const byData = {
+        type: 'permit',
+        data: [{ reference: { reference: `Observation/${PATIENT}-2` } }],
+      };
+      const byPeriod = {
+        type: 'permit',
+        dataPeriod: { start: '2024-01-01', end: '2024-06-30' },
+      };
+
+      expect(decide(byClass, DOCTOR, observation(1)).type).to.equal('deny');
+      expect(decide(byCode, DOCTOR, observation(1, ['8867-4'])).type).to.equal('permit');
+      expect(decide(byCode, DOCTOR, observation(1, ['2339-0'])).type).to.equal('deny');
+      expect(decide(byData, DOCTOR, observation(2)).type).to.equal('permit');
+      expect(decide(byData, DOCTOR, observation(1)).type).to.equal('deny');
+      expect(decide(byPeriod, DOCTOR, observation(1)).type).to.equal('permit');
+      expect(decide(byPeriod, DOCTOR, observation(1, [], '2023-12-31')).type).to.equal('deny');
+    });
+
+    it('Should not apply a provision whose period has ended', function () {
+      const provision = {
+        type: 'permit',
+        period: { end: new Date(Date.now() - 1000).toISOString() },
+      };
+
+      expect(decide(provision, DOCTOR, observation(1)).type).to.equal('deny');
+    });
+
+    it('Should end at the provision period end and carry its purposes', function () {
+      const end = '2030-01-01T00:00:00Z';
+      const decision = decide(
+        { type: 'permit', period: { end }, purpose: [{ code: 'TREAT' }] },
+        DOCTOR,
+        observation(1)
+      );
+
+      expect(decision).to.deep.equal({
+        type: 'permit',
+        end: Math.floor(new Date(end).getTime() / 1000),
+        purposeOfUse: ['TREAT'],
+      });
+    });
+  });
+
+  describe('🪆 Nested Exceptions', function () {
+    const HIV_TEST = '75622-1';
+
+    it('Should let a nested deny carve an exception out of a permit', function () {
+      const provision = {
+        type: 'permit',
+        actor: [actor(DOCTOR)],
+        provision: [{ type: 'deny', code: [{ coding: [{ code: HIV_TEST }] }] }],
+      };
+
+      console.log(`  ✓ Deny nested in permit for code ${HIV_TEST}`);
+
+      expect(decide(provision, DOCTOR, observation(1, ['8867-4'])).type).to.equal('permit');
+      expect(decide(provision, DOCTOR, observation(2, [HIV_TEST])).type).to.equal('deny');
+    });
+
+    it('Should let a permit nested in a nested deny restore access', function () {
+      const provision = {
+        type: 'permit',
+        provision: [
+          {
+            type: 'deny',
+            code: [{ coding: [{ code: HIV_TEST }] }],
+            provision: [{ type: 'permit', actor: [actor(DOCTOR)] }],
+          },
+        ],
+      };
+
+      expect(decide(provision, DOCTOR, observation(1, [HIV_TEST])).type).to.equal('permit');
+      expect(decide(provision, NURSE, observation(1, [HIV_TEST])).type).to.equal('deny');
+      expect(decide(provision, NURSE, observation(2)).type).to.equal('permit');
+    });
+
+    it('Should apply sibling exceptions in order, the last that applies winning', function () {
+      const provision = {
+        type: 'permit',
+        provision: [
+          { type: 'deny', actor: [actor(NURSE)] },
+          { type: 'permit', actor: [actor(NURSE)], class: [{ code: 'Observation' }] },
+        ],
+      };
+
+      expect(decide(provision, NURSE, observation(1)).type).to.equal('permit');
+      expect(decide(provision, NURSE, { ...observation(2), classes: ['Condition'] }).type).to.equal(
+        'deny'
+      );
+    });
+
+    it('Should keep the earliest end of nested provisions', function () {
+      const outer = '2030-01-01T00:00:00Z';
+      const inner = '2029-01-01T00:00:00Z';
+      const decision = decide(
+        {
+          type: 'permit',
+          period: { end: outer },
+          provision: [{ type: 'permit', period: { end: inner }, actor: [actor(DOCTOR)] }],
+        },
+        DOCTOR,
+        observation(1)
+      );
+
+      expect(decision.end).to.equal(Math.floor(new Date(inner).getTime() / 1000));
+    });
+
+    it('Should inherit the type and purposes of the parent when a nested one omits them', function () {
+      const decision = decide(
+        {
+          type: 'permit',
+          purpose: [{ code: 'TREAT' }],
+          provision: [{ actor: [actor(DOCTOR)] }],
+        },
+        DOCTOR,
+        observation(1)
+      );
+
+      expect(decision.type).to.equal('permit');
+      expect(decision.purposeOfUse).to.deep.equal(['TREAT']);
+    });
+  });
+
+  describe('🧾 Normalization', function () {
+    it('Should fill in the patient and drop the server-assigned id and meta', function () {
+      const normalized = service.normalize(
+        {
+          resourceType: 'Consent',
+          id: 'client-id',
+          meta: { versionId: '3' },
+          status: 'active',
+          provision: { type: 'permit', actor: [actor(DOCTOR)] },
+        },
+        PATIENT
+      );
+
+      expect(normalized.patient).to.deep.equal({ reference: `Patient/${PATIENT}` });
+      expect(normalized).to.not.have.property('id');
+      expect(normalized).to.not.have.property('meta');
+    });
+
+    it('Should reject nested actors that do not name a wallet', function () {
+      expect(() =>
+        service.normalize(
+          {
+            resourceType: 'Consent',
+            status: 'active',
+            provision: {
+              type: 'permit',
+              provision: [
+                { type: 'deny', actor: [{ reference: { reference: 'Practitioner/1' } }] },
+              ],
+            },
+          },
+          PATIENT
+        )
+      ).to.throw('Consent.provision.provision[0].actor[0].reference must reference a user');
+    });
+
+    it('Should reject a consent for another patient', function () {
+      expect(() =>
+        service.normalize(
+          {
+            resourceType: 'Consent',
+            status: 'draft',
+            patient: { reference: `Patient/${NURSE}` },
+          },
+          PATIENT
+        )
+      ).to.throw(`Consent.patient must reference Patient/${PATIENT}`);
+    });
+  });
+});
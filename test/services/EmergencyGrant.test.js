@@ -0,0 +1,141 @@
+const { expect } = require('chai');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+const { EmergencyGrantService } = require('../../src/services/emergency/EmergencyGrantService');
+
+const STATES = ['requested', 'cosigning', 'cosigned', 'confirmed', 'expired', 'revoked'];
+
+const ALLOWED = {
+  requested: ['cosigning', 'expired', 'revoked'],
+  cosigning: ['cosigned', 'requested', 'expired', 'revoked'],
+  cosigned: ['confirmed', 'expired', 'revoked'],
+  confirmed: ['expired', 'revoked'],
+  expired: [],
+  revoked: [],
+};
+
+/**
+ * A grant in a given state, expiring an hour from now unless told otherwise
+ */
+function grant(status, expiration = new Date(Date.now() + 3600 * 1000)) {
+  return {
+    grant_id: 'grant-1',
+    status,
+    patient_wallet: '0x' + '1'.repeat(40),
+    physician1_wallet: '0x' + '2'.repeat(40),
+    record_id: 1,
+    expiration,
+  };
+}
+
+describe('Emergency Grant Test Suite', function () {
+  let service;
+
+  before(function () {
+    service = new EmergencyGrantService();
+  });
+
+  describe('🔀 State Transitions', function () {
+    before(function () {
+      console.log('\n  📝 Testing the emergency grant state machine...');
+    });
+
+    for (const from of STATES) {
+      it(`Should only move ${from} to ${ALLOWED[from].join(', ') || 'nothing'}`, function () {
+        for (const to of STATES) {
+          expect(service.canTransition(from, to), `${from} → ${to}`).to.equal(
+            ALLOWED[from].includes(to)
+          );
+        }
+      });
+    }
+
+    it('Should only move back to requested from cosigning', function () {
+      expect(STATES.filter((from) => service.canTransition(from, 'requested'))).to.deep.equal([
+        'cosigning',
+      ]);
+    });
+  });
+
+  describe('🚫 Rejected Transitions', function () {
+    it('Should refuse to approve a grant that is no longer requested', async function () {
+      for (const status of ['cosigning', 'cosigned', 'confirmed', 'expired', 'revoked']) {
+        let error;
+        try {
+          await service.approve(grant(status), '0x' + '3'.repeat(40), 1, async () => {
+            throw new Error('co-signed');
+          });
+        } catch (err) {
+          error = err;
+        }
+
+        expect(error.message).to.equal(`Emergency grant cannot move from ${status} to cosigning`);
+      }
+    });
+
+    it('Should refuse to send the co-signature of a grant that is not cosigning', async function () {
+      let sent = false;
+      const patientRecordsService = {
+        sendEmergencyAccessRequest: async () => {
+          sent = true;
+          return null;
+        },
+      };
+
+      let error;
+      try {
+        await service.completeCosigning(grant('requested'), patientRecordsService);
+      } catch (err) {
+        error = err;
+      }
+
+      expect(error.message).to.equal('Emergency grant is requested, not cosigning');
+      expect(sent).to.be.false;
+    });
+
+    it('Should refuse to confirm a grant that is not co-signed', async function () {
+      let error;
+      try {
+        await service.markConfirmed(grant('requested'), '0x' + 'ab'.repeat(32));
+      } catch (err) {
+        error = err;
+      }
+
+      console.log(`  ✓ ${error.message}`);
+
+      expect(error.message).to.equal('Emergency grant cannot move from requested to confirmed');
+    });
+
+    it('Should refuse to revoke an ended grant', async function () {
+      for (const status of ['expired', 'revoked']) {
+        let error;
+        try {
+          await service.revoke(grant(status), '0x' + '1'.repeat(40));
+        } catch (err) {
+          error = err;
+        }
+
+        expect(error.message).to.equal(`Emergency grant cannot move from ${status} to revoked`);
+      }
+    });
+  });
+
+  describe('⏳ Expiry', function () {
+    it('Should leave live grants before their expiration alone', async function () {
+      for (const status of ['requested', 'cosigning', 'cosigned', 'confirmed']) {
+        const live = grant(status);
+
+        expect(await service.expireIfDue(live)).to.equal(live);
+      }
+    });
+
+    it('Should leave ended grants alone after their expiration', async function () {
+      for (const status of ['expired', 'revoked']) {
+        const ended = grant(status, new Date(Date.now() - 1000));
+
+        expect(await service.expireIfDue(ended)).to.equal(ended);
+      }
+    });
+  });
+});
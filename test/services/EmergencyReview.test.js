@@ -0,0 +1,140 @@
+const { expect } = require('chai');
+const fs = require('fs');
+const path = require('path');
+const { PGlite } = require('@electric-sql/pglite');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+const { db, pgp } = require('../../src/services/database');
+const { EmergencyReviewService } = require('../../src/services/emergency/EmergencyReviewService');
+
+const PATIENT = '0x' + '1'.repeat(40);
+const OTHER_PATIENT = '0x' + '4'.repeat(40);
+const PHYSICIAN1 = '0x' + '2'.repeat(40);
+const PHYSICIAN2 = '0x' + '3'.repeat(40);
+
+const MIGRATIONS = ['001_create_tables.sql', '029_access_log_patient.sql'];
+
+/**
+ * A confirmed grant on record 7 of the patient, open from an hour ago for two hours
+ */
+function grant(overrides = {}) {
+  return {
+    grant_id: 'grant-1',
+    status: 'confirmed',
+    patient_wallet: PATIENT,
+    record_id: 7,
+    physician1_wallet: PHYSICIAN1,
+    physician2_wallet: PHYSICIAN2,
+    created_at: new Date(Date.now() - 3600 * 1000),
+    expiration: new Date(Date.now() + 3600 * 1000),
+    revoked_at: null,
+    ...overrides,
+  };
+}
+
+describe('Emergency Review Test Suite', function () {
+  let pg;
+  let manyOrNone;
+  let service;
+
+  /**
+   * Log a read some minutes from now
+   */
+  async function logRead(patientWallet, recordId, accessor, minutes) {
+    await pg.query(
+      `INSERT INTO access_logs (patient_wallet, record_id, accessor_wallet, accessed_at)
+       VALUES ($1, $2, $3, NOW() + make_interval(mins => $4))`,
+      [patientWallet, recordId, accessor, minutes]
+    );
+  }
+
+  before(async function () {
+    console.log('\n  📝 Running review queries against PGlite...');
+
+    pg = new PGlite();
+    for (const migration of MIGRATIONS) {
+      await pg.exec(fs.readFileSync(path.join(__dirname, '../../migrations', migration), 'utf8'));
+    }
+    for (const [wallet, role] of [
+      [PATIENT, 'patient'],
+      [OTHER_PATIENT, 'patient'],
+      [PHYSICIAN1, 'doctor'],
+      [PHYSICIAN2, 'doctor'],
+    ]) {
+      await pg.query(
+        `INSERT INTO users (wallet_address, name, email, password_hash, role)
+         VALUES ($1, $2, $3, 'hash', $4)`,
+        [wallet, role, `${wallet}@example.com`, role]
+      );
+    }
+
+    // Queries are formatted by pg-promise as in production and run on PGlite
+    manyOrNone = db.manyOrNone;
+    db.manyOrNone = async (query, values) => (await pg.query(pgp.as.format(query, values))).rows;
+
+    service = new EmergencyReviewService();
+  });
+
+  after(async function () {
+    db.manyOrNone = manyOrNone;
+    await pg.close();
+  });
+
+  beforeEach(async function () {
+    await pg.query('DELETE FROM access_logs');
+  });
+
+  describe('📖 Reads Under a Grant', function () {
+    it('Should list reads of a grant that was not revoked', async function () {
+      await logRead(PATIENT, 7, PHYSICIAN1, -30);
+      await logRead(PATIENT, 7, PHYSICIAN2, -10);
+
+      const accesses = await service.listAccesses(grant());
+
+      console.log(`  ✓ Found ${accesses.length} reads`);
+
+      expect(accesses.map((access) => access.accessor_wallet)).to.deep.equal([
+        PHYSICIAN1,
+        PHYSICIAN2,
+      ]);
+    });
+
+    it('Should ignore reads of another patient record with the same ID', async function () {
+      await logRead(PATIENT, 7, PHYSICIAN1, -30);
+      await logRead(OTHER_PATIENT, 7, PHYSICIAN1, -20);
+
+      const accesses = await service.listAccesses(grant());
+
+      expect(accesses).to.have.length(1);
+    });
+
+    it('Should ignore reads of other records and by other users', async function () {
+      await logRead(PATIENT, 8, PHYSICIAN1, -30);
+      await logRead(PATIENT, 7, OTHER_PATIENT, -20);
+
+      expect(await service.listAccesses(grant())).to.be.empty;
+    });
+
+    it('Should only list reads while the grant was open', async function () {
+      await logRead(PATIENT, 7, PHYSICIAN1, -90);
+      await logRead(PATIENT, 7, PHYSICIAN1, -30);
+      await logRead(PATIENT, 7, PHYSICIAN1, 90);
+
+      const accesses = await service.listAccesses(grant());
+
+      expect(accesses).to.have.length(1);
+    });
+
+    it('Should end the window at the revocation of a revoked grant', async function () {
+      await logRead(PATIENT, 7, PHYSICIAN1, -30);
+      await logRead(PATIENT, 7, PHYSICIAN1, -5);
+
+      const accesses = await service.listAccesses(
+        grant({ status: 'revoked', revoked_at: new Date(Date.now() - 15 * 60 * 1000) })
+      );
+
+      expect(accesses).to.have.length(1);
+    });
+  });
+});
@@ -0,0 +1,189 @@
+const { expect } = require('chai');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+const config = require('../../src/config').default;
+const { FhirValidator } = require('../../src/services/fhir/FhirValidator');
+
+const OBSERVATION = {
+  resourceType: 'Observation',
+  status: 'final',
+  code: { text: 'Heart rate' },
+};
+
+describe('FHIR Validator Test Suite', function () {
+  let validator;
+
+  before(function () {
+    console.log('\n  📝 Loading the R4 StructureDefinitions...');
+    validator = new FhirValidator('R4');
+  });
+
+  describe('✅ Valid Resources', function () {
+    it('Should know the R4 resource types', function () {
+      const types = validator.getResourceTypes();
+
+      console.log(`  ✓ ${types.length} resource types`);
+
+      expect(types).to.include.members(['Patient', 'Observation', 'Condition']);
+      expect(types).to.not.include('DomainResource');
+    });
+
+    it('Should accept a valid resource in both modes', function () {
+      for (const mode of ['strict', 'lenient']) {
+        const result = validator.validate(OBSERVATION, mode);
+
+        expect(result.valid).to.be.true;
+        expect(result.mode).to.equal(mode);
+        expect(result.outcome).to.deep.equal({
+          resourceType: 'OperationOutcome',
+          issue: [{ severity: 'information', code: 'informational', diagnostics: 'All OK' }],
+        });
+      }
+    });
+
+    it('Should accept contained, relative, absolute and URN references', function () {
+      const references = [
+        '#patient',
+        'Patient/123',
+        'https://fhir.example.com/r4/Patient/123',
+        'urn:uuid:123e4567-e89b-12d3-a456-426614174000',
+      ];
+
+      for (const reference of references) {
+        const result = validator.validate(
+          {
+            ...OBSERVATION,
+            contained: [{ resourceType: 'Patient', id: 'patient' }],
+            subject: { reference },
+          },
+          'strict'
+        );
+        expect(result.valid, reference).to.be.true;
+      }
+    });
+  });
+
+  describe('⚖️ Strict and Lenient Modes', function () {
+    before(function () {
+      console.log('\n  📝 Testing strict and lenient validation...');
+    });
+
+    it('Should reject unknown properties in strict mode only', function () {
+      const resource = { ...OBSERVATION, heartRate: 72 };
+
+      const strict = validator.validate(resource, 'strict');
+      const lenient = validator.validate(resource, 'lenient');
+
+      console.log(`  ✓ Strict: ${strict.outcome.issue[0].severity}`);
+      console.log(`  ✓ Lenient: ${lenient.outcome.issue[0].severity}`);
+
+      expect(strict.valid).to.be.false;
+      expect(strict.outcome.issue).to.deep.equal([
+        {
+          severity: 'error',
+          code: 'structure',
+          diagnostics: 'Unexpected property',
+          expression: ['Observation.heartRate'],
+        },
+      ]);
+      expect(lenient.valid).to.be.true;
+      expect(lenient.outcome.issue[0].severity).to.equal('warning');
+    });
+
+    it('Should reject disallowed reference targets in strict mode only', function () {
+      const resource = { ...OBSERVATION, subject: { reference: 'Medication/1' } };
+
+      const strict = validator.validate(resource, 'strict');
+      const lenient = validator.validate(resource, 'lenient');
+
+      expect(strict.valid).to.be.false;
+      expect(strict.outcome.issue[0].code).to.equal('value');
+      expect(lenient.valid).to.be.true;
+      expect(lenient.outcome.issue[0].severity).to.equal('warning');
+    });
+
+    it('Should reject missing required elements in both modes', function () {
+      const { status, ...resource } = OBSERVATION;
+
+      for (const mode of ['strict', 'lenient']) {
+        const result = validator.validate(resource, mode);
+
+        expect(result.valid).to.be.false;
+        expect(result.outcome.issue[0]).to.include({ severity: 'error', code: 'required' });
+        expect(result.outcome.issue[0].expression).to.deep.equal(['Observation.status']);
+      }
+    });
+
+    it('Should reject codes outside a required binding in both modes', function () {
+      for (const mode of ['strict', 'lenient']) {
+        const result = validator.validate({ ...OBSERVATION, status: 'done' }, mode);
+
+        expect(result.valid).to.be.false;
+        expect(result.outcome.issue[0].code).to.equal('code-invalid');
+      }
+    });
+
+    it('Should reject malformed and dangling references in both modes', function () {
+      for (const mode of ['strict', 'lenient']) {
+        const malformed = validator.validate(
+          { ...OBSERVATION, subject: { reference: 'patient 123' } },
+          mode
+        );
+        const dangling = validator.validate(
+          { ...OBSERVATION, subject: { reference: '#missing' } },
+          mode
+        );
+
+        expect(malformed.valid).to.be.false;
+        expect(malformed.outcome.issue[0].diagnostics).to.equal('Invalid reference "patient 123"');
+        expect(dangling.valid).to.be.false;
+        expect(dangling.outcome.issue[0].diagnostics).to.equal(
+          'Contained resource "#missing" not found'
+        );
+      }
+    });
+  });
+
+  describe('⚙️ Mode Selection', function () {
+    let fhirConfig;
+
+    beforeEach(function () {
+      fhirConfig = { ...config.fhir };
+    });
+
+    afterEach(function () {
+      Object.assign(config.fhir, fhirConfig);
+    });
+
+    it('Should use the configured default mode', function () {
+      config.fhir.strictValidation = true;
+      expect(validator.getMode('Observation')).to.equal('strict');
+
+      config.fhir.strictValidation = false;
+      expect(validator.getMode('Observation')).to.equal('lenient');
+    });
+
+    it('Should apply per resource type overrides', function () {
+      config.fhir.strictValidation = false;
+      config.fhir.strictResourceTypes = ['Patient'];
+      config.fhir.lenientResourceTypes = ['Observation'];
+
+      expect(validator.getMode('Patient')).to.equal('strict');
+
+      config.fhir.strictValidation = true;
+      expect(validator.getMode('Observation')).to.equal('lenient');
+      expect(validator.getMode('Condition')).to.equal('strict');
+    });
+
+    it('Should validate in the resource type mode when none is given', function () {
+      config.fhir.strictValidation = false;
+      config.fhir.strictResourceTypes = ['Observation'];
+
+      const result = validator.validate({ ...OBSERVATION, heartRate: 72 });
+
+      expect(result.mode).to.equal('strict');
+      expect(result.valid).to.be.false;
+    });
+  });
+});
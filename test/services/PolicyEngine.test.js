@@ -0,0 +1,209 @@
+const { expect } = require('chai');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+const { PolicyEngine } = require('../../src/services/policy/PolicyEngine');
+
+const PATIENT = '0x' + '1'.repeat(40);
+const DOCTOR = '0x' + '2'.repeat(40);
+const PROXY = '0x' + '3'.repeat(40);
+
+const POLICIES = [
+  {
+    id: 'patient-read-own',
+    description: 'Patients read their own records',
+    effect: 'allow',
+    roles: ['patient'],
+    actions: ['record:read'],
+    conditions: [{ type: 'owner' }],
+  },
+  {
+    id: 'cardiology-read',
+    description: 'Cardiology doctors read records',
+    effect: 'allow',
+    roles: ['doctor'],
+    actions: ['record:read'],
+    conditions: [{ type: 'attribute', attribute: 'department', values: ['cardiology'] }],
+  },
+  {
+    id: 'proxy-read',
+    description: 'Proxies read records under a delegation',
+    effect: 'allow',
+    roles: ['guardian'],
+    actions: ['record:read'],
+    conditions: [{ type: 'delegation' }],
+  },
+  {
+    id: 'researcher-deny',
+    description: 'Researchers never read identified records',
+    effect: 'deny',
+    roles: ['researcher'],
+    actions: ['record:read'],
+  },
+  {
+    id: 'participant-history',
+    description: 'Participants view the grants they take part in',
+    effect: 'allow',
+    roles: ['doctor'],
+    actions: ['emergency:history'],
+    conditions: [{ type: 'participant' }],
+  },
+];
+
+/**
+ * Build a subject from its role grants and delegations
+ */
+function subject(walletAddress, grants, delegations = []) {
+  return { walletAddress, grants, delegations };
+}
+
+describe('Policy Engine Test Suite', function () {
+  let engine;
+
+  before(function () {
+    console.log('\n  📝 Testing policy evaluation...');
+    engine = new PolicyEngine(POLICIES);
+  });
+
+  describe('⚖️ Combining Policies', function () {
+    it('Should allow through a matching allow policy', function () {
+      const decision = engine.evaluate(
+        subject(PATIENT, [{ role: 'patient', source: 'primary' }]),
+        'record:read',
+        { patientAddress: PATIENT }
+      );
+
+      console.log(`  ✓ ${decision.reason}`);
+
+      expect(decision.allowed).to.be.true;
+      expect(decision.decidingPolicy).to.equal('patient-read-own');
+    });
+
+    it('Should let a deny override an allow', function () {
+      const decision = engine.evaluate(
+        subject(PATIENT, [
+          { role: 'patient', source: 'primary' },
+          { role: 'researcher', source: 'assignment', assignmentId: 7 },
+        ]),
+        'record:read',
+        { patientAddress: PATIENT }
+      );
+
+      console.log(`  ✓ ${decision.reason}`);
+
+      expect(decision.allowed).to.be.false;
+      expect(decision.decidingPolicy).to.equal('researcher-deny');
+      const ownerPolicy = decision.evaluations.find((e) => e.policyId === 'patient-read-own');
+      expect(ownerPolicy.matched).to.be.true;
+    });
+
+    it('Should deny by default when no policy matches', function () {
+      const decision = engine.evaluate(
+        subject(DOCTOR, [{ role: 'doctor', source: 'primary' }]),
+        'record:read',
+        { patientAddress: PATIENT }
+      );
+
+      expect(decision.allowed).to.be.false;
+      expect(decision.decidingPolicy).to.be.null;
+      expect(decision.reason).to.equal('No policy allows action record:read for roles doctor');
+    });
+
+    it('Should deny actions no policy covers', function () {
+      const decision = engine.evaluate(
+        subject(PATIENT, [{ role: 'patient', source: 'primary' }]),
+        'record:delete'
+      );
+
+      expect(decision.allowed).to.be.false;
+      expect(decision.reason).to.equal('No policy covers action record:delete');
+    });
+  });
+
+  describe('🧩 Conditions', function () {
+    it('Should check the owner against the resource patient', function () {
+      const decision = engine.evaluate(
+        subject(PATIENT, [{ role: 'patient', source: 'primary' }]),
+        'record:read',
+        { patientAddress: PROXY }
+      );
+
+      expect(decision.allowed).to.be.false;
+      expect(decision.evaluations.find((e) => e.policyId === 'patient-read-own').detail).to.equal(
+        'resource does not belong to the subject'
+      );
+    });
+
+    it('Should match attributes of any of the role grants', function () {
+      const decision = engine.evaluate(
+        subject(DOCTOR, [
+          { role: 'doctor', source: 'primary' },
+          { role: 'doctor', source: 'assignment', assignmentId: 3, department: 'cardiology' },
+        ]),
+        'record:read',
+        { patientAddress: PATIENT }
+      );
+
+      console.log(`  ✓ ${decision.reason}`);
+
+      expect(decision.allowed).to.be.true;
+      expect(decision.decidingPolicy).to.equal('cardiology-read');
+      expect(decision.reason).to.include('assignment #3, department cardiology');
+    });
+
+    it('Should allow a proxy whose delegation covers the action', function () {
+      const delegation = {
+        id: 5,
+        patientAddress: PATIENT.toUpperCase().replace('0X', '0x'),
+        relationship: 'guardian',
+        scopes: ['record:read'],
+        expiresAt: null,
+      };
+      const decision = engine.evaluate(
+        subject(PROXY, [{ role: 'guardian', source: 'primary' }], [delegation]),
+        'record:read',
+        { patientAddress: PATIENT }
+      );
+
+      console.log(`  ✓ ${decision.reason}`);
+
+      expect(decision.allowed).to.be.true;
+      expect(decision.decidingPolicy).to.equal('proxy-read');
+      expect(decision.delegation).to.equal(delegation);
+    });
+
+    it('Should deny a proxy whose delegation lacks the scope or patient', function () {
+      const delegations = [
+        { id: 5, patientAddress: PATIENT, relationship: 'guardian', scopes: ['record:list'] },
+        { id: 6, patientAddress: DOCTOR, relationship: 'guardian', scopes: ['record:read'] },
+      ];
+      const decision = engine.evaluate(
+        subject(PROXY, [{ role: 'guardian', source: 'primary' }], delegations),
+        'record:read',
+        { patientAddress: PATIENT }
+      );
+
+      expect(decision.allowed).to.be.false;
+      expect(decision.evaluations.find((e) => e.policyId === 'proxy-read').detail).to.equal(
+        'no active delegation from the patient covers record:read'
+      );
+    });
+
+    it('Should allow participants of the resource only', function () {
+      const doctor = subject(DOCTOR, [{ role: 'doctor', source: 'primary' }]);
+
+      const allowed = engine.evaluate(doctor, 'emergency:history', {
+        patientAddress: PATIENT,
+        participants: [PROXY, DOCTOR.toUpperCase().replace('0X', '0x')],
+      });
+      const denied = engine.evaluate(doctor, 'emergency:history', {
+        patientAddress: PATIENT,
+        participants: [PROXY],
+      });
+
+      expect(allowed.allowed).to.be.true;
+      expect(denied.allowed).to.be.false;
+      expect(denied.evaluations[0].detail).to.equal('subject does not take part in the resource');
+    });
+  });
+});
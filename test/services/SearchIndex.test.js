@@ -0,0 +1,140 @@
+const { expect } = require('chai');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+const { SearchIndexService } = require('../../src/services/search/SearchIndexService');
+
+describe('Search Index Test Suite', function () {
+  let searchIndex;
+
+  before(function () {
+    searchIndex = new SearchIndexService();
+  });
+
+  describe('🔎 Term Extraction', function () {
+    before(function () {
+      console.log('\n  📝 Testing search term extraction...');
+    });
+
+    it('Should extract type, codes, dates, encounter and words of an Observation', function () {
+      const terms = searchIndex.extractTerms({
+        resourceType: 'Observation',
+        code: {
+          coding: [{ system: 'http://loinc.org', code: '8867-4', display: 'Heart rate' }],
+          text: 'Heart rate',
+        },
+        effectiveDateTime: '2024-03-15T08:30:00Z',
+        encounter: { reference: 'Encounter/42' },
+        valueQuantity: { value: 72, unit: 'beats/minute' },
+      });
+
+      console.log(`  ✓ Extracted ${terms.length} terms`);
+
+      expect(terms).to.include.members([
+        'type:Observation',
+        'code:8867-4',
+        'code:http://loinc.org|8867-4',
+        'date:2024',
+        'date:2024-03',
+        'date:2024-03-15',
+        'encounter:Encounter/42',
+        'text:heart',
+        'text:rate',
+      ]);
+    });
+
+    it('Should collect codes from nested and repeated CodeableConcepts', function () {
+      const terms = searchIndex.extractTerms({
+        resourceType: 'Condition',
+        category: [{ coding: [{ code: 'problem-list-item' }] }],
+        code: { coding: [{ system: 'http://snomed.info/sct', code: '38341003' }] },
+      });
+
+      expect(terms).to.include.members([
+        'code:problem-list-item',
+        'code:38341003',
+        'code:http://snomed.info/sct|38341003',
+      ]);
+    });
+
+    it('Should index words of text fields only, skipping short ones', function () {
+      const terms = searchIndex.extractTerms({
+        resourceType: 'DiagnosticReport',
+        conclusion: 'No acute findings in CT of the chest',
+        status: 'final',
+      });
+
+      expect(terms).to.include.members(['text:acute', 'text:findings', 'text:chest']);
+      expect(terms).to.not.include('text:no');
+      expect(terms).to.not.include('text:of');
+      expect(terms).to.not.include('text:final');
+    });
+
+    it('Should index partial dates at their own granularity', function () {
+      const terms = searchIndex.extractTerms({
+        resourceType: 'Condition',
+        onsetDateTime: '2019-07',
+        recordedDate: '2020',
+      });
+
+      expect(terms).to.include.members(['date:2019', 'date:2019-07', 'date:2020']);
+      expect(terms.filter((term) => term.startsWith('date:'))).to.have.length(3);
+    });
+
+    it('Should read the encounter from context for older resources', function () {
+      const terms = searchIndex.extractTerms({
+        resourceType: 'DocumentReference',
+        context: { reference: 'Encounter/7' },
+      });
+
+      expect(terms).to.include('encounter:Encounter/7');
+    });
+  });
+
+  describe('📅 Date Range Cover', function () {
+    before(function () {
+      console.log('\n  📝 Testing date range covers...');
+    });
+
+    it('Should cover a single day with that day', function () {
+      expect(searchIndex.coverDateRange('2024-03-15', '2024-03-15')).to.deep.equal([
+        'date:2024-03-15',
+      ]);
+    });
+
+    it('Should use whole months and years where the range spans them', function () {
+      const terms = searchIndex.coverDateRange('2022-11-30', '2024-02-02');
+
+      console.log(`  ✓ Covered with ${terms.join(', ')}`);
+
+      expect(terms).to.deep.equal([
+        'date:2022-11-30',
+        'date:2022-12',
+        'date:2023',
+        'date:2024-01',
+        'date:2024-02-01',
+        'date:2024-02-02',
+      ]);
+    });
+
+    it('Should cover a whole year with one term', function () {
+      expect(searchIndex.coverDateRange('2023-01-01', '2023-12-31')).to.deep.equal(['date:2023']);
+    });
+
+    it('Should handle leap-year month ends', function () {
+      expect(searchIndex.coverDateRange('2024-02-01', '2024-02-29')).to.deep.equal([
+        'date:2024-02',
+      ]);
+    });
+
+    it('Should ignore the time part of the bounds', function () {
+      expect(
+        searchIndex.coverDateRange('2024-03-01T10:00:00Z', '2024-03-31T23:59:59Z')
+      ).to.deep.equal(['date:2024-03']);
+    });
+
+    it('Should return no terms for an inverted range', function () {
+      expect(searchIndex.coverDateRange('2024-03-02', '2024-03-01')).to.deep.equal([]);
+    });
+  });
+});
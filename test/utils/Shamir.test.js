@@ -0,0 +1,110 @@
+const { expect } = require('chai');
+const crypto = require('crypto');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+const { splitSecret, combineShares, getShareIndex } = require('../../src/utils/shamir');
+
+describe('Shamir Secret Sharing Test Suite', function () {
+  describe('🔑 Split and Combine', function () {
+    let secret;
+
+    before(function () {
+      console.log('\n  📝 Testing Shamir secret sharing over GF(256)...');
+      secret = crypto.randomBytes(32);
+    });
+
+    it('Should produce indexed shares one byte longer than the secret', function () {
+      const shares = splitSecret(secret, 3, 2);
+
+      console.log(`  ✓ Generated ${shares.length} shares of ${shares[0].length} bytes`);
+
+      expect(shares).to.have.length(3);
+      shares.forEach((share, i) => {
+        expect(share).to.have.length(secret.length + 1);
+        expect(getShareIndex(share)).to.equal(i + 1);
+      });
+    });
+
+    it('Should reconstruct the secret from every pair of a 2-of-3 split', function () {
+      const shares = splitSecret(secret, 3, 2);
+      const pairs = [
+        [0, 1],
+        [0, 2],
+        [1, 2],
+        [2, 0],
+      ];
+
+      for (const [a, b] of pairs) {
+        expect(combineShares([shares[a], shares[b]]).equals(secret)).to.be.true;
+      }
+
+      console.log(`  ✓ All ${pairs.length} share pairs reconstructed the secret`);
+    });
+
+    it('Should reconstruct from any threshold subset of a 3-of-5 split', function () {
+      const shares = splitSecret(secret, 5, 3);
+
+      expect(combineShares([shares[0], shares[2], shares[4]]).equals(secret)).to.be.true;
+      expect(combineShares([shares[1], shares[3], shares[4]]).equals(secret)).to.be.true;
+      expect(combineShares(shares).equals(secret)).to.be.true;
+
+      console.log(`  ✓ 3-of-5 subsets and the full set reconstructed the secret`);
+    });
+
+    it('Should not reveal the secret below the threshold', function () {
+      const shares = splitSecret(secret, 5, 3);
+      const guess = combineShares([shares[0], shares[1]]);
+
+      console.log(`  ✓ Two of three shares gave an unrelated value`);
+
+      expect(guess.equals(secret)).to.be.false;
+    });
+
+    it('Should share a single-byte secret', function () {
+      const byte = Buffer.from([0xa5]);
+      const shares = splitSecret(byte, 2, 2);
+
+      expect(combineShares(shares).equals(byte)).to.be.true;
+    });
+  });
+
+  describe('🚫 Invalid Input', function () {
+    it('Should reject an empty secret', function () {
+      expect(() => splitSecret(Buffer.alloc(0), 3, 2)).to.throw('Secret must not be empty');
+    });
+
+    it('Should reject a threshold below 2', function () {
+      expect(() => splitSecret(Buffer.from('secret'), 3, 1)).to.throw(
+        'Threshold must be at least 2'
+      );
+    });
+
+    it('Should reject fewer shares than the threshold or more than 255', function () {
+      expect(() => splitSecret(Buffer.from('secret'), 2, 3)).to.throw('Share count');
+      expect(() => splitSecret(Buffer.from('secret'), 256, 2)).to.throw('Share count');
+    });
+
+    it('Should require at least two shares to combine', function () {
+      const [share] = splitSecret(Buffer.from('secret'), 3, 2);
+
+      expect(() => combineShares([share])).to.throw('At least two shares are required');
+    });
+
+    it('Should reject shares of different lengths', function () {
+      const [a] = splitSecret(Buffer.from('secret'), 3, 2);
+      const [, b] = splitSecret(Buffer.from('longer secret'), 3, 2);
+
+      expect(() => combineShares([a, b])).to.throw('Shares must all have the same length');
+    });
+
+    it('Should reject duplicate or zero share indices', function () {
+      const shares = splitSecret(Buffer.from('secret'), 3, 2);
+      const zero = Buffer.from(shares[1]);
+      zero[0] = 0;
+
+      expect(() => combineShares([shares[0], shares[0]])).to.throw('distinct, non-zero indices');
+      expect(() => combineShares([shares[0], zero])).to.throw('distinct, non-zero indices');
+    });
+  });
+});
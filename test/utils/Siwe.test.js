@@ -0,0 +1,175 @@
+const { expect } = require('chai');
+const { ethers } = require('ethers');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+const {
+  generateSiweNonce,
+  isSiweMessageTimely,
+  parseSiweMessage,
+  recoverSiweSigner,
+} = require('../../src/utils/siwe');
+
+const ADDRESS = '0x' + 'ab'.repeat(20);
+
+/**
+ * Build an EIP-4361 message from its lines
+ */
+function buildMessage({
+  header = 'example.com wants you to sign in with your Ethereum account:',
+  address = ADDRESS,
+  statement = 'Sign in to the health records service.',
+  fields = {},
+  resources,
+} = {}) {
+  const lines = [header, address, ''];
+  if (statement !== null) {
+    lines.push(statement, '');
+  }
+
+  const allFields = {
+    URI: 'https://example.com/login',
+    Version: '1',
+    'Chain ID': '1337',
+    Nonce: 'abcdef1234567890',
+    'Issued At': '2024-01-01T00:00:00.000Z',
+    ...fields,
+  };
+  for (const [label, value] of Object.entries(allFields)) {
+    if (value !== undefined) {
+      lines.push(`${label}: ${value}`);
+    }
+  }
+
+  if (resources) {
+    lines.push('Resources:', ...resources.map((resource) => `- ${resource}`));
+  }
+
+  return lines.join('\n');
+}
+
+describe('Sign-In with Ethereum Test Suite', function () {
+  describe('📜 Message Parsing', function () {
+    before(function () {
+      console.log('\n  📝 Testing EIP-4361 message parsing...');
+    });
+
+    it('Should parse the required fields', function () {
+      const parsed = parseSiweMessage(buildMessage());
+
+      console.log(`  ✓ Parsed domain ${parsed.domain}, chain ${parsed.chainId}`);
+
+      expect(parsed.domain).to.equal('example.com');
+      expect(parsed.address).to.equal(ADDRESS);
+      expect(parsed.statement).to.equal('Sign in to the health records service.');
+      expect(parsed.uri).to.equal('https://example.com/login');
+      expect(parsed.version).to.equal('1');
+      expect(parsed.chainId).to.equal(1337);
+      expect(parsed.nonce).to.equal('abcdef1234567890');
+      expect(parsed.issuedAt).to.equal('2024-01-01T00:00:00.000Z');
+    });
+
+    it('Should parse optional fields and resources', function () {
+      const parsed = parseSiweMessage(
+        buildMessage({
+          fields: {
+            'Expiration Time': '2024-01-02T00:00:00.000Z',
+            'Not Before': '2024-01-01T00:00:00.000Z',
+            'Request ID': 'request-1',
+          },
+          resources: ['https://example.com/records/1', 'ipfs://Qm123'],
+        })
+      );
+
+      expect(parsed.expirationTime).to.equal('2024-01-02T00:00:00.000Z');
+      expect(parsed.notBefore).to.equal('2024-01-01T00:00:00.000Z');
+      expect(parsed.requestId).to.equal('request-1');
+      expect(parsed.resources).to.deep.equal(['https://example.com/records/1', 'ipfs://Qm123']);
+    });
+
+    it('Should parse a message without a statement or with CRLF line endings', function () {
+      expect(parseSiweMessage(buildMessage({ statement: null })).statement).to.be.undefined;
+      expect(parseSiweMessage(buildMessage().replace(/\n/g, '\r\n')).nonce).to.equal(
+        'abcdef1234567890'
+      );
+    });
+
+    it('Should reject a malformed header', function () {
+      expect(() => parseSiweMessage(buildMessage({ header: 'example.com wants you' }))).to.throw(
+        'Invalid SIWE message header'
+      );
+    });
+
+    it('Should reject an invalid address', function () {
+      expect(() => parseSiweMessage(buildMessage({ address: '0x1234' }))).to.throw(
+        'Invalid SIWE message address'
+      );
+    });
+
+    it('Should reject a message missing a required field', function () {
+      expect(() => parseSiweMessage(buildMessage({ fields: { Nonce: undefined } }))).to.throw(
+        'missing required fields'
+      );
+      expect(() => parseSiweMessage(buildMessage({ fields: { 'Chain ID': undefined } }))).to.throw(
+        'missing required fields'
+      );
+    });
+
+    it('Should reject other versions and short nonces', function () {
+      expect(() => parseSiweMessage(buildMessage({ fields: { Version: '2' } }))).to.throw(
+        'Unsupported SIWE message version: 2'
+      );
+      expect(() => parseSiweMessage(buildMessage({ fields: { Nonce: 'abc123' } }))).to.throw(
+        'Invalid SIWE nonce'
+      );
+    });
+
+    it('Should generate nonces the parser accepts', function () {
+      const nonce = generateSiweNonce();
+
+      expect(parseSiweMessage(buildMessage({ fields: { Nonce: nonce } })).nonce).to.equal(nonce);
+    });
+  });
+
+  describe('⏱️ Validity Window', function () {
+    const now = new Date('2024-01-01T12:00:00.000Z');
+
+    it('Should accept a message inside its window', function () {
+      const message = parseSiweMessage(
+        buildMessage({
+          fields: {
+            'Expiration Time': '2024-01-02T00:00:00.000Z',
+            'Not Before': '2024-01-01T00:00:00.000Z',
+          },
+        })
+      );
+
+      expect(isSiweMessageTimely(message, now)).to.be.true;
+    });
+
+    it('Should reject an expired or not yet valid message', function () {
+      const expired = parseSiweMessage(
+        buildMessage({ fields: { 'Expiration Time': '2024-01-01T12:00:00.000Z' } })
+      );
+      const early = parseSiweMessage(
+        buildMessage({ fields: { 'Not Before': '2024-01-01T12:00:01.000Z' } })
+      );
+
+      expect(isSiweMessageTimely(expired, now)).to.be.false;
+      expect(isSiweMessageTimely(early, now)).to.be.false;
+    });
+  });
+
+  describe('✍️ Signature Recovery', function () {
+    it('Should recover the signing wallet', async function () {
+      const wallet = ethers.Wallet.createRandom();
+      const message = buildMessage({ address: wallet.address });
+      const signature = await wallet.signMessage(message);
+
+      console.log(`  ✓ Recovered signer ${wallet.address}`);
+
+      expect(recoverSiweSigner(message, signature)).to.equal(wallet.address);
+      expect(parseSiweMessage(message).address).to.equal(wallet.address);
+    });
+  });
+});
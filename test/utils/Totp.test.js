@@ -0,0 +1,132 @@
+const { expect } = require('chai');
+
+// Load the TypeScript sources directly
+require('ts-node/register/transpile-only');
+const {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateTotp,
+  generateTotpSecret,
+  getTimeStep,
+  verifyTotp,
+} = require('../../src/utils/totp');
+
+// RFC 6238 appendix B test secret (SHA1), base32-encoded
+const RFC_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+
+describe('TOTP Utilities Test Suite', function () {
+  describe('🔤 Base32', function () {
+    before(function () {
+      console.log('\n  📝 Testing RFC 4648 base32...');
+    });
+
+    it('Should encode the RFC 4648 test vectors', function () {
+      expect(base32Encode(Buffer.from('f'))).to.equal('MY');
+      expect(base32Encode(Buffer.from('fooba'))).to.equal('MZXW6YTB');
+      expect(base32Encode(Buffer.from('foobar'))).to.equal('MZXW6YTBOI');
+    });
+
+    it('Should decode case-insensitively with optional padding', function () {
+      expect(base32Decode('MZXW6YTBOI======').toString()).to.equal('foobar');
+      expect(base32Decode('mzxw6ytboi').toString()).to.equal('foobar');
+    });
+
+    it('Should reject characters outside the alphabet', function () {
+      expect(() => base32Decode('MZXW1')).to.throw('Invalid base32 character: 1');
+    });
+
+    it('Should generate 160-bit secrets', function () {
+      const secret = generateTotpSecret();
+
+      console.log(`  ✓ Generated secret: ${secret}`);
+
+      expect(base32Decode(secret)).to.have.length(20);
+    });
+  });
+
+  describe('⏱️ RFC 6238 Codes', function () {
+    // Unix time and the low six digits of the RFC's eight-digit SHA1 codes
+    const vectors = [
+      [59, '287082'],
+      [1111111109, '081804'],
+      [1111111111, '050471'],
+      [1234567890, '005924'],
+      [2000000000, '279037'],
+      [20000000000, '353130'],
+    ];
+
+    before(function () {
+      console.log('\n  📝 Testing RFC 6238 test vectors...');
+    });
+
+    for (const [time, code] of vectors) {
+      it(`Should generate ${code} at T=${time}`, function () {
+        expect(generateTotp(RFC_SECRET, getTimeStep(time * 1000))).to.equal(code);
+      });
+    }
+
+    it('Should use 30-second time steps', function () {
+      expect(getTimeStep(0)).to.equal(0);
+      expect(getTimeStep(29999)).to.equal(0);
+      expect(getTimeStep(30000)).to.equal(1);
+    });
+  });
+
+  describe('🔁 Verification Window', function () {
+    const now = 1111111111 * 1000;
+    let step;
+
+    before(function () {
+      console.log('\n  📝 Testing drift window and matched steps...');
+      step = getTimeStep(now);
+    });
+
+    it('Should return the matched time step for replay protection', function () {
+      expect(verifyTotp(RFC_SECRET, '050471', 1, now)).to.equal(step);
+    });
+
+    it('Should accept codes one step either side by default', function () {
+      const previous = generateTotp(RFC_SECRET, step - 1);
+      const next = generateTotp(RFC_SECRET, step + 1);
+
+      console.log(`  ✓ Previous step code: ${previous}, next step code: ${next}`);
+
+      expect(verifyTotp(RFC_SECRET, previous, 1, now)).to.equal(step - 1);
+      expect(verifyTotp(RFC_SECRET, next, 1, now)).to.equal(step + 1);
+    });
+
+    it('Should reject codes outside the window', function () {
+      const stale = generateTotp(RFC_SECRET, step - 2);
+
+      expect(verifyTotp(RFC_SECRET, stale, 1, now)).to.be.null;
+      expect(verifyTotp(RFC_SECRET, stale, 2, now)).to.equal(step - 2);
+    });
+
+    it('Should only accept the current step with a zero window', function () {
+      expect(verifyTotp(RFC_SECRET, generateTotp(RFC_SECRET, step - 1), 0, now)).to.be.null;
+      expect(verifyTotp(RFC_SECRET, '050471', 0, now)).to.equal(step);
+    });
+
+    it('Should reject malformed codes', function () {
+      expect(verifyTotp(RFC_SECRET, '50471', 1, now)).to.be.null;
+      expect(verifyTotp(RFC_SECRET, '05047a', 1, now)).to.be.null;
+      expect(verifyTotp(RFC_SECRET, '0504710', 1, now)).to.be.null;
+    });
+  });
+
+  describe('📱 Enrolment URI', function () {
+    it('Should build an otpauth URI with the TOTP parameters', function () {
+      const uri = buildOtpauthUri('Health Records', 'patient@example.com', RFC_SECRET);
+
+      console.log(`  ✓ URI: ${uri}`);
+
+      expect(uri).to.match(/^otpauth:\/\/totp\/Health%20Records%3Apatient%40example\.com\?/);
+      const params = new URLSearchParams(uri.split('?')[1]);
+      expect(params.get('secret')).to.equal(RFC_SECRET);
+      expect(params.get('algorithm')).to.equal('SHA1');
+      expect(params.get('digits')).to.equal('6');
+      expect(params.get('period')).to.equal('30');
+    });
+  });
+});